@@ -1,6 +1,8 @@
 import Transformable, {TRANSFORMABLE_PROPS, TransformProp} from './core/Transformable';
 import { AnimationEasing } from './animation/easing';
 import Animator, {cloneValue} from './animation/Animator';
+import { SpringOption } from './animation/spring';
+import { getMotionPathPropNames, MotionPathOption, sampleMotionPath } from './animation/motionPath';
 import { ZRenderType } from './zrender';
 import {
     Dictionary, ElementEventName, ZRRawEvent, BuiltinTextPosition, AllPropTypes,
@@ -57,6 +59,15 @@ export interface ElementAnimateConfig {
      * If use additive animation.
      */
     additive?: boolean
+    /**
+     * Use spring physics instead of duration and easing.
+     * Velocity is kept if a running spring animation on the same property is retargeted.
+     */
+    spring?: SpringOption
+    /**
+     * Move the element along the path. It's only available in animateTo.
+     */
+    motionPath?: MotionPathOption
     /**
      * If set to final state before animation started.
      * It can be useful if something you want to calcuate depends on the final state of element.
@@ -229,6 +240,11 @@ interface ElementEventHandlerProps {
     ondragleave: ElementEventCallback<unknown, unknown>
     ondragover: ElementEventCallback<unknown, unknown>
     ondrop: ElementEventCallback<unknown, unknown>
+
+    onfocus: ElementEventCallback<unknown, unknown>
+    onblur: ElementEventCallback<unknown, unknown>
+    onkeydown: ElementEventCallback<unknown, unknown>
+    onkeyup: ElementEventCallback<unknown, unknown>
 }
 
 export interface ElementProps extends Partial<ElementEventHandlerProps>, Partial<Pick<Transformable, TransformProp>> {
@@ -240,6 +256,13 @@ export interface ElementProps extends Partial<ElementEventHandlerProps>, Partial
     silent?: boolean
 
     ignoreClip?: boolean
+
+    ariaLabel?: string
+    ariaRole?: string
+    ariaDescription?: string
+
+    focusable?: boolean
+    tabIndex?: number
     globalScaleRatio?: number
 
     textConfig?: ElementTextConfig
@@ -340,6 +363,34 @@ class Element<Props extends ElementProps = ElementProps> {
      */
     ignoreClip: boolean
 
+    /**
+     * Accessible name of the element. Read by screen readers.
+     * Element with `ariaLabel` or `ariaRole` will be exposed to the accessibility tree.
+     */
+    ariaLabel: string
+
+    /**
+     * WAI-ARIA role of the element. Default to be `img` if `ariaLabel` is given.
+     */
+    ariaRole: string
+
+    /**
+     * Longer description of the element in addition to `ariaLabel`.
+     */
+    ariaDescription: string
+
+    /**
+     * Whether it can be focused by keyboard.
+     */
+    focusable: boolean
+
+    /**
+     * Order in keyboard navigation, same with the `tabindex` of DOM.
+     * Elements with positive `tabIndex` are navigated first in ascending order,
+     * then the elements with `0` in z-order. Negative `tabIndex` is skipped.
+     */
+    tabIndex: number
+
     /**
      * If element is used as a component of other element.
      */
@@ -1625,8 +1676,11 @@ class Element<Props extends ElementProps = ElementProps> {
         elProto.draggable =
         elProto.dragging =
         elProto.ignoreClip =
+        elProto.focusable =
         elProto.__inHover = false;
 
+        elProto.tabIndex = 0;
+
         elProto.__dirty = REDRAW_BIT;
 
 
@@ -1698,6 +1752,54 @@ class Element<Props extends ElementProps = ElementProps> {
 mixin(Element, Eventful);
 mixin(Element, Transformable);
 
+function animateMotionPath<T>(
+    animatable: Element<T>,
+    cfg: ElementAnimateConfig,
+    animators: Animator<any>[]
+) {
+    const motionPath = cfg.motionPath;
+    const propNames = getMotionPathPropNames(motionPath);
+    const existsAnimators = animatable.animators;
+    if (!cfg.additive) {
+        // Stop previous animations on the position.
+        for (let i = existsAnimators.length - 1; i >= 0; i--) {
+            const animator = existsAnimators[i];
+            if (animator.targetName === '' && indexOf(animators, animator) < 0) {
+                if (animator.stopTracks(propNames)) {
+                    existsAnimators.splice(i, 1);
+                }
+            }
+        }
+    }
+    if (cfg.setToFinal) {
+        const keyframes = sampleMotionPath(motionPath);
+        const lastKf = keyframes[keyframes.length - 1];
+        for (let i = 0; i < propNames.length; i++) {
+            (animatable as any)[propNames[i]] = (lastKf as any)[propNames[i]];
+        }
+    }
+
+    // Use the animator of the top level properties if there is one.
+    let animator: Animator<any>;
+    for (let i = 0; i < animators.length; i++) {
+        if (animators[i].targetName === '') {
+            animator = animators[i];
+        }
+    }
+    if (!animator) {
+        const duration = cfg.duration;
+        animator = new Animator(animatable, false);
+        animator.targetName = '';
+        if (cfg.scope) {
+            animator.scope = cfg.scope;
+        }
+        animator.duration(duration == null ? 500 : duration).delay(cfg.delay || 0);
+        animatable.addAnimator(animator, '');
+        animators.push(animator);
+    }
+    animator.motionPath(motionPath);
+}
+
 function animateTo<T>(
     animatable: Element<T>,
     target: Dictionary<any>,
@@ -1718,6 +1820,10 @@ function animateTo<T>(
         reverse
     );
 
+    if (cfg.motionPath) {
+        animateMotionPath(animatable, cfg, animators);
+    }
+
     let finishCount = animators.length;
     let doneHappened = false;
     const cfgDone = cfg.done;
@@ -1915,6 +2021,7 @@ function animateToShallow<T>(
     }
 
     let keyLen = animationKeys.length;
+    let springVelocities: Dictionary<number>;
     // Stop previous animations on the same property.
     if (!additive && keyLen) {
         // Stop exists animation on specific tracks. Only one animator available for each property.
@@ -1922,6 +2029,16 @@ function animateToShallow<T>(
         for (let i = 0; i < existsAnimators.length; i++) {
             const animator = existsAnimators[i];
             if (animator.targetName === topKey) {
+                if (cfg.spring) {
+                    // Keep the velocity before tracks are stopped.
+                    springVelocities = springVelocities || {};
+                    for (let k = 0; k < keyLen; k++) {
+                        const velocity = animator.getVelocity(animationKeys[k]);
+                        if (velocity) {
+                            springVelocities[animationKeys[k]] = velocity;
+                        }
+                    }
+                }
                 const allAborted = animator.stopTracks(animationKeys);
                 if (allAborted) {   // This animator can't be used.
                     const idx = indexOf(existsAnimators, animator);
@@ -2005,6 +2122,10 @@ function animateToShallow<T>(
             animationKeys
         ).delay(delay || 0);
 
+        if (cfg.spring) {
+            animator.spring(cfg.spring, springVelocities);
+        }
+
         animatable.addAnimator(animator, topKey);
         animators.push(animator);
     }
@@ -7,10 +7,19 @@ import {GestureMgr} from './core/GestureMgr';
 import Displayable from './graphic/Displayable';
 import {PainterBase} from './PainterBase';
 import HandlerDomProxy, { HandlerProxyInterface } from './dom/HandlerProxy';
-import { ZRRawEvent, ZRPinchEvent, ElementEventName, ElementEventNameWithOn, ZRRawTouchEvent } from './core/types';
+import {
+    ZRRawEvent, ZRPinchEvent, ElementEventName, ElementEventNameWithOn, ZRRawTouchEvent, ZRRawKeyboardEvent, Dictionary
+} from './core/types';
 import Storage from './Storage';
 import Element, {ElementEvent} from './Element';
 import CanvasPainter from './canvas/Painter';
+import Path from './graphic/Path';
+import BoundingRect, { RectLike } from './core/BoundingRect';
+import { pathToPolygons } from './tool/convertPath';
+import * as pathContain from './contain/path';
+import {
+    Region, RegionQueryMode, createRegion, polygonsContainedByRegion, polygonsIntersectRegion
+} from './contain/region';
 
 
 /**
@@ -106,6 +115,14 @@ function stopEvent(this: ElementEvent) {
     eventTool.stop(this.event);
 }
 
+// For the events not triggered by DOM, like focus by API.
+function createEmptyEvent(): ZRRawEvent {
+    return {
+        preventDefault: util.noop,
+        stopPropagation: util.noop
+    } as unknown as ZRRawEvent;
+}
+
 class EmptyProxy extends Eventful {
     handler: Handler = null
     dispose() {}
@@ -123,13 +140,32 @@ class HoveredResult {
     }
 }
 
+export interface RegionQueryOption {
+    /**
+     * 'intersect' to find elements intersecting with the region.
+     * 'contain' to find elements fully contained by the region.
+     * Default to be 'intersect'.
+     */
+    mode?: RegionQueryMode
+    /**
+     * Use the path geometry instead of the bounding rect.
+     */
+    exact?: boolean
+    /**
+     * Silent elements are excluded by default.
+     */
+    includeSilent?: boolean
+}
+
 const handlerNames = [
     'click', 'dblclick', 'mousewheel', 'mouseout',
-    'mouseup', 'mousedown', 'mousemove', 'contextmenu'
+    'mouseup', 'mousedown', 'mousemove', 'contextmenu',
+    'keydown', 'keyup', 'focusin', 'focusout'
 ];
 
 type HandlerName = 'click' |'dblclick' |'mousewheel' |'mouseout' |
-    'mouseup' |'mousedown' |'mousemove' |'contextmenu';
+    'mouseup' |'mousedown' |'mousemove' |'contextmenu' |
+    'keydown' | 'keyup' | 'focusin' | 'focusout';
 
 // TODO draggable
 class Handler extends Eventful {
@@ -146,6 +182,8 @@ class Handler extends Eventful {
 
     private _draggingMgr: Draggable
 
+    private _focused: Element
+
     _downEl: Element
     _upEl: Element
     _downPoint: [number, number]
@@ -250,6 +288,93 @@ class Handler extends Eventful {
         this._hovered = new HoveredResult(0, 0);
     }
 
+    /**
+     * Move focus to the element. `blur` will be dispatched to the previous focused
+     * element and `focus` to the new one.
+     */
+    focus(el: Element, event?: ZRRawEvent) {
+        const prevFocused = this._focused;
+        if (el === prevFocused) {
+            return;
+        }
+        event = event || createEmptyEvent();
+        this._focused = el;
+        if (prevFocused) {
+            this.dispatchToElement({target: prevFocused, topTarget: prevFocused}, 'blur', event);
+        }
+        if (el) {
+            this.dispatchToElement({target: el, topTarget: el}, 'focus', event);
+        }
+        // Draw focus ring and sync the DOM focus.
+        const painter = this.painter;
+        painter && painter.setFocusedElement && painter.setFocusedElement(this._focused);
+    }
+
+    blur(event?: ZRRawEvent) {
+        this.focus(null, event);
+    }
+
+    getFocused() {
+        return this._focused;
+    }
+
+    /**
+     * Move focus to the next element in the tab order, or the previous one if `backward`.
+     * Focus will be cleared if reaching the end.
+     */
+    focusNext(backward?: boolean, event?: ZRRawEvent): Element {
+        const sequence = getTabSequence(this.storage.getDisplayList());
+        const len = sequence.length;
+        const idx = util.indexOf(sequence, this._focused);
+        let next: Element;
+        if (idx < 0) {
+            next = backward ? sequence[len - 1] : sequence[0];
+        }
+        else {
+            next = sequence[backward ? idx - 1 : idx + 1];
+        }
+        this.focus(next || null, event);
+        return next || null;
+    }
+
+    keydown(event: ZRRawEvent) {
+        const focused = this._focused;
+        this.dispatchToElement({target: focused, topTarget: focused}, 'keydown', event);
+
+        const keyEvent = event as ZRRawKeyboardEvent;
+        if ((keyEvent.key === 'Tab' || keyEvent.keyCode === 9)
+            // Navigation can be prevented in the keydown listeners like the browser does.
+            && !keyEvent.defaultPrevented
+        ) {
+            // Leave the default behavior to move focus out of zrender if there is no next element.
+            if (this.focusNext(keyEvent.shiftKey, event)) {
+                keyEvent.preventDefault && keyEvent.preventDefault();
+            }
+        }
+    }
+
+    keyup(event: ZRRawEvent) {
+        const focused = this._focused;
+        this.dispatchToElement({target: focused, topTarget: focused}, 'keyup', event);
+    }
+
+    /**
+     * DOM focus moved into the painter, like the node of element focused by Tab or pointer.
+     */
+    focusin(event: ZRRawEvent) {
+        const painter = this.painter;
+        const el = painter && painter.getElementByDom
+            && painter.getElementByDom((event as unknown as FocusEvent).target as Node);
+        el && this.focus(el, event);
+    }
+
+    /**
+     * DOM focus moved out of the painter.
+     */
+    focusout(event: ZRRawEvent) {
+        this.blur(event);
+    }
+
     /**
      * Dispatch event
      */
@@ -268,6 +393,7 @@ class Handler extends Eventful {
         this.storage = null;
         this.proxy = null;
         this.painter = null;
+        this._focused = null;
     }
 
     /**
@@ -335,7 +461,13 @@ class Handler extends Eventful {
     }
 
     findHover(x: number, y: number, exclude?: Displayable): HoveredResult {
-        const list = this.storage.getDisplayList();
+        const storage = this.storage;
+        let list = storage.getDisplayList();
+        const spatialIndex = storage.getSpatialIndex();
+        if (spatialIndex) {
+            // Only the elements whose paint rect contains the point.
+            list = spatialIndex.queryPoint(x, y);
+        }
         const out = new HoveredResult(x, y);
 
         for (let i = list.length - 1; i >= 0; i--) {
@@ -356,6 +488,48 @@ class Handler extends Eventful {
         return out;
     }
 
+    /**
+     * Find elements in the rect, like brush selection.
+     * Result is in the order of display list.
+     */
+    findInRect(rect: RectLike, opts?: RegionQueryOption): Displayable[] {
+        const x = rect.x;
+        const y = rect.y;
+        return this.findInPolygon([
+            [x, y], [x + rect.width, y], [x + rect.width, y + rect.height], [x, y + rect.height]
+        ], opts);
+    }
+
+    /**
+     * Find elements in the polygon, like lasso selection.
+     * Result is in the order of display list.
+     */
+    findInPolygon(points: vec2.VectorArray[], opts?: RegionQueryOption): Displayable[] {
+        opts = opts || {};
+        const storage = this.storage;
+        const region = createRegion(points);
+        const result: Displayable[] = [];
+        if (!points.length) {
+            return result;
+        }
+
+        let list = storage.getDisplayList();
+        const spatialIndex = storage.getSpatialIndex();
+        if (spatialIndex) {
+            list = spatialIndex.queryRect(new BoundingRect(
+                region.xMin, region.yMin, region.xMax - region.xMin, region.yMax - region.yMin
+            ));
+        }
+
+        for (let i = 0; i < list.length; i++) {
+            const el = list[i];
+            if (!el.ignore && !el.invisible && isInRegion(el, region, opts)) {
+                result.push(el);
+            }
+        }
+        return result;
+    }
+
     processGesture(event: ZRRawEvent, stage?: 'start' | 'end' | 'change') {
         if (!this._gestureMgr) {
             this._gestureMgr = new GestureMgr();
@@ -392,7 +566,9 @@ class Handler extends Eventful {
 }
 
 // Common handlers
-util.each(['click', 'mousedown', 'mouseup', 'mousewheel', 'dblclick', 'contextmenu'], function (name: HandlerName) {
+util.each(['click', 'mousedown', 'mouseup', 'mousewheel', 'dblclick', 'contextmenu'], function (
+    name: HandlerName & ElementEventName
+) {
     Handler.prototype[name] = function (event) {
         const x = event.zrX;
         const y = event.zrY;
@@ -435,6 +611,44 @@ util.each(['click', 'mousedown', 'mouseup', 'mousewheel', 'dblclick', 'contextme
     };
 });
 
+/**
+ * Elements in the order of keyboard navigation.
+ */
+function getTabSequence(list: Displayable[]): Element[] {
+    const positive: Element[] = [];
+    const zero: Element[] = [];
+    const visited: Dictionary<boolean> = {};
+    for (let i = 0; i < list.length; i++) {
+        if (list[i].invisible) {
+            continue;
+        }
+        // Group can also be focused, which is before its children.
+        const chain: Element[] = [];
+        let el: Element = list[i];
+        while (el) {
+            el.focusable && chain.push(el);
+            el = el.__hostTarget || el.parent;
+        }
+        for (let k = chain.length - 1; k >= 0; k--) {
+            const focusable = chain[k];
+            const tabIndex = focusable.tabIndex;
+            if (!visited[focusable.id] && tabIndex >= 0) {
+                visited[focusable.id] = true;
+                (tabIndex > 0 ? positive : zero).push(focusable);
+            }
+        }
+    }
+    // Keep the z-order if tabIndex is the same.
+    const order: Dictionary<number> = {};
+    util.each(positive, function (el, idx) {
+        order[el.id] = idx;
+    });
+    positive.sort(function (a, b) {
+        return (a.tabIndex - b.tabIndex) || (order[a.id] - order[b.id]);
+    });
+    return positive.concat(zero);
+}
+
 function isHover(displayable: Displayable, x: number, y: number) {
     if (displayable[displayable.rectHover ? 'rectContain' : 'contain'](x, y)) {
         let el: Element = displayable;
@@ -468,6 +682,105 @@ function isHover(displayable: Displayable, x: number, y: number) {
     return false;
 }
 
+function isInRegion(displayable: Displayable, region: Region, opts: RegionQueryOption) {
+    if (!opts.includeSilent) {
+        let el: Element = displayable;
+        while (el) {
+            if (el.silent) {
+                return false;
+            }
+            el = el.__hostTarget || el.parent;
+        }
+    }
+
+    const paintRect = displayable.getPaintRect();
+    if (paintRect.x > region.xMax || paintRect.x + paintRect.width < region.xMin
+        || paintRect.y > region.yMax || paintRect.y + paintRect.height < region.yMin
+    ) {
+        return false;
+    }
+
+    const mode = opts.mode || 'intersect';
+    const exact = opts.exact;
+    const clipPaths = displayable.__clipPaths || [];
+    if (mode === 'contain') {
+        if (shapeInRegion(displayable, region, mode, exact, false)) {
+            return true;
+        }
+        // Visible part is also contained if any clip path is contained.
+        for (let i = 0; i < clipPaths.length; i++) {
+            if (shapeInRegion(clipPaths[i], region, mode, exact, true)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    if (!shapeInRegion(displayable, region, mode, exact, false)) {
+        return false;
+    }
+    // Approximately, visible part intersects if all clip paths intersect.
+    for (let i = 0; i < clipPaths.length; i++) {
+        if (!shapeInRegion(clipPaths[i], region, mode, exact, true)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function shapeInRegion(
+    el: Displayable,
+    region: Region,
+    mode: RegionQueryMode,
+    exact: boolean,
+    isClipPath: boolean
+) {
+    const usePath = exact && el instanceof Path;
+    let polygons: number[][];
+    if (usePath) {
+        // Make sure path is built.
+        el.getBoundingRect();
+        polygons = pathToPolygons((el as Path).path, el.getLineScale());
+    }
+    else {
+        const rect = el.getBoundingRect();
+        polygons = [[
+            rect.x, rect.y, rect.x + rect.width, rect.y,
+            rect.x + rect.width, rect.y + rect.height, rect.x, rect.y + rect.height
+        ]];
+    }
+
+    const m = el.transform;
+    if (m) {
+        for (let i = 0; i < polygons.length; i++) {
+            const polygon = polygons[i];
+            for (let k = 0; k < polygon.length; k += 2) {
+                const x = polygon[k];
+                const y = polygon[k + 1];
+                polygon[k] = m[0] * x + m[2] * y + m[4];
+                polygon[k + 1] = m[1] * x + m[3] * y + m[5];
+            }
+        }
+    }
+
+    // Stroke only path is not closed.
+    const closed = !usePath || isClipPath || (el as Path).hasFill();
+    if (mode === 'contain') {
+        return polygonsContainedByRegion(polygons, closed, region);
+    }
+    return polygonsIntersectRegion(polygons, closed, region, function (x, y) {
+        if (!usePath) {
+            return el.rectContain(x, y);
+        }
+        if (isClipPath) {
+            // Clip path may have no fill.
+            const localPos = el.transformCoordToLocal(x, y);
+            return pathContain.contain((el as Path).path, localPos[0], localPos[1]);
+        }
+        return el.contain(x, y);
+    });
+}
+
 /**
  * See [DRAG_OUTSIDE].
  */
@@ -1,6 +1,7 @@
 import { GradientObject } from './graphic/Gradient';
 import { PatternObject } from './graphic/Pattern';
 import { Dictionary } from './core/types';
+import type Element from './Element';
 
 // interface PainterOption {
 //     width?: number | string  // Can be 10 / 10px / auto
@@ -26,6 +27,8 @@ export interface PainterBase {
     // must be given if ssr is true.
     renderToString?(): string;
 
+    toDataURL?(): string;
+
     getType: () => string
 
     getWidth(): number
@@ -37,6 +40,11 @@ export interface PainterBase {
 
     refreshHover(): void
 
+    // Show the focus of keyboard and sync the DOM focus.
+    setFocusedElement?(el: Element): void
+    // Get the focusable element of the dom in painter.
+    getElementByDom?(dom: Node): Element
+
     configLayer(zlevel: number, config: Dictionary<any>): void
     setBackgroundColor(backgroundColor: string | GradientObject | PatternObject): void
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import timsort from './core/timsort';
 import Displayable from './graphic/Displayable';
 import Path from './graphic/Path';
 import { REDRAW_BIT } from './graphic/constants';
+import SpatialGrid from './core/SpatialGrid';
 
 let invalidZErrorLogged = false;
 function logInvalidZError() {
@@ -36,6 +37,11 @@ export default class Storage {
 
     private _displayListLen = 0
 
+    // Count of focusable elements found in the last update of display list.
+    private _focusableCount = 0
+
+    private _spatialIndex: SpatialGrid
+
     traverse<T>(
         cb: (this: T, el: Element) => void,
         context?: T
@@ -69,6 +75,7 @@ export default class Storage {
      */
     updateDisplayList(includeIgnore?: boolean) {
         this._displayListLen = 0;
+        this._focusableCount = 0;
 
         const roots = this._roots;
         const displayList = this._displayList;
@@ -79,6 +86,38 @@ export default class Storage {
         displayList.length = this._displayListLen;
 
         timsort(displayList, shapeCompareFunc);
+
+        this._spatialIndex && this._spatialIndex.update(displayList);
+    }
+
+    /**
+     * Enable or disable the spatial index of displayables, which is used to speed up hit testing.
+     * Paint rects of new and dirty elements are reindexed each time the display list is updated.
+     *
+     * NOTE: Elements whose `contain` goes beyond the paint rect can't be found with the index.
+     *
+     * @param cellSize Size of grid cell in pixels. Default to be 64.
+     */
+    enableSpatialIndex(enable: boolean, cellSize?: number) {
+        if (!enable) {
+            this._spatialIndex = null;
+        }
+        else if (!this._spatialIndex || (cellSize && this._spatialIndex.cellSize !== cellSize)) {
+            this._spatialIndex = new SpatialGrid(cellSize);
+            // Index the existing elements.
+            this._displayListLen && this._spatialIndex.update(this._displayList);
+        }
+    }
+
+    getSpatialIndex(): SpatialGrid {
+        return this._spatialIndex;
+    }
+
+    /**
+     * If there are focusable elements not ignored, since the last update of display list.
+     */
+    hasFocusable() {
+        return this._focusableCount > 0;
     }
 
     private _updateAndAddDisplayable(
@@ -94,6 +133,8 @@ export default class Storage {
         el.update();
         el.afterUpdate();
 
+        el.focusable && this._focusableCount++;
+
         const userSetClipPath = el.getClipPath();
 
         if (el.ignoreClip) {
@@ -223,6 +264,7 @@ export default class Storage {
         this._roots = [];
         this._displayList = [];
         this._displayListLen = 0;
+        this._spatialIndex && this._spatialIndex.clear();
 
         return;
     }
@@ -237,6 +279,7 @@ export default class Storage {
     dispose() {
         this._displayList = null;
         this._roots = null;
+        this._spatialIndex = null;
     }
 
     displayableSortFunc = shapeCompareFunc
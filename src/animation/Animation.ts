@@ -10,6 +10,8 @@ import Eventful from '../core/Eventful';
 import requestAnimationFrame from './requestAnimationFrame';
 import Animator from './Animator';
 import Clip from './Clip';
+import { indexOf } from '../core/util';
+import type Timeline from './Timeline';
 
 export function getTime() {
     return new Date().getTime();
@@ -19,8 +21,16 @@ interface Stage {
     update?: () => void
 }
 
-interface AnimationOption {
+export interface AnimationOption {
     stage?: Stage
+    /**
+     * Time source in ms. Wall clock is used by default.
+     */
+    getTime?: () => number
+    /**
+     * Schedule the callback to the next frame. `requestAnimationFrame` is used by default.
+     */
+    scheduler?: (cb: () => void) => void
 }
 /**
  * @example
@@ -45,10 +55,16 @@ export default class Animation extends Eventful {
 
     stage: Stage
 
+    private _getTime: () => number
+
+    private _scheduler: (cb: () => void) => void
+
     // Use linked list to store clip
     private _head: Clip
     private _tail: Clip
 
+    private _timelines: Timeline[] = []
+
     private _running = false
 
     private _time = 0
@@ -63,6 +79,8 @@ export default class Animation extends Eventful {
         opts = opts || {};
 
         this.stage = opts.stage || {};
+        this._getTime = opts.getTime || getTime;
+        this._scheduler = opts.scheduler || requestAnimationFrame;
     }
 
     /**
@@ -91,7 +109,8 @@ export default class Animation extends Eventful {
     addAnimator(animator: Animator<any>) {
         animator.animation = this;
         const clip = animator.getClip();
-        if (clip) {
+        // Clip is stepped by the timeline.
+        if (clip && !animator.timeline) {
             this.addClip(clip);
         }
     }
@@ -132,9 +151,56 @@ export default class Animation extends Eventful {
         animator.animation = null;
     }
 
+    /**
+     * Add timeline, which will be stepped in each frame.
+     */
+    addTimeline(timeline: Timeline) {
+        if (timeline.animation) {
+            timeline.animation.removeTimeline(timeline);
+        }
+        this._timelines.push(timeline);
+        timeline.animation = this;
+    }
+
+    /**
+     * Remove timeline
+     */
+    removeTimeline(timeline: Timeline) {
+        const idx = indexOf(this._timelines, timeline);
+        if (idx >= 0) {
+            this._timelines.splice(idx, 1);
+        }
+        timeline.animation = null;
+    }
+
     update(notTriggerFrameAndStageUpdate?: boolean) {
-        const time = getTime() - this._pausedTime;
+        this._update(this._getTime() - this._pausedTime, notTriggerFrameAndStageUpdate);
+    }
+
+    /**
+     * Advance the time by the given ms and update once.
+     * Time is stepped exactly regardless of the time source. It's useful in tests and frame capture.
+     */
+    advance(ms: number) {
+        const time = this._time + ms;
+        const now = this._getTime();
+        // Following updates continue from the advanced time.
+        this._pausedTime = now - time;
+        if (this._paused) {
+            this._pauseStart = now;
+        }
+        this._update(time);
+    }
+
+    private _update(time: number, notTriggerFrameAndStageUpdate?: boolean) {
         const delta = time - this._time;
+
+        // Copy the list in case timeline is removed in the callback.
+        const timelines = this._timelines.slice();
+        for (let i = 0; i < timelines.length; i++) {
+            timelines[i].step(delta);
+        }
+
         let clip = this._head;
 
         while (clip) {
@@ -172,12 +238,12 @@ export default class Animation extends Eventful {
 
         function step() {
             if (self._running) {
-                requestAnimationFrame(step);
+                self._scheduler(step);
                 !self._paused && self.update();
             }
         }
 
-        requestAnimationFrame(step);
+        this._scheduler(step);
     }
 
     /**
@@ -188,8 +254,8 @@ export default class Animation extends Eventful {
             return;
         }
 
-        this._time = getTime();
-        this._pausedTime = 0;
+        // Keep the offset of paused and advanced time.
+        this._time = this._getTime() - this._pausedTime;
 
         this._startLoop();
     }
@@ -206,7 +272,7 @@ export default class Animation extends Eventful {
      */
     pause() {
         if (!this._paused) {
-            this._pauseStart = getTime();
+            this._pauseStart = this._getTime();
             this._paused = true;
         }
     }
@@ -216,7 +282,7 @@ export default class Animation extends Eventful {
      */
     resume() {
         if (this._paused) {
-            this._pausedTime += getTime() - this._pauseStart;
+            this._pausedTime += this._getTime() - this._pauseStart;
             this._paused = false;
         }
     }
@@ -234,6 +300,12 @@ export default class Animation extends Eventful {
         }
 
         this._head = this._tail = null;
+
+        const timelines = this._timelines;
+        for (let i = 0; i < timelines.length; i++) {
+            timelines[i].animation = null;
+        }
+        this._timelines = [];
     }
 
     /**
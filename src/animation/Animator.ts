@@ -4,11 +4,16 @@
 
 import Clip from './Clip';
 import * as color from '../tool/color';
-import {eqNaN, extend, isArrayLike, isFunction, isGradientObject, isNumber, isString, keys, logError, map} from '../core/util';
+import {
+    eqNaN, extend, indexOf, isArrayLike, isFunction, isGradientObject, isNumber, isString, keys, logError, map
+} from '../core/util';
 import {ArrayLike, Dictionary} from '../core/types';
 import easingFuncs, { AnimationEasing } from './easing';
 import Animation from './Animation';
+import type Timeline from './Timeline';
 import { createCubicEasingFunc } from './cubicEasing';
+import { createSpring, Spring, SpringOption } from './spring';
+import { getMotionPathPropNames, MotionPathOption, sampleMotionPath } from './motionPath';
 import { isLinearGradient, isRadialGradient } from '../svg/helper';
 
 type NumberArray = ArrayLike<number>
@@ -250,6 +255,11 @@ class Track {
     // Temporal storage for interpolated additive value.
     private _additiveValue: unknown
 
+    // Spring which drives the last keyframe segment.
+    private _spring: Spring
+
+    private _maxTime = 0
+
     // Info for run
     /**
      * Last frame
@@ -367,14 +377,62 @@ class Track {
         return kf;
     }
 
-    prepare(maxTime: number, additiveTrack?: Track) {
-        let kfs = this.keyframes;
+    /**
+     * Drive the last keyframe segment with spring.
+     * Time of the last keyframe is moved to where the spring is at rest.
+     * @param velocity Initial velocity in unit per second. Only available on number value.
+     * @return Time of the last keyframe.
+     */
+    useSpring(opts: SpringOption, velocity: number) {
+        this._sortKeyframes();
+
+        const kfs = this.keyframes;
+        const kfsLen = kfs.length;
+        if (kfsLen < 2) {
+            return kfsLen ? kfs[0].time : 0;
+        }
+        const lastKf = kfs[kfsLen - 1];
+        const prevKf = kfs[kfsLen - 2];
+        const delta = this.valType === VALUE_TYPE_NUMBER ? +lastKf.value - +prevKf.value : 0;
+        const spring = this._spring = createSpring(opts, delta ? velocity / delta : 0);
+
+        lastKf.time = prevKf.time + spring.duration;
+        lastKf.easing = null;
+        lastKf.easingFunc = function (w) {
+            return w >= 1 ? 1 : spring.position(w * spring.duration / 1000);
+        };
+        return lastKf.time;
+    }
+
+    /**
+     * Current velocity of number value in unit per second. It's zero if track is not driven by spring.
+     */
+    getVelocity() {
+        const spring = this._spring;
+        if (!spring || this._finished || this.valType !== VALUE_TYPE_NUMBER) {
+            return 0;
+        }
+        const kfs = this.keyframes;
+        const lastKf = kfs[kfs.length - 1];
+        const prevKf = kfs[kfs.length - 2];
+        const time = this._lastFrP * this._maxTime - prevKf.time;
+        return time < 0 ? 0 : spring.velocity(time / 1000) * (+lastKf.value - +prevKf.value);
+    }
+
+    private _sortKeyframes() {
         if (this._needsSort) {
             // Sort keyframe as ascending
-            kfs.sort(function (a: Keyframe, b: Keyframe) {
+            this.keyframes.sort(function (a: Keyframe, b: Keyframe) {
                 return a.time - b.time;
             });
+            this._needsSort = false;
         }
+    }
+
+    prepare(maxTime: number, additiveTrack?: Track) {
+        let kfs = this.keyframes;
+        this._sortKeyframes();
+        this._maxTime = maxTime;
 
         const valType = this.valType;
         const kfsLen = kfs.length;
@@ -635,6 +693,12 @@ export default class Animator<T> {
 
     animation?: Animation
 
+    /**
+     * Timeline which controls the time of this animator.
+     * The clip will not be stepped by the animation if it's set.
+     */
+    timeline?: Timeline
+
     targetName?: string
 
     scope?: string
@@ -680,6 +744,12 @@ export default class Animator<T> {
 
     private _clip: Clip = null
 
+    private _spring: SpringOption
+
+    private _springVelocities: Dictionary<number>
+
+    private _motionPath: MotionPathOption
+
     constructor(
         target: T,
         loop: boolean,
@@ -806,6 +876,40 @@ export default class Animator<T> {
         return this;
     }
 
+    /**
+     * Use spring physics instead of duration and easing.
+     * Each track reaches its last keyframe when the spring is at rest.
+     * @param opts
+     * @param velocities Initial velocity of each property in unit per second.
+     *  It's used to keep the velocity when the previous animation is retargeted.
+     */
+    spring(opts: SpringOption, velocities?: Dictionary<number>) {
+        this._spring = opts;
+        this._springVelocities = velocities;
+        return this;
+    }
+
+    /**
+     * Move `x`, `y` and optionally `rotation` of the target along the path at constant speed.
+     * Keyframes of these properties are replaced when animator is started.
+     */
+    motionPath(opts: MotionPathOption) {
+        this._motionPath = opts;
+        return this;
+    }
+
+    getMotionPath() {
+        return this._motionPath;
+    }
+
+    /**
+     * Current velocity of the property in unit per second.
+     */
+    getVelocity(propName: string) {
+        const track = this._tracks[propName];
+        return track ? track.getVelocity() : 0;
+    }
+
     private _doneCallback() {
         this._setTracksFinished();
         // Clear clip
@@ -844,6 +948,22 @@ export default class Animator<T> {
         }
     }
 
+    private _addMotionPathKeyframes(opts: MotionPathOption) {
+        const propNames = getMotionPathPropNames(opts);
+        const maxTime = this._maxTime || 0;
+        for (let i = 0; i < propNames.length; i++) {
+            const idx = indexOf(this._trackKeys, propNames[i]);
+            if (idx >= 0) {
+                this._trackKeys.splice(idx, 1);
+                delete this._tracks[propNames[i]];
+            }
+        }
+        const keyframes = sampleMotionPath(opts);
+        for (let i = 0; i < keyframes.length; i++) {
+            this.whenWithKeys(keyframes[i].percent * maxTime, keyframes[i], propNames);
+        }
+    }
+
     private _getAdditiveTrack(trackName: string): Track {
         let additiveTrack;
         const additiveAnimators = this._additiveAnimators;
@@ -872,6 +992,27 @@ export default class Animator<T> {
 
         const self = this;
 
+        const motionPath = this._motionPath;
+        if (motionPath) {
+            this._addMotionPathKeyframes(motionPath);
+        }
+
+        const springOpts = this._spring;
+        if (springOpts) {
+            const velocities = this._springVelocities || {};
+            let springMaxTime = 0;
+            for (let i = 0; i < this._trackKeys.length; i++) {
+                const propName = this._trackKeys[i];
+                const velocity = velocities[propName];
+                springMaxTime = Math.max(springMaxTime, this._tracks[propName].useSpring(
+                    springOpts, velocity == null ? springOpts.velocity || 0 : velocity
+                ));
+            }
+            if (springMaxTime > 0) {
+                this._maxTime = springMaxTime;
+            }
+        }
+
         const tracks: Track[] = [];
         const maxTime = this._maxTime || 0;
         for (let i = 0; i < this._trackKeys.length; i++) {
@@ -940,11 +1081,12 @@ export default class Animator<T> {
             });
             this._clip = clip;
 
-            if (this.animation) {
+            if (this.animation && !this.timeline) {
                 this.animation.addClip(clip);
             }
 
-            if (easing) {
+            // Easing is replaced by spring.
+            if (easing && !springOpts) {
                 clip.setEasing(easing);
             }
         }
@@ -973,6 +1115,16 @@ export default class Animator<T> {
 
         this._abortedCallback();
     }
+    /**
+     * Evaluate the animator at the given time in ms, delay included.
+     * It's used by the timeline and only works after the animator is started.
+     */
+    seek(time: number) {
+        const clip = this._clip;
+        if (clip) {
+            clip.setTime(time);
+        }
+    }
     /**
      * Set when animation delay starts
      * @param time 单位ms
@@ -125,6 +125,30 @@ export default class Clip {
         return false;
     }
 
+    /**
+     * Evaluate the clip at the given time, which is elapsed from the start of clip and includes the delay.
+     * Time can be moved backward. Restart and destroy callbacks are not invoked.
+     */
+    setTime(time: number) {
+        const life = this._life;
+        let elapsedTime = time - this._delay;
+        if (this.loop && elapsedTime > life) {
+            elapsedTime %= life;
+        }
+        const percent = Math.max(Math.min(elapsedTime / life, 1), 0);
+
+        const easingFunc = this.easingFunc;
+        this.onframe(easingFunc ? easingFunc(percent) : percent);
+    }
+
+    getLife() {
+        return this._life;
+    }
+
+    getDelay() {
+        return this._delay;
+    }
+
     pause() {
         this._paused = true;
     }
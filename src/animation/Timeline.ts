@@ -0,0 +1,303 @@
+/**
+ * Timeline groups animators and controls their time.
+ * It supports seeking, playback rate, reverse, alternate looping and labels.
+ */
+
+import Eventful from '../core/Eventful';
+import { Dictionary } from '../core/types';
+import { isString } from '../core/util';
+import type Animator from './Animator';
+import type Animation from './Animation';
+
+type TimelineEventDefinition = {
+    // Triggered when the playhead passes the label.
+    label: (name: string) => void
+    loop: () => void
+    end: () => void
+}
+
+export interface TimelineOption {
+    loop?: boolean
+    /**
+     * Play back and forth (yoyo) when looping.
+     */
+    alternate?: boolean
+    playbackRate?: number
+    paused?: boolean
+}
+
+interface TimelineEntry {
+    animator: Animator<any>
+    start: number
+}
+
+/**
+ * @example
+ *     const timeline = new Timeline({ loop: true, alternate: true });
+ *     timeline.add(el.animate('shape').when(1000, { x: 100 }))
+ *         .addLabel('fade')
+ *         .add(el.animate('style').when(500, { opacity: 0 }), 'fade');
+ *     zr.animation.addTimeline(timeline);
+ *     timeline.seek('fade');
+ */
+export default class Timeline extends Eventful<TimelineEventDefinition> {
+
+    animation?: Animation
+
+    loop: boolean
+
+    alternate: boolean
+
+    // Sorted by start time.
+    private _entries: TimelineEntry[] = []
+
+    private _labels: Dictionary<number> = {}
+
+    private _time = 0
+
+    private _playbackRate: number
+
+    private _reversed = false
+
+    private _paused: boolean
+
+    constructor(opts?: TimelineOption) {
+        super();
+
+        opts = opts || {};
+
+        this.loop = opts.loop || false;
+        this.alternate = opts.alternate || false;
+        this._playbackRate = opts.playbackRate == null ? 1 : opts.playbackRate;
+        this._paused = opts.paused || false;
+    }
+
+    /**
+     * Add animator at the position, which can be time in ms or name of label.
+     * Animator is appended to the end of timeline if position is not given.
+     * The animator will be started if it's not.
+     */
+    add(animator: Animator<any>, position?: number | string) {
+        const start = position == null ? this.getDuration() : this._getPositionTime(position);
+        const entries = this._entries;
+
+        animator.timeline = this;
+        // Clip will be created after started.
+        animator.start();
+        const clip = animator.getClip();
+        if (clip && clip.animation) {
+            clip.animation.removeClip(clip);
+        }
+
+        let idx = entries.length;
+        while (idx > 0 && entries[idx - 1].start > start) {
+            idx--;
+        }
+        entries.splice(idx, 0, { animator, start });
+
+        return this;
+    }
+
+    /**
+     * Remove animator from timeline. Animator will be stopped.
+     */
+    remove(animator: Animator<any>) {
+        const entries = this._entries;
+        for (let i = 0; i < entries.length; i++) {
+            if (entries[i].animator === animator) {
+                entries.splice(i, 1);
+                animator.timeline = null;
+                animator.stop();
+                break;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Remove all animators.
+     */
+    clear() {
+        const entries = this._entries;
+        this._entries = [];
+        for (let i = 0; i < entries.length; i++) {
+            entries[i].animator.timeline = null;
+            entries[i].animator.stop();
+        }
+    }
+
+    /**
+     * Add label at the time. Label is added to the end of timeline if time is not given.
+     */
+    addLabel(name: string, time?: number) {
+        this._labels[name] = time == null ? this.getDuration() : time;
+        return this;
+    }
+
+    removeLabel(name: string) {
+        delete this._labels[name];
+        return this;
+    }
+
+    getLabelTime(name: string): number {
+        return this._labels[name];
+    }
+
+    getDuration() {
+        const entries = this._entries;
+        let duration = 0;
+        for (let i = 0; i < entries.length; i++) {
+            const animator = entries[i].animator;
+            duration = Math.max(
+                duration, entries[i].start + (animator.getDelay() || 0) + animator.getMaxTime()
+            );
+        }
+        return duration;
+    }
+
+    getTime() {
+        return this._time;
+    }
+
+    /**
+     * Move the playhead to time in ms or the label. Label events are not triggered.
+     */
+    seek(position: number | string) {
+        const time = this._getPositionTime(position);
+        this._time = Math.max(Math.min(time, this.getDuration()), 0);
+        this._render();
+        return this;
+    }
+
+    setPlaybackRate(rate: number) {
+        this._playbackRate = rate;
+        return this;
+    }
+
+    getPlaybackRate() {
+        return this._playbackRate;
+    }
+
+    /**
+     * Toggle the direction of playback.
+     */
+    reverse() {
+        this._reversed = !this._reversed;
+        return this;
+    }
+
+    isReversed() {
+        return this._reversed;
+    }
+
+    play() {
+        this._paused = false;
+        // Wake up animation loop.
+        this.animation && this.animation.start();
+        return this;
+    }
+
+    pause() {
+        this._paused = true;
+        return this;
+    }
+
+    isPaused() {
+        return this._paused;
+    }
+
+    /**
+     * Move the playhead by the elapsed wall-clock time. Invoked by the animation in each frame.
+     */
+    step(deltaTime: number) {
+        if (this._paused) {
+            return;
+        }
+
+        const duration = this.getDuration();
+        const prevTime = this._time;
+        let time = prevTime + deltaTime * this._playbackRate * (this._reversed ? -1 : 1);
+        let from = prevTime;
+        let looped = false;
+        let ended = false;
+
+        if (time > duration || time < 0) {
+            const forward = time > duration;
+            const bound = forward ? duration : 0;
+            if (this.loop && duration > 0) {
+                this._triggerLabels(from, bound);
+                const overflow = Math.abs(time - bound) % duration;
+                if (this.alternate) {
+                    this._reversed = !this._reversed;
+                    time = forward ? duration - overflow : overflow;
+                    from = bound;
+                }
+                else {
+                    time = forward ? overflow : duration - overflow;
+                    from = forward ? 0 : duration;
+                }
+                looped = true;
+            }
+            else {
+                time = bound;
+                ended = true;
+            }
+        }
+
+        this._triggerLabels(from, time);
+        this._time = time;
+        this._render();
+
+        if (looped) {
+            this.trigger('loop');
+        }
+        if (ended) {
+            this._paused = true;
+            this.trigger('end');
+        }
+    }
+
+    private _getPositionTime(position: number | string) {
+        if (isString(position)) {
+            const time = this._labels[position];
+            return time == null ? this.getDuration() : time;
+        }
+        return position;
+    }
+
+    /**
+     * Trigger labels in (from, to] when playing forward, or [to, from) when playing backward.
+     */
+    private _triggerLabels(from: number, to: number) {
+        if (from === to) {
+            return;
+        }
+        const labels = this._labels;
+        for (let name in labels) {
+            if (labels.hasOwnProperty(name)) {
+                const time = labels[name];
+                if (from < to ? (time > from && time <= to) : (time < from && time >= to)) {
+                    this.trigger('label', name);
+                }
+            }
+        }
+    }
+
+    private _render() {
+        const entries = this._entries;
+        const time = this._time;
+        // Animators which are not started yet stay at the initial state.
+        // Apply them first in reversed order, so the earliest one wins if they animate the same property.
+        for (let i = entries.length - 1; i >= 0; i--) {
+            if (time < entries[i].start) {
+                entries[i].animator.seek(time - entries[i].start);
+            }
+        }
+        // Then the started ones in order, so the latest one wins.
+        for (let i = 0; i < entries.length; i++) {
+            if (time >= entries[i].start) {
+                entries[i].animator.seek(time - entries[i].start);
+            }
+        }
+    }
+}
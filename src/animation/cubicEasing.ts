@@ -1,7 +1,7 @@
 import { cubicAt, cubicRootAt } from '../core/curve';
 import { trim } from '../core/util';
 
-const regexp = /cubic-bezier\(([0-9,\.e ]+)\)/;
+const regexp = /cubic-bezier\(([0-9,\.e \-]+)\)/;
 
 export function createCubicEasingFunc(cubicEasingStr: string) {
     const cubic = cubicEasingStr && regexp.exec(cubicEasingStr);
@@ -0,0 +1,81 @@
+/**
+ * Animate position along the path by arc length.
+ */
+
+import type Path from '../graphic/Path';
+import { createPathSampler } from '../tool/pathSampler';
+
+export interface MotionPathOption {
+    /**
+     * Path in the same coordinate system as the animated element.
+     * Transform of the path itself is not applied.
+     */
+    path: Path
+    /**
+     * Rotate the element to the tangent of path.
+     */
+    autoRotate?: boolean
+    /**
+     * Range on the path in percent. Element moves backward if start is larger than end.
+     */
+    start?: number
+    end?: number
+}
+
+export interface MotionPathKeyframe {
+    // Percent of time.
+    percent: number
+    x: number
+    y: number
+    rotation: number
+}
+
+export function getMotionPathPropNames(opts: MotionPathOption) {
+    return opts.autoRotate ? ['x', 'y', 'rotation'] : ['x', 'y'];
+}
+
+/**
+ * Sample keyframes on each vertex of the flattened path, so the linear interpolation between them
+ * has constant speed.
+ */
+export function sampleMotionPath(opts: MotionPathOption): MotionPathKeyframe[] {
+    const sampler = createPathSampler(opts.path.getUpdatedPathProxy());
+    const length = sampler.length;
+    const start = (opts.start || 0) * length;
+    const end = (opts.end == null ? 1 : opts.end) * length;
+    const reversed = end < start;
+    const vertexDistances = sampler.vertexDistances;
+    const keyframes: MotionPathKeyframe[] = [];
+    let lastRotation: number;
+
+    function addKeyframe(distance: number, before: boolean) {
+        const point = sampler.sample(distance, before);
+        let rotation = -point.angle - (reversed ? Math.PI : 0);
+        // Keep rotation continuous.
+        if (lastRotation != null) {
+            rotation -= Math.round((rotation - lastRotation) / (Math.PI * 2)) * Math.PI * 2;
+        }
+        lastRotation = rotation;
+        keyframes.push({
+            percent: start === end ? 1 : Math.abs(distance - start) / Math.abs(end - start),
+            x: point.x,
+            y: point.y,
+            rotation
+        });
+    }
+
+    addKeyframe(start, reversed);
+    const len = vertexDistances.length;
+    for (let k = 0; k < len; k++) {
+        const i = reversed ? len - 1 - k : k;
+        const distance = vertexDistances[i];
+        if (reversed ? (distance < start && distance > end) : (distance > start && distance < end)) {
+            // The end vertex of subpath is followed by the start vertex of next subpath at the same distance.
+            addKeyframe(distance, vertexDistances[i + 1] === distance);
+        }
+    }
+    if (start !== end) {
+        addKeyframe(end, !reversed);
+    }
+    return keyframes;
+}
@@ -0,0 +1,95 @@
+/**
+ * Analytic solution of the damped spring.
+ * Progress moves from 0 to 1, time is in seconds and velocity is in progress per second.
+ */
+
+export interface SpringOption {
+    /**
+     * @default 100
+     */
+    stiffness?: number
+    /**
+     * @default 10
+     */
+    damping?: number
+    /**
+     * @default 1
+     */
+    mass?: number
+    /**
+     * Initial velocity in unit per second.
+     * @default 0
+     */
+    velocity?: number
+}
+
+export interface Spring {
+    position: (t: number) => number
+    velocity: (t: number) => number
+    /**
+     * Time in ms when the spring is at rest.
+     */
+    duration: number
+}
+
+const REST_DELTA = 1e-3;
+const REST_SPEED = 1e-2;
+const MAX_DURATION = 10;
+const SETTLE_STEP = 1 / 60;
+
+/**
+ * @param opts
+ * @param initialVelocity Initial velocity in progress per second.
+ */
+export function createSpring(opts: SpringOption, initialVelocity: number): Spring {
+    const stiffness = opts.stiffness == null ? 100 : opts.stiffness;
+    const damping = opts.damping == null ? 10 : opts.damping;
+    const mass = opts.mass == null ? 1 : opts.mass;
+
+    const omega0 = Math.sqrt(stiffness / mass);
+    const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+    // Displacement from the rest position.
+    const x0 = -1;
+    const v0 = initialVelocity;
+
+    let displacement: (t: number) => number;
+    let velocity: (t: number) => number;
+
+    if (zeta < 1) {
+        const omegaD = omega0 * Math.sqrt(1 - zeta * zeta);
+        const b = (v0 + zeta * omega0 * x0) / omegaD;
+        displacement = t => Math.exp(-zeta * omega0 * t)
+            * (x0 * Math.cos(omegaD * t) + b * Math.sin(omegaD * t));
+        velocity = t => Math.exp(-zeta * omega0 * t) * (
+            (b * omegaD - zeta * omega0 * x0) * Math.cos(omegaD * t)
+            - (x0 * omegaD + zeta * omega0 * b) * Math.sin(omegaD * t)
+        );
+    }
+    else if (zeta === 1) {
+        const b = v0 + omega0 * x0;
+        displacement = t => Math.exp(-omega0 * t) * (x0 + b * t);
+        velocity = t => Math.exp(-omega0 * t) * (b - omega0 * (x0 + b * t));
+    }
+    else {
+        const s = omega0 * Math.sqrt(zeta * zeta - 1);
+        const r1 = -zeta * omega0 + s;
+        const r2 = -zeta * omega0 - s;
+        const a = (v0 - r2 * x0) / (r1 - r2);
+        const b = x0 - a;
+        displacement = t => a * Math.exp(r1 * t) + b * Math.exp(r2 * t);
+        velocity = t => a * r1 * Math.exp(r1 * t) + b * r2 * Math.exp(r2 * t);
+    }
+
+    let duration = 0;
+    while (duration < MAX_DURATION && (
+        Math.abs(displacement(duration)) > REST_DELTA || Math.abs(velocity(duration)) > REST_SPEED
+    )) {
+        duration += SETTLE_STEP;
+    }
+
+    return {
+        position: t => 1 + displacement(t),
+        velocity,
+        duration: Math.round(duration * 1000)
+    };
+}
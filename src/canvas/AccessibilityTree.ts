@@ -0,0 +1,249 @@
+/**
+ * Hidden DOM tree mirroring the elements with `ariaLabel`, `ariaRole` or `focusable`.
+ *
+ * Content drawn on canvas can't be read by the screen readers or focused by
+ * keyboard. So each of these elements has a transparent node positioned over
+ * the canvas with its bounding rect, which is focusable and has the
+ * corresponding aria attributes.
+ */
+
+import Element from '../Element';
+import Displayable from '../graphic/Displayable';
+import BoundingRect from '../core/BoundingRect';
+import Eventful from '../core/Eventful';
+import { Dictionary } from '../core/types';
+import { hasAccessibility, getAriaAttrs } from '../graphic/helper/aria';
+
+type AccessibilityTreeEventDefinition = {
+    focus: (el: Element, event: FocusEvent) => void
+    blur: (el: Element, event: FocusEvent) => void
+}
+
+interface AccessibilityNode {
+    el: Element
+    dom: HTMLElement
+    rect: BoundingRect
+    updateStamp: number
+    // Last applied, to avoid unnecessary DOM operations.
+    attrs: Dictionary<string>
+    cssText: string
+}
+
+const ROOT_CSS_TEXT = [
+    'position:absolute',
+    'left:0',
+    'top:0',
+    'width:100%',
+    'height:100%',
+    'overflow:hidden',
+    'pointer-events:none',
+    'padding:0',
+    'margin:0',
+    'border-width:0'
+].join(';') + ';';
+
+const NODE_CSS_TEXT = [
+    'position:absolute',
+    'opacity:0',
+    'overflow:hidden',
+    'pointer-events:none',
+    'padding:0',
+    'margin:0',
+    'border-width:0'
+].join(';') + ';';
+
+class AccessibilityTree extends Eventful<AccessibilityTreeEventDefinition> {
+
+    /**
+     * Container of the nodes. Created lazily when there is element to be mirrored.
+     */
+    dom: HTMLElement
+
+    private _root: HTMLElement
+
+    private _nodes: Dictionary<AccessibilityNode> = {}
+
+    private _updateStamp = 0
+
+    constructor(root: HTMLElement) {
+        super();
+        this._root = root;
+    }
+
+    /**
+     * Update the tree by the display list, which should be updated already.
+     */
+    update(list: Displayable[]) {
+        const stamp = ++this._updateStamp;
+        const nodes = this._nodes;
+        const ordered: AccessibilityNode[] = [];
+        const chain: Element[] = [];
+
+        for (let i = 0; i < list.length; i++) {
+            const displayable = list[i];
+            let el: Element = displayable;
+            chain.length = 0;
+            // Group and host of text may also have accessibility props.
+            while (el) {
+                isMirrored(el) && chain.push(el);
+                el = el.__hostTarget || el.parent;
+            }
+            if (!chain.length) {
+                continue;
+            }
+            const paintRect = displayable.getPaintRect();
+            // Ancestors are before the descendants.
+            for (let k = chain.length - 1; k >= 0; k--) {
+                const node = this._getNode(chain[k]);
+                if (node.updateStamp !== stamp) {
+                    node.updateStamp = stamp;
+                    node.rect.copy(paintRect);
+                    ordered.push(node);
+                }
+                else {
+                    node.rect.union(paintRect);
+                }
+            }
+        }
+
+        for (let id in nodes) {
+            if (nodes.hasOwnProperty(id) && nodes[id].updateStamp !== stamp) {
+                this._removeNode(nodes[id]);
+            }
+        }
+
+        if (!ordered.length) {
+            return;
+        }
+
+        const container = this._getContainer();
+        for (let i = 0; i < ordered.length; i++) {
+            const node = ordered[i];
+            updateNode(node);
+            // Keep the same order with the display list, which is also the order of `Tab` navigation.
+            const current = container.childNodes[i];
+            if (current !== node.dom) {
+                container.insertBefore(node.dom, current || null);
+            }
+        }
+    }
+
+    /**
+     * Get the mirrored dom of element.
+     */
+    getElementDom(el: Element): HTMLElement {
+        const node = el && this._nodes[el.id];
+        return node ? node.dom : null;
+    }
+
+    /**
+     * Get the element mirrored by the dom.
+     */
+    getElementByDom(dom: Node): Element {
+        const nodes = this._nodes;
+        for (let id in nodes) {
+            if (nodes.hasOwnProperty(id) && nodes[id].dom === dom) {
+                return nodes[id].el;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Move the DOM focus to the mirrored dom of element, or clear it if element is null.
+     */
+    focusElement(el: Element) {
+        const dom = this.getElementDom(el);
+        const activeElement = document.activeElement as HTMLElement;
+        if (dom) {
+            activeElement !== dom && dom.focus();
+        }
+        else if (activeElement && this.dom && this.dom.contains(activeElement)) {
+            activeElement.blur();
+        }
+    }
+
+    dispose() {
+        const dom = this.dom;
+        dom && dom.parentNode && dom.parentNode.removeChild(dom);
+        this.off();
+        this._nodes = {};
+        this.dom = this._root = null;
+    }
+
+    private _getContainer() {
+        let dom = this.dom;
+        if (!dom) {
+            dom = this.dom = document.createElement('div');
+            dom.style.cssText = ROOT_CSS_TEXT;
+            this._root.appendChild(dom);
+        }
+        return dom;
+    }
+
+    private _getNode(el: Element) {
+        let node = this._nodes[el.id];
+        if (!node) {
+            const dom = document.createElement('div');
+            node = this._nodes[el.id] = {
+                el,
+                dom,
+                rect: new BoundingRect(0, 0, 0, 0),
+                updateStamp: -1,
+                attrs: {},
+                cssText: ''
+            };
+            dom.addEventListener('focus', (e) => {
+                this.trigger('focus', el, e);
+            });
+            dom.addEventListener('blur', (e) => {
+                this.trigger('blur', el, e);
+            });
+        }
+        return node;
+    }
+
+    private _removeNode(node: AccessibilityNode) {
+        const dom = node.dom;
+        // Browsers won't trigger blur when the focused dom is removed.
+        if (document.activeElement === dom) {
+            dom.blur();
+        }
+        dom.parentNode && dom.parentNode.removeChild(dom);
+        delete this._nodes[node.el.id];
+    }
+}
+
+function isMirrored(el: Element) {
+    return el.focusable || hasAccessibility(el);
+}
+
+function updateNode(node: AccessibilityNode) {
+    const dom = node.dom;
+    const rect = node.rect;
+    const el = node.el;
+    const attrs = getAriaAttrs(el);
+    const prevAttrs = node.attrs;
+    for (let key in prevAttrs) {
+        if (prevAttrs.hasOwnProperty(key) && attrs[key] == null) {
+            dom.removeAttribute(key);
+        }
+    }
+    for (let key in attrs) {
+        if (attrs.hasOwnProperty(key) && attrs[key] !== prevAttrs[key]) {
+            dom.setAttribute(key, attrs[key]);
+        }
+    }
+    node.attrs = attrs;
+
+    const cssText = NODE_CSS_TEXT
+        + 'left:' + rect.x + 'px;'
+        + 'top:' + rect.y + 'px;'
+        + 'width:' + rect.width + 'px;'
+        + 'height:' + rect.height + 'px;';
+    if (cssText !== node.cssText) {
+        dom.style.cssText = node.cssText = cssText;
+    }
+}
+
+export default AccessibilityTree;
@@ -42,6 +42,8 @@ export interface LayerConfig {
     motionBlur?: boolean
     // 在开启动态模糊的时候使用，与上一帧混合的alpha值，值越大尾迹越明显
     lastFrameAlpha?: number
+    // Draw circles, rects, lines and polylines with WebGL instancing
+    webgl?: boolean
 };
 
 export default class Layer extends Eventful {
@@ -69,6 +71,10 @@ export default class Layer extends Eventful {
      * 在开启动态模糊的时候使用，与上一帧混合的alpha值，值越大尾迹越明显
      */
     lastFrameAlpha = 0.7
+    /**
+     * Draw simple shapes with WebGL. Fallback to canvas if WebGL is not supported.
+     */
+    webgl = false
     /**
      * Layer dpr
      */
@@ -500,4 +506,9 @@ export default class Layer extends Eventful {
     ondragleave: ElementEventCallback<unknown, this>
     ondragover: ElementEventCallback<unknown, this>
     ondrop: ElementEventCallback<unknown, this>
+
+    onfocus: ElementEventCallback<unknown, this>
+    onblur: ElementEventCallback<unknown, this>
+    onkeydown: ElementEventCallback<unknown, this>
+    onkeyup: ElementEventCallback<unknown, this>
 }
\ No newline at end of file
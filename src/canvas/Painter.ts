@@ -14,8 +14,15 @@ import BoundingRect from '../core/BoundingRect';
 import { REDRAW_BIT } from '../graphic/constants';
 import { getSize } from './helper';
 import type IncrementalDisplayable from '../graphic/IncrementalDisplayable';
+import WebGLBatcher, { canBatch } from './WebGLBatcher';
+import AccessibilityTree from './AccessibilityTree';
+import Element from '../Element';
 
 const HOVER_LAYER_ZLEVEL = 1e5;
+const FOCUS_RING_COLOR = '#005fcc';
+const FOCUS_RING_WIDTH = 2;
+// Gap between the focus ring and the element.
+const FOCUS_RING_OFFSET = 2;
 const CANVAS_ZLEVEL = 314159;
 
 const EL_AFTER_INCREMENTAL_INC = 0.01;
@@ -40,6 +47,11 @@ function isLayerValid(layer: Layer) {
     return true;
 }
 
+function isSameRect(a: BoundingRect, b: BoundingRect) {
+    return a === b || !!(a && b
+        && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height);
+}
+
 function createRoot(width: number, height: number) {
     const domRoot = document.createElement('div');
 
@@ -68,6 +80,7 @@ interface CanvasPainterOption {
     width?: number | string  // Can be 10 / 10px / auto
     height?: number | string,
     useDirtyRect?: boolean
+    accessibility?: boolean
 }
 
 export default class CanvasPainter implements PainterBase {
@@ -108,6 +121,19 @@ export default class CanvasPainter implements PainterBase {
 
     private _backgroundColor: string | GradientObject | ImagePatternObject
 
+    // null if WebGL is not supported.
+    private _webglBatcher: WebGLBatcher
+
+    // null if in single canvas mode.
+    private _accessibilityTree: AccessibilityTree
+
+    private _focusedEl: Element
+
+    // Rect of the focus ring drawn last time.
+    private _focusRingRect: BoundingRect
+
+    // If tabindex of the root is set by painter.
+    private _rootFocusable = false
 
     constructor(root: HTMLElement, storage: Storage, opts: CanvasPainterOption, id: number) {
 
@@ -161,6 +187,11 @@ export default class CanvasPainter implements PainterBase {
                 this._width, this._height
             );
             root.appendChild(domRoot);
+
+            // Update of the tree walks the whole display list in each frame.
+            if (opts.accessibility) {
+                this._accessibilityTree = new AccessibilityTree(domRoot);
+            }
         }
         else {
             const rootCanvas = root as HTMLCanvasElement;
@@ -216,6 +247,14 @@ export default class CanvasPainter implements PainterBase {
         return this._domRoot;
     }
 
+    /**
+     * Get the hidden DOM tree of the elements with accessibility props.
+     * Returns null if not enabled by the `accessibility` option or in single canvas mode.
+     */
+    getAccessibilityTree() {
+        return this._accessibilityTree;
+    }
+
     getViewportRootOffset() {
         const viewportRoot = this.getViewportRoot();
         if (viewportRoot) {
@@ -240,6 +279,15 @@ export default class CanvasPainter implements PainterBase {
 
         this._paintList(list, prevList, paintAll, this._redrawId);
 
+        this._accessibilityTree && this._accessibilityTree.update(list);
+        this._updateRootFocusable();
+        // Focus ring follows the element. Only redrawn if moved.
+        if (this._focusedEl && !this._singleCanvas
+            && !isSameRect(this._getFocusRingRect(), this._focusRingRect)
+        ) {
+            this.refreshHover();
+        }
+
         // Paint custum layers
         for (let i = 0; i < zlevelList.length; i++) {
             const z = zlevelList[i];
@@ -267,6 +315,8 @@ export default class CanvasPainter implements PainterBase {
         let hoverLayer = this._hoverlayer;
         hoverLayer && hoverLayer.clear();
 
+        this._paintFocusRing();
+
         if (!len) {
             return;
         }
@@ -300,6 +350,88 @@ export default class CanvasPainter implements PainterBase {
         }
     }
 
+    private _getFocusRingRect() {
+        const el = this._focusedEl;
+        // Removed or hidden.
+        if (!el || !el.__zr || el.ignore || (el as Displayable).invisible) {
+            return null;
+        }
+        const elRect = el.getBoundingRect();
+        if (!elRect) {
+            return null;
+        }
+        const rect = elRect.clone();
+        el.transform && rect.applyTransform(el.transform);
+        return rect;
+    }
+
+    private _paintFocusRing() {
+        // Not draw the focus ring if there is no separate hover layer.
+        const rect = this._focusRingRect = this._singleCanvas ? null : this._getFocusRingRect();
+        if (!rect) {
+            return;
+        }
+
+        const hoverLayer = this._hoverlayer = this.getLayer(HOVER_LAYER_ZLEVEL);
+        const ctx = hoverLayer.ctx;
+        const dpr = hoverLayer.dpr;
+        ctx.save();
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.strokeStyle = FOCUS_RING_COLOR;
+        ctx.lineWidth = FOCUS_RING_WIDTH;
+        ctx.setLineDash && ctx.setLineDash([]);
+        const offset = FOCUS_RING_OFFSET + FOCUS_RING_WIDTH / 2;
+        ctx.strokeRect(
+            rect.x - offset,
+            rect.y - offset,
+            rect.width + offset * 2,
+            rect.height + offset * 2
+        );
+        ctx.restore();
+    }
+
+    /**
+     * Element focused by keyboard. Focus ring will be drawn on the hover layer.
+     */
+    setFocusedElement(el: Element) {
+        this._focusedEl = el;
+        this._accessibilityTree && this._accessibilityTree.focusElement(el);
+        // Not draw the focus ring if there is no separate hover layer.
+        if (!this._singleCanvas) {
+            this.refreshHover();
+        }
+    }
+
+    /**
+     * Get the element mirrored by the dom of accessibility tree.
+     */
+    getElementByDom(dom: Node): Element {
+        return this._accessibilityTree ? this._accessibilityTree.getElementByDom(dom) : null;
+    }
+
+    /**
+     * Root carries the DOM focus to receive the keyboard events
+     * if there are focusable elements but no accessibility tree.
+     */
+    private _updateRootFocusable() {
+        const root = this._domRoot;
+        const focusable = !this._accessibilityTree && this.storage.hasFocusable();
+        if (!root || !root.setAttribute || focusable === this._rootFocusable) {
+            return;
+        }
+        if (focusable) {
+            // Not override the tab index given by user.
+            if (root.getAttribute('tabindex') != null) {
+                return;
+            }
+            root.setAttribute('tabindex', '0');
+        }
+        else {
+            root.removeAttribute('tabindex');
+        }
+        this._rootFocusable = focusable;
+    }
+
     getHoverLayer() {
         return this.getLayer(HOVER_LAYER_ZLEVEL);
     }
@@ -409,6 +541,7 @@ export default class CanvasPainter implements PainterBase {
                 start = layer.__startIndex;
             }
             let i: number;
+            const batcher = layer.webgl ? this._getWebGLBatcher() : null;
             /* eslint-disable-next-line */
             const repaint = (repaintRect?: BoundingRect) => {
                 const scope: BrushScope = {
@@ -426,7 +559,14 @@ export default class CanvasPainter implements PainterBase {
                         needsRefreshHover = true;
                     }
 
-                    this._doPaintEl(el, layer, useDirtyRect, repaintRect, scope, i === layer.__endIndex - 1);
+                    if (batcher && canBatch(el)) {
+                        this._doBatchEl(el, layer, batcher, useDirtyRect, repaintRect, scope);
+                    }
+                    else {
+                        // Keep the painting order.
+                        batcher && batcher.flush(ctx, scope);
+                        this._doPaintEl(el, layer, useDirtyRect, repaintRect, scope, i === layer.__endIndex - 1);
+                    }
 
                     if (useTimer) {
                         // Date.now can be executed in 13,025,305 ops/second.
@@ -439,6 +579,8 @@ export default class CanvasPainter implements PainterBase {
                     }
                 }
 
+                batcher && batcher.flush(ctx, scope);
+
                 if (scope.prevElClipPaths) {
                     // Needs restore the state. If last drawn element is in the clipping area.
                     ctx.restore();
@@ -521,6 +663,34 @@ export default class CanvasPainter implements PainterBase {
         }
     }
 
+    private _doBatchEl(
+        el: Displayable,
+        currentLayer: Layer,
+        batcher: WebGLBatcher,
+        useDirtyRect: boolean,
+        repaintRect: BoundingRect,
+        scope: BrushScope
+    ) {
+        if (useDirtyRect) {
+            const paintRect = el.getPaintRect();
+            if (!repaintRect || paintRect && paintRect.intersect(repaintRect)) {
+                batcher.add(el, scope, currentLayer.dpr);
+                el.setPrevPaintRect(paintRect);
+            }
+        }
+        else {
+            batcher.add(el, scope, currentLayer.dpr);
+        }
+    }
+
+    private _getWebGLBatcher() {
+        if (this._webglBatcher === undefined) {
+            const batcher = new WebGLBatcher();
+            this._webglBatcher = batcher.init() ? batcher : null;
+        }
+        return this._webglBatcher;
+    }
+
     /**
      * 获取 zlevel 所在层，如果不存在则会创建一个新的层
      * @param zlevel
@@ -904,7 +1074,13 @@ export default class CanvasPainter implements PainterBase {
     dispose() {
         this.root.innerHTML = '';
 
+        this._webglBatcher && this._webglBatcher.dispose();
+        this._accessibilityTree && this._accessibilityTree.dispose();
+
         this.root =
+        this._webglBatcher =
+        this._accessibilityTree =
+        this._focusedEl =
         this.storage =
 
         this._domRoot =
@@ -0,0 +1,560 @@
+/**
+ * Draw simple shapes of a canvas layer with WebGL instancing.
+ *
+ * `Circle`, `Rect`, `Line` and `Polyline` with plain color style are collected
+ * as instances and drawn on a shared WebGL canvas. The area covered by them
+ * is then composited into the 2d context of the layer. Other elements break
+ * the batch and are drawn by the canvas brush, so the painting order is kept.
+ */
+
+import Displayable from '../graphic/Displayable';
+import Path, { PathStyleProps } from '../graphic/Path';
+import Circle from '../graphic/shape/Circle';
+import Rect from '../graphic/shape/Rect';
+import Line from '../graphic/shape/Line';
+import Polyline from '../graphic/shape/Polyline';
+import { REDRAW_BIT } from '../graphic/constants';
+import { parse as parseColor } from '../tool/color';
+import { platformApi } from '../core/platform';
+import { isString, logError } from '../core/util';
+import { BrushScope, endBrushScope } from './graphic';
+
+const mathMin = Math.min;
+const mathMax = Math.max;
+
+const TYPE_CIRCLE = 0;
+const TYPE_RECT = 1;
+const TYPE_SEGMENT = 2;
+
+const CAP_BUTT = 0;
+const CAP_ROUND = 1;
+const CAP_SQUARE = 2;
+
+const JOIN_MITER = 0;
+const JOIN_ROUND = 1;
+
+// Floats of each instance:
+// type, transform(6), shape(4), fill(4), stroke(4), lineWidth, lineCap of segment or lineJoin of rect
+const INSTANCE_SIZE = 21;
+
+const VERTEX_SHADER = [
+    'attribute vec2 aCorner;',
+    'attribute float aType;',
+    'attribute vec3 aTransform0;',
+    'attribute vec3 aTransform1;',
+    'attribute vec4 aShape;',
+    'attribute vec4 aFill;',
+    'attribute vec4 aStroke;',
+    'attribute vec2 aLine;',
+    'uniform vec2 uResolution;',
+    'varying vec2 vPos;',
+    'varying float vType;',
+    'varying vec4 vShape;',
+    'varying vec4 vFill;',
+    'varying vec4 vStroke;',
+    'varying vec2 vLine;',
+    'varying float vScale;',
+    'void main() {',
+    '    float scale = sqrt(abs(aTransform0.x * aTransform1.y - aTransform0.y * aTransform1.x));',
+    // Half line width and one pixel for anti-aliasing.
+    '    float pad = aLine.x * 0.5 + 1.0 / max(scale, 1e-6);',
+    '    vec2 pos;',
+    '    if (aType < 0.5) {',
+    '        pos = aShape.xy + (aCorner * 2.0 - 1.0) * (aShape.z + pad);',
+    '    }',
+    '    else if (aType < 1.5) {',
+    '        pos = aShape.xy - pad + aCorner * (aShape.zw + 2.0 * pad);',
+    '    }',
+    '    else {',
+    '        vec2 d = aShape.zw - aShape.xy;',
+    '        float len = length(d);',
+    '        vec2 dir = len > 0.0 ? d / len : vec2(1.0, 0.0);',
+    '        vec2 normal = vec2(-dir.y, dir.x);',
+    '        pos = aShape.xy + dir * ((len + 2.0 * pad) * aCorner.x - pad)',
+    '            + normal * (aCorner.y * 2.0 - 1.0) * pad;',
+    '    }',
+    '    vec2 px = vec2(dot(aTransform0, vec3(pos, 1.0)), dot(aTransform1, vec3(pos, 1.0)));',
+    '    vec2 clip = px / uResolution * 2.0 - 1.0;',
+    '    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);',
+    '    vPos = pos;',
+    '    vType = aType;',
+    '    vShape = aShape;',
+    '    vFill = aFill;',
+    '    vStroke = aStroke;',
+    '    vLine = aLine;',
+    '    vScale = scale;',
+    '}'
+].join('\n');
+
+const FRAGMENT_SHADER = [
+    '#ifdef GL_FRAGMENT_PRECISION_HIGH',
+    'precision highp float;',
+    '#else',
+    'precision mediump float;',
+    '#endif',
+    'varying vec2 vPos;',
+    'varying float vType;',
+    'varying vec4 vShape;',
+    'varying vec4 vFill;',
+    'varying vec4 vStroke;',
+    'varying vec2 vLine;',
+    'varying float vScale;',
+    'float boxDist(vec2 p, vec2 halfSize) {',
+    '    vec2 q = abs(p) - halfSize;',
+    '    return length(max(q, 0.0)) + min(max(q.x, q.y), 0.0);',
+    '}',
+    // Distance without rounding the outer corners.
+    'float boxMiterDist(vec2 p, vec2 halfSize) {',
+    '    vec2 q = abs(p) - halfSize;',
+    '    return max(q.x, q.y);',
+    '}',
+    'void main() {',
+    '    float hw = vLine.x * 0.5;',
+    '    vec4 fill = vec4(vFill.rgb * vFill.a, vFill.a);',
+    '    vec4 stroke = vec4(vStroke.rgb * vStroke.a, vStroke.a);',
+    '    if (vType < 1.5) {',
+    '        float d = vType < 0.5',
+    '            ? length(vPos - vShape.xy) - vShape.z',
+    '            : boxDist(vPos - vShape.xy - vShape.zw * 0.5, vShape.zw * 0.5);',
+    '        vec4 color = fill * clamp(0.5 - d * vScale, 0.0, 1.0);',
+    '        if (hw > 0.0) {',
+    '            float sd = abs(d) - hw;',
+    '            if (vType > 0.5 && vLine.y < 0.5) {',
+    // Miter join of rect. Stroke is between the expanded and the shrunk box.
+    '                vec2 halfSize = vShape.zw * 0.5;',
+    '                vec2 p = vPos - vShape.xy - halfSize;',
+    '                sd = max(boxMiterDist(p, halfSize + hw), -boxMiterDist(p, halfSize - hw));',
+    '            }',
+    '            vec4 s = stroke * clamp(0.5 - sd * vScale, 0.0, 1.0);',
+    '            color = s + color * (1.0 - s.a);',
+    '        }',
+    '        gl_FragColor = color;',
+    '    }',
+    '    else {',
+    '        vec2 ba = vShape.zw - vShape.xy;',
+    '        float len = length(ba);',
+    '        vec2 dir = len > 0.0 ? ba / len : vec2(1.0, 0.0);',
+    '        vec2 pa = vPos - vShape.xy;',
+    '        float t = dot(pa, dir);',
+    '        float d;',
+    '        if (vLine.y > 0.5 && vLine.y < 1.5) {',
+    '            d = length(pa - dir * clamp(t, 0.0, len)) - hw;',
+    '        }',
+    '        else {',
+    '            float ext = vLine.y > 1.5 ? hw : 0.0;',
+    '            float n = dot(pa, vec2(-dir.y, dir.x));',
+    '            d = boxDist(vec2(t - len * 0.5, n), vec2(len * 0.5 + ext, hw));',
+    '        }',
+    '        gl_FragColor = stroke * clamp(0.5 - d * vScale, 0.0, 1.0);',
+    '    }',
+    '}'
+].join('\n');
+
+const ATTRIBUTES: [string, number][] = [
+    ['aType', 1],
+    ['aTransform0', 3],
+    ['aTransform1', 3],
+    ['aShape', 4],
+    ['aFill', 4],
+    ['aStroke', 4],
+    ['aLine', 2]
+];
+
+function getLineCap(style: PathStyleProps) {
+    return style.lineCap === 'round' ? CAP_ROUND
+        : style.lineCap === 'square' ? CAP_SQUARE : CAP_BUTT;
+}
+
+function isPlainColor(color: PathStyleProps['fill']) {
+    return color == null || isString(color);
+}
+
+function hasColor(color: PathStyleProps['fill']) {
+    return color != null && color !== 'none';
+}
+
+function isOpaqueStroke(style: PathStyleProps) {
+    if (!hasColor(style.stroke)) {
+        return true;
+    }
+    const rgba = parseColor(style.stroke as string);
+    const opacity = style.opacity == null ? 1 : style.opacity;
+    const strokeOpacity = style.strokeOpacity == null ? 1 : style.strokeOpacity;
+    return !rgba || rgba[3] * opacity * strokeOpacity >= 1;
+}
+
+/**
+ * If the element can be drawn in batch.
+ */
+export function canBatch(el: Displayable): boolean {
+    if (!(el instanceof Circle || el instanceof Rect || el instanceof Line || el instanceof Polyline)) {
+        return false;
+    }
+    const style = (el as Path).style;
+    const lineDash = style.lineDash;
+    if (!isPlainColor(style.fill) || !isPlainColor(style.stroke)
+        // Clipping needs the 2d context.
+        || (el.__clipPaths && el.__clipPaths.length)
+        || (lineDash && lineDash !== 'solid')
+        || (style.shadowBlur || style.shadowOffsetX || style.shadowOffsetY)
+        || (style.blend && style.blend !== 'source-over')
+        || style.strokeNoScale
+        || style.strokeFirst
+    ) {
+        return false;
+    }
+    if (el instanceof Rect) {
+        // Only miter and round joins are drawn. Miter of right angle falls back to bevel if limit is below sqrt(2).
+        return !el.shape.r && (
+            !hasColor(style.stroke) || style.lineJoin === 'round'
+            || (style.lineJoin !== 'bevel' && !(style.miterLimit < Math.SQRT2))
+        );
+    }
+    if (el instanceof Polyline) {
+        const shape = el.shape;
+        const points = shape.points;
+        // Joins are drawn as caps, which is only close enough for round join or thin lines.
+        // Segments overlap at the joins, which doubles the alpha of translucent stroke.
+        return !shape.smooth && (shape.percent == null || shape.percent === 1)
+            && (style.lineJoin === 'round' || style.lineWidth <= 2)
+            && (!points || points.length <= 2 || isOpaqueStroke(style));
+    }
+    return true;
+}
+
+export default class WebGLBatcher {
+
+    private _canvas: HTMLCanvasElement
+
+    private _gl: WebGLRenderingContext
+
+    private _ext: ANGLE_instanced_arrays
+
+    private _program: WebGLProgram
+
+    private _instanceBuffer: WebGLBuffer
+
+    private _data = new Float32Array(INSTANCE_SIZE * 256)
+
+    private _count = 0
+
+    private _fill = [0, 0, 0, 0]
+    private _stroke = [0, 0, 0, 0]
+
+    // Pixel bounding rect of the batched instances: minX, minY, maxX, maxY
+    private _bounds = [Infinity, Infinity, -Infinity, -Infinity]
+
+    /**
+     * Create the WebGL context. Returns false if WebGL or instancing is not supported.
+     */
+    init(): boolean {
+        const canvas = platformApi.createCanvas();
+        const gl = canvas && canvas.getContext && canvas.getContext('webgl', {
+            alpha: true,
+            premultipliedAlpha: true,
+            antialias: false,
+            preserveDrawingBuffer: true
+        }) as WebGLRenderingContext;
+        const ext = gl && gl.getExtension('ANGLE_instanced_arrays');
+        if (!ext) {
+            return false;
+        }
+        const program = createProgram(gl);
+        if (!program) {
+            return false;
+        }
+
+        this._canvas = canvas;
+        this._gl = gl;
+        this._ext = ext;
+        this._program = program;
+
+        gl.useProgram(program);
+
+        const cornerBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+        const cornerLoc = gl.getAttribLocation(program, 'aCorner');
+        gl.enableVertexAttribArray(cornerLoc);
+        gl.vertexAttribPointer(cornerLoc, 2, gl.FLOAT, false, 0, 0);
+
+        this._instanceBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this._instanceBuffer);
+        let offset = 0;
+        for (let i = 0; i < ATTRIBUTES.length; i++) {
+            const loc = gl.getAttribLocation(program, ATTRIBUTES[i][0]);
+            const size = ATTRIBUTES[i][1];
+            gl.enableVertexAttribArray(loc);
+            gl.vertexAttribPointer(loc, size, gl.FLOAT, false, INSTANCE_SIZE * 4, offset * 4);
+            ext.vertexAttribDivisorANGLE(loc, 1);
+            offset += size;
+        }
+
+        // Only the area covered by the instances is cleared and composited.
+        gl.enable(gl.SCISSOR_TEST);
+        gl.enable(gl.BLEND);
+        // Premultiplied source-over.
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        return true;
+    }
+
+    /**
+     * Add element to the batch. Element should be checked with `canBatch` first.
+     */
+    add(el: Displayable, scope: BrushScope, dpr: number) {
+        if (!el.shouldBePainted(scope.viewWidth, scope.viewHeight, false, false)) {
+            el.__dirty &= ~REDRAW_BIT;
+            el.__isRendered = false;
+            return;
+        }
+
+        el.beforeBrush && el.beforeBrush();
+        el.innerBeforeBrush();
+
+        const style = (el as Path).style;
+        const opacity = style.opacity == null ? 1 : style.opacity;
+        const fill = this._fill;
+        const stroke = this._stroke;
+        const hasFill = hasColor(style.fill);
+        const hasStroke = hasColor(style.stroke) && style.lineWidth > 0;
+        const fillOpacity = style.fillOpacity == null ? 1 : style.fillOpacity;
+        const strokeOpacity = style.strokeOpacity == null ? 1 : style.strokeOpacity;
+        toColor(hasFill ? style.fill as string : null, opacity * fillOpacity, fill);
+        toColor(hasStroke ? style.stroke as string : null, opacity * strokeOpacity, stroke);
+        const lineWidth = hasStroke ? style.lineWidth : 0;
+        const lineCap = getLineCap(style);
+
+        if (el instanceof Circle) {
+            const shape = el.shape;
+            this._addInstance(el, dpr, TYPE_CIRCLE, shape.cx, shape.cy, shape.r, 0, lineWidth, lineCap);
+        }
+        else if (el instanceof Rect) {
+            const shape = el.shape;
+            let x = shape.x;
+            let y = shape.y;
+            let width = shape.width;
+            let height = shape.height;
+            if (width < 0) {
+                x += width;
+                width = -width;
+            }
+            if (height < 0) {
+                y += height;
+                height = -height;
+            }
+            const lineJoin = style.lineJoin === 'round' ? JOIN_ROUND : JOIN_MITER;
+            this._addInstance(el, dpr, TYPE_RECT, x, y, width, height, lineWidth, lineJoin);
+        }
+        else if (el instanceof Line) {
+            const shape = el.shape;
+            const percent = shape.percent;
+            if (lineWidth && percent !== 0) {
+                this._addInstance(
+                    el, dpr, TYPE_SEGMENT, shape.x1, shape.y1,
+                    shape.x1 + (shape.x2 - shape.x1) * percent, shape.y1 + (shape.y2 - shape.y1) * percent,
+                    lineWidth, lineCap
+                );
+            }
+        }
+        else if (el instanceof Polyline) {
+            const points = el.shape.points;
+            if (lineWidth && points) {
+                // Round join is drawn as round caps. Other joins of thin lines are omitted.
+                const joinCap = style.lineJoin === 'round' ? CAP_ROUND : CAP_BUTT;
+                for (let i = 1; i < points.length; i++) {
+                    this._addInstance(
+                        el, dpr, TYPE_SEGMENT,
+                        points[i - 1][0], points[i - 1][1], points[i][0], points[i][1],
+                        lineWidth, i === 1 || i === points.length - 1 ? lineCap : joinCap
+                    );
+                }
+            }
+        }
+
+        el.innerAfterBrush();
+        el.afterBrush && el.afterBrush();
+
+        el.__dirty = 0;
+        el.__isRendered = true;
+    }
+
+    private _addInstance(
+        el: Displayable, dpr: number, type: number,
+        s0: number, s1: number, s2: number, s3: number,
+        lineWidth: number, lineCapOrJoin: number
+    ) {
+        let data = this._data;
+        const offset = this._count * INSTANCE_SIZE;
+        if (offset + INSTANCE_SIZE > data.length) {
+            const newData = new Float32Array(data.length * 2);
+            newData.set(data);
+            data = this._data = newData;
+        }
+        const m = el.transform;
+        const fill = this._fill;
+        const stroke = this._stroke;
+        data[offset] = type;
+        data[offset + 1] = m ? m[0] * dpr : dpr;
+        data[offset + 2] = m ? m[2] * dpr : 0;
+        data[offset + 3] = m ? m[4] * dpr : 0;
+        data[offset + 4] = m ? m[1] * dpr : 0;
+        data[offset + 5] = m ? m[3] * dpr : dpr;
+        data[offset + 6] = m ? m[5] * dpr : 0;
+        data[offset + 7] = s0;
+        data[offset + 8] = s1;
+        data[offset + 9] = s2;
+        data[offset + 10] = s3;
+        for (let i = 0; i < 4; i++) {
+            data[offset + 11 + i] = fill[i];
+            data[offset + 15 + i] = stroke[i];
+        }
+        data[offset + 19] = lineWidth;
+        data[offset + 20] = lineCapOrJoin;
+        this._count++;
+
+        // Local bounding rect, expanded by line width to contain the caps and joins.
+        let x0;
+        let y0;
+        let x1;
+        let y1;
+        if (type === TYPE_CIRCLE) {
+            x0 = s0 - s2;
+            y0 = s1 - s2;
+            x1 = s0 + s2;
+            y1 = s1 + s2;
+        }
+        else if (type === TYPE_RECT) {
+            x0 = s0;
+            y0 = s1;
+            x1 = s0 + s2;
+            y1 = s1 + s3;
+        }
+        else {
+            x0 = mathMin(s0, s2);
+            y0 = mathMin(s1, s3);
+            x1 = mathMax(s0, s2);
+            y1 = mathMax(s1, s3);
+        }
+        x0 -= lineWidth;
+        y0 -= lineWidth;
+        x1 += lineWidth;
+        y1 += lineWidth;
+        const bounds = this._bounds;
+        for (let i = 0; i < 4; i++) {
+            const x = i & 1 ? x1 : x0;
+            const y = i & 2 ? y1 : y0;
+            const px = data[offset + 1] * x + data[offset + 2] * y + data[offset + 3];
+            const py = data[offset + 4] * x + data[offset + 5] * y + data[offset + 6];
+            bounds[0] = mathMin(bounds[0], px);
+            bounds[1] = mathMin(bounds[1], py);
+            bounds[2] = mathMax(bounds[2], px);
+            bounds[3] = mathMax(bounds[3], py);
+        }
+    }
+
+    /**
+     * Draw the batched instances and composite the result into the 2d context.
+     */
+    flush(ctx: CanvasRenderingContext2D, scope: BrushScope) {
+        const count = this._count;
+        if (!count) {
+            return;
+        }
+        this._count = 0;
+
+        const gl = this._gl;
+        const canvas = this._canvas;
+        const targetCanvas = ctx.canvas;
+        const width = targetCanvas.width;
+        const height = targetCanvas.height;
+        if (canvas.width !== width || canvas.height !== height) {
+            canvas.width = width;
+            canvas.height = height;
+        }
+
+        const bounds = this._bounds;
+        // One more pixel for anti-aliasing.
+        const x = mathMax(Math.floor(bounds[0]) - 1, 0);
+        const y = mathMax(Math.floor(bounds[1]) - 1, 0);
+        const w = mathMin(Math.ceil(bounds[2]) + 1, width) - x;
+        const h = mathMin(Math.ceil(bounds[3]) + 1, height) - y;
+        bounds[0] = bounds[1] = Infinity;
+        bounds[2] = bounds[3] = -Infinity;
+        if (!(w > 0 && h > 0)) {
+            return;
+        }
+
+        gl.viewport(0, 0, width, height);
+        // Origin of scissor is at the bottom left.
+        gl.scissor(x, height - y - h, w, h);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.uniform2f(gl.getUniformLocation(this._program, 'uResolution'), width, height);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this._instanceBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, this._data.subarray(0, count * INSTANCE_SIZE), gl.STREAM_DRAW);
+        this._ext.drawArraysInstancedANGLE(gl.TRIANGLE_STRIP, 0, 4, count);
+
+        // Flush the pending path and clipping of brush before compositing.
+        endBrushScope(ctx, scope);
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.shadowBlur = 0;
+        ctx.drawImage(canvas, x, y, w, h, x, y, w, h);
+        ctx.restore();
+    }
+
+    dispose() {
+        const gl = this._gl;
+        if (gl) {
+            const loseContext = gl.getExtension('WEBGL_lose_context');
+            loseContext && loseContext.loseContext();
+        }
+        this._gl = this._ext = this._canvas = null;
+    }
+}
+
+function toColor(color: string, opacity: number, out: number[]) {
+    const rgba = color && parseColor(color);
+    if (!rgba) {
+        out[0] = out[1] = out[2] = out[3] = 0;
+        return;
+    }
+    out[0] = rgba[0] / 255;
+    out[1] = rgba[1] / 255;
+    out[2] = rgba[2] / 255;
+    out[3] = rgba[3] * opacity;
+}
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string) {
+    const shader = gl.createShader(type);
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        if (process.env.NODE_ENV !== 'production') {
+            logError(gl.getShaderInfoLog(shader));
+        }
+        return null;
+    }
+    return shader;
+}
+
+function createProgram(gl: WebGLRenderingContext) {
+    const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    if (!vertexShader || !fragmentShader) {
+        return null;
+    }
+    const program = gl.createProgram();
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        if (process.env.NODE_ENV !== 'production') {
+            logError(gl.getProgramInfoLog(program));
+        }
+        return null;
+    }
+    return program;
+}
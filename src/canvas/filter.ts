@@ -0,0 +1,188 @@
+/**
+ * Apply the filters on pixels, for the canvas not supporting `ctx.filter`.
+ * Results are close to but not exactly the same as the native implementation.
+ */
+
+import { FilterItem } from '../graphic/helper/filter';
+import { parse } from '../tool/color';
+
+type ColorMatrix = number[];
+
+// https://www.w3.org/TR/filter-effects-1/#feColorMatrixElement
+function getSaturateMatrix(s: number): ColorMatrix {
+    return [
+        0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0,
+        0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0,
+        0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0
+    ];
+}
+
+function getHueRotateMatrix(deg: number): ColorMatrix {
+    const rad = deg * Math.PI / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283, 0,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0
+    ];
+}
+
+function getLinearMatrix(slope: number, intercept: number): ColorMatrix {
+    return [
+        slope, 0, 0, intercept,
+        0, slope, 0, intercept,
+        0, 0, slope, intercept
+    ];
+}
+
+function getColorMatrix(item: FilterItem): ColorMatrix {
+    const val = item.value;
+    switch (item.type) {
+        case 'brightness':
+            return getLinearMatrix(val, 0);
+        case 'contrast':
+            return getLinearMatrix(val, 0.5 - 0.5 * val);
+        case 'grayscale':
+            return getSaturateMatrix(1 - val);
+        case 'saturate':
+            return getSaturateMatrix(val);
+        case 'hue-rotate':
+            return getHueRotateMatrix(val);
+    }
+}
+
+function clamp01(val: number) {
+    return val < 0 ? 0 : val > 1 ? 1 : val;
+}
+
+/**
+ * Pixels are premultiplied, in [0, 1]. Matrix is applied on the unpremultiplied colors.
+ */
+function applyColorMatrix(data: Float32Array, m: ColorMatrix) {
+    for (let i = 0; i < data.length; i += 4) {
+        const a = data[i + 3];
+        if (!a) {
+            continue;
+        }
+        const r = data[i] / a;
+        const g = data[i + 1] / a;
+        const b = data[i + 2] / a;
+        data[i] = clamp01(m[0] * r + m[1] * g + m[2] * b + m[3]) * a;
+        data[i + 1] = clamp01(m[4] * r + m[5] * g + m[6] * b + m[7]) * a;
+        data[i + 2] = clamp01(m[8] * r + m[9] * g + m[10] * b + m[11]) * a;
+    }
+}
+
+function boxBlurLine(
+    src: Float32Array, dest: Float32Array,
+    start: number, stride: number, count: number, radius: number
+) {
+    const size = radius * 2 + 1;
+    for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        // Pixels outside are transparent.
+        for (let k = 0; k <= radius && k < count; k++) {
+            sum += src[start + k * stride + c];
+        }
+        for (let k = 0; k < count; k++) {
+            dest[start + k * stride + c] = sum / size;
+            const add = k + radius + 1;
+            const remove = k - radius;
+            add < count && (sum += src[start + add * stride + c]);
+            remove >= 0 && (sum -= src[start + remove * stride + c]);
+        }
+    }
+}
+
+/**
+ * Gaussian blur approximated by three box blurs.
+ * https://www.w3.org/TR/filter-effects-1/#feGaussianBlurElement
+ */
+function gaussianBlur(data: Float32Array, width: number, height: number, sigma: number) {
+    const radius = Math.floor(Math.floor(sigma * 3 * Math.sqrt(2 * Math.PI) / 4 + 0.5) / 2);
+    if (radius < 1) {
+        return;
+    }
+    const tmp = new Float32Array(data.length);
+    for (let pass = 0; pass < 3; pass++) {
+        for (let y = 0; y < height; y++) {
+            boxBlurLine(data, tmp, y * width * 4, 4, width, radius);
+        }
+        for (let x = 0; x < width; x++) {
+            boxBlurLine(tmp, data, x * 4, width * 4, height, radius);
+        }
+    }
+}
+
+function dropShadow(data: Float32Array, width: number, height: number, item: FilterItem, dpr: number) {
+    const color = parse(item.color) || [0, 0, 0, 1];
+    const shadow = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const a = data[i + 3] * color[3];
+        shadow[i] = color[0] / 255 * a;
+        shadow[i + 1] = color[1] / 255 * a;
+        shadow[i + 2] = color[2] / 255 * a;
+        shadow[i + 3] = a;
+    }
+    // Blur radius is twice of the standard deviation, same as shadowBlur.
+    gaussianBlur(shadow, width, height, item.value / 2 * dpr);
+
+    const dx = Math.round(item.offsetX * dpr);
+    const dy = Math.round(item.offsetY * dpr);
+    for (let y = 0; y < height; y++) {
+        const sy = y - dy;
+        for (let x = 0; x < width; x++) {
+            const sx = x - dx;
+            if (sx < 0 || sx >= width || sy < 0 || sy >= height) {
+                continue;
+            }
+            const i = (y * width + x) * 4;
+            const si = (sy * width + sx) * 4;
+            // Source over the shadow.
+            const t = 1 - data[i + 3];
+            for (let c = 0; c < 4; c++) {
+                data[i + c] += shadow[si + c] * t;
+            }
+        }
+    }
+}
+
+/**
+ * Apply filters on the image data in place.
+ * @param dpr Lengths in filters are multiplied by dpr.
+ */
+export function applyFilterToImageData(imageData: ImageData, items: FilterItem[], dpr: number) {
+    const pixels = imageData.data;
+    const width = imageData.width;
+    const height = imageData.height;
+    const data = new Float32Array(pixels.length);
+    for (let i = 0; i < pixels.length; i += 4) {
+        const a = pixels[i + 3] / 255;
+        data[i] = pixels[i] / 255 * a;
+        data[i + 1] = pixels[i + 1] / 255 * a;
+        data[i + 2] = pixels[i + 2] / 255 * a;
+        data[i + 3] = a;
+    }
+
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (item.type === 'blur') {
+            gaussianBlur(data, width, height, item.value * dpr);
+        }
+        else if (item.type === 'drop-shadow') {
+            dropShadow(data, width, height, item, dpr);
+        }
+        else {
+            applyColorMatrix(data, getColorMatrix(item));
+        }
+    }
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        const a = data[i + 3];
+        pixels[i + 3] = Math.round(clamp01(a) * 255);
+        for (let c = 0; c < 3; c++) {
+            pixels[i + c] = a > 0 ? Math.round(clamp01(data[i + c] / a) * 255) : 0;
+        }
+    }
+}
@@ -1,21 +1,29 @@
 import Displayable, { DEFAULT_COMMON_STYLE } from '../graphic/Displayable';
 import PathProxy from '../core/PathProxy';
 import { GradientObject } from '../graphic/Gradient';
-import { ImagePatternObject, InnerImagePatternObject } from '../graphic/Pattern';
+import {
+    ImagePatternObject, InnerImagePatternObject, ElementPatternObject, InnerElementPatternObject
+} from '../graphic/Pattern';
 import { LinearGradientObject } from '../graphic/LinearGradient';
 import { RadialGradientObject } from '../graphic/RadialGradient';
-import { ZRCanvasRenderingContext } from '../core/types';
+import { ZRCanvasRenderingContext, TextAlign } from '../core/types';
 import { createOrUpdateImage, isImageReady } from '../graphic/helper/image';
 import { getCanvasGradient, isClipPathChanged } from './helper';
 import Path, { PathStyleProps } from '../graphic/Path';
 import ZRImage, { ImageStyleProps } from '../graphic/Image';
 import TSpan, {TSpanStyleProps} from '../graphic/TSpan';
+import TextPath from '../graphic/TextPath';
 import { MatrixArray } from '../core/matrix';
 import { RADIAN_TO_DEGREE } from '../core/util';
 import { getLineDash } from './dashStyle';
 import { REDRAW_BIT, SHAPE_CHANGED_BIT } from '../graphic/constants';
 import type IncrementalDisplayable from '../graphic/IncrementalDisplayable';
-import { DEFAULT_FONT } from '../core/platform';
+import { DEFAULT_FONT, platformApi } from '../core/platform';
+import { parseFilter, getCanvasFilter } from '../graphic/helper/filter';
+import { applyFilterToImageData } from './filter';
+import { getVerticalTextRuns } from '../graphic/helper/verticalText';
+import { adjustTextX } from '../contain/text';
+import { isElementPattern, getElementPatternDisplayList } from '../graphic/helper/elementPattern';
 
 const pathProxyForDraw = new PathProxy(true);
 
@@ -63,12 +71,70 @@ function doStrokePath(ctx: CanvasRenderingContext2D, style: PathStyleProps) {
     }
 }
 
+/**
+ * Render the elements of pattern to a canvas in the dpr of context.
+ * The tile is rendered again if the dpr changed or the images in it are not loaded.
+ */
+function renderElementPattern(
+    ctx: CanvasRenderingContext2D,
+    pattern: InnerElementPatternObject,
+    el: {dirty: () => void}
+): ImagePatternObject {
+    const dpr = (ctx as ZRCanvasRenderingContext).dpr || 1;
+    const width = pattern.elementWidth;
+    const height = pattern.elementHeight;
+    if (pattern.__dpr !== dpr) {
+        const canvas = pattern.__image || platformApi.createCanvas();
+        const tileCtx = canvas && canvas.getContext('2d') as ZRCanvasRenderingContext;
+        if (!tileCtx) {
+            return;
+        }
+        const list = getElementPatternDisplayList(pattern);
+        let imagesReady = true;
+        for (let i = 0; i < list.length; i++) {
+            if (list[i] instanceof ZRImage) {
+                // Element painted with the pattern is dirty when the image is loaded.
+                const image = createOrUpdateImage((list[i] as ZRImage).style.image, null, el);
+                imagesReady = imagesReady && !!isImageReady(image);
+            }
+        }
+        canvas.width = Math.ceil(width * dpr);
+        canvas.height = Math.ceil(height * dpr);
+        tileCtx.dpr = dpr;
+        const scope: BrushScope = { inHover: false, viewWidth: width, viewHeight: height };
+        for (let i = 0; i < list.length; i++) {
+            brush(tileCtx, list[i], scope, i === list.length - 1);
+        }
+        endBrushScope(tileCtx, scope);
+        pattern.__image = canvas;
+        pattern.__dpr = imagesReady ? dpr : null;
+    }
+    return {
+        image: pattern.__image,
+        repeat: 'repeat',
+        x: pattern.x,
+        y: pattern.y,
+        rotation: pattern.rotation,
+        scaleX: pattern.scaleX,
+        scaleY: pattern.scaleY,
+        // Scaled back to the tile size.
+        imageWidth: width,
+        imageHeight: height
+    };
+}
+
 export function createCanvasPattern(
     this: void,
     ctx: CanvasRenderingContext2D,
-    pattern: ImagePatternObject,
+    pattern: ImagePatternObject | ElementPatternObject,
     el: {dirty: () => void}
 ): CanvasPattern {
+    if (isElementPattern(pattern)) {
+        pattern = renderElementPattern(ctx, pattern, el);
+        if (!pattern) {
+            return;
+        }
+    }
     const image = createOrUpdateImage(pattern.image, (pattern as InnerImagePatternObject).__image, el);
     if (isImageReady(image)) {
         const canvasPattern = ctx.createPattern(image, pattern.repeat || 'repeat');
@@ -81,6 +147,10 @@ export function createCanvasPattern(
             matrix.translateSelf((pattern.x || 0), (pattern.y || 0));
             matrix.rotateSelf(0, 0, (pattern.rotation || 0) * RADIAN_TO_DEGREE);
             matrix.scaleSelf((pattern.scaleX || 1), (pattern.scaleY || 1));
+            // Scale image to the given size.
+            if (pattern.imageWidth && pattern.imageHeight && image.width && image.height) {
+                matrix.scaleSelf(pattern.imageWidth / image.width, pattern.imageHeight / image.height);
+            }
             canvasPattern.setTransform(matrix);
         }
         return canvasPattern;
@@ -113,8 +183,8 @@ function brushPath(ctx: CanvasRenderingContext2D, el: Path, style: PathStyleProp
 
         const hasFillGradient = hasFill && !!(fill as GradientObject).colorStops;
         const hasStrokeGradient = hasStroke && !!(stroke as GradientObject).colorStops;
-        const hasFillPattern = hasFill && !!(fill as ImagePatternObject).image;
-        const hasStrokePattern = hasStroke && !!(stroke as ImagePatternObject).image;
+        const hasFillPattern = hasFill && (!!(fill as ImagePatternObject).image || isElementPattern(fill));
+        const hasStrokePattern = hasStroke && (!!(stroke as ImagePatternObject).image || isElementPattern(stroke));
 
         let fillGradient;
         let strokeGradient;
@@ -304,6 +374,53 @@ function brushImage(ctx: CanvasRenderingContext2D, el: ZRImage, style: ImageStyl
     }
 }
 
+function doFillStrokeText(ctx: CanvasRenderingContext2D, style: TSpanStyleProps, text: string, x: number, y: number) {
+    if (style.strokeFirst) {
+        if (styleHasStroke(style)) {
+            ctx.strokeText(text, x, y);
+        }
+        if (styleHasFill(style)) {
+            ctx.fillText(text, x, y);
+        }
+    }
+    else {
+        if (styleHasFill(style)) {
+            ctx.fillText(text, x, y);
+        }
+        if (styleHasStroke(style)) {
+            ctx.strokeText(text, x, y);
+        }
+    }
+}
+
+function brushVerticalText(ctx: CanvasRenderingContext2D, style: TSpanStyleProps, text: string) {
+    const runs = getVerticalTextRuns(text, style.font || DEFAULT_FONT);
+    let length = 0;
+    for (let i = 0; i < runs.length; i++) {
+        length += runs[i].advance;
+    }
+    const x = style.x;
+    let y = adjustTextX(style.y, length, style.textAlign as TextAlign);
+    // Glyphs are centered in the column.
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let i = 0; i < runs.length; i++) {
+        const run = runs[i];
+        const cy = y + run.advance / 2;
+        if (run.upright) {
+            doFillStrokeText(ctx, style, run.text, x, cy);
+        }
+        else {
+            ctx.save();
+            ctx.translate(x, cy);
+            ctx.rotate(Math.PI / 2);
+            doFillStrokeText(ctx, style, run.text, 0, 0);
+            ctx.restore();
+        }
+        y += run.advance;
+    }
+}
+
 // Draw Text Elements
 function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStyleProps) {
 
@@ -315,6 +432,10 @@ function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStylePr
         ctx.font = style.font || DEFAULT_FONT;
         ctx.textAlign = style.textAlign;
         ctx.textBaseline = style.textBaseline;
+        // Not supported in some environments.
+        if ('direction' in ctx) {
+            ctx.direction = style.direction || 'inherit';
+        }
 
         let lineDash;
         let lineDashOffset;
@@ -327,21 +448,24 @@ function brushText(ctx: CanvasRenderingContext2D, el: TSpan, style: TSpanStylePr
             ctx.lineDashOffset = lineDashOffset;
         }
 
-        if (style.strokeFirst) {
-            if (styleHasStroke(style)) {
-                ctx.strokeText(text, style.x, style.y);
-            }
-            if (styleHasFill(style)) {
-                ctx.fillText(text, style.x, style.y);
+        if (el instanceof TextPath) {
+            const glyphs = el.getGlyphs();
+            // Each glyph is centered on the path.
+            ctx.textAlign = 'center';
+            for (let i = 0; i < glyphs.length; i++) {
+                const glyph = glyphs[i];
+                ctx.save();
+                ctx.translate(glyph.x, glyph.y);
+                ctx.rotate(glyph.rotation);
+                doFillStrokeText(ctx, style, glyph.text, 0, 0);
+                ctx.restore();
             }
         }
+        else if (style.writingMode === 'vertical') {
+            brushVerticalText(ctx, style, text);
+        }
         else {
-            if (styleHasFill(style)) {
-                ctx.fillText(text, style.x, style.y);
-            }
-            if (styleHasStroke(style)) {
-                ctx.strokeText(text, style.x, style.y);
-            }
+            doFillStrokeText(ctx, style, text, style.x, style.y);
         }
 
         if (lineDash) {
@@ -412,6 +536,15 @@ function bindCommonProps(
         }
         ctx.shadowColor = style.shadowColor || DEFAULT_COMMON_STYLE.shadowColor;
     }
+    if ((forceSetAll || style.filter !== prevStyle.filter) && 'filter' in ctx) {
+        if (!styleChanged) {
+            flushPathDrawn(ctx, scope);
+            styleChanged = true;
+        }
+        ctx.filter = style.filter
+            ? getCanvasFilter(parseFilter(style.filter), (ctx as ZRCanvasRenderingContext).dpr || 1)
+            : 'none';
+    }
     return styleChanged;
 }
 
@@ -566,6 +699,9 @@ export type BrushScope = {
     batchStroke?: string
 
     lastDrawType?: number
+
+    // If brushing on the offscreen canvas of the filter fallback.
+    inFilterFallback?: boolean
 }
 
 // If path can be batched
@@ -587,6 +723,8 @@ function canPathBatch(style: PathStyleProps) {
         // Has stroke or fill opacity
         || style.strokeOpacity < 1
         || style.fillOpacity < 1
+        // Filter is applied on each element.
+        || style.filter
     );
 }
 
@@ -598,6 +736,22 @@ function flushPathDrawn(ctx: CanvasRenderingContext2D, scope: BrushScope) {
     scope.batchStroke = '';
 }
 
+/**
+ * Flush the batched path and restore the clipping state of the scope.
+ * Context can be used to draw something else after this.
+ */
+export function endBrushScope(ctx: CanvasRenderingContext2D, scope: BrushScope) {
+    flushPathDrawn(ctx, scope);
+    const prevElClipPaths = scope.prevElClipPaths;
+    if (prevElClipPaths && prevElClipPaths.length) {
+        ctx.restore();
+    }
+    scope.prevElClipPaths = null;
+    scope.allClipped = false;
+    // Style needs to be set again.
+    scope.prevEl = null;
+}
+
 function getStyle(el: Displayable, inHover?: boolean) {
     return inHover ? (el.__hoverStyle || el.style) : el.style;
 }
@@ -680,6 +834,17 @@ export function brush(
         return;
     }
 
+    // Brushed without filters if there is no offscreen canvas for the fallback.
+    if (getStyle(el, scope.inHover).filter && !('filter' in ctx) && !scope.inFilterFallback
+        && ctx.canvas && getFilterContext()
+    ) {
+        flushPathDrawn(ctx, scope);
+        brushFilterFallback(ctx, el, scope);
+        // Style of context is not changed but the element is not brushed on it.
+        scope.prevEl = null;
+        return;
+    }
+
     // START BRUSH
     el.beforeBrush && el.beforeBrush();
     el.innerBeforeBrush();
@@ -769,6 +934,74 @@ export function brush(
     el.__isRendered = true;
 }
 
+let filterCanvas: HTMLCanvasElement;
+let filterCtx: ZRCanvasRenderingContext;
+
+function getFilterContext() {
+    if (!filterCtx) {
+        // Canvas may not be supported by the platform, e.g. in node without canvas package.
+        const canvas = platformApi.createCanvas();
+        filterCtx = canvas && canvas.getContext('2d') as ZRCanvasRenderingContext;
+        filterCanvas = filterCtx ? canvas : null;
+    }
+    return filterCtx;
+}
+
+/**
+ * Brush the element on an offscreen canvas and apply the filters on its pixels,
+ * for the context not supporting `ctx.filter`.
+ */
+function brushFilterFallback(
+    ctx: CanvasRenderingContext2D,
+    el: Displayable,
+    scope: BrushScope
+) {
+    const canvas = ctx.canvas;
+    const dpr = (ctx as ZRCanvasRenderingContext).dpr || 1;
+    const paintRect = el.getPaintRect();
+    const x = Math.max(Math.floor(paintRect.x * dpr), 0);
+    const y = Math.max(Math.floor(paintRect.y * dpr), 0);
+    const width = Math.min(Math.ceil((paintRect.x + paintRect.width) * dpr), canvas.width) - x;
+    const height = Math.min(Math.ceil((paintRect.y + paintRect.height) * dpr), canvas.height) - y;
+    if (!(width > 0 && height > 0)) {
+        el.__dirty = 0;
+        el.__isRendered = false;
+        return;
+    }
+
+    if (filterCanvas.width < canvas.width || filterCanvas.height < canvas.height) {
+        filterCanvas.width = Math.max(filterCanvas.width, canvas.width);
+        filterCanvas.height = Math.max(filterCanvas.height, canvas.height);
+    }
+    filterCtx.dpr = dpr;
+    filterCtx.setTransform(1, 0, 0, 1, 0, 0);
+    filterCtx.clearRect(x, y, width, height);
+
+    // Clipping is applied after filters by the clipping state of ctx.
+    const innerScope: BrushScope = {
+        inHover: scope.inHover,
+        viewWidth: scope.viewWidth,
+        viewHeight: scope.viewHeight,
+        prevElClipPaths: el.__clipPaths,
+        inFilterFallback: true
+    };
+    brush(filterCtx, el, innerScope, true);
+    endBrushScope(filterCtx, innerScope);
+
+    const imageData = filterCtx.getImageData(x, y, width, height);
+    applyFilterToImageData(imageData, parseFilter(getStyle(el, scope.inHover).filter), dpr);
+    filterCtx.putImageData(imageData, x, y);
+
+    // Opacity is applied when brushed on the offscreen canvas.
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = getStyle(el, scope.inHover).blend || DEFAULT_COMMON_STYLE.blend;
+    ctx.shadowBlur = ctx.shadowOffsetX = ctx.shadowOffsetY = 0;
+    ctx.drawImage(filterCanvas, x, y, width, height, x, y, width, height);
+    ctx.restore();
+}
+
 function brushIncremental(
     ctx: CanvasRenderingContext2D,
     el: IncrementalDisplayable,
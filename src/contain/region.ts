@@ -0,0 +1,147 @@
+/**
+ * Relation between polygons and a region polygon, used by region query like brush selection.
+ * Polygons are given as flat [x0, y0, x1, y1, ...] arrays.
+ */
+
+import { VectorArray } from '../core/vector';
+import { contain as polygonContain } from './polygon';
+
+export type RegionQueryMode = 'intersect' | 'contain';
+
+export interface Region {
+    points: VectorArray[]
+    // Bounding box of the region.
+    xMin: number
+    yMin: number
+    xMax: number
+    yMax: number
+}
+
+export function createRegion(points: VectorArray[]): Region {
+    let xMin = Infinity;
+    let yMin = Infinity;
+    let xMax = -Infinity;
+    let yMax = -Infinity;
+    for (let i = 0; i < points.length; i++) {
+        xMin = Math.min(xMin, points[i][0]);
+        yMin = Math.min(yMin, points[i][1]);
+        xMax = Math.max(xMax, points[i][0]);
+        yMax = Math.max(yMax, points[i][1]);
+    }
+    return {
+        points,
+        xMin,
+        yMin,
+        xMax,
+        yMax
+    };
+}
+
+function cross(x0: number, y0: number, x1: number, y1: number, x2: number, y2: number) {
+    return (x1 - x0) * (y2 - y0) - (y1 - y0) * (x2 - x0);
+}
+
+/**
+ * If segment (x0, y0)-(x1, y1) crosses segment (x2, y2)-(x3, y3).
+ * Touching segments are also considered as crossed.
+ */
+export function segmentIntersect(
+    x0: number, y0: number, x1: number, y1: number,
+    x2: number, y2: number, x3: number, y3: number
+): boolean {
+    const d0 = cross(x2, y2, x3, y3, x0, y0);
+    const d1 = cross(x2, y2, x3, y3, x1, y1);
+    const d2 = cross(x0, y0, x1, y1, x2, y2);
+    const d3 = cross(x0, y0, x1, y1, x3, y3);
+    if (((d0 > 0 && d1 < 0) || (d0 < 0 && d1 > 0)) && ((d2 > 0 && d3 < 0) || (d2 < 0 && d3 > 0))) {
+        return true;
+    }
+    return (d0 === 0 && onSegment(x2, y2, x3, y3, x0, y0))
+        || (d1 === 0 && onSegment(x2, y2, x3, y3, x1, y1))
+        || (d2 === 0 && onSegment(x0, y0, x1, y1, x2, y2))
+        || (d3 === 0 && onSegment(x0, y0, x1, y1, x3, y3));
+}
+
+// If collinear point (x, y) is on the segment.
+function onSegment(x0: number, y0: number, x1: number, y1: number, x: number, y: number) {
+    return x >= Math.min(x0, x1) && x <= Math.max(x0, x1)
+        && y >= Math.min(y0, y1) && y <= Math.max(y0, y1);
+}
+
+function edgeIntersectRegion(
+    region: Region, x0: number, y0: number, x1: number, y1: number
+) {
+    if (Math.max(x0, x1) < region.xMin || Math.min(x0, x1) > region.xMax
+        || Math.max(y0, y1) < region.yMin || Math.min(y0, y1) > region.yMax
+    ) {
+        return false;
+    }
+    const points = region.points;
+    const len = points.length;
+    for (let i = 0; i < len; i++) {
+        const p0 = points[i];
+        const p1 = points[(i + 1) % len];
+        if (segmentIntersect(x0, y0, x1, y1, p0[0], p0[1], p1[0], p1[1])) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function polygonsCrossRegion(polygons: number[][], closed: boolean, region: Region) {
+    for (let i = 0; i < polygons.length; i++) {
+        const polygon = polygons[i];
+        const len = polygon.length;
+        const edgeCount = closed ? len / 2 : len / 2 - 1;
+        for (let k = 0; k < edgeCount; k++) {
+            const k2 = (k * 2 + 2) % len;
+            if (edgeIntersectRegion(region, polygon[k * 2], polygon[k * 2 + 1], polygon[k2], polygon[k2 + 1])) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+/**
+ * If the shape outlined by the polygons is inside the region.
+ */
+export function polygonsContainedByRegion(polygons: number[][], closed: boolean, region: Region): boolean {
+    let hasPoint = false;
+    for (let i = 0; i < polygons.length; i++) {
+        const polygon = polygons[i];
+        for (let k = 0; k < polygon.length; k += 2) {
+            hasPoint = true;
+            if (!polygonContain(region.points, polygon[k], polygon[k + 1])) {
+                return false;
+            }
+        }
+    }
+    // Region is not convex, outline may goes out between two vertices.
+    return hasPoint && !polygonsCrossRegion(polygons, closed, region);
+}
+
+/**
+ * If the shape outlined by the polygons intersects with the region.
+ * @param shapeContain If the shape contains a point. Used to check if the region is inside the shape.
+ */
+export function polygonsIntersectRegion(
+    polygons: number[][], closed: boolean, region: Region,
+    shapeContain: (x: number, y: number) => boolean
+): boolean {
+    for (let i = 0; i < polygons.length; i++) {
+        const polygon = polygons[i];
+        for (let k = 0; k < polygon.length; k += 2) {
+            if (polygonContain(region.points, polygon[k], polygon[k + 1])) {
+                return true;
+            }
+        }
+    }
+    const points = region.points;
+    for (let i = 0; i < points.length; i++) {
+        if (shapeContain(points[i][0], points[i][1])) {
+            return true;
+        }
+    }
+    return polygonsCrossRegion(polygons, closed, region);
+}
@@ -1,12 +1,19 @@
 import BoundingRect, { RectLike } from '../core/BoundingRect';
-import { Dictionary, TextAlign, TextVerticalAlign, BuiltinTextPosition } from '../core/types';
+import { Dictionary, TextAlign, TextLogicalAlign, TextVerticalAlign, BuiltinTextPosition } from '../core/types';
 import LRU from '../core/LRU';
 import { DEFAULT_FONT, platformApi } from '../core/platform';
+import { getFontMetricsVersion } from '../core/fontMetrics';
 
 let textWidthCache: Dictionary<LRU<number>> = {};
+let cachedFontMetricsVersion = getFontMetricsVersion();
 
 export function getWidth(text: string, font: string): number {
     font = font || DEFAULT_FONT;
+    // Widths may be changed after registering new font metrics.
+    if (cachedFontMetricsVersion !== getFontMetricsVersion()) {
+        cachedFontMetricsVersion = getFontMetricsVersion();
+        textWidthCache = {};
+    }
     let cacheOfFont = textWidthCache[font];
     if (!cacheOfFont) {
         cacheOfFont = textWidthCache[font] = new LRU(500);
@@ -69,7 +76,6 @@ export function getBoundingRect(
 }
 
 export function adjustTextX(x: number, width: number, textAlign: TextAlign): number {
-    // TODO Right to left language
     if (textAlign === 'right') {
         x -= width;
     }
@@ -79,6 +85,18 @@ export function adjustTextX(x: number, width: number, textAlign: TextAlign): num
     return x;
 }
 
+/**
+ * Resolve logical align 'start' and 'end' to physical align by the direction of text.
+ */
+export function resolveTextAlign(textAlign: TextAlign | TextLogicalAlign, direction: 'ltr' | 'rtl'): TextAlign {
+    const isRTL = direction === 'rtl';
+    return textAlign === 'start'
+        ? (isRTL ? 'right' : 'left')
+        : textAlign === 'end'
+        ? (isRTL ? 'left' : 'right')
+        : textAlign;
+}
+
 export function adjustTextY(y: number, height: number, verticalAlign: TextVerticalAlign): number {
     if (verticalAlign === 'middle') {
         y -= height / 2;
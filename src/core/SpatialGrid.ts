@@ -0,0 +1,255 @@
+/**
+ * Uniform grid over the paint rects of displayables.
+ * Used to find the candidates of hit testing without scanning the whole display list.
+ */
+
+import Displayable from '../graphic/Displayable';
+import BoundingRect from './BoundingRect';
+import { Dictionary } from './types';
+
+interface GridEntry {
+    el: Displayable
+    // Paint rect when indexed.
+    rect: BoundingRect
+    // Index in the display list, used to keep the z order.
+    order: number
+    // Cell range, inclusive.
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+    // If covers too many cells. Large entries are kept in a separate list.
+    large: boolean
+    // Stamp of last update, entries not updated are removed.
+    updateStamp: number
+    // Stamp of last query, used to avoid duplicated results.
+    queryStamp: number
+}
+
+// Elements cover more cells than this will be checked on each query.
+const MAX_CELLS_PER_ENTRY = 64;
+
+function sortByOrder(a: GridEntry, b: GridEntry) {
+    return a.order - b.order;
+}
+
+export default class SpatialGrid {
+
+    cellSize: number
+
+    private _cells: Dictionary<GridEntry[]> = {}
+
+    private _large: GridEntry[] = []
+
+    private _entries: Dictionary<GridEntry> = {}
+
+    private _count = 0
+
+    private _updateStamp = 0
+
+    private _queryStamp = 0
+
+    constructor(cellSize?: number) {
+        this.cellSize = cellSize > 0 ? cellSize : 64;
+    }
+
+    /**
+     * Sync with the sorted display list.
+     * Only the new elements and the dirty elements are reindexed.
+     */
+    update(displayList: Displayable[]) {
+        const stamp = ++this._updateStamp;
+        const entries = this._entries;
+        for (let i = 0; i < displayList.length; i++) {
+            const el = displayList[i];
+            let entry = entries[el.id];
+            if (!entry) {
+                entry = entries[el.id] = {
+                    el,
+                    rect: new BoundingRect(0, 0, 0, 0),
+                    order: i,
+                    x0: 0,
+                    y0: 0,
+                    x1: -1,
+                    y1: -1,
+                    large: false,
+                    updateStamp: stamp,
+                    queryStamp: 0
+                };
+                this._count++;
+                this._insert(entry);
+            }
+            else if (el.__dirty) {
+                this._remove(entry);
+                this._insert(entry);
+            }
+            entry.order = i;
+            entry.updateStamp = stamp;
+        }
+
+        // Remove elements not in the display list anymore.
+        if (this._count > displayList.length) {
+            for (let id in entries) {
+                if (entries.hasOwnProperty(id) && entries[id].updateStamp !== stamp) {
+                    this._remove(entries[id]);
+                    delete entries[id];
+                    this._count--;
+                }
+            }
+        }
+    }
+
+    /**
+     * Get elements whose paint rect contains the point.
+     * In the same order of the display list.
+     */
+    queryPoint(x: number, y: number): Displayable[] {
+        const cellSize = this.cellSize;
+        const candidates: GridEntry[] = [];
+        const cell = this._cells[Math.floor(x / cellSize) + '_' + Math.floor(y / cellSize)];
+        if (cell) {
+            this._collect(cell, candidates, x, y, x, y);
+        }
+        this._collect(this._large, candidates, x, y, x, y);
+        return this._toElements(candidates);
+    }
+
+    /**
+     * Get elements whose paint rect intersects with the rect.
+     * In the same order of the display list.
+     */
+    queryRect(rect: BoundingRect): Displayable[] {
+        const cellSize = this.cellSize;
+        const xMin = rect.x;
+        const yMin = rect.y;
+        const xMax = rect.x + rect.width;
+        const yMax = rect.y + rect.height;
+        const candidates: GridEntry[] = [];
+        const queryStamp = ++this._queryStamp;
+        const x0 = Math.floor(xMin / cellSize);
+        const x1 = Math.floor(xMax / cellSize);
+        const y0 = Math.floor(yMin / cellSize);
+        const y1 = Math.floor(yMax / cellSize);
+        if ((x1 - x0 + 1) * (y1 - y0 + 1) > this._count) {
+            // Cheaper to check all entries.
+            const entries = this._entries;
+            for (let id in entries) {
+                if (entries.hasOwnProperty(id) && intersect(entries[id], xMin, yMin, xMax, yMax)) {
+                    candidates.push(entries[id]);
+                }
+            }
+        }
+        else {
+            for (let i = x0; i <= x1; i++) {
+                for (let k = y0; k <= y1; k++) {
+                    const cell = this._cells[i + '_' + k];
+                    if (cell) {
+                        this._collect(cell, candidates, xMin, yMin, xMax, yMax, queryStamp);
+                    }
+                }
+            }
+            this._collect(this._large, candidates, xMin, yMin, xMax, yMax);
+        }
+        return this._toElements(candidates);
+    }
+
+    clear() {
+        this._cells = {};
+        this._large = [];
+        this._entries = {};
+        this._count = 0;
+    }
+
+    private _collect(
+        list: GridEntry[], out: GridEntry[],
+        xMin: number, yMin: number, xMax: number, yMax: number,
+        queryStamp?: number
+    ) {
+        for (let i = 0; i < list.length; i++) {
+            const entry = list[i];
+            if (queryStamp) {
+                // Element may be in multiple cells.
+                if (entry.queryStamp === queryStamp) {
+                    continue;
+                }
+                entry.queryStamp = queryStamp;
+            }
+            if (intersect(entry, xMin, yMin, xMax, yMax)) {
+                out.push(entry);
+            }
+        }
+    }
+
+    private _toElements(entries: GridEntry[]) {
+        entries.sort(sortByOrder);
+        const res: Displayable[] = [];
+        for (let i = 0; i < entries.length; i++) {
+            res.push(entries[i].el);
+        }
+        return res;
+    }
+
+    private _insert(entry: GridEntry) {
+        const rect = entry.rect;
+        rect.copy(entry.el.getPaintRect());
+        const cellSize = this.cellSize;
+        const x0 = Math.floor(rect.x / cellSize);
+        const y0 = Math.floor(rect.y / cellSize);
+        const x1 = Math.floor((rect.x + rect.width) / cellSize);
+        const y1 = Math.floor((rect.y + rect.height) / cellSize);
+        entry.x0 = x0;
+        entry.y0 = y0;
+        entry.x1 = x1;
+        entry.y1 = y1;
+
+        const cellCount = (x1 - x0 + 1) * (y1 - y0 + 1);
+        // NaN or Infinity rect is also considered as large.
+        entry.large = !(cellCount <= MAX_CELLS_PER_ENTRY);
+        if (entry.large) {
+            this._large.push(entry);
+            return;
+        }
+        const cells = this._cells;
+        for (let i = x0; i <= x1; i++) {
+            for (let k = y0; k <= y1; k++) {
+                const key = i + '_' + k;
+                (cells[key] || (cells[key] = [])).push(entry);
+            }
+        }
+    }
+
+    private _remove(entry: GridEntry) {
+        if (entry.large) {
+            removeEntry(this._large, entry);
+            return;
+        }
+        const cells = this._cells;
+        for (let i = entry.x0; i <= entry.x1; i++) {
+            for (let k = entry.y0; k <= entry.y1; k++) {
+                const key = i + '_' + k;
+                const cell = cells[key];
+                if (cell) {
+                    removeEntry(cell, entry);
+                    if (!cell.length) {
+                        delete cells[key];
+                    }
+                }
+            }
+        }
+    }
+}
+
+function removeEntry(list: GridEntry[], entry: GridEntry) {
+    for (let i = 0; i < list.length; i++) {
+        if (list[i] === entry) {
+            list.splice(i, 1);
+            return;
+        }
+    }
+}
+
+function intersect(entry: GridEntry, xMin: number, yMin: number, xMax: number, yMax: number) {
+    const rect = entry.rect;
+    // NaN rect is always a candidate.
+    return !(rect.x > xMax || rect.x + rect.width < xMin || rect.y > yMax || rect.y + rect.height < yMin);
+}
@@ -293,7 +293,7 @@ export function removeEventListener(
  *
  * @param {Event} e A mouse or touch event.
  */
-export const stop = function (e: MouseEvent | TouchEvent | PointerEvent) {
+export const stop = function (e: MouseEvent | TouchEvent | PointerEvent | KeyboardEvent) {
     e.preventDefault();
     e.stopPropagation();
     e.cancelBubble = true;
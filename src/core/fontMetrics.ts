@@ -0,0 +1,270 @@
+/**
+ * Registry of glyph advance tables, used to measure text when there is no canvas.
+ * Tables can be given per font family, weight and style.
+ */
+
+import { Dictionary } from './types';
+
+export interface FontMetricsOption {
+    /**
+     * Units per em of all advances. Default to be 1, which means advances are
+     * given as ratio of the font size.
+     */
+    unitsPerEm?: number
+    /**
+     * Advance width of each character.
+     */
+    advances?: Dictionary<number>
+    /**
+     * Code point ranges sharing the same advance, like CJK ideographs.
+     * Each item is [startCodePoint, endCodePoint, advance], end is inclusive.
+     */
+    ranges?: number[][]
+    /**
+     * Advance of characters not in the table. Default to be 1em.
+     */
+    defaultAdvance?: number
+}
+
+export interface FontMetrics {
+    // Advances in em.
+    advances: Dictionary<number>
+    // Flat sorted [start, end, advance, ...] in em.
+    ranges: number[]
+    defaultAdvance: number
+}
+
+export interface ParsedFont {
+    style: string
+    weight: number
+    // Font size in px
+    size: number
+    // Lower cased family names without quotes.
+    families: string[]
+}
+
+interface FontMetricsRecord {
+    weight: number
+    style: string
+    metrics: FontMetrics
+}
+
+const WEIGHT_KEYWORDS: Dictionary<number> = {
+    normal: 400,
+    bold: 700,
+    bolder: 700,
+    lighter: 300
+};
+
+const registry: Dictionary<FontMetricsRecord[]> = {};
+
+let version = 0;
+
+// Not use util#trim to avoid circular dependency with platform.
+function trim(str: string) {
+    return str.replace(/^\s+|\s+$/g, '');
+}
+
+function normalizeWeight(weight: string | number): number {
+    if (weight == null) {
+        return 400;
+    }
+    const num = +weight;
+    if (!isNaN(num)) {
+        return num;
+    }
+    return WEIGHT_KEYWORDS[(weight + '').toLowerCase()] || 400;
+}
+
+function normalizeFamily(family: string) {
+    return trim(family).replace(/^['"]|['"]$/g, '').toLowerCase();
+}
+
+export function createFontMetrics(opt: FontMetricsOption): FontMetrics {
+    const unitsPerEm = opt.unitsPerEm || 1;
+    const advances: Dictionary<number> = {};
+    const srcAdvances = opt.advances || {};
+    for (let char in srcAdvances) {
+        if (srcAdvances.hasOwnProperty(char)) {
+            advances[char] = srcAdvances[char] / unitsPerEm;
+        }
+    }
+    const srcRanges = (opt.ranges || []).slice().sort((a, b) => a[0] - b[0]);
+    const ranges: number[] = [];
+    for (let i = 0; i < srcRanges.length; i++) {
+        ranges.push(srcRanges[i][0], srcRanges[i][1], srcRanges[i][2] / unitsPerEm);
+    }
+    return {
+        advances,
+        ranges,
+        defaultAdvance: opt.defaultAdvance == null ? 1 : opt.defaultAdvance / unitsPerEm
+    };
+}
+
+/**
+ * Register advance table of a font.
+ * @param family Font family name, like 'Microsoft YaHei'.
+ * @param opts.weight Font weight, like 'bold' or 700. Default to be 'normal'.
+ * @param opts.style Font style, 'normal' or 'italic'. Default to be 'normal'.
+ */
+export function registerFontMetrics(
+    family: string,
+    metrics: FontMetricsOption,
+    opts?: {
+        weight?: string | number
+        style?: string
+    }
+) {
+    opts = opts || {};
+    const key = normalizeFamily(family);
+    const records = registry[key] || (registry[key] = []);
+    const weight = normalizeWeight(opts.weight);
+    const style = opts.style === 'oblique' ? 'italic' : (opts.style || 'normal');
+    const record = {
+        weight,
+        style,
+        metrics: createFontMetrics(metrics)
+    };
+    for (let i = 0; i < records.length; i++) {
+        if (records[i].weight === weight && records[i].style === style) {
+            records[i] = record;
+            version++;
+            return;
+        }
+    }
+    records.push(record);
+    version++;
+}
+
+/**
+ * Remove all registered advance tables of the font family.
+ */
+export function unregisterFontMetrics(family: string) {
+    delete registry[normalizeFamily(family)];
+    version++;
+}
+
+/**
+ * Version is increased each time the registry changes.
+ * Can be used to invalidate cached text widths.
+ */
+export function getFontMetricsVersion() {
+    return version;
+}
+
+// eslint-disable-next-line max-len
+const fontRegex = /^\s*((?:(?:normal|italic|oblique|small-caps|bold|bolder|lighter|[1-9]00)\s+)*)([0-9.]+)(px|pt|em|rem)?(?:\s*\/\s*\S+)?\s+(.+?)\s*$/i;
+
+/**
+ * Parse css font shorthand, like `'italic bold 12px/1.5 "Microsoft YaHei", sans-serif'`.
+ */
+export function parseFont(font: string, defaultFontSize: number): ParsedFont {
+    const res = fontRegex.exec(font || '');
+    if (!res) {
+        return {
+            style: 'normal',
+            weight: 400,
+            size: defaultFontSize,
+            families: []
+        };
+    }
+    let style = 'normal';
+    let weight = 400;
+    const modifiers = trim(res[1]).split(/\s+/);
+    for (let i = 0; i < modifiers.length; i++) {
+        const modifier = modifiers[i].toLowerCase();
+        if (modifier === 'italic' || modifier === 'oblique') {
+            style = 'italic';
+        }
+        else if (modifier && modifier !== 'normal' && modifier !== 'small-caps') {
+            weight = normalizeWeight(modifier);
+        }
+    }
+    let size = +res[2];
+    const unit = (res[3] || 'px').toLowerCase();
+    if (unit === 'pt') {
+        size = size * 4 / 3;
+    }
+    else if (unit === 'em' || unit === 'rem') {
+        size *= defaultFontSize;
+    }
+    const families = res[4].split(',');
+    for (let i = 0; i < families.length; i++) {
+        families[i] = normalizeFamily(families[i]);
+    }
+    return {
+        style,
+        weight,
+        size,
+        families
+    };
+}
+
+/**
+ * Find the registered metrics of the first available family in the font.
+ * The closest weight is used if there is no exact one.
+ */
+export function findFontMetrics(font: ParsedFont): FontMetrics {
+    for (let i = 0; i < font.families.length; i++) {
+        const records = registry[font.families[i]];
+        if (!records || !records.length) {
+            continue;
+        }
+        let best: FontMetricsRecord;
+        let bestScore = Infinity;
+        for (let k = 0; k < records.length; k++) {
+            const record = records[k];
+            const score = Math.abs(record.weight - font.weight)
+                // Style mismatch costs more than any weight difference.
+                + (record.style === font.style ? 0 : 1000);
+            if (score < bestScore) {
+                bestScore = score;
+                best = record;
+            }
+        }
+        return best.metrics;
+    }
+}
+
+function getCodePointAdvance(metrics: FontMetrics, codePoint: number) {
+    const ranges = metrics.ranges;
+    let lo = 0;
+    let hi = ranges.length / 3 - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (codePoint < ranges[mid * 3]) {
+            hi = mid - 1;
+        }
+        else if (codePoint > ranges[mid * 3 + 1]) {
+            lo = mid + 1;
+        }
+        else {
+            return ranges[mid * 3 + 2];
+        }
+    }
+    return metrics.defaultAdvance;
+}
+
+/**
+ * Measure text width in px with the advance table.
+ */
+export function measureTextWidth(text: string, metrics: FontMetrics, fontSize: number): number {
+    const advances = metrics.advances;
+    let width = 0;
+    for (let i = 0; i < text.length; i++) {
+        let char = text.charAt(i);
+        let codePoint = text.charCodeAt(i);
+        // Surrogate pair
+        if (codePoint >= 0xd800 && codePoint <= 0xdbff && i + 1 < text.length) {
+            const low = text.charCodeAt(i + 1);
+            if (low >= 0xdc00 && low <= 0xdfff) {
+                char += text.charAt(i + 1);
+                codePoint = (codePoint - 0xd800) * 0x400 + (low - 0xdc00) + 0x10000;
+                i++;
+            }
+        }
+        const advance = advances[char];
+        width += advance == null ? getCodePointAdvance(metrics, codePoint) : advance;
+    }
+    return width * fontSize;
+}
@@ -1,3 +1,10 @@
+import { createFontMetrics, findFontMetrics, measureTextWidth, parseFont } from './fontMetrics';
+
+// Not in the DOM lib of TypeScript yet.
+declare const OffscreenCanvas: {
+    new(width: number, height: number): unknown
+};
+
 export const DEFAULT_FONT_SIZE = 12;
 export const DEFAULT_FONT_FAMILY = 'sans-serif';
 export const DEFAULT_FONT = `${DEFAULT_FONT_SIZE}px ${DEFAULT_FONT_FAMILY}`;
@@ -49,11 +56,19 @@ function getTextWidthMap(mapStr: string): Record<string, number> {
 
 export const DEFAULT_TEXT_WIDTH_MAP = getTextWidthMap(defaultWidthMapStr);
 
+// Used if no registered font metrics matches the font.
+const defaultFontMetrics = createFontMetrics({
+    advances: DEFAULT_TEXT_WIDTH_MAP
+});
+
 export const platformApi: Platform = {
     // Export methods
     createCanvas() {
         return typeof document !== 'undefined'
-            && document.createElement('canvas');
+            ? document.createElement('canvas')
+            // In worker
+            : typeof OffscreenCanvas !== 'undefined'
+            && new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement;
     },
 
     measureText: (function () {
@@ -74,18 +89,19 @@ export const platformApi: Platform = {
             else {
                 text = text || '';
                 font = font || DEFAULT_FONT;
-                // Use font size if there is no other method can be used.
-                const res = /^([0-9]*?)px$/.exec(font);
-                const fontSize = +(res && res[1]) || DEFAULT_FONT_SIZE;
+                // Use registered font metrics if there is no canvas.
+                const parsedFont = parseFont(font, DEFAULT_FONT_SIZE);
+                const fontSize = parsedFont.size;
+                const metrics = findFontMetrics(parsedFont);
                 let width = 0;
-                if (font.indexOf('mono') >= 0) {   // is monospace
+                if (metrics) {
+                    width = measureTextWidth(text, metrics, fontSize);
+                }
+                else if (font.indexOf('mono') >= 0) {   // is monospace
                     width = fontSize * text.length;
                 }
                 else {
-                    for (let i = 0; i < text.length; i++) {
-                        const preCalcWidth = DEFAULT_TEXT_WIDTH_MAP[text[i]];
-                        width += preCalcWidth == null ? fontSize : (preCalcWidth * fontSize);
-                    }
+                    width = measureTextWidth(text, defaultFontMetrics, fontSize);
                 }
                 return { width };
             }
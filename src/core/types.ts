@@ -17,11 +17,13 @@ export type ImageLike = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement
 export type TextVerticalAlign = 'top' | 'middle' | 'bottom'
     // | 'center' // DEPRECATED
 
-// TODO: Have not support 'start', 'end' yet.
 // subset of CanvasTextAlign
 export type TextAlign = 'left' | 'center' | 'right'
     // | 'middle' // DEPRECATED
 
+// Resolved to 'left' or 'right' by the direction of text.
+export type TextLogicalAlign = 'start' | 'end'
+
 export type FontWeight = 'normal' | 'bold' | 'bolder' | 'lighter' | number;
 export type FontStyle = 'normal' | 'italic' | 'oblique';
 
@@ -56,7 +58,9 @@ export type ZRRawMouseEvent = MouseEvent & ZREventProperties
 export type ZRRawTouchEvent = TouchEvent & ZREventProperties
 export type ZRRawPointerEvent = TouchEvent & ZREventProperties
 
-export type ZRRawEvent = ZRRawMouseEvent | ZRRawTouchEvent | ZRRawPointerEvent
+export type ZRRawKeyboardEvent = KeyboardEvent & ZREventProperties
+
+export type ZRRawEvent = ZRRawMouseEvent | ZRRawTouchEvent | ZRRawPointerEvent | ZRRawKeyboardEvent
 
 export type ZRPinchEvent = ZRRawEvent & {
     pinchScale: number
@@ -67,11 +71,13 @@ export type ZRPinchEvent = ZRRawEvent & {
 
 export type ElementEventName = 'click' | 'dblclick' | 'mousewheel' | 'mouseout' |
     'mouseover' | 'mouseup' | 'mousedown' | 'mousemove' | 'contextmenu' |
-    'drag' | 'dragstart' | 'dragend' | 'dragenter' | 'dragleave' | 'dragover' | 'drop' | 'globalout';
+    'drag' | 'dragstart' | 'dragend' | 'dragenter' | 'dragleave' | 'dragover' | 'drop' | 'globalout' |
+    'focus' | 'blur' | 'keydown' | 'keyup';
 
 export type ElementEventNameWithOn = 'onclick' | 'ondblclick' | 'onmousewheel' | 'onmouseout' |
     'onmouseup' | 'onmousedown' | 'onmousemove' | 'oncontextmenu' |
-    'ondrag' | 'ondragstart' | 'ondragend' | 'ondragenter' | 'ondragleave' | 'ondragover' | 'ondrop';
+    'ondrag' | 'ondragstart' | 'ondragend' | 'ondragenter' | 'ondragleave' | 'ondragover' | 'ondrop' |
+    'onfocus' | 'onblur' | 'onkeydown' | 'onkeyup';
 
 export type RenderedEvent = {
     elapsedTime: number
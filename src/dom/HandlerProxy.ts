@@ -41,10 +41,16 @@ const localNativeListenerNames = (function () {
         return pointerEventNameMap.hasOwnProperty(nm) ? nm : name;
     });
 
+    // Triggered on the focused doms inside, like the accessibility tree of canvas.
+    const keyboardHandlerNames = [
+        'keydown', 'keyup', 'focusin', 'focusout'
+    ];
+
     return {
         mouse: mouseHandlerNames,
         touch: touchHandlerNames,
-        pointer: pointerHandlerNames
+        pointer: pointerHandlerNames,
+        keyboard: keyboardHandlerNames
     };
 })();
 
@@ -278,7 +284,7 @@ const localDOMHandlers: DomHandlersMap = {
 
         this.__lastTouchMoment = new Date();
 
-        this.handler.processGesture(event, 'start');
+        this.handler && this.handler.processGesture(event, 'start');
 
         // For consistent event listener for both touch device and mouse device,
         // we simulate "mouseover-->mousedown" in touch device. So we trigger
@@ -293,7 +299,7 @@ const localDOMHandlers: DomHandlersMap = {
 
         markTouch(event);
 
-        this.handler.processGesture(event, 'change');
+        this.handler && this.handler.processGesture(event, 'change');
 
         // Mouse move should always be triggered no matter whether
         // there is gestrue event, because mouse move and pinch may
@@ -306,7 +312,7 @@ const localDOMHandlers: DomHandlersMap = {
 
         markTouch(event);
 
-        this.handler.processGesture(event, 'end');
+        this.handler && this.handler.processGesture(event, 'end');
 
         localDOMHandlers.mouseup.call(this, event);
 
@@ -372,6 +378,19 @@ zrUtil.each(['click', 'dblclick', 'contextmenu'], function (name) {
     };
 });
 
+/**
+ * Keyboard and focus event handlers. No position on them so not normalized.
+ */
+zrUtil.each(localNativeListenerNames.keyboard, function (name) {
+    localDOMHandlers[name] = function (event) {
+        // Focus moved between the doms inside is not focus out.
+        if (name === 'focusout' && isLocalEl(this, (event as unknown as FocusEvent).relatedTarget as Node)) {
+            return;
+        }
+        this.trigger(name, event);
+    };
+});
+
 
 /**
  * DOM UI Event handlers for global page.
@@ -476,6 +495,12 @@ function mountLocalDOMEventListeners(instance: HandlerDomProxy, scope: DOMHandle
             });
         });
     }
+
+    zrUtil.each(localNativeListenerNames.keyboard, function (nativeEventName) {
+        mountSingleDOMEventListener(scope, nativeEventName, function (event: ZRRawEvent) {
+            domHandlers[nativeEventName].call(instance, event);
+        });
+    });
 }
 
 function mountGlobalDOMEventListeners(instance: HandlerDomProxy, scope: DOMHandlerScope) {
@@ -565,6 +590,7 @@ export default class HandlerDomProxy extends Eventful {
     dom: HTMLElement
     painterRoot: HTMLElement
 
+    // Not set if the events are forwarded to the handler in worker.
     handler: Handler
 
     private _localHandlerScope: DOMHandlerScope
@@ -29,6 +29,7 @@ export {default as Path, PathStyleProps, PathProps, PathStatePropNames, PathStat
 export {default as Image, ImageStyleProps, ImageProps, ImageState} from './graphic/Image';
 export {default as CompoundPath, CompoundPathShape} from './graphic/CompoundPath';
 export {default as TSpan, TSpanStyleProps, TSpanProps, TSpanState} from './graphic/TSpan';
+export {default as TextPath, TextPathStyleProps, TextPathProps, TextPathState} from './graphic/TextPath';
 export {default as IncrementalDisplayable} from './graphic/IncrementalDisplayable';
 export {default as Text, TextStylePropsPart, TextStyleProps, TextProps, TextState} from './graphic/Text';
 
@@ -56,11 +57,14 @@ export {
     PatternObjectBase,
     PatternObject,
     ImagePatternObject,
-    SVGPatternObject
+    SVGPatternObject,
+    ElementPatternObject
 } from './graphic/Pattern';
 export {default as BoundingRect, RectLike} from './core/BoundingRect';
 export {default as OrientedBoundingRect} from './core/OrientedBoundingRect';
 
+export {default as Timeline, TimelineOption} from './animation/Timeline';
+
 export {matrix};
 export {vector};
 export {colorTool as color};
@@ -70,7 +74,19 @@ export {zrUtil as util};
 export {morphPathTool as morph};
 
 export {parseSVG};
+export {parseLottie, LottieParserOption, LottieParserResult} from './tool/parseLottie';
+
+export {serialize, deserialize, registerSerializable, SerializedElement} from './tool/serialize';
+
+export {booleanPath, BooleanPathOperation, BooleanPathOption} from './tool/booleanPath';
+export {strokeToPath, StrokeToPathOption} from './tool/strokeToPath';
 
 export {default as showDebugDirtyRect} from './debug/showDebugDirtyRect';
 
-export {setPlatformAPI} from './core/platform';
\ No newline at end of file
+export {setPlatformAPI} from './core/platform';
+
+export {registerFontMetrics, unregisterFontMetrics, FontMetricsOption} from './core/fontMetrics';
+export {parseFontMetrics} from './tool/parseFontMetrics';
+
+export {initWithWorker, WorkerZRenderInitOpt} from './worker/WorkerZRender';
+export {initInWorker} from './worker/initInWorker';
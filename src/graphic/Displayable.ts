@@ -9,6 +9,7 @@ import Path from './Path';
 import { keys, extend, createObject } from '../core/util';
 import Animator from '../animation/Animator';
 import { REDRAW_BIT, STYLE_CHANGED_BIT } from './constants';
+import { parseFilter, getFilterMargin } from './helper/filter';
 
 // type CalculateTextPositionResult = ReturnType<typeof calculateTextPosition>
 
@@ -25,6 +26,12 @@ export interface CommonStyleProps {
      * https://developer.mozilla.org/en-US/docs/Web/API/CanvasRenderingContext2D/globalCompositeOperation
      */
     blend?: string
+    /**
+     * Filter effects in the syntax of CSS filter, like `'blur(2px) grayscale(100%)'`.
+     * Supports blur, brightness, contrast, grayscale, hue-rotate, saturate and drop-shadow.
+     * Lengths are in pixels on screen, same as the shadow.
+     */
+    filter?: string
 }
 
 export const DEFAULT_COMMON_STYLE: CommonStyleProps = {
@@ -287,6 +294,14 @@ class Displayable<Props extends DisplayableProps = DisplayableProps> extends Ele
 
             }
 
+            if (style.filter) {
+                const margin = getFilterMargin(parseFilter(style.filter));
+                rect.x -= margin[0];
+                rect.y -= margin[1];
+                rect.width += margin[0] + margin[2];
+                rect.height += margin[1] + margin[3];
+            }
+
             // For the accuracy tolerance of text height or line joint point
             const tolerance = this.dirtyRectTolerance;
             if (!rect.isZero()) {
@@ -1,5 +1,6 @@
 import { ImageLike } from '../core/types';
 import { SVGVNode } from '../svg/core';
+import type Element from '../Element';
 
 type ImagePatternRepeat = 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat'
 
@@ -20,10 +21,9 @@ export interface ImagePatternObject extends PatternObjectBase {
     repeat?: ImagePatternRepeat
 
     /**
-     * Width and height of image.
-     * `imageWidth` and `imageHeight` are only used in svg-ssr renderer.
+     * Width and height of image. Image will be scaled to this size if given.
+     * They need to be give explictly in svg-ssr renderer.
      * Because we can't get the size of image in svg-ssr renderer.
-     * They need to be give explictly.
      */
     imageWidth?: number
     imageHeight?: number
@@ -44,7 +44,24 @@ export interface SVGPatternObject extends PatternObjectBase {
     svgHeight?: number
 }
 
-export type PatternObject = ImagePatternObject | SVGPatternObject
+export interface ElementPatternObject extends PatternObjectBase {
+    /**
+     * Elements drawn in the tile, which are rendered lazily by each renderer
+     * when the pattern is painted. Canvas renderer renders them in the device pixel ratio of the layer
+     * and caches the tile, so the elements should not be changed after painted.
+     */
+    element: Element
+    elementWidth: number
+    elementHeight: number
+}
+
+export interface InnerElementPatternObject extends ElementPatternObject {
+    // Tile rendered in the canvas painter and the dpr of it.
+    __image?: HTMLCanvasElement
+    __dpr?: number
+}
+
+export type PatternObject = ImagePatternObject | SVGPatternObject | ElementPatternObject
 
 class Pattern {
 
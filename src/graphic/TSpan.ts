@@ -1,5 +1,6 @@
 import Displayable, { DisplayableProps, DisplayableStatePropNames } from './Displayable';
-import { getBoundingRect } from '../contain/text';
+import { getBoundingRect, getLineHeight, adjustTextX } from '../contain/text';
+import { getVerticalTextLength } from './helper/verticalText';
 import BoundingRect from '../core/BoundingRect';
 import { PathStyleProps, DEFAULT_PATH_STYLE } from './Path';
 import { createObject, defaults } from '../core/util';
@@ -29,6 +30,17 @@ export interface TSpanStyleProps extends PathStyleProps {
     textAlign?: CanvasTextAlign
 
     textBaseline?: CanvasTextBaseline
+
+    /**
+     * Base direction of text. Characters in it are reordered by the renderer.
+     */
+    direction?: 'ltr' | 'rtl'
+
+    /**
+     * In vertical mode, text is laid from top to bottom in a column centered at x.
+     * `textAlign` aligns the column at y, 'left' is the top.
+     */
+    writingMode?: 'horizontal' | 'vertical'
 }
 
 export const DEFAULT_TSPAN_STYLE: TSpanStyleProps = defaults({
@@ -87,12 +99,20 @@ class TSpan extends Displayable<TSpanProps> {
             let text = style.text;
             text != null ? (text += '') : (text = '');
 
-            const rect = getBoundingRect(
-                text,
-                style.font,
-                style.textAlign as TextAlign,
-                style.textBaseline as TextVerticalAlign
-            );
+            let rect;
+            if (style.writingMode === 'vertical') {
+                const size = getLineHeight(style.font);
+                const length = getVerticalTextLength(text, style.font);
+                rect = new BoundingRect(-size / 2, adjustTextX(0, length, style.textAlign as TextAlign), size, length);
+            }
+            else {
+                rect = getBoundingRect(
+                    text,
+                    style.font,
+                    style.textAlign as TextAlign,
+                    style.textBaseline as TextVerticalAlign
+                );
+            }
 
             rect.x += style.x || 0;
             rect.y += style.y || 0;
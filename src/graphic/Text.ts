@@ -2,11 +2,13 @@
  * RichText is a container that manages complex text label.
  * It will parse text string and create sub displayble elements respectively.
  */
-import { TextAlign, TextVerticalAlign, ImageLike, Dictionary, MapToType, FontWeight, FontStyle } from '../core/types';
+import {
+    TextAlign, TextLogicalAlign, TextVerticalAlign, ImageLike, Dictionary, MapToType, FontWeight, FontStyle
+} from '../core/types';
 import { parseRichText, parsePlainText } from './helper/parseText';
 import TSpan, { TSpanStyleProps } from './TSpan';
 import { retrieve2, each, normalizeCssArray, trim, retrieve3, extend, keys, defaults } from '../core/util';
-import { adjustTextX, adjustTextY } from '../contain/text';
+import { adjustTextX, adjustTextY, resolveTextAlign } from '../contain/text';
 import ZRImage from './Image';
 import Rect from './shape/Rect';
 import BoundingRect from '../core/BoundingRect';
@@ -82,7 +84,10 @@ export interface TextStylePropsPart {
      */
     fontSize?: number | string
 
-    align?: TextAlign
+    /**
+     * `'start'` and `'end'` are resolved by `direction`.
+     */
+    align?: TextAlign | TextLogicalAlign
     verticalAlign?: TextVerticalAlign
 
     /**
@@ -155,6 +160,20 @@ export interface TextStyleProps extends TextStylePropsPart {
      * Only support number in the top block.
      */
     width?: number
+    /**
+     * Base direction of text. Order of rich text tokens is resolved by the
+     * Unicode bidirectional algorithm with it.
+     * `'auto'` is determined by the first strong directional character.
+     * Text is laid out as left to right if not set.
+     */
+    direction?: 'ltr' | 'rtl' | 'auto'
+    /**
+     * In vertical mode, lines are columns from top to bottom and ordered from right to left.
+     * CJK glyphs are upright and other runs like Latin are rotated.
+     * `height` limits the length of column for `overflow`, `lineHeight` is the distance between columns.
+     * Rich text is not supported yet.
+     */
+    writingMode?: 'horizontal' | 'vertical'
     /**
      * Text styles for rich text.
      */
@@ -499,9 +518,11 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
 
         const baseX = style.x || 0;
         const baseY = style.y || 0;
-        const textAlign = style.align || defaultStyle.align || 'left';
+        const direction = contentBlock.direction;
+        const textAlign = resolveTextAlign(style.align || defaultStyle.align || 'left', direction);
         const verticalAlign = style.verticalAlign || defaultStyle.verticalAlign || 'top';
 
+        const isVertical = style.writingMode === 'vertical';
         let textX = baseX;
         let textY = adjustTextY(baseY, contentBlock.contentHeight, verticalAlign);
 
@@ -512,16 +533,31 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
             needDrawBg && this._renderBackground(style, style, boxX, boxY, outerWidth, outerHeight);
         }
 
-        // `textBaseline` is set as 'middle'.
-        textY += lineHeight / 2;
-
-        if (textPadding) {
-            textX = getTextXForPadding(baseX, textAlign, textPadding);
-            if (verticalAlign === 'top') {
-                textY += textPadding[0];
+        if (isVertical) {
+            // Each column is aligned by verticalAlign at textY, and columns are ordered from right to left.
+            textY = baseY;
+            if (textPadding) {
+                textX = getTextXForPadding(baseX, textAlign, textPadding);
+                textY = verticalAlign === 'bottom'
+                    ? (baseY - textPadding[2])
+                    : verticalAlign === 'middle'
+                    ? (baseY + textPadding[0] / 2 - textPadding[2] / 2)
+                    : (baseY + textPadding[0]);
             }
-            else if (verticalAlign === 'bottom') {
-                textY -= textPadding[2];
+            textX = adjustTextX(textX, contentWidth, textAlign) + contentWidth - lineHeight / 2;
+        }
+        else {
+            // `textBaseline` is set as 'middle'.
+            textY += lineHeight / 2;
+
+            if (textPadding) {
+                textX = getTextXForPadding(baseX, textAlign, textPadding);
+                if (verticalAlign === 'top') {
+                    textY += textPadding[0];
+                }
+                else if (verticalAlign === 'bottom') {
+                    textY -= textPadding[2];
+                }
             }
         }
 
@@ -568,12 +604,19 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
             // Always set textAlign and textBase line, because it is difficute to calculate
             // textAlign from prevEl, and we dont sure whether textAlign will be reset if
             // font set happened.
-            if (textAlign) {
+            if (isVertical) {
+                subElStyle.writingMode = 'vertical';
+                subElStyle.textAlign = VERTICAL_ALIGN_TO_TEXT_ALIGN[verticalAlign];
+            }
+            else if (textAlign) {
                 subElStyle.textAlign = textAlign;
             }
             // Force baseline to be "middle". Otherwise, if using "top", the
             // text will offset downward a little bit in font "Microsoft YaHei".
             subElStyle.textBaseline = 'middle';
+            if (direction) {
+                subElStyle.direction = direction;
+            }
             subElStyle.opacity = style.opacity;
             // Fill after stroke so the outline will not cover the main part.
             subElStyle.strokeFirst = true;
@@ -598,9 +641,14 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
             subElStyle.font = textFont;
             setSeparateFont(subElStyle, style);
 
-            textY += lineHeight;
+            if (isVertical) {
+                textX -= lineHeight;
+            }
+            else {
+                textY += lineHeight;
+            }
 
-            if (fixedBoundingRect) {
+            if (fixedBoundingRect && !isVertical) {
                 el.setBoundingRect(new BoundingRect(
                     adjustTextX(subElStyle.x, style.width, subElStyle.textAlign as TextAlign),
                     adjustTextY(subElStyle.y, calculatedLineHeight, subElStyle.textBaseline as TextVerticalAlign),
@@ -632,7 +680,7 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
         const baseX = style.x || 0;
         const baseY = style.y || 0;
         const defaultStyle = this._defaultStyle;
-        const textAlign = style.align || defaultStyle.align;
+        const textAlign = resolveTextAlign(style.align || defaultStyle.align, contentBlock.direction);
         const verticalAlign = style.verticalAlign || defaultStyle.verticalAlign;
 
         const boxX = adjustTextX(baseX, outerWidth, textAlign);
@@ -785,6 +833,9 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
         }
 
         subElStyle.textAlign = textAlign as CanvasTextAlign;
+        if (token.direction) {
+            subElStyle.direction = token.direction;
+        }
         // Force baseline to be "middle". Otherwise, if using "top", the
         // text will offset downward a little bit in font "Microsoft YaHei".
         subElStyle.textBaseline = 'middle';
@@ -909,8 +960,10 @@ class ZRText extends Displayable<TextProps> implements GroupLike {
 }
 
 
-const VALID_TEXT_ALIGN = {left: true, right: 1, center: 1};
+const VALID_TEXT_ALIGN = {left: true, right: 1, center: 1, start: 1, end: 1};
 const VALID_TEXT_VERTICAL_ALIGN = {top: 1, bottom: 1, middle: 1};
+// Align in column of vertical text.
+const VERTICAL_ALIGN_TO_TEXT_ALIGN = {top: 'left', middle: 'center', bottom: 'right'} as const;
 
 const FONT_PARTS = ['fontStyle', 'fontWeight', 'fontSize', 'fontFamily'] as const;
 
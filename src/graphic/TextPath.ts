@@ -0,0 +1,232 @@
+/**
+ * Text laid along a path, like `<textPath>` in SVG.
+ * Each glyph is placed at the position on the path where its center is,
+ * and rotated to the tangent of the path.
+ */
+
+import TSpan, { TSpanStyleProps, DEFAULT_TSPAN_STYLE } from './TSpan';
+import { DisplayableProps, DisplayableStatePropNames } from './Displayable';
+import Path from './Path';
+import PathProxy from '../core/PathProxy';
+import BoundingRect from '../core/BoundingRect';
+import { getBoundingRect, getWidth, parsePercent } from '../contain/text';
+import { createObject, defaults } from '../core/util';
+import { TextVerticalAlign } from '../core/types';
+import { pathToBezierCurves } from '../tool/convertPath';
+import { createPathSampler } from '../tool/pathSampler';
+import * as matrix from '../core/matrix';
+
+export interface TextPathStyleProps extends TSpanStyleProps {
+    /**
+     * Distance along the path where the text starts.
+     * Can be a percent string relative to the length of path.
+     * Which point is anchored at the distance is determined by `textAlign`.
+     * @default 0
+     */
+    startOffset?: number | string
+    /**
+     * Which side of the path the text is rendered on.
+     * The path is reversed if it's `'right'`.
+     * @default 'left'
+     */
+    side?: 'left' | 'right'
+}
+
+export const DEFAULT_TEXT_PATH_STYLE: TextPathStyleProps = defaults({
+    textBaseline: 'alphabetic',
+    startOffset: 0,
+    side: 'left'
+} as TextPathStyleProps, DEFAULT_TSPAN_STYLE);
+
+export interface TextPathProps extends DisplayableProps {
+    style?: TextPathStyleProps
+    /**
+     * Path that the text is laid along. It's in the local coordinates of the text path,
+     * its own transform is ignored.
+     * NOTE: Call `dirty` of the text path after the shape of path is changed.
+     */
+    path?: Path
+}
+
+export type TextPathState = Pick<TextPathProps, DisplayableStatePropNames>
+
+export interface TextPathGlyph {
+    text: string
+    // Position of the center of glyph on the path.
+    x: number
+    y: number
+    rotation: number
+}
+
+// Flatten the path precisely so the glyphs are not jumping on the curves.
+const FLATTEN_SCALE = 10;
+
+function splitGlyphs(text: string): string[] {
+    const glyphs: string[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        // Keep surrogate pair together.
+        if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+            glyphs.push(text.charAt(i) + text.charAt(++i));
+        }
+        else {
+            glyphs.push(text.charAt(i));
+        }
+    }
+    return glyphs;
+}
+
+class TextPath extends TSpan {
+
+    style: TextPathStyleProps
+
+    path: Path
+
+    private _glyphs: TextPathGlyph[]
+
+    constructor(opts?: TextPathProps) {
+        super(opts);
+    }
+
+    attrKV(key: keyof TextPathProps, value: unknown) {
+        if (key === 'path') {
+            this.setPath(value as Path);
+        }
+        else {
+            super.attrKV(key as keyof DisplayableProps, value);
+        }
+    }
+
+    setPath(path: Path) {
+        this.path = path;
+        this.dirty();
+    }
+
+    createStyle(obj?: TextPathStyleProps) {
+        return createObject(DEFAULT_TEXT_PATH_STYLE, obj);
+    }
+
+    /**
+     * Get the path the glyphs are laid along, which is reversed if `side` is `'right'`.
+     */
+    getGuidePath(): PathProxy {
+        const path = this.path;
+        if (!path) {
+            return null;
+        }
+        const pathProxy = path.getUpdatedPathProxy();
+        if (this.style.side !== 'right') {
+            return pathProxy;
+        }
+        const reversed = new PathProxy(false);
+        const subpaths = pathToBezierCurves(pathProxy);
+        for (let i = subpaths.length - 1; i >= 0; i--) {
+            const curves = subpaths[i];
+            let k = curves.length - 2;
+            reversed.moveTo(curves[k], curves[k + 1]);
+            for (; k > 0; k -= 6) {
+                reversed.bezierCurveTo(
+                    curves[k - 2], curves[k - 1], curves[k - 4], curves[k - 3], curves[k - 6], curves[k - 5]
+                );
+            }
+        }
+        return reversed;
+    }
+
+    /**
+     * Get the layout of each glyph. Glyphs out of the path are not included.
+     */
+    getGlyphs(): TextPathGlyph[] {
+        // Glyphs are updated with the bounding rect.
+        this.getBoundingRect();
+        return this._glyphs;
+    }
+
+    getBoundingRect(): BoundingRect {
+        if (!this._rect) {
+            const style = this.style;
+            const font = style.font;
+            const glyphs = this._glyphs = this._layoutGlyphs();
+            const rect = new BoundingRect(0, 0, 0, 0);
+            const m = matrix.create();
+            for (let i = 0; i < glyphs.length; i++) {
+                const glyph = glyphs[i];
+                const glyphRect = getBoundingRect(
+                    glyph.text, font, 'center', style.textBaseline as TextVerticalAlign
+                );
+                matrix.identity(m);
+                matrix.rotate(m, m, -glyph.rotation);
+                matrix.translate(m, m, [glyph.x, glyph.y]);
+                glyphRect.applyTransform(m);
+                i === 0 ? rect.copy(glyphRect) : rect.union(glyphRect);
+            }
+
+            if (glyphs.length && this.hasStroke()) {
+                const w = style.lineWidth;
+                rect.x -= w / 2;
+                rect.y -= w / 2;
+                rect.width += w;
+                rect.height += w;
+            }
+
+            this._rect = rect;
+        }
+        return this._rect;
+    }
+
+    private _layoutGlyphs(): TextPathGlyph[] {
+        const style = this.style;
+        const guidePath = this.getGuidePath();
+        const out: TextPathGlyph[] = [];
+        let text = style.text;
+        text != null ? (text += '') : (text = '');
+        if (!guidePath || !text) {
+            return out;
+        }
+
+        // All subpaths are connected as one.
+        const sampler = createPathSampler(guidePath, FLATTEN_SCALE);
+        const totalLength = sampler.length;
+        if (!totalLength) {
+            return out;
+        }
+
+        const chars = splitGlyphs(text);
+        const widths: number[] = [];
+        let textWidth = 0;
+        for (let i = 0; i < chars.length; i++) {
+            widths.push(getWidth(chars[i], style.font));
+            textWidth += widths[i];
+        }
+
+        const textAlign = style.textAlign;
+        let offset = parsePercent(style.startOffset, totalLength) || 0;
+        if (textAlign === 'center') {
+            offset -= textWidth / 2;
+        }
+        else if (textAlign === 'right' || textAlign === 'end') {
+            offset -= textWidth;
+        }
+
+        for (let i = 0; i < chars.length; i++) {
+            const mid = offset + widths[i] / 2;
+            offset += widths[i];
+            // Same as SVG, glyph is not rendered if its center is out of the path.
+            if (mid < 0 || mid > totalLength) {
+                continue;
+            }
+            const point = sampler.sample(mid);
+            out.push({
+                text: chars[i],
+                x: point.x,
+                y: point.y,
+                rotation: point.angle
+            });
+        }
+        return out;
+    }
+}
+
+TextPath.prototype.type = 'text-path';
+
+export default TextPath;
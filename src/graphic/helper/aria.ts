@@ -0,0 +1,22 @@
+import Element from '../../Element';
+import { Dictionary } from '../../core/types';
+
+/**
+ * If element should be exposed to the accessibility tree.
+ */
+export function hasAccessibility(el: Element) {
+    return !!(el.ariaLabel || el.ariaRole);
+}
+
+/**
+ * Aria attributes and tab index of element, shared by the canvas and svg renderer.
+ */
+export function getAriaAttrs(el: Element): Dictionary<string> {
+    const attrs: Dictionary<string> = {};
+    hasAccessibility(el) && (attrs.role = el.ariaRole || 'img');
+    el.ariaLabel && (attrs['aria-label'] = el.ariaLabel);
+    el.ariaDescription && (attrs['aria-description'] = el.ariaDescription);
+    // Same with the tab order of handler.
+    el.focusable && (attrs.tabindex = el.tabIndex + '');
+    return attrs;
+}
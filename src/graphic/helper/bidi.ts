@@ -0,0 +1,266 @@
+/**
+ * A simplified implementation of the Unicode Bidirectional Algorithm (UAX #9).
+ * https://www.unicode.org/reports/tr9/
+ *
+ * Only implicit levels are resolved, explicit embeddings, overrides and isolates are not supported.
+ * Bidi types of characters are simplified, which covers the common scripts.
+ */
+
+type BidiType = 'L' | 'R' | 'AL' | 'EN' | 'ES' | 'ET' | 'AN' | 'CS' | 'NSM' | 'B' | 'S' | 'WS' | 'ON';
+
+// Sorted ranges of code points [start, end, type]. Others are 'L'.
+const BIDI_RANGES: [number, number, BidiType][] = [
+    [0x00, 0x08, 'ON'], [0x09, 0x09, 'S'], [0x0A, 0x0A, 'B'], [0x0B, 0x0B, 'S'], [0x0C, 0x0C, 'WS'],
+    [0x0D, 0x0D, 'B'], [0x0E, 0x1B, 'ON'], [0x1C, 0x1E, 'B'], [0x1F, 0x1F, 'S'], [0x20, 0x20, 'WS'],
+    [0x21, 0x22, 'ON'], [0x23, 0x25, 'ET'], [0x26, 0x2A, 'ON'], [0x2B, 0x2B, 'ES'], [0x2C, 0x2C, 'CS'],
+    [0x2D, 0x2D, 'ES'], [0x2E, 0x2F, 'CS'], [0x30, 0x39, 'EN'], [0x3A, 0x3A, 'CS'], [0x3B, 0x40, 'ON'],
+    [0x5B, 0x60, 'ON'], [0x7B, 0x84, 'ON'], [0x85, 0x85, 'B'], [0x86, 0x9F, 'ON'], [0xA0, 0xA0, 'CS'],
+    [0xA1, 0xA1, 'ON'], [0xA2, 0xA5, 'ET'], [0xA6, 0xA9, 'ON'], [0xAB, 0xAF, 'ON'], [0xB0, 0xB1, 'ET'],
+    [0xB2, 0xB3, 'EN'], [0xB4, 0xB4, 'ON'], [0xB6, 0xB8, 'ON'], [0xB9, 0xB9, 'EN'], [0xBB, 0xBF, 'ON'],
+    [0xD7, 0xD7, 'ON'], [0xF7, 0xF7, 'ON'],
+    [0x0300, 0x036F, 'NSM'],
+    // Hebrew
+    [0x0591, 0x05BD, 'NSM'], [0x05BE, 0x05BE, 'R'], [0x05BF, 0x05BF, 'NSM'], [0x05C0, 0x05C0, 'R'],
+    [0x05C1, 0x05C2, 'NSM'], [0x05C3, 0x05C3, 'R'], [0x05C4, 0x05C5, 'NSM'], [0x05C6, 0x05C6, 'R'],
+    [0x05C7, 0x05C7, 'NSM'], [0x05C8, 0x05FF, 'R'],
+    // Arabic
+    [0x0600, 0x0605, 'AN'], [0x0606, 0x0607, 'ON'], [0x0608, 0x0608, 'AL'], [0x0609, 0x060A, 'ET'],
+    [0x060B, 0x060B, 'AL'], [0x060C, 0x060C, 'CS'], [0x060D, 0x060D, 'AL'], [0x060E, 0x060F, 'ON'],
+    [0x0610, 0x061A, 'NSM'], [0x061B, 0x064A, 'AL'], [0x064B, 0x065F, 'NSM'], [0x0660, 0x0669, 'AN'],
+    [0x066A, 0x066A, 'ET'], [0x066B, 0x066C, 'AN'], [0x066D, 0x066F, 'AL'], [0x0670, 0x0670, 'NSM'],
+    [0x0671, 0x06D5, 'AL'], [0x06D6, 0x06DC, 'NSM'], [0x06DD, 0x06DD, 'AN'], [0x06DE, 0x06DE, 'ON'],
+    [0x06DF, 0x06E4, 'NSM'], [0x06E5, 0x06E6, 'AL'], [0x06E7, 0x06E8, 'NSM'], [0x06E9, 0x06E9, 'ON'],
+    [0x06EA, 0x06ED, 'NSM'], [0x06EE, 0x06EF, 'AL'], [0x06F0, 0x06F9, 'EN'],
+    // Arabic, Syriac, Thaana
+    [0x06FA, 0x07BF, 'AL'],
+    // NKo, Samaritan, Mandaic
+    [0x07C0, 0x085F, 'R'],
+    [0x0860, 0x08FF, 'AL'],
+    [0x2000, 0x200A, 'WS'], [0x200B, 0x200D, 'ON'], [0x200F, 0x200F, 'R'], [0x2010, 0x2027, 'ON'],
+    [0x2028, 0x2028, 'WS'], [0x2029, 0x2029, 'B'], [0x202F, 0x202F, 'CS'], [0x2030, 0x2034, 'ET'],
+    [0x2035, 0x2043, 'ON'], [0x2044, 0x2044, 'CS'], [0x2045, 0x205E, 'ON'], [0x205F, 0x205F, 'WS'],
+    [0x20A0, 0x20CF, 'ET'], [0x20D0, 0x20FF, 'NSM'], [0x2190, 0x2BFF, 'ON'],
+    [0x3000, 0x3000, 'WS'], [0x3001, 0x3004, 'ON'], [0x3008, 0x3020, 'ON'],
+    [0xFB1D, 0xFB4F, 'R'], [0xFB50, 0xFDFF, 'AL'], [0xFE00, 0xFE0F, 'NSM'], [0xFE20, 0xFE2F, 'NSM'],
+    [0xFE50, 0xFE6F, 'ON'], [0xFE70, 0xFEFE, 'AL'], [0xFF01, 0xFF0F, 'ON'], [0xFFFC, 0xFFFD, 'ON'],
+    [0x10800, 0x10FFF, 'R'], [0x1E800, 0x1EFFF, 'R'], [0x1F000, 0x1FAFF, 'ON']
+];
+
+function getCodePointBidiType(code: number): BidiType {
+    let lo = 0;
+    let hi = BIDI_RANGES.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const range = BIDI_RANGES[mid];
+        if (code < range[0]) {
+            hi = mid - 1;
+        }
+        else if (code > range[1]) {
+            lo = mid + 1;
+        }
+        else {
+            return range[2];
+        }
+    }
+    return 'L';
+}
+
+function getBidiTypes(text: string): BidiType[] {
+    const types: BidiType[] = [];
+    for (let i = 0; i < text.length; i++) {
+        let code = text.charCodeAt(i);
+        const next = text.charCodeAt(i + 1);
+        const isPair = code >= 0xD800 && code <= 0xDBFF && next >= 0xDC00 && next <= 0xDFFF;
+        if (isPair) {
+            code = (code - 0xD800) * 0x400 + next - 0xDC00 + 0x10000;
+        }
+        const type = getCodePointBidiType(code);
+        types.push(type);
+        if (isPair) {
+            // Both halves of surrogate pair have the same type.
+            types.push(type);
+            i++;
+        }
+    }
+    return types;
+}
+
+function isNeutral(type: BidiType) {
+    return type === 'ON' || type === 'WS' || type === 'S' || type === 'B';
+}
+
+/**
+ * Get the direction of text from its first strong character. Returns null if there is none.
+ */
+export function getTextDirection(text: string): 'ltr' | 'rtl' {
+    const types = getBidiTypes(text);
+    for (let i = 0; i < types.length; i++) {
+        const type = types[i];
+        if (type === 'L') {
+            return 'ltr';
+        }
+        if (type === 'R' || type === 'AL') {
+            return 'rtl';
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolve the `direction` in text style. `'auto'` is determined by the content.
+ */
+export function resolveTextDirection(direction: 'ltr' | 'rtl' | 'auto', text: string): 'ltr' | 'rtl' {
+    return direction === 'auto'
+        ? (getTextDirection(text) || 'ltr')
+        : direction;
+}
+
+/**
+ * Resolve embedding level of each character in a line.
+ * Even level is left to right and odd level is right to left.
+ */
+export function getBidiLevels(text: string, isRTL: boolean): number[] {
+    const baseLevel = isRTL ? 1 : 0;
+    const sor: BidiType = isRTL ? 'R' : 'L';
+    const originalTypes = getBidiTypes(text);
+    const types = originalTypes.slice();
+    const len = types.length;
+
+    // W1. Non-spacing mark takes the type of previous character.
+    for (let i = 0; i < len; i++) {
+        if (types[i] === 'NSM') {
+            types[i] = i ? types[i - 1] : sor;
+        }
+    }
+    // W2, W3. European number after Arabic letter is Arabic number.
+    let lastStrong: BidiType = sor;
+    for (let i = 0; i < len; i++) {
+        const type = types[i];
+        if (type === 'EN') {
+            lastStrong === 'AL' && (types[i] = 'AN');
+        }
+        else if (type === 'L' || type === 'R' || type === 'AL') {
+            lastStrong = type;
+        }
+    }
+    for (let i = 0; i < len; i++) {
+        types[i] === 'AL' && (types[i] = 'R');
+    }
+    // W4. Single separator between two numbers.
+    for (let i = 1; i < len - 1; i++) {
+        const prev = types[i - 1];
+        if (prev === types[i + 1]) {
+            if ((types[i] === 'ES' && prev === 'EN') || (types[i] === 'CS' && (prev === 'EN' || prev === 'AN'))) {
+                types[i] = prev;
+            }
+        }
+    }
+    // W5. Terminators adjacent to European numbers.
+    for (let i = 0; i < len; i++) {
+        if (types[i] === 'ET') {
+            let end = i;
+            while (end < len && types[end] === 'ET') {
+                end++;
+            }
+            if ((i > 0 && types[i - 1] === 'EN') || (end < len && types[end] === 'EN')) {
+                for (let k = i; k < end; k++) {
+                    types[k] = 'EN';
+                }
+            }
+            i = end - 1;
+        }
+    }
+    // W6, W7.
+    lastStrong = sor;
+    for (let i = 0; i < len; i++) {
+        const type = types[i];
+        if (type === 'ES' || type === 'ET' || type === 'CS') {
+            types[i] = 'ON';
+        }
+        else if (type === 'L' || type === 'R') {
+            lastStrong = type;
+        }
+        else if (type === 'EN' && lastStrong === 'L') {
+            types[i] = 'L';
+        }
+    }
+    // N1, N2. Neutrals take the direction of surrounding strong text if they agree,
+    // otherwise the embedding direction. Numbers are treated as R.
+    for (let i = 0; i < len; i++) {
+        if (isNeutral(types[i])) {
+            let end = i;
+            while (end < len && isNeutral(types[end])) {
+                end++;
+            }
+            const prevType = i > 0 ? (types[i - 1] === 'L' ? 'L' : 'R') : sor;
+            const nextType = end < len ? (types[end] === 'L' ? 'L' : 'R') : sor;
+            const type = prevType === nextType ? prevType : sor;
+            for (let k = i; k < end; k++) {
+                types[k] = type;
+            }
+            i = end - 1;
+        }
+    }
+    // I1, I2.
+    const levels: number[] = [];
+    for (let i = 0; i < len; i++) {
+        const type = types[i];
+        levels.push(isRTL
+            ? (type === 'R' ? 1 : 2)
+            : (type === 'L' ? 0 : type === 'R' ? 1 : 2)
+        );
+    }
+    // L1. Trailing whitespaces and whitespaces before separators are reset to base level.
+    let reset = true;
+    for (let i = len - 1; i >= 0; i--) {
+        const type = originalTypes[i];
+        if (type === 'S' || type === 'B') {
+            levels[i] = baseLevel;
+            reset = true;
+        }
+        else if (reset && type === 'WS') {
+            levels[i] = baseLevel;
+        }
+        else {
+            reset = false;
+        }
+    }
+
+    return levels;
+}
+
+/**
+ * Get the indices of items in visual order from their levels (L2).
+ */
+export function getVisualOrder(levels: number[]): number[] {
+    const order: number[] = [];
+    const visualLevels = levels.slice();
+    let maxLevel = 0;
+    let minOddLevel = Infinity;
+    for (let i = 0; i < levels.length; i++) {
+        order.push(i);
+        maxLevel = Math.max(maxLevel, levels[i]);
+        levels[i] % 2 && (minOddLevel = Math.min(minOddLevel, levels[i]));
+    }
+    // From the highest level to the lowest odd level, reverse any sequence at that level or higher.
+    for (let level = maxLevel; level >= minOddLevel; level--) {
+        for (let i = 0; i < order.length; i++) {
+            if (visualLevels[i] >= level) {
+                let end = i;
+                while (end < order.length && visualLevels[end] >= level) {
+                    end++;
+                }
+                for (let lo = i, hi = end - 1; lo < hi; lo++, hi--) {
+                    let tmp = order[lo];
+                    order[lo] = order[hi];
+                    order[hi] = tmp;
+                    tmp = visualLevels[lo];
+                    visualLevels[lo] = visualLevels[hi];
+                    visualLevels[hi] = tmp;
+                }
+                i = end;
+            }
+        }
+    }
+    return order;
+}
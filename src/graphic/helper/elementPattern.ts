@@ -0,0 +1,18 @@
+import Storage from '../../Storage';
+import Displayable from '../Displayable';
+import { ElementPatternObject } from '../Pattern';
+
+export function isElementPattern(val: any): val is ElementPatternObject {
+    return val && !!(val as ElementPatternObject).element;
+}
+
+/**
+ * Get the displayables in the tile of pattern in painting order, with the transforms updated.
+ */
+export function getElementPatternDisplayList(pattern: ElementPatternObject): Displayable[] {
+    const storage = new Storage();
+    storage.addRoot(pattern.element);
+    const list = storage.getDisplayList(true);
+    storage.delRoot(pattern.element);
+    return list;
+}
@@ -0,0 +1,160 @@
+/**
+ * Parse the `filter` style, which uses the syntax of CSS filter functions. Like:
+ * `'blur(2px) brightness(120%) drop-shadow(2px 4px 6px rgba(0,0,0,0.5))'`
+ *
+ * Supported functions are blur, brightness, contrast, grayscale, hue-rotate,
+ * saturate and drop-shadow. Others are ignored.
+ */
+
+import LRU from '../../core/LRU';
+import { trim } from '../../core/util';
+
+export type FilterType = 'blur' | 'brightness' | 'contrast' | 'grayscale'
+    | 'hue-rotate' | 'saturate' | 'drop-shadow';
+
+export interface FilterItem {
+    type: FilterType
+    // Standard deviation of blur, blur radius of drop-shadow (same as shadowBlur),
+    // degree of hue-rotate, or amount of the others.
+    value: number
+    // Only for drop-shadow.
+    offsetX?: number
+    offsetY?: number
+    color?: string
+}
+
+const filterCache = new LRU<FilterItem[]>(50);
+
+const functionRegex = /([a-z-]+)\(((?:[^()]|\([^()]*\))*)\)/g;
+// Separated by space but not in the parenthesis, like `rgba(0, 0, 0, 0.5)`
+const argsRegex = /[^\s(]+(?:\([^()]*\))?/g;
+
+const ANGLE_UNITS: Record<string, number> = {
+    deg: 1,
+    rad: 180 / Math.PI,
+    grad: 0.9,
+    turn: 360
+};
+
+function parseAmount(str: string): number {
+    if (!str) {
+        return 1;
+    }
+    const val = parseFloat(str);
+    return str.indexOf('%') > 0 ? val / 100 : val;
+}
+
+function parseAngle(str: string): number {
+    const val = parseFloat(str) || 0;
+    const unit = str && str.replace(/^[-+\d.e]+/, '');
+    return val * (ANGLE_UNITS[unit] || 1);
+}
+
+function parseDropShadow(args: string[]): FilterItem {
+    const lengths: number[] = [];
+    let color = '#000';
+    for (let i = 0; i < args.length; i++) {
+        const val = parseFloat(args[i]);
+        isNaN(val) ? (color = args[i]) : lengths.push(val);
+    }
+    return {
+        type: 'drop-shadow',
+        value: lengths[2] || 0,
+        offsetX: lengths[0] || 0,
+        offsetY: lengths[1] || 0,
+        color: color
+    };
+}
+
+/**
+ * Parse filter to items in order. Result is cached and should not be modified.
+ */
+export function parseFilter(filter: string): FilterItem[] {
+    if (!filter || filter === 'none') {
+        return [];
+    }
+    let items = filterCache.get(filter);
+    if (items) {
+        return items;
+    }
+
+    items = [];
+    functionRegex.lastIndex = 0;
+    let result;
+    while ((result = functionRegex.exec(filter)) != null) {
+        const type = result[1] as FilterType;
+        const argsStr = trim(result[2]);
+        const args = argsStr.match(argsRegex) || [];
+        switch (type) {
+            case 'blur':
+                items.push({ type, value: parseFloat(argsStr) || 0 });
+                break;
+            case 'hue-rotate':
+                items.push({ type, value: parseAngle(argsStr) });
+                break;
+            case 'grayscale':
+                items.push({ type, value: Math.min(parseAmount(argsStr), 1) });
+                break;
+            case 'brightness':
+            case 'contrast':
+            case 'saturate':
+                items.push({ type, value: Math.max(parseAmount(argsStr), 0) });
+                break;
+            case 'drop-shadow':
+                items.push(parseDropShadow(args));
+                break;
+        }
+    }
+
+    filterCache.put(filter, items);
+    return items;
+}
+
+/**
+ * Get value of `ctx.filter`, where lengths are scaled by the dpr of canvas.
+ */
+export function getCanvasFilter(items: FilterItem[], dpr: number): string {
+    const res: string[] = [];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (item.type === 'blur') {
+            res.push(`blur(${item.value * dpr}px)`);
+        }
+        else if (item.type === 'hue-rotate') {
+            res.push(`hue-rotate(${item.value}deg)`);
+        }
+        else if (item.type === 'drop-shadow') {
+            res.push(
+                `drop-shadow(${item.offsetX * dpr}px ${item.offsetY * dpr}px ${item.value * dpr}px ${item.color})`
+            );
+        }
+        else {
+            res.push(`${item.type}(${item.value})`);
+        }
+    }
+    return res.length ? res.join(' ') : 'none';
+}
+
+/**
+ * Get the extent outside the element painted by the filters, in [left, top, right, bottom].
+ */
+export function getFilterMargin(items: FilterItem[]): number[] {
+    const margin = [0, 0, 0, 0];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        // Gaussian blur is almost invisible beyond three standard deviations.
+        if (item.type === 'blur') {
+            for (let k = 0; k < 4; k++) {
+                margin[k] += item.value * 3;
+            }
+        }
+        else if (item.type === 'drop-shadow') {
+            const blur = item.value;
+            margin[0] = Math.max(margin[0], margin[0] - item.offsetX + blur);
+            margin[1] = Math.max(margin[1], margin[1] - item.offsetY + blur);
+            margin[2] = Math.max(margin[2], margin[2] + item.offsetX + blur);
+            margin[3] = Math.max(margin[3], margin[3] + item.offsetY + blur);
+        }
+    }
+    return margin;
+}
@@ -0,0 +1,267 @@
+/**
+ * Simplified grapheme cluster segmentation (UAX #29) and line breaking (UAX #14).
+ * https://www.unicode.org/reports/tr29/
+ * https://www.unicode.org/reports/tr14/
+ *
+ * Line break classes of characters are simplified, which covers the common scripts.
+ * Scripts like Thai need dictionary to find word boundaries, they are broken between graphemes.
+ */
+
+type LineBreakClass = 'AL' | 'NU' | 'ID' | 'SP' | 'ZW' | 'ZWJ' | 'CM' | 'GL' | 'OP' | 'CL' | 'CP'
+    | 'QU' | 'EX' | 'IS' | 'SY' | 'NS' | 'HY' | 'BA' | 'BB';
+
+// Sorted ranges of code points [start, end, class]. Others are 'AL'.
+const LINE_BREAK_RANGES: [number, number, LineBreakClass][] = [
+    [0x09, 0x09, 'BA'], [0x20, 0x20, 'SP'], [0x21, 0x21, 'EX'], [0x22, 0x22, 'QU'], [0x27, 0x27, 'QU'],
+    [0x28, 0x28, 'OP'], [0x29, 0x29, 'CP'], [0x2C, 0x2C, 'IS'], [0x2D, 0x2D, 'HY'], [0x2E, 0x2E, 'IS'],
+    [0x2F, 0x2F, 'SY'], [0x30, 0x39, 'NU'], [0x3A, 0x3B, 'IS'], [0x3F, 0x3F, 'EX'], [0x5B, 0x5B, 'OP'],
+    [0x5D, 0x5D, 'CP'], [0x7B, 0x7B, 'OP'], [0x7C, 0x7C, 'BA'], [0x7D, 0x7D, 'CL'], [0xA0, 0xA0, 'GL'],
+    [0xAB, 0xAB, 'QU'], [0xAD, 0xAD, 'BA'], [0xB4, 0xB4, 'BB'], [0xBB, 0xBB, 'QU'],
+    [0x0300, 0x036F, 'CM'], [0x0483, 0x0489, 'CM'], [0x0591, 0x05BD, 'CM'],
+    [0x0610, 0x061A, 'CM'], [0x064B, 0x065F, 'CM'], [0x0660, 0x0669, 'NU'], [0x06F0, 0x06F9, 'NU'],
+    [0x0900, 0x0903, 'CM'], [0x093A, 0x093C, 'CM'], [0x093E, 0x094F, 'CM'], [0x0966, 0x096F, 'NU'],
+    // Thai, Lao
+    [0x0E00, 0x0EFF, 'ID'],
+    // Myanmar
+    [0x1000, 0x109F, 'ID'],
+    // Khmer
+    [0x1780, 0x17FF, 'ID'],
+    [0x1AB0, 0x1AFF, 'CM'], [0x1DC0, 0x1DFF, 'CM'],
+    [0x2007, 0x2007, 'GL'], [0x200B, 0x200B, 'ZW'], [0x200D, 0x200D, 'ZWJ'], [0x2010, 0x2010, 'BA'],
+    [0x2011, 0x2011, 'GL'], [0x2012, 0x2013, 'BA'], [0x2018, 0x2019, 'QU'], [0x201C, 0x201D, 'QU'],
+    [0x2024, 0x2026, 'IS'], [0x2027, 0x2027, 'BA'], [0x202F, 0x202F, 'GL'], [0x203C, 0x203D, 'NS'],
+    [0x2047, 0x2049, 'NS'], [0x2060, 0x2060, 'GL'], [0x20D0, 0x20FF, 'CM'],
+    [0x2E80, 0x3000, 'ID'], [0x3001, 0x3002, 'CL'], [0x3005, 0x3005, 'NS'], [0x3008, 0x3008, 'OP'],
+    [0x3009, 0x3009, 'CL'], [0x300A, 0x300A, 'OP'], [0x300B, 0x300B, 'CL'], [0x300C, 0x300C, 'OP'],
+    [0x300D, 0x300D, 'CL'], [0x300E, 0x300E, 'OP'], [0x300F, 0x300F, 'CL'], [0x3010, 0x3010, 'OP'],
+    [0x3011, 0x3011, 'CL'], [0x3014, 0x3014, 'OP'], [0x3015, 0x3015, 'CL'], [0x3016, 0x3016, 'OP'],
+    [0x3017, 0x3017, 'CL'], [0x3018, 0x3018, 'OP'], [0x3019, 0x3019, 'CL'], [0x301A, 0x301A, 'OP'],
+    [0x301B, 0x301B, 'CL'], [0x301C, 0x301C, 'NS'], [0x301D, 0x301D, 'OP'], [0x301E, 0x301F, 'CL'],
+    [0x3020, 0x3029, 'ID'], [0x302A, 0x302F, 'CM'], [0x3030, 0x303A, 'ID'], [0x303B, 0x303B, 'NS'],
+    [0x303C, 0x3040, 'ID'],
+    // Small kana, prolonged sound mark and iteration marks are not allowed at the start of line.
+    [0x3041, 0x3041, 'NS'], [0x3043, 0x3043, 'NS'], [0x3045, 0x3045, 'NS'], [0x3047, 0x3047, 'NS'],
+    [0x3049, 0x3049, 'NS'], [0x3063, 0x3063, 'NS'], [0x3083, 0x3083, 'NS'], [0x3085, 0x3085, 'NS'],
+    [0x3087, 0x3087, 'NS'], [0x308E, 0x308E, 'NS'], [0x3095, 0x3096, 'NS'], [0x3099, 0x309A, 'CM'],
+    [0x309B, 0x309E, 'NS'], [0x30A0, 0x30A1, 'NS'], [0x30A3, 0x30A3, 'NS'], [0x30A5, 0x30A5, 'NS'],
+    [0x30A7, 0x30A7, 'NS'], [0x30A9, 0x30A9, 'NS'], [0x30C3, 0x30C3, 'NS'], [0x30E3, 0x30E3, 'NS'],
+    [0x30E5, 0x30E5, 'NS'], [0x30E7, 0x30E7, 'NS'], [0x30EE, 0x30EE, 'NS'], [0x30F5, 0x30F6, 'NS'],
+    [0x30FB, 0x30FE, 'NS'], [0x31F0, 0x31FF, 'NS'],
+    [0x3200, 0x4DBF, 'ID'], [0x4E00, 0x9FFF, 'ID'], [0xA000, 0xA4CF, 'ID'], [0xAC00, 0xD7AF, 'ID'],
+    [0xF900, 0xFAFF, 'ID'], [0xFE00, 0xFE0F, 'CM'], [0xFE20, 0xFE2F, 'CM'], [0xFE30, 0xFE4F, 'ID'],
+    [0xFEFF, 0xFEFF, 'GL'], [0xFF01, 0xFF01, 'EX'], [0xFF02, 0xFF07, 'ID'], [0xFF08, 0xFF08, 'OP'],
+    [0xFF09, 0xFF09, 'CL'], [0xFF0A, 0xFF0B, 'ID'], [0xFF0C, 0xFF0C, 'CL'], [0xFF0D, 0xFF0D, 'ID'],
+    [0xFF0E, 0xFF0E, 'CL'], [0xFF0F, 0xFF19, 'ID'], [0xFF1A, 0xFF1B, 'NS'], [0xFF1C, 0xFF1E, 'ID'],
+    [0xFF1F, 0xFF1F, 'EX'], [0xFF20, 0xFF3A, 'ID'], [0xFF3B, 0xFF3B, 'OP'], [0xFF3C, 0xFF3C, 'ID'],
+    [0xFF3D, 0xFF3D, 'CL'], [0xFF3E, 0xFF5A, 'ID'], [0xFF5B, 0xFF5B, 'OP'], [0xFF5C, 0xFF5C, 'ID'],
+    [0xFF5D, 0xFF5D, 'CL'], [0xFF5E, 0xFF5E, 'ID'], [0xFF5F, 0xFF5F, 'OP'], [0xFF60, 0xFF61, 'CL'],
+    [0xFF62, 0xFF62, 'OP'], [0xFF63, 0xFF64, 'CL'], [0xFF65, 0xFF65, 'NS'], [0xFF66, 0xFF66, 'ID'],
+    [0xFF67, 0xFF70, 'NS'], [0xFF71, 0xFFEF, 'ID'],
+    // Emoji
+    [0x1F000, 0x1FAFF, 'ID'],
+    [0x20000, 0x3FFFD, 'ID'], [0xE0020, 0xE007F, 'CM'], [0xE0100, 0xE01EF, 'CM']
+];
+
+// Sorted ranges of code points which extend the previous grapheme cluster.
+const GRAPHEME_EXTEND_RANGES: [number, number][] = [
+    [0x0300, 0x036F], [0x0483, 0x0489], [0x0591, 0x05BD], [0x05BF, 0x05BF], [0x05C1, 0x05C2],
+    [0x05C4, 0x05C5], [0x05C7, 0x05C7], [0x0610, 0x061A], [0x064B, 0x065F], [0x0670, 0x0670],
+    [0x06D6, 0x06DC], [0x06DF, 0x06E4], [0x06E7, 0x06E8], [0x06EA, 0x06ED], [0x0711, 0x0711],
+    [0x0730, 0x074A], [0x0900, 0x0903], [0x093A, 0x093C], [0x093E, 0x094F], [0x0951, 0x0957],
+    [0x0962, 0x0963], [0x0981, 0x0983], [0x09BC, 0x09BC], [0x09BE, 0x09CD], [0x09D7, 0x09D7],
+    [0x0E31, 0x0E31], [0x0E33, 0x0E3A], [0x0E47, 0x0E4E], [0x0EB1, 0x0EB1], [0x0EB3, 0x0EBC],
+    [0x0EC8, 0x0ECD], [0x1AB0, 0x1AFF], [0x1DC0, 0x1DFF], [0x200C, 0x200D], [0x20D0, 0x20FF],
+    [0x302A, 0x302F], [0x3099, 0x309A], [0xFE00, 0xFE0F], [0xFE20, 0xFE2F],
+    // Emoji modifiers
+    [0x1F3FB, 0x1F3FF],
+    [0xE0020, 0xE007F], [0xE0100, 0xE01EF]
+];
+
+function findInRanges<T extends [number, number, ...unknown[]]>(ranges: T[], code: number): T {
+    let lo = 0;
+    let hi = ranges.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const range = ranges[mid];
+        if (code < range[0]) {
+            hi = mid - 1;
+        }
+        else if (code > range[1]) {
+            lo = mid + 1;
+        }
+        else {
+            return range;
+        }
+    }
+}
+
+function getCodePoint(text: string, idx: number) {
+    const code = text.charCodeAt(idx);
+    const next = text.charCodeAt(idx + 1);
+    return (code >= 0xD800 && code <= 0xDBFF && next >= 0xDC00 && next <= 0xDFFF)
+        ? (code - 0xD800) * 0x400 + next - 0xDC00 + 0x10000
+        : code;
+}
+
+function isRegionalIndicator(code: number) {
+    return code >= 0x1F1E6 && code <= 0x1F1FF;
+}
+
+/**
+ * Split text into grapheme clusters, which should not be broken in wrapping and truncating.
+ * Like combining marks, surrogate pairs, emoji ZWJ sequences and flags.
+ */
+export function splitGraphemes(text: string): string[] {
+    const out: string[] = [];
+    let cluster = '';
+    let prevCode = -1;
+    let regionalCount = 0;
+    for (let i = 0; i < text.length;) {
+        const code = getCodePoint(text, i);
+        const len = code > 0xFFFF ? 2 : 1;
+        const isRegional = isRegionalIndicator(code);
+        const join = cluster && (
+            // CR LF
+            prevCode === 0x0D ? code === 0x0A
+            // Control characters are not combined.
+            : (prevCode < 0x20 || code < 0x20) ? false
+            // Emoji ZWJ sequence.
+            : prevCode === 0x200D
+            // Pair of regional indicators is a flag.
+            || (isRegional && regionalCount % 2 === 1)
+            || !!findInRanges(GRAPHEME_EXTEND_RANGES, code)
+        );
+        if (!join) {
+            cluster && out.push(cluster);
+            cluster = '';
+            regionalCount = 0;
+        }
+        cluster += text.substr(i, len);
+        regionalCount = isRegional ? regionalCount + 1 : 0;
+        prevCode = code;
+        i += len;
+    }
+    cluster && out.push(cluster);
+    return out;
+}
+
+/**
+ * Get the longest leading graphemes of text whose length is not larger than the given length.
+ */
+export function sliceGraphemes(text: string, length: number): string {
+    const graphemes = splitGraphemes(text);
+    let out = '';
+    for (let i = 0; i < graphemes.length && out.length + graphemes[i].length <= length; i++) {
+        out += graphemes[i];
+    }
+    return out;
+}
+
+function getLineBreakClass(grapheme: string, isBreakAll: boolean): LineBreakClass {
+    const range = findInRanges(LINE_BREAK_RANGES, getCodePoint(grapheme, 0));
+    const cls = range ? range[2] : 'AL';
+    // Combining mark without base character is treated as alphabetic.
+    return (cls === 'CM' || cls === 'ZWJ') ? 'AL'
+        // Letters and numbers can be broken like ideographs when break all.
+        : (isBreakAll && (cls === 'AL' || cls === 'NU')) ? 'ID'
+        : cls;
+}
+
+function isAlphanumeric(cls: LineBreakClass) {
+    return cls === 'AL' || cls === 'NU';
+}
+
+/**
+ * If line can be broken before the grapheme at idx.
+ */
+function canBreakBefore(classes: LineBreakClass[], idx: number): boolean {
+    const before = classes[idx - 1];
+    const after = classes[idx];
+    // Last class before spaces.
+    let k = idx - 1;
+    while (k > 0 && classes[k] === 'SP') {
+        k--;
+    }
+    const prev = classes[k];
+    const hasSpace = before === 'SP';
+
+    // LB7
+    if (after === 'SP' || after === 'ZW') {
+        return false;
+    }
+    // LB8
+    if (prev === 'ZW') {
+        return true;
+    }
+    // LB11, LB12
+    if (before === 'GL' || after === 'GL') {
+        return false;
+    }
+    // LB13. Closing punctuations are not allowed at the start of line.
+    if (after === 'CL' || after === 'CP' || after === 'EX' || after === 'IS' || after === 'SY') {
+        return false;
+    }
+    // LB14. Opening punctuations are not allowed at the end of line.
+    if (prev === 'OP') {
+        return false;
+    }
+    // LB15, LB16
+    if ((prev === 'QU' && after === 'OP') || ((prev === 'CL' || prev === 'CP') && after === 'NS')) {
+        return false;
+    }
+    // LB18
+    if (hasSpace) {
+        return true;
+    }
+    // LB19
+    if (before === 'QU' || after === 'QU') {
+        return false;
+    }
+    // LB21
+    if (after === 'BA' || after === 'HY' || after === 'NS' || before === 'BB') {
+        return false;
+    }
+    // LB23 - LB30. Words and numbers.
+    if (
+        (isAlphanumeric(before) || before === 'IS' || before === 'CP') && isAlphanumeric(after)
+        || ((before === 'HY' || before === 'SY') && after === 'NU')
+        || (isAlphanumeric(before) && after === 'OP')
+    ) {
+        return false;
+    }
+    // LB31
+    return true;
+}
+
+/**
+ * Split text by the line break opportunities. Line can't be broken inside each unit.
+ * Spaces are at the end of units.
+ * @param isBreakAll Break between letters like ideographs.
+ */
+export function splitLineBreakUnits(text: string, isBreakAll?: boolean): string[] {
+    const graphemes = splitGraphemes(text);
+    const classes: LineBreakClass[] = [];
+    for (let i = 0; i < graphemes.length; i++) {
+        classes.push(getLineBreakClass(graphemes[i], isBreakAll));
+    }
+    const units: string[] = [];
+    let unit = '';
+    for (let i = 0; i < graphemes.length; i++) {
+        if (i > 0 && canBreakBefore(classes, i)) {
+            units.push(unit);
+            unit = '';
+        }
+        unit += graphemes[i];
+    }
+    unit && units.push(unit);
+    return units;
+}
+
+/**
+ * If the grapheme is not allowed at the start of line, like closing punctuations.
+ */
+export function isLineStartProhibited(grapheme: string): boolean {
+    const cls = getLineBreakClass(grapheme, false);
+    return cls === 'CL' || cls === 'CP' || cls === 'EX' || cls === 'IS' || cls === 'NS'
+        || cls === 'SP' || cls === 'GL';
+}
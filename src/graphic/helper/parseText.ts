@@ -2,14 +2,17 @@ import * as imageHelper from '../helper/image';
 import {
     extend,
     retrieve2,
-    retrieve3,
-    reduce
+    retrieve3
 } from '../../core/util';
-import { TextAlign, TextVerticalAlign, ImageLike, Dictionary } from '../../core/types';
+import { TextAlign, TextVerticalAlign, ImageLike } from '../../core/types';
 import { TextStyleProps } from '../Text';
-import { getLineHeight, getWidth, parsePercent } from '../../contain/text';
+import { getLineHeight, getWidth, parsePercent, resolveTextAlign } from '../../contain/text';
+import { getBidiLevels, getVisualOrder, resolveTextDirection } from './bidi';
+import { splitGraphemes, sliceGraphemes, splitLineBreakUnits, isLineStartProhibited } from './lineBreak';
+import { getVerticalTextLength } from './verticalText';
 
 const STYLE_REG = /\{([a-zA-Z0-9_]+)\|([^}]*)\}/g;
+const TRAILING_SPACES_REG = / +$/;
 
 interface InnerTruncateOption {
     maxIteration?: number
@@ -20,8 +23,13 @@ interface InnerTruncateOption {
     placeholder?: string
 
     maxIterations?: number
+
+    // Measure width of text. Length of column is measured in vertical writing mode.
+    measureWidth?: MeasureWidth
 }
 
+type MeasureWidth = (text: string, font: string) => number;
+
 interface InnerPreparedTruncateOption extends Required<InnerTruncateOption> {
     font: string
 
@@ -70,15 +78,16 @@ function prepareTruncateOptions(
     let preparedOpts = extend({}, options) as InnerPreparedTruncateOption;
 
     preparedOpts.font = font;
+    const measureWidth = preparedOpts.measureWidth = options.measureWidth || getWidth;
     ellipsis = retrieve2(ellipsis, '...');
     preparedOpts.maxIterations = retrieve2(options.maxIterations, 2);
     const minChar = preparedOpts.minChar = retrieve2(options.minChar, 0);
     // FIXME
     // Other languages?
-    preparedOpts.cnCharWidth = getWidth('国', font);
+    preparedOpts.cnCharWidth = measureWidth('国', font);
     // FIXME
     // Consider proportional font?
-    const ascCharWidth = preparedOpts.ascCharWidth = getWidth('a', font);
+    const ascCharWidth = preparedOpts.ascCharWidth = measureWidth('a', font);
     preparedOpts.placeholder = retrieve2(options.placeholder, '');
 
     // Example 1: minChar: 3, text: 'asdfzxcv', truncate result: 'asdf', but not: 'a...'.
@@ -88,7 +97,7 @@ function prepareTruncateOptions(
         contentWidth -= ascCharWidth;
     }
 
-    let ellipsisWidth = getWidth(ellipsis, font);
+    let ellipsisWidth = measureWidth(ellipsis, font);
     if (ellipsisWidth > contentWidth) {
         ellipsis = '';
         ellipsisWidth = 0;
@@ -108,12 +117,13 @@ function truncateSingleLine(textLine: string, options: InnerPreparedTruncateOpti
     const containerWidth = options.containerWidth;
     const font = options.font;
     const contentWidth = options.contentWidth;
+    const measureWidth = options.measureWidth;
 
     if (!containerWidth) {
         return '';
     }
 
-    let lineWidth = getWidth(textLine, font);
+    let lineWidth = measureWidth(textLine, font);
 
     if (lineWidth <= containerWidth) {
         return textLine;
@@ -131,8 +141,9 @@ function truncateSingleLine(textLine: string, options: InnerPreparedTruncateOpti
             ? Math.floor(textLine.length * contentWidth / lineWidth)
             : 0;
 
-        textLine = textLine.substr(0, subLength);
-        lineWidth = getWidth(textLine, font);
+        // Graphemes like emoji sequences are not split.
+        textLine = sliceGraphemes(textLine, subLength);
+        lineWidth = measureWidth(textLine, font);
     }
 
     if (textLine === '') {
@@ -174,6 +185,11 @@ export interface PlainTextContentBlock {
     outerHeight: number
 
     lines: string[]
+
+    /**
+     * Resolved direction. Not set if `direction` is not specified in style.
+     */
+    direction?: 'ltr' | 'rtl'
 }
 
 export function parsePlainText(
@@ -193,18 +209,25 @@ export function parsePlainText(
 
     const truncateLineOverflow = style.lineOverflow === 'truncate';
 
-    let width = style.width;
+    // Lines are columns in vertical writing mode. So the length of line is limited by height
+    // and the count of lines is limited by width.
+    const isVertical = style.writingMode === 'vertical';
+    const measureWidth = isVertical ? getVerticalTextLength : getWidth;
+    const paddingInline = padding ? (isVertical ? padding[0] + padding[2] : padding[1] + padding[3]) : 0;
+    const paddingBlock = padding ? (isVertical ? padding[1] + padding[3] : padding[0] + padding[2]) : 0;
+
+    let width = isVertical ? style.height : style.width;
     let lines: string[];
 
     if (width != null && (overflow === 'break' || overflow === 'breakAll')) {
-        lines = text ? wrapText(text, style.font, width, overflow === 'breakAll', 0).lines : [];
+        lines = text ? wrapText(text, style.font, width, overflow === 'breakAll', 0, measureWidth).lines : [];
     }
     else {
         lines = text ? text.split('\n') : [];
     }
 
     const contentHeight = lines.length * lineHeight;
-    const height = retrieve2(style.height, contentHeight);
+    const height = retrieve2(isVertical ? style.width : style.height, contentHeight);
 
     // Truncate lines.
     if (contentHeight > height && truncateLineOverflow) {
@@ -225,7 +248,8 @@ export function parsePlainText(
     if (text && truncate && width != null) {
         const options = prepareTruncateOptions(width, font, style.ellipsis, {
             minChar: style.truncateMinChar,
-            placeholder: style.placeholder
+            placeholder: style.placeholder,
+            measureWidth
         });
         // Having every line has '...' when truncate multiple lines.
         for (let i = 0; i < lines.length; i++) {
@@ -237,7 +261,7 @@ export function parsePlainText(
     let outerHeight = height;
     let contentWidth = 0;
     for (let i = 0; i < lines.length; i++) {
-        contentWidth = Math.max(getWidth(lines[i], font), contentWidth);
+        contentWidth = Math.max(measureWidth(lines[i], font), contentWidth);
     }
     if (width == null) {
         // When width is not explicitly set, use outerWidth as width.
@@ -246,9 +270,9 @@ export function parsePlainText(
 
     let outerWidth = contentWidth;
     if (padding) {
-        outerHeight += padding[0] + padding[2];
-        outerWidth += padding[1] + padding[3];
-        width += padding[1] + padding[3];
+        outerHeight += paddingBlock;
+        outerWidth += paddingInline;
+        width += paddingInline;
     }
 
     if (bgColorDrawn) {
@@ -256,8 +280,23 @@ export function parsePlainText(
         outerWidth = width;
     }
 
-    return {
+    const direction = style.direction && text ? resolveTextDirection(style.direction, text) : null;
+
+    // Sizes above are calculated along the line. Swap them in vertical writing mode.
+    return isVertical ? {
         lines: lines,
+        direction: direction,
+        height: width,
+        outerWidth: outerHeight,
+        outerHeight: outerWidth,
+        lineHeight: lineHeight,
+        calculatedLineHeight: calculatedLineHeight,
+        contentWidth: contentHeight,
+        contentHeight: contentWidth,
+        width: height
+    } : {
+        lines: lines,
+        direction: direction,
         height: height,
         outerWidth: outerWidth,
         outerHeight: outerHeight,
@@ -291,6 +330,9 @@ class RichTextToken {
     percentWidth?: string
 
     isLineHolder: boolean
+
+    // Direction resolved by the bidi algorithm.
+    direction?: 'ltr' | 'rtl'
 }
 class RichTextLine {
     lineHeight: number
@@ -314,6 +356,8 @@ export class RichTextContentBlock {
     outerWidth: number = 0
     outerHeight: number = 0
     lines: RichTextLine[] = []
+    // Resolved direction. Not set if `direction` is not specified in style.
+    direction: 'ltr' | 'rtl'
 }
 
 type WrapInfo = {
@@ -356,6 +400,11 @@ export function parseRichText(text: string, style: TextStyleProps) {
         pushTokens(contentBlock, text.substring(lastIndex, text.length), style, wrapInfo);
     }
 
+    // Direction is determined by the content of tokens without style names.
+    const direction = contentBlock.direction = style.direction
+        ? resolveTextDirection(style.direction, getTokensText(contentBlock))
+        : null;
+
     // For `textWidth: xx%`
     let pendingList = [];
 
@@ -406,7 +455,7 @@ export function parseRichText(text: string, style: TextStyleProps) {
                 tokenStyle.lineHeight, style.lineHeight, tokenHeight
             );
 
-            token.align = tokenStyle && tokenStyle.align || style.align;
+            token.align = resolveTextAlign(tokenStyle && tokenStyle.align || style.align, direction);
             token.verticalAlign = tokenStyle && tokenStyle.verticalAlign || 'middle';
 
             if (truncateLine && topHeight != null && calculatedHeight + token.lineHeight > topHeight) {
@@ -484,6 +533,13 @@ export function parseRichText(text: string, style: TextStyleProps) {
         finishLine(line, lineWidth, lineHeight);
     }
 
+    if (direction) {
+        // Truncated in logical order, so the ellipsis is at the logical end.
+        for (let i = 0; i < contentBlock.lines.length; i++) {
+            reorderTokens(contentBlock.lines[i], direction);
+        }
+    }
+
     contentBlock.outerWidth = contentBlock.width = retrieve2(topWidth, calculatedWidth);
     contentBlock.outerHeight = contentBlock.height = retrieve2(topHeight, calculatedHeight);
     contentBlock.contentHeight = calculatedHeight;
@@ -504,6 +560,52 @@ export function parseRichText(text: string, style: TextStyleProps) {
     return contentBlock;
 }
 
+// Object replacement character, which is neutral in bidi.
+const OBJECT_REPLACEMENT = '\ufffc';
+
+function getTokensText(block: RichTextContentBlock) {
+    let text = '';
+    for (let i = 0; i < block.lines.length; i++) {
+        const tokens = block.lines[i].tokens;
+        for (let j = 0; j < tokens.length; j++) {
+            text += tokens[j].text;
+        }
+        text += '\n';
+    }
+    return text;
+}
+
+/**
+ * Reorder tokens in line to visual order by the bidi algorithm, and resolve direction of each token.
+ * Level of token is the lowest level of its characters.
+ */
+function reorderTokens(line: RichTextLine, direction: 'ltr' | 'rtl') {
+    const tokens = line.tokens;
+    let lineText = '';
+    for (let i = 0; i < tokens.length; i++) {
+        // Empty token like image is placed as an object.
+        lineText += tokens[i].text || OBJECT_REPLACEMENT;
+    }
+    const charLevels = getBidiLevels(lineText, direction === 'rtl');
+    const levels: number[] = [];
+    let offset = 0;
+    for (let i = 0; i < tokens.length; i++) {
+        const end = offset + (tokens[i].text.length || 1);
+        let level = Infinity;
+        for (; offset < end; offset++) {
+            level = Math.min(level, charLevels[offset]);
+        }
+        levels.push(level);
+        tokens[i].direction = level % 2 ? 'rtl' : 'ltr';
+    }
+    const order = getVisualOrder(levels);
+    const reordered: RichTextToken[] = [];
+    for (let i = 0; i < order.length; i++) {
+        reordered.push(tokens[order[i]]);
+    }
+    line.tokens = reordered;
+}
+
 type TokenStyle = TextStyleProps['rich'][string];
 
 function pushTokens(
@@ -591,156 +693,89 @@ function pushTokens(
 }
 
 
-function isLatin(ch: string) {
-    let code = ch.charCodeAt(0);
-    return code >= 0x21 && code <= 0x17F;
-}
-
-const breakCharMap = reduce(',&?/;] '.split(''), function (obj, ch) {
-    obj[ch] = true;
-    return obj;
-}, {} as Dictionary<boolean>);
-/**
- * If break by word. For latin languages.
- */
-function isWordBreakChar(ch: string) {
-    if (isLatin(ch)) {
-        if (breakCharMap[ch]) {
-            return true;
-        }
-        return false;
-    }
-    return true;
-}
-
 function wrapText(
     text: string,
     font: string,
     lineWidth: number,
     isBreakAll: boolean,
-    lastAccumWidth: number
+    lastAccumWidth: number,
+    measureWidth?: MeasureWidth
 ) {
-    let lines: string[] = [];
-    let linesWidths: number[] = [];
+    measureWidth = measureWidth || getWidth;
+    const lines: string[] = [];
+    const linesWidths: number[] = [];
     let line = '';
-    let currentWord = '';
-    let currentWordWidth = 0;
     let accumWidth = 0;
 
-    for (let i = 0; i < text.length; i++) {
+    if (!text) {
+        return {
+            accumWidth,
+            lines,
+            linesWidths
+        };
+    }
 
-        const ch = text.charAt(i);
-        if (ch === '\n') {
-            if (currentWord) {
-                line += currentWord;
-                accumWidth += currentWordWidth;
-            }
+    function pushLine() {
+        // Spaces at the end of line are not kept when it's broken.
+        const trimmedLine = line.replace(TRAILING_SPACES_REG, '');
+        lines.push(trimmedLine);
+        linesWidths.push(trimmedLine === line ? accumWidth : measureWidth(trimmedLine, font));
+        line = '';
+        accumWidth = 0;
+    }
+
+    const paragraphs = text.split('\n');
+    for (let i = 0; i < paragraphs.length; i++) {
+        if (i > 0) {
             lines.push(line);
             linesWidths.push(accumWidth);
-            // Reset
             line = '';
-            currentWord = '';
-            currentWordWidth = 0;
             accumWidth = 0;
-            continue;
         }
 
-        const chWidth = getWidth(ch, font);
-        const inWord = isBreakAll ? false : !isWordBreakChar(ch);
-
-        if (!lines.length
-            ? lastAccumWidth + accumWidth + chWidth > lineWidth
-            : accumWidth + chWidth > lineWidth
-        ) {
-            if (!accumWidth) {  // If nothing appended yet.
-                if (inWord) {
-                    // The word length is still too long for one line
-                    // Force break the word
-                    lines.push(currentWord);
-                    linesWidths.push(currentWordWidth);
-
-                    currentWord = ch;
-                    currentWordWidth = chWidth;
-                }
-                else {
-                    // lineWidth is too small for ch
-                    lines.push(ch);
-                    linesWidths.push(chWidth);
-                }
+        const units = splitLineBreakUnits(paragraphs[i], isBreakAll);
+        for (let k = 0; k < units.length; k++) {
+            const unit = units[k];
+            const unitWidth = measureWidth(unit, font);
+            // Spaces at the end can overflow.
+            const trimmedUnit = unit.replace(TRAILING_SPACES_REG, '');
+            const contentWidth = trimmedUnit === unit ? unitWidth : measureWidth(trimmedUnit, font);
+            // The first line has been occupied by the previous tokens in rich text.
+            const isFirstLine = !lines.length;
+            const lineStartWidth = isFirstLine ? lastAccumWidth : 0;
+
+            if (lineStartWidth + accumWidth + contentWidth <= lineWidth) {
+                line += unit;
+                accumWidth += unitWidth;
+                continue;
             }
-            else if (line || currentWord) {
-                if (inWord) {
-                    if (!line) {
-                        // The one word is still too long for one line
-                        // Force break the word
-                        // TODO Keep the word?
-                        line = currentWord;
-                        currentWord = '';
-                        currentWordWidth = 0;
-                        accumWidth = currentWordWidth;
-                    }
 
-                    lines.push(line);
-                    linesWidths.push(accumWidth - currentWordWidth);
-
-                    // Break the whole word
-                    currentWord += ch;
-                    currentWordWidth += chWidth;
-                    line = '';
-                    accumWidth = currentWordWidth;
-                }
-                else {
-                    // Append lastWord if have
-                    if (currentWord) {
-                        line += currentWord;
-                        currentWord = '';
-                        currentWordWidth = 0;
-                    }
-                    lines.push(line);
-                    linesWidths.push(accumWidth);
-
-                    line = ch;
-                    accumWidth = chWidth;
+            if (line || (isFirstLine && lastAccumWidth)) {
+                // Break before the unit.
+                pushLine();
+                if (contentWidth <= lineWidth) {
+                    line = unit;
+                    accumWidth = unitWidth;
+                    continue;
                 }
             }
 
-            continue;
-        }
-
-        accumWidth += chWidth;
-
-        if (inWord) {
-            currentWord += ch;
-            currentWordWidth += chWidth;
-        }
-        else {
-            // Append whole word
-            if (currentWord) {
-                line += currentWord;
-                // Reset
-                currentWord = '';
-                currentWordWidth = 0;
+            // The unit is still too long for one line. Force break it between graphemes.
+            const graphemes = splitGraphemes(unit);
+            for (let j = 0; j < graphemes.length; j++) {
+                const grapheme = graphemes[j];
+                const graphemeWidth = measureWidth(grapheme, font);
+                if (line && accumWidth + graphemeWidth > lineWidth && !isLineStartProhibited(grapheme)) {
+                    pushLine();
+                }
+                line += grapheme;
+                accumWidth += graphemeWidth;
             }
-
-            // Append character
-            line += ch;
         }
     }
 
-    if (!lines.length && !line) {
-        line = text;
-        currentWord = '';
-        currentWordWidth = 0;
-    }
-
-    // Append last line.
-    if (currentWord) {
-        line += currentWord;
-    }
-    if (line) {
-        lines.push(line);
-        linesWidths.push(accumWidth);
-    }
+    lines.push(line);
+    linesWidths.push(accumWidth);
 
     if (lines.length === 1) {
         // No new line.
@@ -753,4 +788,4 @@ function wrapText(
         lines: lines,
         linesWidths
     };
-}
\ No newline at end of file
+}
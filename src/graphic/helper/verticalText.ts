@@ -0,0 +1,79 @@
+/**
+ * Layout of text in vertical writing mode.
+ * Glyphs of East Asian scripts are upright, other runs like Latin are rotated 90 degrees clockwise.
+ * Orientation of characters is a simplified version of UAX #50.
+ * https://www.unicode.org/reports/tr50/
+ */
+
+import { getLineHeight, getWidth } from '../../contain/text';
+import { splitGraphemes } from './lineBreak';
+
+export interface VerticalTextRun {
+    text: string
+    upright: boolean
+    // Length along the column.
+    advance: number
+}
+
+// Sorted ranges of code points which are upright in vertical text.
+const UPRIGHT_RANGES = [
+    [0x1100, 0x11FF], [0x2E80, 0x3007], [0x3012, 0x3013], [0x301D, 0x30FB], [0x30FD, 0xA4CF],
+    [0xAC00, 0xD7AF], [0xF900, 0xFAFF], [0xFE10, 0xFE1F], [0xFE30, 0xFE4F], [0xFF01, 0xFF07],
+    [0xFF0A, 0xFF3A], [0xFF3C, 0xFF3C], [0xFF3E, 0xFF5A], [0xFF5C, 0xFF5C], [0xFFE0, 0xFFE7],
+    [0x1F000, 0x1FAFF], [0x20000, 0x3FFFD]
+];
+
+function isUpright(grapheme: string) {
+    let code = grapheme.charCodeAt(0);
+    const next = grapheme.charCodeAt(1);
+    if (code >= 0xD800 && code <= 0xDBFF && next >= 0xDC00 && next <= 0xDFFF) {
+        code = (code - 0xD800) * 0x400 + next - 0xDC00 + 0x10000;
+    }
+    for (let i = 0; i < UPRIGHT_RANGES.length && code >= UPRIGHT_RANGES[i][0]; i++) {
+        if (code <= UPRIGHT_RANGES[i][1]) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Split text in a column into runs. Each upright grapheme is a run.
+ */
+export function getVerticalTextRuns(text: string, font: string): VerticalTextRun[] {
+    const graphemes = splitGraphemes(text);
+    const runs: VerticalTextRun[] = [];
+    // Upright glyph takes one em.
+    const uprightAdvance = getLineHeight(font);
+    let rotatedText = '';
+    function flushRotated() {
+        if (rotatedText) {
+            runs.push({ text: rotatedText, upright: false, advance: getWidth(rotatedText, font) });
+            rotatedText = '';
+        }
+    }
+    for (let i = 0; i < graphemes.length; i++) {
+        const grapheme = graphemes[i];
+        if (isUpright(grapheme)) {
+            flushRotated();
+            runs.push({ text: grapheme, upright: true, advance: uprightAdvance });
+        }
+        else {
+            rotatedText += grapheme;
+        }
+    }
+    flushRotated();
+    return runs;
+}
+
+/**
+ * Length of the column of text in vertical writing mode.
+ */
+export function getVerticalTextLength(text: string, font: string): number {
+    const runs = getVerticalTextRuns(text, font);
+    let length = 0;
+    for (let i = 0; i < runs.length; i++) {
+        length += runs[i].advance;
+    }
+    return length;
+}
@@ -0,0 +1,203 @@
+/**
+ * Raster Painter.
+ * Renders the display list with a software rasterizer into an RGBA buffer,
+ * which can be exported as PNG without a native canvas.
+ */
+
+import Storage from '../Storage';
+import { PainterBase } from '../PainterBase';
+import { GradientObject } from '../graphic/Gradient';
+import { ImagePatternObject } from '../graphic/Pattern';
+import { brush, BrushScope, createCanvasPattern } from '../canvas/graphic';
+import { getCanvasGradient } from '../canvas/helper';
+import { extend, isGradientObject, isImagePatternObject, logError } from '../core/util';
+import RasterContext, { RasterGlyphProvider, RasterImageData } from './RasterContext';
+import { encodePNG, bytesToBase64 } from './png';
+
+interface RasterPainterOption {
+    width?: number | string
+    height?: number | string
+    devicePixelRatio?: number
+    /**
+     * Provide glyph outlines for text rendering.
+     * Text is not drawn if not given.
+     */
+    glyphProvider?: RasterGlyphProvider
+}
+
+class RasterPainter implements PainterBase {
+
+    type = 'raster'
+
+    ssrOnly = true
+
+    storage: Storage
+
+    dpr: number
+
+    private _opts: RasterPainterOption
+
+    private _ctx: RasterContext
+
+    private _width: number
+    private _height: number
+
+    private _backgroundColor: string | GradientObject | ImagePatternObject
+
+    constructor(root: HTMLElement, storage: Storage, opts: RasterPainterOption) {
+        this.storage = storage;
+        this._opts = opts = extend({}, opts);
+        this.dpr = opts.devicePixelRatio || 1;
+
+        this._ctx = new RasterContext(0, 0, opts.glyphProvider);
+        this._ctx.dpr = this.dpr;
+
+        this.resize(opts.width, opts.height);
+    }
+
+    getType() {
+        return this.type;
+    }
+
+    getViewportRoot(): HTMLElement {
+        return null;
+    }
+
+    getViewportRootOffset(): {offsetLeft: number, offsetTop: number} {
+        return null;
+    }
+
+    /**
+     * Get the software context. Can be used to draw something else on the result.
+     */
+    getContext() {
+        return this._ctx;
+    }
+
+    refresh() {
+        const ctx = this._ctx;
+        const list = this.storage.getDisplayList(true);
+
+        this._clear();
+
+        const scope: BrushScope = {
+            inHover: false,
+            allClipped: false,
+            prevEl: null,
+            viewWidth: this._width,
+            viewHeight: this._height
+        };
+        ctx.save();
+        for (let i = 0; i < list.length; i++) {
+            brush(ctx as unknown as CanvasRenderingContext2D, list[i], scope, i === list.length - 1);
+        }
+        if (scope.prevElClipPaths) {
+            ctx.restore();
+        }
+        ctx.restore();
+    }
+
+    private _clear() {
+        const ctx = this._ctx;
+        const width = this._width;
+        const height = this._height;
+        const backgroundColor = this._backgroundColor;
+
+        ctx.data.fill(0);
+        if (backgroundColor && backgroundColor !== 'transparent' && backgroundColor !== 'none') {
+            const canvasCtx = ctx as unknown as CanvasRenderingContext2D;
+            let fillStyle;
+            if (isGradientObject(backgroundColor)) {
+                fillStyle = getCanvasGradient(canvasCtx, backgroundColor, {
+                    x: 0, y: 0, width, height
+                });
+            }
+            else if (isImagePatternObject(backgroundColor)) {
+                fillStyle = createCanvasPattern(canvasCtx, backgroundColor, {
+                    dirty: () => this.refresh()
+                });
+            }
+            ctx.save();
+            ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+            ctx.fillStyle = (fillStyle || backgroundColor) as string;
+            ctx.fillRect(0, 0, width, height);
+            ctx.restore();
+        }
+    }
+
+    /**
+     * Render and get the RGBA pixels.
+     */
+    renderToImageData(): RasterImageData {
+        this.refresh();
+        const ctx = this._ctx;
+        return {
+            width: ctx.width,
+            height: ctx.height,
+            data: ctx.data
+        };
+    }
+
+    /**
+     * Render and encode to PNG bytes.
+     */
+    renderToPNG(): Uint8Array {
+        const imageData = this.renderToImageData();
+        return encodePNG(imageData.data, imageData.width, imageData.height);
+    }
+
+    toDataURL() {
+        return 'data:image/png;base64,' + bytesToBase64(this.renderToPNG());
+    }
+
+    setBackgroundColor(backgroundColor: string | GradientObject | ImagePatternObject) {
+        this._backgroundColor = backgroundColor;
+    }
+
+    resize(width?: number | string, height?: number | string) {
+        const opts = this._opts;
+        width != null && (opts.width = width);
+        height != null && (opts.height = height);
+
+        width = parseFloat(opts.width as string) || 0;
+        height = parseFloat(opts.height as string) || 0;
+
+        if (this._width !== width || this._height !== height) {
+            this._width = width;
+            this._height = height;
+            this._ctx.resize(width * this.dpr, height * this.dpr);
+        }
+    }
+
+    getWidth() {
+        return this._width;
+    }
+
+    getHeight() {
+        return this._height;
+    }
+
+    clear() {
+        this._ctx.data.fill(0);
+    }
+
+    dispose() {
+        this.storage =
+        this._ctx = null;
+    }
+
+    refreshHover = createMethodNotSupport('refreshHover') as PainterBase['refreshHover'];
+    configLayer = createMethodNotSupport('configLayer') as PainterBase['configLayer'];
+}
+
+
+// Not supported methods
+function createMethodNotSupport(method: string): any {
+    return function () {
+        if (process.env.NODE_ENV !== 'production') {
+            logError('In raster mode painter not support method "' + method + '"');
+        }
+    };
+}
+
+export default RasterPainter;
@@ -0,0 +1,995 @@
+/**
+ * A software implementation of the subset of CanvasRenderingContext2D used by
+ * the canvas brush. It draws into a non-premultiplied RGBA buffer so it can run
+ * in any JavaScript environment without a native canvas.
+ *
+ * Not supported: shadows, filters and composite operations other than
+ * `source-over`, `lighter` and `destination-out`.
+ */
+
+import * as matrix from '../core/matrix';
+import { parse as parseColor } from '../tool/color';
+import { createFromString } from '../tool/path';
+import { platformApi, DEFAULT_FONT, DEFAULT_FONT_SIZE } from '../core/platform';
+import { Dictionary } from '../core/types';
+import { rasterizePolygons, FillRule, Polygon } from './rasterize';
+import { strokePolylines, Polyline } from './stroke';
+
+export interface RasterImageData {
+    width: number
+    height: number
+    data: Uint8ClampedArray | Uint8Array | number[]
+}
+
+/**
+ * Glyph outline of a single character.
+ * `path` is SVG path data in pixels. Origin is the left of the glyph on the baseline.
+ */
+export interface RasterGlyph {
+    advance: number
+    path?: string
+}
+
+export type RasterGlyphProvider = (char: string, font: string) => RasterGlyph;
+
+type RGBA = number[];
+
+const mathMin = Math.min;
+const mathMax = Math.max;
+const mathFloor = Math.floor;
+const mathCeil = Math.ceil;
+const mathAbs = Math.abs;
+const mathSqrt = Math.sqrt;
+const mathCos = Math.cos;
+const mathSin = Math.sin;
+const PI2 = Math.PI * 2;
+
+// Ascent and descent of the em box, used to resolve textBaseline.
+const FONT_ASCENT = 0.8;
+const FONT_DESCENT = 0.2;
+
+// Max distance in pixel between flattened curves and the real curves.
+const FLATTEN_TOLERANCE = 0.2;
+
+function transformX(m: matrix.MatrixArray, x: number, y: number) {
+    return m[0] * x + m[2] * y + m[4];
+}
+function transformY(m: matrix.MatrixArray, x: number, y: number) {
+    return m[1] * x + m[3] * y + m[5];
+}
+
+function getMatrixScale(m: matrix.MatrixArray) {
+    return mathSqrt(mathAbs(m[0] * m[3] - m[1] * m[2])) || 1;
+}
+
+const tmpColor: RGBA = [];
+function normalizeColor(color: string): RGBA {
+    const rgba = parseColor(color, tmpColor);
+    return rgba ? rgba.slice() : [0, 0, 0, 0];
+}
+
+function getImagePixels(image: any): RasterImageData {
+    if (!image) {
+        return;
+    }
+    if (image.data && image.width && image.height) {
+        return image;
+    }
+    if (image.getContext) {
+        const ctx = image.getContext('2d');
+        if (ctx && ctx.getImageData && image.width && image.height) {
+            return ctx.getImageData(0, 0, image.width, image.height);
+        }
+    }
+}
+
+function readPixel(pixels: RasterImageData, x: number, y: number, out: RGBA) {
+    const idx = (y * pixels.width + x) * 4;
+    const data = pixels.data;
+    out[0] = data[idx];
+    out[1] = data[idx + 1];
+    out[2] = data[idx + 2];
+    out[3] = data[idx + 3] / 255;
+}
+
+export function parseFontSize(font: string) {
+    const res = /([0-9.]+)px/.exec(font || '');
+    return res ? +res[1] : DEFAULT_FONT_SIZE;
+}
+
+interface Paint {
+    // Get color at the device pixel. Returns false if transparent.
+    getColor(x: number, y: number, invTransform: matrix.MatrixArray, out: RGBA): boolean
+}
+
+export class RasterGradient implements Paint {
+
+    private _type: 'linear' | 'radial'
+    private _params: number[]
+    private _stops: { offset: number, color: RGBA }[] = []
+
+    private _lut: number[]
+
+    constructor(type: 'linear' | 'radial', params: number[]) {
+        this._type = type;
+        this._params = params;
+    }
+
+    addColorStop(offset: number, color: string) {
+        const stops = this._stops;
+        let i = stops.length;
+        // Keep stops sorted by offset. Stops with same offset keep inserted order.
+        while (i > 0 && stops[i - 1].offset > offset) {
+            i--;
+        }
+        stops.splice(i, 0, { offset: mathMax(0, mathMin(1, offset)), color: normalizeColor(color) });
+        this._lut = null;
+    }
+
+    private _buildLUT() {
+        const lut: number[] = [];
+        const stops = this._stops;
+        for (let i = 0; i < 256; i++) {
+            const t = i / 255;
+            let k = 0;
+            while (k < stops.length && stops[k].offset < t) {
+                k++;
+            }
+            const s0 = stops[mathMax(k - 1, 0)];
+            const s1 = stops[mathMin(k, stops.length - 1)];
+            const range = s1.offset - s0.offset;
+            const p = range > 0 ? (t - s0.offset) / range : 0;
+            for (let c = 0; c < 4; c++) {
+                lut.push(s0.color[c] + (s1.color[c] - s0.color[c]) * p);
+            }
+        }
+        this._lut = lut;
+    }
+
+    getColor(x: number, y: number, invTransform: matrix.MatrixArray, out: RGBA) {
+        if (!this._stops.length) {
+            return false;
+        }
+        if (!this._lut) {
+            this._buildLUT();
+        }
+        const px = transformX(invTransform, x, y);
+        const py = transformY(invTransform, x, y);
+        const p = this._params;
+        let t;
+        if (this._type === 'linear') {
+            const dx = p[2] - p[0];
+            const dy = p[3] - p[1];
+            const len2 = dx * dx + dy * dy;
+            t = len2 ? ((px - p[0]) * dx + (py - p[1]) * dy) / len2 : 0;
+        }
+        else {
+            // Two point conical gradient.
+            const cdx = p[3] - p[0];
+            const cdy = p[4] - p[1];
+            const dr = p[5] - p[2];
+            const pdx = px - p[0];
+            const pdy = py - p[1];
+            const a = cdx * cdx + cdy * cdy - dr * dr;
+            const b = pdx * cdx + pdy * cdy + p[2] * dr;
+            const c = pdx * pdx + pdy * pdy - p[2] * p[2];
+            if (mathAbs(a) < 1e-10) {
+                if (!b) {
+                    return false;
+                }
+                t = c / (2 * b);
+            }
+            else {
+                const disc = b * b - a * c;
+                if (disc < 0) {
+                    return false;
+                }
+                const sq = mathSqrt(disc);
+                t = (b + sq) / a;
+                if (p[2] + t * dr < 0) {
+                    t = (b - sq) / a;
+                    if (p[2] + t * dr < 0) {
+                        return false;
+                    }
+                }
+            }
+        }
+        const idx = mathMax(0, mathMin(255, Math.round(t * 255))) * 4;
+        const lut = this._lut;
+        out[0] = lut[idx];
+        out[1] = lut[idx + 1];
+        out[2] = lut[idx + 2];
+        out[3] = lut[idx + 3];
+        return true;
+    }
+}
+
+export class RasterPattern implements Paint {
+
+    private _pixels: RasterImageData
+    private _repeatX: boolean
+    private _repeatY: boolean
+    private _invTransform: matrix.MatrixArray
+
+    constructor(pixels: RasterImageData, repetition: string) {
+        this._pixels = pixels;
+        repetition = repetition || 'repeat';
+        this._repeatX = repetition === 'repeat' || repetition === 'repeat-x';
+        this._repeatY = repetition === 'repeat' || repetition === 'repeat-y';
+    }
+
+    /**
+     * Accepts DOMMatrix like object.
+     */
+    setTransform(m: { a: number, b: number, c: number, d: number, e: number, f: number }) {
+        this._invTransform = m
+            ? matrix.invert([], [m.a, m.b, m.c, m.d, m.e, m.f])
+            : null;
+    }
+
+    getColor(x: number, y: number, invTransform: matrix.MatrixArray, out: RGBA) {
+        let px = transformX(invTransform, x, y);
+        let py = transformY(invTransform, x, y);
+        const patternInv = this._invTransform;
+        if (patternInv) {
+            const tx = px;
+            px = transformX(patternInv, tx, py);
+            py = transformY(patternInv, tx, py);
+        }
+        const pixels = this._pixels;
+        const w = pixels.width;
+        const h = pixels.height;
+        let ix = mathFloor(px);
+        let iy = mathFloor(py);
+        if (this._repeatX) {
+            ix = (ix % w + w) % w;
+        }
+        if (this._repeatY) {
+            iy = (iy % h + h) % h;
+        }
+        if (ix < 0 || iy < 0 || ix >= w || iy >= h) {
+            return false;
+        }
+        readPixel(pixels, ix, iy, out);
+        return true;
+    }
+}
+
+class SolidPaint implements Paint {
+    color: RGBA
+    constructor(color: RGBA) {
+        this.color = color;
+    }
+    getColor(x: number, y: number, invTransform: matrix.MatrixArray, out: RGBA) {
+        const color = this.color;
+        out[0] = color[0];
+        out[1] = color[1];
+        out[2] = color[2];
+        out[3] = color[3];
+        return true;
+    }
+}
+
+type FillStyle = string | RasterGradient | RasterPattern;
+
+interface ContextState {
+    fillStyle: FillStyle
+    strokeStyle: FillStyle
+    globalAlpha: number
+    globalCompositeOperation: string
+    lineWidth: number
+    lineCap: CanvasLineCap
+    lineJoin: CanvasLineJoin
+    miterLimit: number
+    lineDashOffset: number
+    font: string
+    textAlign: CanvasTextAlign
+    textBaseline: CanvasTextBaseline
+    shadowBlur: number
+    shadowOffsetX: number
+    shadowOffsetY: number
+    shadowColor: string
+}
+
+interface SavedState extends ContextState {
+    transform: matrix.MatrixArray
+    clipMask: Uint8Array
+    lineDash: number[]
+}
+
+const STATE_KEYS: (keyof ContextState)[] = [
+    'fillStyle', 'strokeStyle', 'globalAlpha', 'globalCompositeOperation',
+    'lineWidth', 'lineCap', 'lineJoin', 'miterLimit', 'lineDashOffset',
+    'font', 'textAlign', 'textBaseline',
+    'shadowBlur', 'shadowOffsetX', 'shadowOffsetY', 'shadowColor'
+];
+
+export default class RasterContext implements ContextState {
+
+    width: number
+    height: number
+    data: Uint8ClampedArray
+
+    /**
+     * Device pixel ratio. Read by the canvas brush.
+     */
+    dpr = 1
+
+    fillStyle: FillStyle = '#000'
+    strokeStyle: FillStyle = '#000'
+    globalAlpha = 1
+    globalCompositeOperation = 'source-over'
+    lineWidth = 1
+    lineCap: CanvasLineCap = 'butt'
+    lineJoin: CanvasLineJoin = 'miter'
+    miterLimit = 10
+    lineDashOffset = 0
+    font = DEFAULT_FONT
+    textAlign: CanvasTextAlign = 'start'
+    textBaseline: CanvasTextBaseline = 'alphabetic'
+    // Shadows are accepted but not drawn.
+    shadowBlur = 0
+    shadowOffsetX = 0
+    shadowOffsetY = 0
+    shadowColor = 'rgba(0, 0, 0, 0)'
+
+    private _transform: matrix.MatrixArray = matrix.create()
+    private _clipMask: Uint8Array
+    private _lineDash: number[] = []
+    private _stack: SavedState[] = []
+
+    private _subPaths: Polyline[] = []
+    private _current: Polyline
+    private _hasCurrentPoint = false
+    // Last point in user space. Used by arcTo.
+    private _lastX = 0
+    private _lastY = 0
+    private _startX = 0
+    private _startY = 0
+
+    private _glyphProvider: RasterGlyphProvider
+    private _glyphCache: Dictionary<{ glyph: RasterGlyph, path: ReturnType<typeof createFromString> }> = {}
+
+    constructor(width: number, height: number, glyphProvider?: RasterGlyphProvider) {
+        this.resize(width, height);
+        this._glyphProvider = glyphProvider;
+    }
+
+    resize(width: number, height: number) {
+        this.width = mathMax(mathCeil(width) || 0, 0);
+        this.height = mathMax(mathCeil(height) || 0, 0);
+        this.data = new Uint8ClampedArray(this.width * this.height * 4);
+        this._clipMask = null;
+    }
+
+    setGlyphProvider(glyphProvider: RasterGlyphProvider) {
+        this._glyphProvider = glyphProvider;
+        this._glyphCache = {};
+    }
+
+    getImageData(sx?: number, sy?: number, sw?: number, sh?: number): RasterImageData {
+        sx = sx || 0;
+        sy = sy || 0;
+        sw = sw == null ? this.width : sw;
+        sh = sh == null ? this.height : sh;
+        const out = new Uint8ClampedArray(sw * sh * 4);
+        for (let y = 0; y < sh; y++) {
+            for (let x = 0; x < sw; x++) {
+                const srcX = x + sx;
+                const srcY = y + sy;
+                if (srcX < 0 || srcY < 0 || srcX >= this.width || srcY >= this.height) {
+                    continue;
+                }
+                const srcIdx = (srcY * this.width + srcX) * 4;
+                const idx = (y * sw + x) * 4;
+                for (let c = 0; c < 4; c++) {
+                    out[idx + c] = this.data[srcIdx + c];
+                }
+            }
+        }
+        return { width: sw, height: sh, data: out };
+    }
+
+    // ---------- State ----------
+
+    save() {
+        const state = {
+            transform: this._transform.slice(),
+            clipMask: this._clipMask,
+            lineDash: this._lineDash
+        } as SavedState;
+        for (let i = 0; i < STATE_KEYS.length; i++) {
+            (state as any)[STATE_KEYS[i]] = this[STATE_KEYS[i]];
+        }
+        this._stack.push(state);
+    }
+
+    restore() {
+        const state = this._stack.pop();
+        if (!state) {
+            return;
+        }
+        for (let i = 0; i < STATE_KEYS.length; i++) {
+            (this as any)[STATE_KEYS[i]] = state[STATE_KEYS[i]];
+        }
+        this._transform = state.transform;
+        this._clipMask = state.clipMask;
+        this._lineDash = state.lineDash;
+    }
+
+    setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+        const m = this._transform;
+        m[0] = a;
+        m[1] = b;
+        m[2] = c;
+        m[3] = d;
+        m[4] = e;
+        m[5] = f;
+    }
+
+    resetTransform() {
+        matrix.identity(this._transform);
+    }
+
+    getTransform() {
+        return this._transform.slice();
+    }
+
+    transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+        matrix.mul(this._transform, this._transform, [a, b, c, d, e, f]);
+    }
+
+    translate(x: number, y: number) {
+        this.transform(1, 0, 0, 1, x, y);
+    }
+
+    scale(sx: number, sy: number) {
+        this.transform(sx, 0, 0, sy, 0, 0);
+    }
+
+    rotate(rad: number) {
+        const c = mathCos(rad);
+        const s = mathSin(rad);
+        this.transform(c, s, -s, c, 0, 0);
+    }
+
+    setLineDash(lineDash: number[]) {
+        lineDash = lineDash || [];
+        for (let i = 0; i < lineDash.length; i++) {
+            if (!(lineDash[i] >= 0) || !isFinite(lineDash[i])) {
+                return;
+            }
+        }
+        this._lineDash = lineDash.length % 2 ? lineDash.concat(lineDash) : lineDash.slice();
+    }
+
+    getLineDash() {
+        return this._lineDash.slice();
+    }
+
+    // ---------- Paint objects ----------
+
+    createLinearGradient(x0: number, y0: number, x1: number, y1: number) {
+        return new RasterGradient('linear', [x0, y0, x1, y1]);
+    }
+
+    createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number) {
+        return new RasterGradient('radial', [x0, y0, r0, x1, y1, r1]);
+    }
+
+    createPattern(image: any, repetition: string) {
+        const pixels = getImagePixels(image);
+        return pixels ? new RasterPattern(pixels, repetition) : null;
+    }
+
+    // ---------- Path ----------
+
+    beginPath() {
+        this._subPaths = [];
+        this._current = null;
+        this._hasCurrentPoint = false;
+    }
+
+    private _addPoint(x: number, y: number) {
+        const m = this._transform;
+        if (!this._current) {
+            this._current = { points: [], closed: false };
+            this._subPaths.push(this._current);
+        }
+        this._current.points.push(transformX(m, x, y), transformY(m, x, y));
+        this._lastX = x;
+        this._lastY = y;
+    }
+
+    private _ensurePolyline(x: number, y: number) {
+        if (!this._current) {
+            this.moveTo(x, y);
+        }
+    }
+
+    moveTo(x: number, y: number) {
+        this._current = null;
+        this._addPoint(x, y);
+        this._startX = x;
+        this._startY = y;
+    }
+
+    lineTo(x: number, y: number) {
+        this._ensurePolyline(x, y);
+        this._addPoint(x, y);
+    }
+
+    private _segmentCount(length: number) {
+        const deviceLength = length * getMatrixScale(this._transform);
+        return mathMax(1, mathMin(mathCeil(mathSqrt(deviceLength / FLATTEN_TOLERANCE)), 200));
+    }
+
+    bezierCurveTo(x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) {
+        this._ensurePolyline(x1, y1);
+        const x0 = this._lastX;
+        const y0 = this._lastY;
+        const len = mathSqrt((x1 - x0) * (x1 - x0) + (y1 - y0) * (y1 - y0))
+            + mathSqrt((x2 - x1) * (x2 - x1) + (y2 - y1) * (y2 - y1))
+            + mathSqrt((x3 - x2) * (x3 - x2) + (y3 - y2) * (y3 - y2));
+        const n = this._segmentCount(len);
+        for (let i = 1; i <= n; i++) {
+            const t = i / n;
+            const mt = 1 - t;
+            const a = mt * mt * mt;
+            const b = 3 * mt * mt * t;
+            const c = 3 * mt * t * t;
+            const d = t * t * t;
+            this._addPoint(
+                a * x0 + b * x1 + c * x2 + d * x3,
+                a * y0 + b * y1 + c * y2 + d * y3
+            );
+        }
+    }
+
+    quadraticCurveTo(x1: number, y1: number, x2: number, y2: number) {
+        this._ensurePolyline(x1, y1);
+        const x0 = this._lastX;
+        const y0 = this._lastY;
+        const len = mathSqrt((x1 - x0) * (x1 - x0) + (y1 - y0) * (y1 - y0))
+            + mathSqrt((x2 - x1) * (x2 - x1) + (y2 - y1) * (y2 - y1));
+        const n = this._segmentCount(len);
+        for (let i = 1; i <= n; i++) {
+            const t = i / n;
+            const mt = 1 - t;
+            this._addPoint(
+                mt * mt * x0 + 2 * mt * t * x1 + t * t * x2,
+                mt * mt * y0 + 2 * mt * t * y1 + t * t * y2
+            );
+        }
+    }
+
+    ellipse(
+        cx: number, cy: number, rx: number, ry: number, rotation: number,
+        startAngle: number, endAngle: number, anticlockwise?: boolean
+    ) {
+        let sweep = endAngle - startAngle;
+        if (!anticlockwise && sweep < 0) {
+            sweep = sweep % PI2 + PI2;
+        }
+        else if (anticlockwise && sweep > 0) {
+            sweep = sweep % PI2 - PI2;
+        }
+        if (mathAbs(sweep) > PI2) {
+            sweep = anticlockwise ? -PI2 : PI2;
+        }
+        const r = mathMax(rx, ry);
+        const scale = getMatrixScale(this._transform);
+        // Angle step to keep the chord error under tolerance.
+        const step = r * scale > FLATTEN_TOLERANCE
+            ? 2 * Math.acos(1 - FLATTEN_TOLERANCE / (r * scale))
+            : Math.PI / 4;
+        const n = mathMax(1, mathMin(mathCeil(mathAbs(sweep) / step), 1000));
+        const cosRot = mathCos(rotation);
+        const sinRot = mathSin(rotation);
+        for (let i = 0; i <= n; i++) {
+            const angle = startAngle + sweep * i / n;
+            const ex = mathCos(angle) * rx;
+            const ey = mathSin(angle) * ry;
+            const x = cx + ex * cosRot - ey * sinRot;
+            const y = cy + ex * sinRot + ey * cosRot;
+            if (i === 0 && !this._current) {
+                this.moveTo(x, y);
+            }
+            else {
+                this._addPoint(x, y);
+            }
+        }
+    }
+
+    arc(cx: number, cy: number, r: number, startAngle: number, endAngle: number, anticlockwise?: boolean) {
+        this.ellipse(cx, cy, r, r, 0, startAngle, endAngle, anticlockwise);
+    }
+
+    arcTo(x1: number, y1: number, x2: number, y2: number, radius: number) {
+        this._ensurePolyline(x1, y1);
+        const x0 = this._lastX;
+        const y0 = this._lastY;
+        const d0x = x0 - x1;
+        const d0y = y0 - y1;
+        const d1x = x2 - x1;
+        const d1y = y2 - y1;
+        const l0 = mathSqrt(d0x * d0x + d0y * d0y);
+        const l1 = mathSqrt(d1x * d1x + d1y * d1y);
+        const cross = d0x * d1y - d0y * d1x;
+        if (!radius || !l0 || !l1 || mathAbs(cross) < 1e-10) {
+            this.lineTo(x1, y1);
+            return;
+        }
+        const cosTheta = (d0x * d1x + d0y * d1y) / (l0 * l1);
+        const theta = Math.acos(mathMax(-1, mathMin(1, cosTheta)));
+        // Distance from the corner to the tangent points.
+        const dist = radius / Math.tan(theta / 2);
+        const t0x = x1 + d0x / l0 * dist;
+        const t0y = y1 + d0y / l0 * dist;
+        const t1x = x1 + d1x / l1 * dist;
+        const t1y = y1 + d1y / l1 * dist;
+        // Center is on the bisector.
+        let bx = d0x / l0 + d1x / l1;
+        let by = d0y / l0 + d1y / l1;
+        const bl = mathSqrt(bx * bx + by * by);
+        const centerDist = radius / mathSin(theta / 2);
+        const cx = x1 + bx / bl * centerDist;
+        const cy = y1 + by / bl * centerDist;
+        this.lineTo(t0x, t0y);
+        this.arc(
+            cx, cy, radius,
+            Math.atan2(t0y - cy, t0x - cx),
+            Math.atan2(t1y - cy, t1x - cx),
+            cross > 0
+        );
+    }
+
+    rect(x: number, y: number, w: number, h: number) {
+        this.moveTo(x, y);
+        this._addPoint(x + w, y);
+        this._addPoint(x + w, y + h);
+        this._addPoint(x, y + h);
+        this.closePath();
+    }
+
+    closePath() {
+        const current = this._current;
+        if (current) {
+            current.closed = true;
+            this._current = null;
+            this._lastX = this._startX;
+            this._lastY = this._startY;
+        }
+    }
+
+    // ---------- Draw ----------
+
+    fill(fillRule?: CanvasFillRule) {
+        this._fillPolygons(this._getPolygons(this._subPaths), fillRule || 'nonzero', this.fillStyle);
+    }
+
+    stroke() {
+        this._fillPolygons(this._getStrokePolygons(this._subPaths), 'nonzero', this.strokeStyle);
+    }
+
+    clip(fillRule?: CanvasFillRule) {
+        const width = this.width;
+        const height = this.height;
+        const prevMask = this._clipMask;
+        const mask = new Uint8Array(width * height);
+        rasterizePolygons(
+            this._getPolygons(this._subPaths), width, height, fillRule || 'nonzero',
+            (y, xStart, xEnd, row) => {
+                const offset = y * width;
+                for (let x = xStart; x < xEnd; x++) {
+                    const cov = mathMin(row[x], 1) * 255;
+                    mask[offset + x] = prevMask
+                        ? cov * prevMask[offset + x] / 255
+                        : cov;
+                }
+            }
+        );
+        this._clipMask = mask;
+    }
+
+    fillRect(x: number, y: number, w: number, h: number) {
+        const subPaths = this._subPaths;
+        const current = this._current;
+        this.beginPath();
+        this.rect(x, y, w, h);
+        this.fill();
+        this._subPaths = subPaths;
+        this._current = current;
+    }
+
+    strokeRect(x: number, y: number, w: number, h: number) {
+        const subPaths = this._subPaths;
+        const current = this._current;
+        this.beginPath();
+        this.rect(x, y, w, h);
+        this.stroke();
+        this._subPaths = subPaths;
+        this._current = current;
+    }
+
+    clearRect(x: number, y: number, w: number, h: number) {
+        const subPaths = this._subPaths;
+        const current = this._current;
+        this.beginPath();
+        this.rect(x, y, w, h);
+        const data = this.data;
+        const width = this.width;
+        rasterizePolygons(this._getPolygons(this._subPaths), width, this.height, 'nonzero', (y, xStart, xEnd, row) => {
+            for (let x = xStart; x < xEnd; x++) {
+                const idx = (y * width + x) * 4 + 3;
+                data[idx] = data[idx] * (1 - mathMin(row[x], 1));
+            }
+        });
+        this._subPaths = subPaths;
+        this._current = current;
+    }
+
+    drawImage(image: any, ...args: number[]) {
+        const pixels = getImagePixels(image);
+        if (!pixels) {
+            return;
+        }
+        let sx = 0;
+        let sy = 0;
+        let sw = pixels.width;
+        let sh = pixels.height;
+        let dx;
+        let dy;
+        let dw = sw;
+        let dh = sh;
+        if (args.length >= 8) {
+            sx = args[0];
+            sy = args[1];
+            sw = args[2];
+            sh = args[3];
+            dx = args[4];
+            dy = args[5];
+            dw = args[6];
+            dh = args[7];
+        }
+        else {
+            dx = args[0];
+            dy = args[1];
+            if (args.length >= 4) {
+                dw = args[2];
+                dh = args[3];
+            }
+        }
+        if (!dw || !dh || !sw || !sh) {
+            return;
+        }
+        // Pattern space maps destination rect to the source rect.
+        const pattern = new RasterPattern(pixels, 'no-repeat');
+        const sxScale = dw / sw;
+        const syScale = dh / sh;
+        pattern.setTransform({
+            a: sxScale, b: 0, c: 0, d: syScale,
+            e: dx - sx * sxScale, f: dy - sy * syScale
+        });
+        const m = this._transform;
+        const poly = [
+            transformX(m, dx, dy), transformY(m, dx, dy),
+            transformX(m, dx + dw, dy), transformY(m, dx + dw, dy),
+            transformX(m, dx + dw, dy + dh), transformY(m, dx + dw, dy + dh),
+            transformX(m, dx, dy + dh), transformY(m, dx, dy + dh)
+        ];
+        this._fillPolygons([poly], 'nonzero', pattern);
+    }
+
+    measureText(text: string) {
+        const provider = this._glyphProvider;
+        if (!provider) {
+            return platformApi.measureText(text, this.font);
+        }
+        let width = 0;
+        for (let i = 0; i < text.length; i++) {
+            width += this._getGlyph(text.charAt(i)).glyph.advance || 0;
+        }
+        return { width };
+    }
+
+    fillText(text: string, x: number, y: number) {
+        this._drawText(text, x, y, false);
+    }
+
+    strokeText(text: string, x: number, y: number) {
+        this._drawText(text, x, y, true);
+    }
+
+    private _getGlyph(char: string) {
+        const key = this.font + '\0' + char;
+        let cached = this._glyphCache[key];
+        if (!cached) {
+            const glyph = this._glyphProvider(char, this.font) || { advance: 0 };
+            cached = this._glyphCache[key] = {
+                glyph,
+                path: glyph.path ? createFromString(glyph.path) : null
+            };
+        }
+        return cached;
+    }
+
+    private _drawText(text: string, x: number, y: number, isStroke: boolean) {
+        if (!this._glyphProvider || text == null) {
+            return;
+        }
+        text += '';
+        const fontSize = parseFontSize(this.font);
+        const width = this.measureText(text).width;
+        const align = this.textAlign;
+        if (align === 'center') {
+            x -= width / 2;
+        }
+        else if (align === 'right' || align === 'end') {
+            x -= width;
+        }
+        const baseline = this.textBaseline;
+        if (baseline === 'top' || baseline === 'hanging') {
+            y += fontSize * FONT_ASCENT;
+        }
+        else if (baseline === 'middle') {
+            y += fontSize * (FONT_ASCENT - FONT_DESCENT) / 2;
+        }
+        else if (baseline === 'bottom' || baseline === 'ideographic') {
+            y -= fontSize * FONT_DESCENT;
+        }
+
+        const subPaths = this._subPaths;
+        const current = this._current;
+        const transform = this._transform;
+        this.beginPath();
+        for (let i = 0; i < text.length; i++) {
+            const cached = this._getGlyph(text.charAt(i));
+            if (cached.path) {
+                this._transform = transform.slice();
+                this.translate(x, y);
+                this._current = null;
+                cached.path.buildPath(this as any, cached.path.shape);
+            }
+            x += cached.glyph.advance || 0;
+        }
+        this._transform = transform;
+        isStroke ? this.stroke() : this.fill();
+        this._subPaths = subPaths;
+        this._current = current;
+    }
+
+    // ---------- Internal ----------
+
+    private _getPolygons(subPaths: Polyline[]): Polygon[] {
+        const polygons: Polygon[] = [];
+        for (let i = 0; i < subPaths.length; i++) {
+            if (subPaths[i].points.length >= 6) {
+                polygons.push(subPaths[i].points);
+            }
+        }
+        return polygons;
+    }
+
+    private _getStrokePolygons(subPaths: Polyline[]): Polygon[] {
+        const m = this._transform;
+        const inv = matrix.invert([], m);
+        if (!inv) {
+            return [];
+        }
+        // Stroke is built in user space so lineWidth and dashes are transformed.
+        const polylines: Polyline[] = [];
+        for (let i = 0; i < subPaths.length; i++) {
+            const points = subPaths[i].points;
+            // Single moveTo is not stroked.
+            if (points.length < 4) {
+                continue;
+            }
+            const userPoints: number[] = [];
+            for (let k = 0; k < points.length; k += 2) {
+                userPoints.push(
+                    transformX(inv, points[k], points[k + 1]),
+                    transformY(inv, points[k], points[k + 1])
+                );
+            }
+            polylines.push({ points: userPoints, closed: subPaths[i].closed });
+        }
+        const polygons = strokePolylines(polylines, {
+            lineWidth: this.lineWidth,
+            lineCap: this.lineCap,
+            lineJoin: this.lineJoin,
+            miterLimit: this.miterLimit,
+            lineDash: this._lineDash,
+            lineDashOffset: this.lineDashOffset,
+            tolerance: FLATTEN_TOLERANCE / getMatrixScale(m)
+        });
+        for (let i = 0; i < polygons.length; i++) {
+            const poly = polygons[i];
+            for (let k = 0; k < poly.length; k += 2) {
+                const x = poly[k];
+                poly[k] = transformX(m, x, poly[k + 1]);
+                poly[k + 1] = transformY(m, x, poly[k + 1]);
+            }
+        }
+        return polygons;
+    }
+
+    private _getPaint(style: FillStyle): Paint {
+        if (typeof style === 'string') {
+            return new SolidPaint(normalizeColor(style));
+        }
+        return style;
+    }
+
+    private _fillPolygons(polygons: Polygon[], fillRule: FillRule, style: FillStyle) {
+        if (!polygons.length || !style) {
+            return;
+        }
+        const paint = this._getPaint(style);
+        const invTransform = matrix.invert([], this._transform);
+        if (!invTransform) {
+            return;
+        }
+        const data = this.data;
+        const width = this.width;
+        const clipMask = this._clipMask;
+        const globalAlpha = mathMax(mathMin(this.globalAlpha, 1), 0);
+        const compositeOp = this.globalCompositeOperation;
+        const isSolid = paint instanceof SolidPaint;
+        const color: RGBA = isSolid ? (paint as SolidPaint).color.slice() : [];
+
+        rasterizePolygons(polygons, width, this.height, fillRule, (y, xStart, xEnd, row) => {
+            for (let x = xStart; x < xEnd; x++) {
+                let cov = row[x];
+                if (cov <= 0) {
+                    continue;
+                }
+                cov = mathMin(cov, 1);
+                if (clipMask) {
+                    cov *= clipMask[y * width + x] / 255;
+                    if (!cov) {
+                        continue;
+                    }
+                }
+                if (!isSolid && !paint.getColor(x + 0.5, y + 0.5, invTransform, color)) {
+                    continue;
+                }
+                const alpha = color[3] * globalAlpha * cov;
+                if (alpha > 0) {
+                    blendPixel(data, (y * width + x) * 4, color, alpha, compositeOp);
+                }
+            }
+        });
+    }
+}
+
+/**
+ * Blend color with alpha into a non-premultiplied buffer.
+ */
+function blendPixel(data: Uint8ClampedArray, idx: number, color: RGBA, alpha: number, compositeOp: string) {
+    const dstA = data[idx + 3] / 255;
+    if (compositeOp === 'destination-out') {
+        data[idx + 3] = dstA * (1 - alpha) * 255;
+        return;
+    }
+    if (compositeOp === 'lighter') {
+        const outA = mathMin(alpha + dstA, 1);
+        for (let c = 0; c < 3; c++) {
+            data[idx + c] = outA > 0
+                ? mathMin((color[c] * alpha + data[idx + c] * dstA) / outA, 255)
+                : 0;
+        }
+        data[idx + 3] = outA * 255;
+        return;
+    }
+    // source-over
+    const outA = alpha + dstA * (1 - alpha);
+    if (outA <= 0) {
+        return;
+    }
+    const dstWeight = dstA * (1 - alpha);
+    data[idx] = (color[0] * alpha + data[idx] * dstWeight) / outA;
+    data[idx + 1] = (color[1] * alpha + data[idx + 1] * dstWeight) / outA;
+    data[idx + 2] = (color[2] * alpha + data[idx + 2] * dstWeight) / outA;
+    data[idx + 3] = outA * 255;
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal PNG encoder for RGBA buffers.
+ * Image data is stored in uncompressed deflate blocks, so no zlib is needed.
+ */
+
+let crcTable: number[];
+
+function getCRCTable() {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    return crcTable;
+}
+
+function crc32(bytes: Uint8Array, start: number, end: number) {
+    const table = getCRCTable();
+    let crc = 0xffffffff;
+    for (let i = start; i < end; i++) {
+        crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, val: number) {
+    bytes[offset] = (val >>> 24) & 0xff;
+    bytes[offset + 1] = (val >>> 16) & 0xff;
+    bytes[offset + 2] = (val >>> 8) & 0xff;
+    bytes[offset + 3] = val & 0xff;
+}
+
+function createChunk(type: string, data: Uint8Array) {
+    const chunk = new Uint8Array(data.length + 12);
+    writeUint32(chunk, 0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    writeUint32(chunk, data.length + 8, crc32(chunk, 4, data.length + 8));
+    return chunk;
+}
+
+// Max size of a stored deflate block.
+const MAX_BLOCK_SIZE = 0xffff;
+
+function zlibStore(raw: Uint8Array) {
+    const blockCount = Math.max(Math.ceil(raw.length / MAX_BLOCK_SIZE), 1);
+    const out = new Uint8Array(2 + blockCount * 5 + raw.length + 4);
+    // CMF and FLG, deflate with 32K window, no preset dictionary.
+    out[0] = 0x78;
+    out[1] = 0x01;
+    let offset = 2;
+    for (let i = 0; i < blockCount; i++) {
+        const start = i * MAX_BLOCK_SIZE;
+        const len = Math.min(MAX_BLOCK_SIZE, raw.length - start);
+        out[offset++] = i === blockCount - 1 ? 1 : 0;
+        out[offset++] = len & 0xff;
+        out[offset++] = (len >>> 8) & 0xff;
+        out[offset++] = ~len & 0xff;
+        out[offset++] = (~len >>> 8) & 0xff;
+        out.set(raw.subarray(start, start + len), offset);
+        offset += len;
+    }
+    // Adler32 checksum.
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < raw.length; i++) {
+        a = (a + raw[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    writeUint32(out, offset, ((b << 16) | a) >>> 0);
+    return out;
+}
+
+/**
+ * Encode non-premultiplied RGBA pixels to PNG bytes.
+ */
+export function encodePNG(data: ArrayLike<number>, width: number, height: number): Uint8Array {
+    const header = new Uint8Array(13);
+    writeUint32(header, 0, width);
+    writeUint32(header, 4, height);
+    header[8] = 8;  // Bit depth
+    header[9] = 6;  // Color type RGBA
+    header[10] = 0; // Compression
+    header[11] = 0; // Filter
+    header[12] = 0; // Interlace
+
+    const rowSize = width * 4;
+    const raw = new Uint8Array((rowSize + 1) * height);
+    for (let y = 0; y < height; y++) {
+        // Filter type none.
+        raw[y * (rowSize + 1)] = 0;
+        for (let i = 0; i < rowSize; i++) {
+            raw[y * (rowSize + 1) + 1 + i] = data[y * rowSize + i];
+        }
+    }
+
+    const chunks = [
+        createChunk('IHDR', header),
+        createChunk('IDAT', zlibStore(raw)),
+        createChunk('IEND', new Uint8Array(0))
+    ];
+    const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    let total = signature.length;
+    for (let i = 0; i < chunks.length; i++) {
+        total += chunks[i].length;
+    }
+    const out = new Uint8Array(total);
+    out.set(signature, 0);
+    let offset = signature.length;
+    for (let i = 0; i < chunks.length; i++) {
+        out.set(chunks[i], offset);
+        offset += chunks[i].length;
+    }
+    return out;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    const out: string[] = [];
+    for (let i = 0; i < bytes.length; i += 3) {
+        const b0 = bytes[i];
+        const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+        const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+        out.push(
+            BASE64_CHARS.charAt(b0 >> 2),
+            BASE64_CHARS.charAt(((b0 & 3) << 4) | (b1 >> 4)),
+            i + 1 < bytes.length ? BASE64_CHARS.charAt(((b1 & 15) << 2) | (b2 >> 6)) : '=',
+            i + 2 < bytes.length ? BASE64_CHARS.charAt(b2 & 63) : '='
+        );
+    }
+    return out.join('');
+}
@@ -0,0 +1,15 @@
+/**
+ * Entry of the raster painter, which is not included in the default build.
+ * Import it for the side effect to register the painter:
+ *
+ * import 'zrender/lib/raster/raster';
+ * const zr = zrender.init(null, { renderer: 'raster', width: 400, height: 300 });
+ *
+ * Or register the painter from 'zrender/lib/raster/Painter' with another name.
+ */
+import {registerPainter} from '../zrender';
+import Painter from './Painter';
+
+registerPainter('raster', Painter);
+
+export { Painter as RasterPainter };
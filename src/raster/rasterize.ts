@@ -0,0 +1,201 @@
+/**
+ * Scanline polygon rasterizer with anti-aliasing.
+ *
+ * Coverage is sampled on several sub scanlines per pixel row and computed
+ * analytically along the x axis.
+ */
+
+export type FillRule = 'nonzero' | 'evenodd';
+
+/**
+ * Flattened sub path. Stores x, y pairs in device space.
+ */
+export type Polygon = number[];
+
+// Count of sub scanlines in each pixel row.
+const SUB_SCANLINES = 5;
+const SUB_WEIGHT = 1 / SUB_SCANLINES;
+
+const mathFloor = Math.floor;
+const mathCeil = Math.ceil;
+const mathMin = Math.min;
+const mathMax = Math.max;
+
+interface Edge {
+    x0: number
+    y0: number
+    y1: number
+    // dx / dy
+    slope: number
+    // 1 if edge goes downward, -1 if upward.
+    dir: number
+}
+
+function edgeCompareFunc(a: Edge, b: Edge) {
+    return a.y0 - b.y0;
+}
+
+function buildEdges(polygons: Polygon[], height: number): Edge[] {
+    const edges: Edge[] = [];
+    for (let i = 0; i < polygons.length; i++) {
+        const poly = polygons[i];
+        const len = poly.length;
+        if (len < 6) {
+            continue;
+        }
+        for (let k = 0; k < len; k += 2) {
+            // Polygons are always implicitly closed.
+            const k2 = (k + 2) % len;
+            let x0 = poly[k];
+            let y0 = poly[k + 1];
+            let x1 = poly[k2];
+            let y1 = poly[k2 + 1];
+            if (y0 === y1 || isNaN(y0) || isNaN(y1) || isNaN(x0) || isNaN(x1)) {
+                continue;
+            }
+            let dir = 1;
+            if (y0 > y1) {
+                let tmp = x0;
+                x0 = x1;
+                x1 = tmp;
+                tmp = y0;
+                y0 = y1;
+                y1 = tmp;
+                dir = -1;
+            }
+            if (y1 <= 0 || y0 >= height) {
+                continue;
+            }
+            edges.push({
+                x0: x0,
+                y0: y0,
+                y1: y1,
+                slope: (x1 - x0) / (y1 - y0),
+                dir: dir
+            });
+        }
+    }
+    edges.sort(edgeCompareFunc);
+    return edges;
+}
+
+function addSpan(row: Float32Array, width: number, xa: number, xb: number) {
+    xa = mathMax(xa, 0);
+    xb = mathMin(xb, width);
+    if (xb <= xa) {
+        return;
+    }
+    const ia = mathFloor(xa);
+    const ib = mathFloor(xb);
+    if (ia === ib) {
+        row[ia] += (xb - xa) * SUB_WEIGHT;
+        return;
+    }
+    row[ia] += (ia + 1 - xa) * SUB_WEIGHT;
+    for (let i = ia + 1; i < ib; i++) {
+        row[i] += SUB_WEIGHT;
+    }
+    if (ib < width) {
+        row[ib] += (xb - ib) * SUB_WEIGHT;
+    }
+}
+
+let coverageRow: Float32Array;
+const crossX: number[] = [];
+const crossDir: number[] = [];
+
+/**
+ * Rasterize polygons and call `cb` for each pixel row that may be covered.
+ * Coverage of pixel x in the row is `row[x]`, between 0 and 1.
+ * `row` is reused and must not be kept after callback returns.
+ */
+export function rasterizePolygons(
+    polygons: Polygon[],
+    width: number,
+    height: number,
+    fillRule: FillRule,
+    cb: (y: number, xStart: number, xEnd: number, row: Float32Array) => void
+) {
+    const edges = buildEdges(polygons, height);
+    if (!edges.length) {
+        return;
+    }
+    if (!coverageRow || coverageRow.length < width + 1) {
+        coverageRow = new Float32Array(width + 1);
+    }
+    const row = coverageRow;
+    const evenOdd = fillRule === 'evenodd';
+
+    let maxY = 0;
+    for (let i = 0; i < edges.length; i++) {
+        maxY = mathMax(maxY, edges[i].y1);
+    }
+    const yStart = mathMax(mathFloor(edges[0].y0), 0);
+    const yEnd = mathMin(mathCeil(maxY), height);
+
+    const active: Edge[] = [];
+    let edgeIdx = 0;
+
+    for (let y = yStart; y < yEnd; y++) {
+        let rowMinX = Infinity;
+        let rowMaxX = -Infinity;
+
+        for (let s = 0; s < SUB_SCANLINES; s++) {
+            const sy = y + (s + 0.5) * SUB_WEIGHT;
+
+            // Add edges starting before this sub scanline.
+            while (edgeIdx < edges.length && edges[edgeIdx].y0 <= sy) {
+                active.push(edges[edgeIdx++]);
+            }
+
+            let crossCount = 0;
+            for (let i = 0; i < active.length;) {
+                const edge = active[i];
+                if (edge.y1 <= sy) {
+                    // Edge finished.
+                    active[i] = active[active.length - 1];
+                    active.pop();
+                    continue;
+                }
+                if (edge.y0 <= sy) {
+                    const x = edge.x0 + (sy - edge.y0) * edge.slope;
+                    // Insertion sort by x.
+                    let k = crossCount++;
+                    while (k > 0 && crossX[k - 1] > x) {
+                        crossX[k] = crossX[k - 1];
+                        crossDir[k] = crossDir[k - 1];
+                        k--;
+                    }
+                    crossX[k] = x;
+                    crossDir[k] = edge.dir;
+                }
+                i++;
+            }
+
+            let winding = 0;
+            for (let i = 0; i < crossCount - 1; i++) {
+                winding = evenOdd ? winding ^ 1 : winding + crossDir[i];
+                if (winding !== 0) {
+                    const xa = crossX[i];
+                    const xb = crossX[i + 1];
+                    if (xb > xa) {
+                        addSpan(row, width, xa, xb);
+                        rowMinX = mathMin(rowMinX, xa);
+                        rowMaxX = mathMax(rowMaxX, xb);
+                    }
+                }
+            }
+        }
+
+        if (rowMaxX > rowMinX) {
+            const xStart = mathMax(mathFloor(rowMinX), 0);
+            const xEnd = mathMin(mathCeil(rowMaxX), width);
+            if (xEnd > xStart) {
+                cb(y, xStart, xEnd, row);
+            }
+            for (let x = xStart; x <= xEnd; x++) {
+                row[x] = 0;
+            }
+        }
+    }
+}
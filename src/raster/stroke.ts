@@ -0,0 +1,298 @@
+/**
+ * Convert stroked polylines to polygons which can be filled with nonzero rule.
+ *
+ * Each segment, join and cap is emitted as a separate polygon with the same
+ * orientation, so the union is simply the nonzero fill of all of them.
+ */
+
+import { Polygon } from './rasterize';
+
+export interface StrokeOption {
+    lineWidth: number
+    lineCap?: CanvasLineCap
+    lineJoin?: CanvasLineJoin
+    miterLimit?: number
+    lineDash?: number[]
+    lineDashOffset?: number
+    /**
+     * Max distance between the flattened round joins and caps and the real arc.
+     */
+    tolerance?: number
+}
+
+export interface Polyline {
+    points: number[]
+    closed: boolean
+}
+
+const mathSqrt = Math.sqrt;
+const mathAbs = Math.abs;
+const mathCos = Math.cos;
+const mathSin = Math.sin;
+const PI = Math.PI;
+
+function signedArea(poly: Polygon) {
+    let area = 0;
+    const len = poly.length;
+    for (let i = 0; i < len; i += 2) {
+        const i2 = (i + 2) % len;
+        area += poly[i] * poly[i2 + 1] - poly[i2] * poly[i + 1];
+    }
+    return area;
+}
+
+function reversePolygon(poly: Polygon) {
+    const out: Polygon = [];
+    for (let i = poly.length - 2; i >= 0; i -= 2) {
+        out.push(poly[i], poly[i + 1]);
+    }
+    return out;
+}
+
+function pushPolygon(out: Polygon[], poly: Polygon) {
+    const area = signedArea(poly);
+    if (area === 0 || isNaN(area)) {
+        return;
+    }
+    out.push(area < 0 ? reversePolygon(poly) : poly);
+}
+
+function circleSegmentCount(r: number, tolerance: number) {
+    if (r <= tolerance) {
+        return 8;
+    }
+    const n = Math.ceil(PI / Math.acos(1 - tolerance / r));
+    return Math.max(8, Math.min(n, 256));
+}
+
+function addCircle(out: Polygon[], cx: number, cy: number, r: number, tolerance: number) {
+    const n = circleSegmentCount(r, tolerance);
+    const poly: Polygon = [];
+    for (let i = 0; i < n; i++) {
+        const angle = i / n * PI * 2;
+        poly.push(cx + mathCos(angle) * r, cy + mathSin(angle) * r);
+    }
+    out.push(poly);
+}
+
+/**
+ * Remove duplicate points which will produce zero length segments.
+ */
+function cleanPoints(points: number[]) {
+    const out: number[] = [];
+    for (let i = 0; i < points.length; i += 2) {
+        const x = points[i];
+        const y = points[i + 1];
+        const len = out.length;
+        if (!len || out[len - 2] !== x || out[len - 1] !== y) {
+            out.push(x, y);
+        }
+    }
+    return out;
+}
+
+/**
+ * Split polylines into dashes.
+ */
+export function dashPolylines(polylines: Polyline[], lineDash: number[], lineDashOffset: number): Polyline[] {
+    let dashSum = 0;
+    for (let i = 0; i < lineDash.length; i++) {
+        dashSum += lineDash[i];
+    }
+    // Invalid dash array is ignored like what canvas does.
+    if (!(dashSum > 0)) {
+        return polylines;
+    }
+    const out: Polyline[] = [];
+    for (let i = 0; i < polylines.length; i++) {
+        const polyline = polylines[i];
+        const points = polyline.points.slice();
+        if (polyline.closed && points.length >= 4) {
+            points.push(points[0], points[1]);
+        }
+
+        let offset = ((lineDashOffset || 0) % dashSum + dashSum) % dashSum;
+        let dashIdx = 0;
+        while (offset >= lineDash[dashIdx]) {
+            offset -= lineDash[dashIdx];
+            dashIdx = (dashIdx + 1) % lineDash.length;
+        }
+        // Remaining length of current dash.
+        let remain = lineDash[dashIdx] - offset;
+        let current: number[] = dashIdx % 2 === 0 ? [points[0], points[1]] : null;
+
+        for (let k = 2; k < points.length; k += 2) {
+            let x0 = points[k - 2];
+            let y0 = points[k - 1];
+            const x1 = points[k];
+            const y1 = points[k + 1];
+            let segLen = mathSqrt((x1 - x0) * (x1 - x0) + (y1 - y0) * (y1 - y0));
+            while (segLen > remain) {
+                const t = remain / segLen;
+                const x = x0 + (x1 - x0) * t;
+                const y = y0 + (y1 - y0) * t;
+                if (current) {
+                    current.push(x, y);
+                    out.push({ points: current, closed: false });
+                    current = null;
+                }
+                else {
+                    current = [x, y];
+                }
+                segLen -= remain;
+                x0 = x;
+                y0 = y;
+                dashIdx = (dashIdx + 1) % lineDash.length;
+                remain = lineDash[dashIdx];
+            }
+            remain -= segLen;
+            if (current) {
+                current.push(x1, y1);
+            }
+        }
+        if (current && current.length >= 4) {
+            out.push({ points: current, closed: false });
+        }
+    }
+    return out;
+}
+
+/**
+ * Convert polylines to the polygons of the stroked outline.
+ */
+export function strokePolylines(polylines: Polyline[], opt: StrokeOption): Polygon[] {
+    const hw = opt.lineWidth / 2;
+    const out: Polygon[] = [];
+    if (!(hw > 0)) {
+        return out;
+    }
+    const lineCap = opt.lineCap || 'butt';
+    const lineJoin = opt.lineJoin || 'miter';
+    const miterLimit = opt.miterLimit == null ? 10 : opt.miterLimit;
+    const tolerance = opt.tolerance || 0.25;
+
+    if (opt.lineDash && opt.lineDash.length) {
+        polylines = dashPolylines(polylines, opt.lineDash, opt.lineDashOffset);
+    }
+
+    for (let i = 0; i < polylines.length; i++) {
+        const points = cleanPoints(polylines[i].points);
+        let closed = polylines[i].closed;
+        const len = points.length;
+        if (closed && len >= 4 && points[0] === points[len - 2] && points[1] === points[len - 1]) {
+            // Remove the duplicate closing point.
+            points.length -= 2;
+        }
+        const count = points.length / 2;
+        if (count < 2) {
+            // Zero length sub path only draws the caps.
+            if (count === 1 && !closed) {
+                const x = points[0];
+                const y = points[1];
+                if (lineCap === 'round') {
+                    addCircle(out, x, y, hw, tolerance);
+                }
+                else if (lineCap === 'square') {
+                    out.push([x - hw, y - hw, x + hw, y - hw, x + hw, y + hw, x - hw, y + hw]);
+                }
+            }
+            continue;
+        }
+        if (count === 2) {
+            closed = false;
+        }
+
+        const segCount = closed ? count : count - 1;
+        // Unit normals of each segment.
+        const nx: number[] = [];
+        const ny: number[] = [];
+        for (let k = 0; k < segCount; k++) {
+            const k2 = (k + 1) % count;
+            const dx = points[k2 * 2] - points[k * 2];
+            const dy = points[k2 * 2 + 1] - points[k * 2 + 1];
+            const d = mathSqrt(dx * dx + dy * dy);
+            nx[k] = -dy / d;
+            ny[k] = dx / d;
+        }
+
+        for (let k = 0; k < segCount; k++) {
+            const k2 = (k + 1) % count;
+            let x0 = points[k * 2];
+            let y0 = points[k * 2 + 1];
+            let x1 = points[k2 * 2];
+            let y1 = points[k2 * 2 + 1];
+            const ox = nx[k] * hw;
+            const oy = ny[k] * hw;
+            if (!closed && lineCap === 'square') {
+                // Extend the first and last segment.
+                if (k === 0) {
+                    x0 -= oy;
+                    y0 += ox;
+                }
+                if (k === segCount - 1) {
+                    x1 += oy;
+                    y1 -= ox;
+                }
+            }
+            pushPolygon(out, [
+                x0 + ox, y0 + oy,
+                x1 + ox, y1 + oy,
+                x1 - ox, y1 - oy,
+                x0 - ox, y0 - oy
+            ]);
+        }
+
+        // Joins
+        const joinStart = closed ? 0 : 1;
+        const joinEnd = closed ? count : count - 1;
+        for (let k = joinStart; k < joinEnd; k++) {
+            const prevSeg = (k - 1 + segCount) % segCount;
+            const nextSeg = k % segCount;
+            const x = points[k * 2];
+            const y = points[k * 2 + 1];
+            const n0x = nx[prevSeg];
+            const n0y = ny[prevSeg];
+            const n1x = nx[nextSeg];
+            const n1y = ny[nextSeg];
+            // Cross product of the two directions. Sign tells the outer side.
+            const cross = n0x * n1y - n0y * n1x;
+            if (mathAbs(cross) < 1e-8 && n0x * n1x + n0y * n1y > 0) {
+                // Collinear
+                continue;
+            }
+            if (lineJoin === 'round') {
+                addCircle(out, x, y, hw, tolerance);
+                continue;
+            }
+            const side = cross > 0 ? -1 : 1;
+            const ax = x + n0x * hw * side;
+            const ay = y + n0y * hw * side;
+            const bx = x + n1x * hw * side;
+            const by = y + n1y * hw * side;
+            if (lineJoin === 'miter') {
+                const cosTheta = n0x * n1x + n0y * n1y;
+                // Miter length ratio is 1 / cos(theta / 2)
+                const cosHalf = mathSqrt((1 + cosTheta) / 2);
+                if (cosHalf > 1e-8 && 1 / cosHalf <= miterLimit) {
+                    let mx = n0x + n1x;
+                    let my = n0y + n1y;
+                    const ml = mathSqrt(mx * mx + my * my);
+                    mx = mx / ml * hw / cosHalf * side;
+                    my = my / ml * hw / cosHalf * side;
+                    pushPolygon(out, [x, y, ax, ay, x + mx, y + my, bx, by]);
+                    continue;
+                }
+            }
+            // Bevel
+            pushPolygon(out, [x, y, ax, ay, bx, by]);
+        }
+
+        // Round caps
+        if (!closed && lineCap === 'round') {
+            addCircle(out, points[0], points[1], hw, tolerance);
+            addCircle(out, points[(count - 1) * 2], points[(count - 1) * 2 + 1], hw, tolerance);
+        }
+    }
+
+    return out;
+}
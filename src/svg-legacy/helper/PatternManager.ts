@@ -10,6 +10,7 @@ import {PatternObject} from '../../graphic/Pattern';
 import {createOrUpdateImage} from '../../graphic/helper/image';
 import WeakMap from '../../core/WeakMap';
 import { getIdURL, isPattern, isSVGPattern } from '../../svg/helper';
+import { isElementPattern } from '../../graphic/helper/elementPattern';
 import { createElement } from '../../svg/core';
 
 const patternDomMap = new WeakMap<PatternObject, SVGElement>();
@@ -118,8 +119,8 @@ export default class PatternManager extends Definable {
      * @param patternDom DOM to update
      */
     updateDom(pattern: PatternObject, patternDom: SVGElement) {
-        if (isSVGPattern(pattern)) {
-            // New SVGPattern will not been supported in the legacy SVG renderer.
+        if (isSVGPattern(pattern) || isElementPattern(pattern)) {
+            // New SVGPattern and element pattern will not been supported in the legacy SVG renderer.
             // svg-legacy will been removed soon.
 
             // const svgElement = pattern.svgElement;
@@ -3,9 +3,10 @@
  */
 
 import {
-    brush, setClipPath
+    brush, setClipPath, getAriaElement
 } from './graphic';
 import Displayable from '../graphic/Displayable';
+import Element from '../Element';
 import Storage from '../Storage';
 import { PainterBase } from '../PainterBase';
 import {
@@ -21,6 +22,7 @@ import {
 } from './core';
 import { normalizeColor, encodeBase64 } from './helper';
 import { extend, keys, logError, map, retrieve2 } from '../core/util';
+import { Dictionary } from '../core/types';
 import Path from '../graphic/Path';
 import patch, { updateAttrs } from './patch';
 import { getSize } from '../canvas/helper';
@@ -217,6 +219,72 @@ class SVGPainter implements PainterBase {
         return this._mainVNode && this._mainVNode.elm as SVGElement;
     }
 
+    /**
+     * Element focused by keyboard. DOM focus is moved to its node.
+     */
+    setFocusedElement(el: Element) {
+        const dom = this._getElementDom(el);
+        const activeElement = document.activeElement as HTMLElement | SVGElement;
+        if (dom) {
+            activeElement !== dom && dom.focus();
+        }
+        else if (activeElement && this._svgDom && this._svgDom.contains(activeElement)) {
+            activeElement.blur();
+        }
+    }
+
+    /**
+     * Get the focusable element of the node, which has `tabindex`.
+     */
+    getElementByDom(dom: Node): Element {
+        const doms = this._getFocusableDoms();
+        for (let key in doms) {
+            if (doms.hasOwnProperty(key) && doms[key] === dom) {
+                const list = this.storage.getDisplayList();
+                for (let i = 0; i < list.length; i++) {
+                    if (list[i].id + '' === key) {
+                        return getAriaElement(list[i]);
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    private _getElementDom(el: Element): SVGElement {
+        if (!el) {
+            return null;
+        }
+        const doms = this._getFocusableDoms();
+        const list = this.storage.getDisplayList();
+        // Group has no node.
+        for (let i = 0; i < list.length; i++) {
+            const dom = doms[list[i].id];
+            if (dom && getAriaElement(list[i]) === el) {
+                return dom;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Rendered doms with `tabindex`, keyed by id of displayable.
+     */
+    private _getFocusableDoms() {
+        const doms: Dictionary<SVGElement> = {};
+        function walk(vnode: SVGVNode) {
+            if (vnode.attrs && vnode.attrs.tabindex != null && vnode.elm) {
+                doms[vnode.key] = vnode.elm as SVGElement;
+            }
+            const children = vnode.children;
+            for (let i = 0; children && i < children.length; i++) {
+                walk(children[i]);
+            }
+        }
+        this.root && walk(this._oldVNode);
+        return doms;
+    }
+
     _paintList(list: Displayable[], scope: BrushScope, out?: SVGVNode[]) {
         const listLen = list.length;
 
@@ -119,9 +119,13 @@ export interface BrushScope {
     zrId: string
 
     shadowCache: Record<string, string>
+    filterCache: Record<string, string>
     gradientCache: Record<string, string>
     patternCache: Record<string, string>
     clipPathCache: Record<string, string>
+    textPathCache: Record<string, string>
+    // Tile of element pattern by the id of element.
+    elementPatternCache: Record<number, SVGVNode>
 
     defs: Record<string, SVGVNode>
 
@@ -132,9 +136,12 @@ export interface BrushScope {
     cssAnimIdx: number
 
     shadowIdx: number
+    filterIdx: number
     gradientIdx: number
     patternIdx: number
     clipPathIdx: number
+    textPathIdx: number
+    elementPatternIdx: number
     // configs
     /**
      * If create animates nodes.
@@ -156,9 +163,12 @@ export function createBrushScope(zrId: string): BrushScope {
     return {
         zrId,
         shadowCache: {},
+        filterCache: {},
         patternCache: {},
         gradientCache: {},
         clipPathCache: {},
+        textPathCache: {},
+        elementPatternCache: {},
         defs: {},
 
         cssNodes: {},
@@ -168,9 +178,12 @@ export function createBrushScope(zrId: string): BrushScope {
         cssAnimIdx: 0,
 
         shadowIdx: 0,
+        filterIdx: 0,
         gradientIdx: 0,
         patternIdx: 0,
-        clipPathIdx: 0
+        clipPathIdx: 0,
+        textPathIdx: 0,
+        elementPatternIdx: 0
     };
 }
 
@@ -1,15 +1,19 @@
 import Transformable, { copyTransform } from '../core/Transformable';
 import Displayable from '../graphic/Displayable';
-import { SVGVNodeAttrs, BrushScope, createBrushScope} from './core';
+import { SVGVNodeAttrs, BrushScope, createBrushScope, createVNode } from './core';
 import Path from '../graphic/Path';
 import SVGPathRebuilder from './SVGPathRebuilder';
 import PathProxy from '../core/PathProxy';
-import { getPathPrecision, getSRTTransformString } from './helper';
-import { each, extend, filter, isNumber, isString, keys } from '../core/util';
+import { getIdURL, getPathPrecision, getSRTTransformString, normalizeColor } from './helper';
+import {
+    each, extend, filter, indexOf, isFunction, isGradientObject, isNumber, isString, keys, map
+} from '../core/util';
 import Animator from '../animation/Animator';
 import CompoundPath from '../graphic/CompoundPath';
-import { AnimationEasing } from '../animation/easing';
+import easingFuncs, { AnimationEasing } from '../animation/easing';
 import { createCubicEasingFunc } from '../animation/cubicEasing';
+import { GradientObject } from '../graphic/Gradient';
+import { getMotionPathPropNames, MotionPathOption } from '../animation/motionPath';
 
 export const EASING_MAP: Record<string, string> = {
     // From https://easings.net/
@@ -34,9 +38,16 @@ export const EASING_MAP: Record<string, string> = {
     circularIn: '0.55,0,1,0.45',
     circularOut: '0,0.55,0.45,1',
     circularInOut: '0.85,0,0.15,1'
-    // TODO elastic, bounce
+    // Others like elastic and bounce are sampled to linear() easing.
 };
 
+// Sample count of the easing which can't be described by cubic-bezier.
+const EASING_SAMPLE_COUNT = 100;
+// Max error of the sampled easing.
+const EASING_SAMPLE_TOLERANCE = 1e-3;
+
+const sampledEasingCache: Record<string, string> = {};
+
 const transformOriginKey = 'transform-origin';
 
 function buildPathString(el: Path, kfShape: Path['shape'], path: PathProxy) {
@@ -52,6 +63,14 @@ function buildPathString(el: Path, kfShape: Path['shape'], path: PathProxy) {
     return svgPathBuilder.getStr();
 }
 
+function buildMotionPathString(el: Path) {
+    const svgPathBuilder = new SVGPathRebuilder();
+    svgPathBuilder.reset(getPathPrecision(el));
+    el.getUpdatedPathProxy().rebuildPath(svgPathBuilder, 1);
+    svgPathBuilder.generateStr();
+    return svgPathBuilder.getStr();
+}
+
 function setTransformOrigin(target: Record<string, string>, transform: Transformable) {
     const {originX, originY} = transform;
     if (originX || originY) {
@@ -125,12 +144,110 @@ function createCompoundPathCSSAnimation(
     return cssAnimationCfg.replace(cssAnimationName, animationName);
 }
 
+/**
+ * Sample easing function to the CSS linear() easing.
+ * Points which can be linearly interpolated by the neighbours are dropped.
+ */
+function sampleEasing(easingFunc: (percent: number) => number) {
+    const values: number[] = [];
+    for (let i = 0; i <= EASING_SAMPLE_COUNT; i++) {
+        values.push(easingFunc(i / EASING_SAMPLE_COUNT));
+    }
+    const round3 = (val: number) => Math.round(val * 1e3) / 1e3;
+    const points = [round3(values[0]) + ''];
+    let start = 0;
+    for (let end = 2; end <= EASING_SAMPLE_COUNT; end++) {
+        for (let i = start + 1; i < end; i++) {
+            const t = (i - start) / (end - start);
+            if (Math.abs(values[start] + (values[end] - values[start]) * t - values[i]) > EASING_SAMPLE_TOLERANCE) {
+                start = end - 1;
+                points.push(`${round3(values[start])} ${start * 100 / EASING_SAMPLE_COUNT}%`);
+                break;
+            }
+        }
+    }
+    points.push(round3(values[EASING_SAMPLE_COUNT]) + '');
+    return `linear(${points.join(',')})`;
+}
+
 function getEasingFunc(easing: AnimationEasing) {
-    return isString(easing)
-        ? EASING_MAP[easing]
-            ? `cubic-bezier(${EASING_MAP[easing]})`
-            : createCubicEasingFunc(easing) ? easing : ''
-        : '';
+    if (isString(easing)) {
+        if (EASING_MAP[easing]) {
+            return `cubic-bezier(${EASING_MAP[easing]})`;
+        }
+        if (createCubicEasingFunc(easing)) {
+            return easing;
+        }
+        if (easing !== 'linear' && easingFuncs[easing]) {
+            return sampledEasingCache[easing]
+                || (sampledEasingCache[easing] = sampleEasing(easingFuncs[easing]));
+        }
+        return '';
+    }
+    return isFunction(easing) ? sampleEasing(easing) : '';
+}
+
+/**
+ * Animate the color stops of gradient by a copy of the gradient def, whose stops are animated.
+ * Position of the gradient and offset of the stops are attributes and can't be animated in CSS.
+ */
+function createGradientCSSAnimation(
+    animator: Animator<any>,
+    animationCfg: string,
+    attrs: SVGVNodeAttrs,
+    scope: BrushScope
+) {
+    const tracks = animator.getTracks();
+    const maxTime = animator.getMaxTime();
+    for (let k = 0; k < tracks.length; k++) {
+        const track = tracks[k];
+        const propName = track.propName;
+        const gradientVNode = (propName === 'fill' || propName === 'stroke')
+            && track.needsAnimate()
+            && scope.defs[(attrs[propName] + '').replace(/^url\(#(.*)\)$/, '$1')];
+        if (!gradientVNode || !gradientVNode.children) {
+            continue;
+        }
+        const stopsCount = gradientVNode.children.length;
+        const stopKfs: Record<string, CssKF>[] = [];
+        const kfs = track.keyframes;
+        let canAnimate = true;
+        for (let i = 0; i < kfs.length && canAnimate; i++) {
+            const kf = kfs[i];
+            const colorStops = isGradientObject(kf.rawValue) && (kf.rawValue as GradientObject).colorStops;
+            if (!colorStops || colorStops.length !== stopsCount) {
+                canAnimate = false;
+                break;
+            }
+            const percent = Math.round(kf.time / maxTime * 100) + '%';
+            const kfEasing = getEasingFunc(kf.easing);
+            for (let j = 0; j < stopsCount; j++) {
+                const {color, opacity} = normalizeColor(colorStops[j].color);
+                const cssKf: CssKF = (stopKfs[j] = stopKfs[j] || {})[percent] = {
+                    'stop-color': color,
+                    'stop-opacity': opacity
+                };
+                kfEasing && (cssKf['animation-timing-function'] = kfEasing);
+            }
+        }
+        if (!canAnimate) {
+            continue;
+        }
+
+        // Gradient def may be shared with other elements.
+        const gradientId = scope.zrId + '-g' + scope.gradientIdx++;
+        const stops = map(gradientVNode.children, (stop, idx) => {
+            const className = scope.zrId + '-cls-' + scope.cssClassIdx++;
+            scope.cssNodes['.' + className] = {
+                animation: `${addAnimation(stopKfs[idx], scope)} ${animationCfg} both`
+            };
+            return createVNode(stop.tag, stop.key, extend({ 'class': className }, stop.attrs), stop.children);
+        });
+        scope.defs[gradientId] = createVNode(
+            gradientVNode.tag, gradientId, extend(extend({}, gradientVNode.attrs), { id: gradientId }), stops
+        );
+        attrs[propName] = getIdURL(gradientId);
+    }
 }
 
 export function createCSSAnimation(
@@ -213,7 +330,7 @@ export function createCSSAnimation(
                             const kfEasing = getEasingFunc(kf.easing);
                             const rawValue = kf.rawValue;
 
-                            // TODO gradient
+                            // Gradient is animated in createGradientCSSAnimation
                             if (isString(rawValue) || isNumber(rawValue)) {
                                 cssKfs[percent] = cssKfs[percent] || {};
                                 cssKfs[percent][attrName] = kf.rawValue;
@@ -229,29 +346,78 @@ export function createCSSAnimation(
             }
         }
 
+        // Motion path is described by offset-path if the origin is not changed,
+        // which is the same as the default offset-anchor of SVG element.
+        let motionPath: MotionPathOption;
+        let motionPathProps: string[];
+        const filterMotionPathProps = (propName: string) => (
+            indexOf(motionPathProps, propName) >= 0 ? '' : propName
+        );
+
         // Find all transform animations.
         // TODO origin, parent
         for (let i = 0; i < len; i++) {
             const animator = animators[i];
             const targetProp = animator.targetName;
             if (!targetProp) {
-                !onlyShape && saveAnimatorTrackToCssKfs(animator, transformKfs);
+                if (onlyShape) {
+                    continue;
+                }
+                const animatorMotionPath = animator.getMotionPath();
+                if (animatorMotionPath && !el.originX && !el.originY) {
+                    motionPath = animatorMotionPath;
+                    motionPathProps = getMotionPathPropNames(motionPath);
+                    saveAnimatorTrackToCssKfs(animator, transformKfs, filterMotionPathProps);
+                }
+                else {
+                    saveAnimatorTrackToCssKfs(animator, transformKfs);
+                }
             }
             else if (targetProp === 'shape') {
                 saveAnimatorTrackToCssKfs(animator, shapeKfs);
             }
         }
 
+        if (motionPath) {
+            const start = motionPath.start || 0;
+            const end = motionPath.end == null ? 1 : motionPath.end;
+            const offsetRotate = motionPath.autoRotate ? (end < start ? 'reverse' : 'auto') : '0deg';
+            const offsetPath = `path("${buildMotionPathString(motionPath.path)}")`;
+            each(['0%', '100%'], (percent, idx) => {
+                const kf = transformKfs[percent] = transformKfs[percent] || {};
+                kf['offset-distance'] = (idx ? end : start) * 100 + '%';
+            });
+            // eslint-disable-next-line
+            for (let percent in transformKfs) {
+                transformKfs[percent]['offset-path'] = offsetPath;
+                transformKfs[percent]['offset-rotate'] = offsetRotate;
+            }
+        }
+
         // eslint-disable-next-line
         for (let percent in transformKfs) {
             const transform = {} as Transformable;
             copyTransform(transform, el);
-            extend(transform, transformKfs[percent]);
+            const transformKf = transformKfs[percent];
+            extend(transform, transformKf);
+            if (motionPath) {
+                // Position is given by offset-path.
+                for (let i = 0; i < motionPathProps.length; i++) {
+                    (transform as any)[motionPathProps[i]] = 0;
+                }
+            }
             const str = getSRTTransformString(transform);
-            const timingFunction = transformKfs[percent][animationTimingFunctionAttrName];
+            const timingFunction = transformKf[animationTimingFunctionAttrName];
             finalKfs[percent] = str ? {
                 transform: str
             } : {};
+            if (motionPath) {
+                // Transform attribute should not be applied with offset-path.
+                finalKfs[percent].transform = str || 'none';
+                each(['offset-path', 'offset-distance', 'offset-rotate'], name => {
+                    transformKf[name] != null && (finalKfs[percent][name] = transformKf[name]);
+                });
+            }
             // TODO set transform origin in element?
             setTransformOrigin(finalKfs[percent], transform);
 
@@ -304,6 +470,7 @@ export function createCSSAnimation(
                     saveAnimatorTrackToCssKfs(
                         animator, finalKfs, (propName) => ANIMATE_STYLE_MAP[propName]
                     );
+                    createGradientCSSAnimation(animator, groupAnimator[0], attrs, scope);
                 }
             }
         }
@@ -24,21 +24,28 @@ import Path, { PathStyleProps } from '../graphic/Path';
 import ZRImage, { ImageStyleProps } from '../graphic/Image';
 import { getLineHeight } from '../contain/text';
 import TSpan, { TSpanStyleProps } from '../graphic/TSpan';
+import TextPath from '../graphic/TextPath';
 import SVGPathRebuilder from './SVGPathRebuilder';
 import mapStyleToAttrs from './mapStyleToAttrs';
-import { SVGVNodeAttrs, createVNode, SVGVNode, vNodeToString, BrushScope } from './core';
+import { SVGVNodeAttrs, createVNode, SVGVNode, vNodeToString, BrushScope, createBrushScope } from './core';
 import { MatrixArray } from '../core/matrix';
 import Displayable from '../graphic/Displayable';
-import { assert, isFunction, isString, logError, map, retrieve2 } from '../core/util';
+import { assert, extend, isFunction, isString, keys, logError, map, retrieve2 } from '../core/util';
 import Polyline from '../graphic/shape/Polyline';
 import Polygon from '../graphic/shape/Polygon';
 import { GradientObject } from '../graphic/Gradient';
-import { ImagePatternObject, SVGPatternObject } from '../graphic/Pattern';
+import {
+    ImagePatternObject, SVGPatternObject, ElementPatternObject
+} from '../graphic/Pattern';
+import { isElementPattern, getElementPatternDisplayList } from '../graphic/helper/elementPattern';
 import { createOrUpdateImage } from '../graphic/helper/image';
 import { ImageLike } from '../core/types';
 import { createCSSAnimation } from './cssAnimation';
-import { hasSeparateFont, parseFontSize } from '../graphic/Text';
+import ZRText, { hasSeparateFont, parseFontSize } from '../graphic/Text';
 import { DEFAULT_FONT, DEFAULT_FONT_FAMILY } from '../core/platform';
+import Element from '../Element';
+import { hasAccessibility, getAriaAttrs } from '../graphic/helper/aria';
+import { parseFilter, FilterItem } from '../graphic/helper/filter';
 
 const round = Math.round;
 
@@ -66,7 +73,7 @@ function setStyleAttrs(attrs: SVGVNodeAttrs, style: AllStyleOption, el: Path | T
         }
     }, style, el, false);
 
-    setShadow(el, attrs, scope);
+    style.filter ? setFilter(el, attrs, scope) : setShadow(el, attrs, scope);
 }
 
 function noRotateScale(m: MatrixArray) {
@@ -89,6 +96,44 @@ function setTransform(attrs: SVGVNodeAttrs, m: MatrixArray, compress?: boolean)
     }
 }
 
+function hasAriaAttrs(el: Element) {
+    return el.focusable || hasAccessibility(el);
+}
+
+/**
+ * Get the element whose aria attributes and tab index are set on the node of displayable.
+ */
+export function getAriaElement(el: Displayable): Element {
+    if (hasAriaAttrs(el)) {
+        return el;
+    }
+    // Accessibility props of text are on the ZRText, which is not painted itself.
+    // Only the first TSpan takes it to avoid being read repeatedly.
+    const parent = el.parent as unknown as ZRText;
+    if (parent && !parent.isGroup && hasAriaAttrs(parent)
+        && parent.childrenRef && parent.childrenRef()[0] === el
+    ) {
+        return parent;
+    }
+}
+
+/**
+ * Set role, aria attributes and tab index. Returns `<title>` and `<desc>` nodes if needed.
+ */
+function setAria(attrs: SVGVNodeAttrs, el: Displayable, withChildren?: boolean): SVGVNode[] {
+    const ariaEl = getAriaElement(el);
+    if (!ariaEl) {
+        return;
+    }
+    extend(attrs, getAriaAttrs(ariaEl));
+    if (withChildren) {
+        const children: SVGVNode[] = [];
+        ariaEl.ariaLabel && children.push(createVNode('title', 'title', {}, undefined, ariaEl.ariaLabel));
+        ariaEl.ariaDescription && children.push(createVNode('desc', 'desc', {}, undefined, ariaEl.ariaDescription));
+        return children.length ? children : undefined;
+    }
+}
+
 type ShapeMapDesc = (string | [string, string])[];
 type ConvertShapeToAttr = (shape: any, attrs: SVGVNodeAttrs, mul?: number) => void;
 type ShapeValidator = (shape: any) => boolean;
@@ -206,7 +251,7 @@ export function brushSVGPath(el: Path, scope: BrushScope) {
 
     scope.animation && createCSSAnimation(el, attrs, scope);
 
-    return createVNode(svgElType, el.id + '', attrs);
+    return createVNode(svgElType, el.id + '', attrs, setAria(attrs, el, true));
 }
 
 export function brushSVGImage(el: ZRImage, scope: BrushScope) {
@@ -250,41 +295,20 @@ export function brushSVGImage(el: ZRImage, scope: BrushScope) {
 
     scope.animation && createCSSAnimation(el, attrs, scope);
 
-    return createVNode('image', el.id + '', attrs);
+    return createVNode('image', el.id + '', attrs, setAria(attrs, el, true));
 };
 
-export function brushSVGTSpan(el: TSpan, scope: BrushScope) {
-    const style = el.style;
-
-    let text = style.text;
-    // Convert to string
-    text != null && (text += '');
-    if (!text || isNaN(style.x) || isNaN(style.y)) {
-        return;
-    }
-
-    // style.font has been normalized by `normalizeTextStyle`.
-    const font = style.font || DEFAULT_FONT;
-
-    // Consider different font display differently in vertial align, we always
-    // set vertialAlign as 'middle', and use 'y' to locate text vertically.
-    const x = style.x || 0;
-    const y = adjustTextY(style.y || 0, getLineHeight(font), style.textBaseline);
-    const textAlign = TEXT_ALIGN_TO_ANCHOR[style.textAlign as keyof typeof TEXT_ALIGN_TO_ANCHOR]
-        || style.textAlign;
-
-    const attrs: SVGVNodeAttrs = {
-        'dominant-baseline': 'central',
-        'text-anchor': textAlign
-    };
-
+/**
+ * @return false if font size is 0 and text should not be rendered.
+ */
+function setFontAttrs(attrs: SVGVNodeAttrs, style: TSpanStyleProps, font: string) {
     if (hasSeparateFont(style)) {
         // Set separate font attributes if possible. Or some platform like PowerPoint may not support it.
         let separatedFontStr = '';
         const fontStyle = style.fontStyle;
         const fontSize = parseFontSize(style.fontSize);
         if (!parseFloat(fontSize)) {    // is 0px
-            return;
+            return false;
         }
 
         const fontFamily = style.fontFamily || DEFAULT_FONT_FAMILY;
@@ -304,7 +328,50 @@ export function brushSVGTSpan(el: TSpan, scope: BrushScope) {
         // Use set font manually
         attrs.style = `font: ${font}`;
     }
+    return true;
+}
+
+export function brushSVGTSpan(el: TSpan, scope: BrushScope) {
+    const style = el.style;
+
+    let text = style.text;
+    // Convert to string
+    text != null && (text += '');
+    if (!text || isNaN(style.x) || isNaN(style.y)) {
+        return;
+    }
+
+    // style.font has been normalized by `normalizeTextStyle`.
+    const font = style.font || DEFAULT_FONT;
+
+    // Consider different font display differently in vertial align, we always
+    // set vertialAlign as 'middle', and use 'y' to locate text vertically.
+    const isVertical = style.writingMode === 'vertical';
+    const x = style.x || 0;
+    // Vertical text is always centered in column.
+    const y = isVertical ? (style.y || 0) : adjustTextY(style.y || 0, getLineHeight(font), style.textBaseline);
+    const direction = style.direction;
+    let textAlign = TEXT_ALIGN_TO_ANCHOR[style.textAlign as keyof typeof TEXT_ALIGN_TO_ANCHOR]
+        || style.textAlign;
+    if (direction === 'rtl' && (style.textAlign === 'left' || style.textAlign === 'right')) {
+        // text-anchor is relative to the direction.
+        textAlign = style.textAlign === 'left' ? 'end' : 'start';
+    }
+
+    const attrs: SVGVNodeAttrs = {
+        'dominant-baseline': 'central',
+        'text-anchor': textAlign
+    };
+    if (direction) {
+        attrs.direction = direction;
+    }
+    if (isVertical) {
+        attrs['writing-mode'] = 'vertical-rl';
+    }
 
+    if (!setFontAttrs(attrs, style, font)) {
+        return;
+    }
 
     if (text.match(/\s/)) {
         // only enabled when have space in text.
@@ -320,10 +387,82 @@ export function brushSVGTSpan(el: TSpan, scope: BrushScope) {
     setStyleAttrs(attrs, style, el, scope);
 
     scope.animation && createCSSAnimation(el, attrs, scope);
+    // Content of text can't be mixed with child nodes, only attributes are set.
+    setAria(attrs, el);
 
     return createVNode('text', el.id + '', attrs, undefined, text);
 }
 
+const TEXT_BASELINE_TO_DOMINANT_BASELINE = {
+    top: 'text-before-edge',
+    middle: 'central',
+    bottom: 'text-after-edge',
+    hanging: 'hanging',
+    ideographic: 'ideographic'
+};
+
+export function brushSVGTextPath(el: TextPath, scope: BrushScope) {
+    const style = el.style;
+
+    let text = style.text;
+    // Convert to string
+    text != null && (text += '');
+    const guidePath = el.getGuidePath();
+    if (!text || !guidePath) {
+        return;
+    }
+
+    const font = style.font || DEFAULT_FONT;
+    const attrs: SVGVNodeAttrs = {};
+    const dominantBaseline = TEXT_BASELINE_TO_DOMINANT_BASELINE[
+        style.textBaseline as keyof typeof TEXT_BASELINE_TO_DOMINANT_BASELINE
+    ];
+    if (dominantBaseline) {
+        attrs['dominant-baseline'] = dominantBaseline;
+    }
+    if (!setFontAttrs(attrs, style, font)) {
+        return;
+    }
+    if (text.match(/\s/)) {
+        attrs['xml:space'] = 'preserve';
+    }
+
+    // Path is reversed in the guide path if the text is on the right side.
+    const svgPathBuilder = new SVGPathRebuilder();
+    svgPathBuilder.reset(4);
+    guidePath.rebuildPath(svgPathBuilder, 1);
+    svgPathBuilder.generateStr();
+    const d = svgPathBuilder.getStr();
+
+    const {textPathCache, defs} = scope;
+    let pathId = textPathCache[d];
+    if (!pathId) {
+        pathId = scope.zrId + '-tp' + scope.textPathIdx++;
+        textPathCache[d] = pathId;
+        defs[pathId] = createVNode('path', pathId, { id: pathId, d });
+    }
+
+    const textPathAttrs: SVGVNodeAttrs = {
+        href: '#' + pathId,
+        'text-anchor': TEXT_ALIGN_TO_ANCHOR[style.textAlign as keyof typeof TEXT_ALIGN_TO_ANCHOR]
+            || style.textAlign
+    };
+    const startOffset = style.startOffset;
+    if (startOffset) {
+        textPathAttrs.startOffset = startOffset;
+    }
+
+    setTransform(attrs, el.transform);
+    setStyleAttrs(attrs, style, el, scope);
+
+    scope.animation && createCSSAnimation(el, attrs, scope);
+    setAria(attrs, el);
+
+    return createVNode('text', el.id + '', attrs, [
+        createVNode('textPath', 'tp', textPathAttrs, undefined, text)
+    ]);
+}
+
 export function brush(el: Displayable, scope: BrushScope): SVGVNode {
     if (el instanceof Path) {
         return brushSVGPath(el, scope);
@@ -331,6 +470,9 @@ export function brush(el: Displayable, scope: BrushScope): SVGVNode {
     else if (el instanceof ZRImage) {
         return brushSVGImage(el, scope);
     }
+    else if (el instanceof TextPath) {
+        return brushSVGTextPath(el, scope);
+    }
     else if (el instanceof TSpan) {
         return brushSVGTSpan(el, scope);
     }
@@ -388,6 +530,100 @@ function setShadow(
     }
 }
 
+function createFilterPrimitive(item: FilterItem, scaleX: number, scaleY: number): SVGVNode {
+    const val = item.value;
+    switch (item.type) {
+        case 'blur':
+            return createVNode('feGaussianBlur', '', {
+                'stdDeviation': val / scaleX + ' ' + val / scaleY
+            });
+        case 'brightness':
+        case 'contrast':
+            return createVNode('feComponentTransfer', '', {}, map(['R', 'G', 'B'], function (channel) {
+                return createVNode('feFunc' + channel, '', {
+                    'type': 'linear',
+                    'slope': val,
+                    'intercept': item.type === 'contrast' ? 0.5 - 0.5 * val : 0
+                });
+            }));
+        case 'grayscale':
+        case 'saturate':
+            return createVNode('feColorMatrix', '', {
+                'type': 'saturate',
+                'values': item.type === 'grayscale' ? 1 - val : val
+            });
+        case 'hue-rotate':
+            return createVNode('feColorMatrix', '', {
+                'type': 'hueRotate',
+                'values': val
+            });
+        case 'drop-shadow': {
+            const {opacity, color} = normalizeColor(item.color);
+            return createVNode('feDropShadow', '', {
+                'dx': item.offsetX / scaleX,
+                'dy': item.offsetY / scaleY,
+                'stdDeviation': val / 2 / scaleX + ' ' + val / 2 / scaleY,
+                'flood-color': color,
+                'flood-opacity': opacity
+            });
+        }
+    }
+}
+
+/**
+ * Filter effects are chained in one filter, with the shadow of element at the end.
+ */
+function setFilter(
+    el: Displayable,
+    attrs: SVGVNodeAttrs,
+    scope: BrushScope
+) {
+    const style = el.style;
+    const items = parseFilter(style.filter);
+    const globalScale = el.getGlobalScale();
+    const scaleX = globalScale[0];
+    const scaleY = globalScale[1];
+    if (!items.length || !scaleX || !scaleY) {
+        setShadow(el, attrs, scope);
+        return;
+    }
+    const withShadow = hasShadow(style);
+    const filterKey = style.filter + ';' + (withShadow ? getShadowKey(el) : scaleX + ',' + scaleY);
+    const filterCache = scope.filterCache;
+    let filterId = filterCache[filterKey];
+    if (!filterId) {
+        const primitives = map(items, function (item) {
+            return createFilterPrimitive(item, scaleX, scaleY);
+        });
+        if (withShadow) {
+            const {opacity, color} = normalizeColor(style.shadowColor);
+            primitives.push(createVNode('feDropShadow', '', {
+                'dx': (style.shadowOffsetX || 0) / scaleX,
+                'dy': (style.shadowOffsetY || 0) / scaleY,
+                'stdDeviation': style.shadowBlur / 2 / scaleX + ' ' + style.shadowBlur / 2 / scaleY,
+                'flood-color': color,
+                'flood-opacity': opacity
+            }));
+        }
+        filterId = scope.zrId + '-f' + scope.filterIdx++;
+        scope.defs[filterId] = createVNode(
+            'filter', filterId,
+            {
+                'id': filterId,
+                'x': '-100%',
+                'y': '-100%',
+                'width': '300%',
+                'height': '300%',
+                // Same color space as CSS filter functions.
+                'color-interpolation-filters': 'sRGB'
+            },
+            primitives
+        );
+        filterCache[filterKey] = filterId;
+    }
+    attrs.filter = getIdURL(filterId);
+}
+
 function setGradient(
     style: PathStyleProps,
     attrs: SVGVNodeAttrs,
@@ -467,13 +703,37 @@ function setGradient(
     attrs[target] = getIdURL(gradientId);
 }
 
+/**
+ * Render the elements of pattern to vnode. It's rendered again in each render
+ * so the changes of elements are applied, and shared by the patterns of the same element.
+ * NOTE: Clip path in the tile is not supported.
+ */
+function getElementPatternVNode(pattern: ElementPatternObject, scope: BrushScope) {
+    const cache = scope.elementPatternCache;
+    const elId = pattern.element.id;
+    if (!cache[elId]) {
+        const list = getElementPatternDisplayList(pattern);
+        // Ids of the gradients in tile should not conflict with the ones outside.
+        const tileScope = createBrushScope(scope.zrId + '-ptn' + scope.elementPatternIdx++);
+        const children: SVGVNode[] = [];
+        for (let i = 0; i < list.length; i++) {
+            const vNode = !list[i].invisible && brush(list[i], tileScope);
+            vNode && children.push(vNode);
+        }
+        const defs = map(keys(tileScope.defs), id => tileScope.defs[id]);
+        defs.length && children.push(createVNode('defs', 'defs', {}, defs));
+        cache[elId] = createVNode('g', 'ptn', {}, children);
+    }
+    return cache[elId];
+}
+
 function setPattern(
     el: Displayable,
     attrs: SVGVNodeAttrs,
     target: 'fill' | 'stroke',
     scope: BrushScope
 ) {
-    const val = el.style[target] as ImagePatternObject | SVGPatternObject;
+    const val = el.style[target] as ImagePatternObject | SVGPatternObject | ElementPatternObject;
     const patternAttrs: SVGVNodeAttrs = {
         'patternUnits': 'userSpaceOnUse'
     };
@@ -536,6 +796,11 @@ function setPattern(
         patternAttrs.width = imageWidth;
         patternAttrs.height = imageHeight;
     }
+    else if (isElementPattern(val)) {
+        child = getElementPatternVNode(val, scope);
+        patternAttrs.width = val.elementWidth;
+        patternAttrs.height = val.elementHeight;
+    }
     else if (val.svgElement) {  // Only string supported in SSR.
         // TODO it's not so good to use textContent as innerHTML
         child = val.svgElement;
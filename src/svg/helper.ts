@@ -9,6 +9,7 @@ import { LinearGradientObject } from '../graphic/LinearGradient';
 import Path from '../graphic/Path';
 import { ImagePatternObject, PatternObject, SVGPatternObject } from '../graphic/Pattern';
 import { RadialGradientObject } from '../graphic/RadialGradient';
+import { isElementPattern } from '../graphic/helper/elementPattern';
 import { parse } from '../tool/color';
 import env from '../core/env';
 
@@ -116,7 +117,7 @@ export function isSVGPattern(val: any): val is SVGPatternObject {
     return val && (!!(val as SVGPatternObject).svgElement);
 }
 export function isPattern(val: any): val is PatternObject {
-    return isImagePattern(val) || isSVGPattern(val);
+    return isImagePattern(val) || isSVGPattern(val) || isElementPattern(val);
 }
 
 export function isLinearGradient(val: GradientObject): val is LinearGradientObject {
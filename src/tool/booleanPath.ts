@@ -0,0 +1,589 @@
+/**
+ * Boolean operations of paths, like union, intersection, difference and xor.
+ *
+ * Curves are flattened adaptively to polygons first. Then edges are split at
+ * their intersections, and each edge is kept if the result of operation on its
+ * two sides are different. The kept edges are oriented to have the inside of
+ * result on the left, so the result can be filled by both nonzero and evenodd rule.
+ * Edges are indexed by a uniform grid, so only the edges nearby are intersected
+ * and the rays calculating winding numbers only go through a few cells.
+ *
+ * NOTE:
+ * Transform of Path is not applied. The result is in the local coordinates of the paths.
+ */
+
+import PathProxy from '../core/PathProxy';
+import Path from '../graphic/Path';
+import { pathToPolygons } from './convertPath';
+
+export type BooleanPathOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+export interface BooleanPathOption {
+    /**
+     * Fill rule of the input paths.
+     * @default 'nonzero'
+     */
+    fillRule?: CanvasFillRule
+    /**
+     * Scale of the paths when displayed, used for the tolerance of flattening curves.
+     * @default 1
+     */
+    scale?: number
+}
+
+interface Line {
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+}
+
+interface SplitPoint {
+    t: number
+    x: number
+    y: number
+}
+
+interface Edge {
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+    // 0 for the first path, 1 for the second path.
+    owner: number
+    splits: SplitPoint[]
+}
+
+interface Segment {
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+    owner: number
+    group: SegmentGroup
+}
+
+// Segments with the same end points.
+interface SegmentGroup {
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+    // Sum of the directions of segments in each path. 1 if same with the group, -1 if reversed.
+    dirSum: number[]
+}
+
+interface ResultEdge {
+    x0: number
+    y0: number
+    x1: number
+    y1: number
+    startKey: string
+    endKey: string
+    used: boolean
+}
+
+const EPSILON = 1e-6;
+
+// Lines covering more cells are not added to the cells, but visited in every query.
+const MAX_CELLS_PER_LINE = 64;
+
+// Unit vectors of the rays: right, left, down and up.
+const RAY_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+function getPointKey(x: number, y: number) {
+    return Math.round(x / EPSILON) + ',' + Math.round(y / EPSILON);
+}
+
+function toPolygons(path: Path | PathProxy, scale: number) {
+    const proxy = path instanceof PathProxy ? path : path.getUpdatedPathProxy();
+    return pathToPolygons(proxy, scale);
+}
+
+function createEdges(polygons: number[][], owner: number, out: Edge[]) {
+    for (let i = 0; i < polygons.length; i++) {
+        const points = polygons[i];
+        const count = points.length / 2;
+        // Polygon is closed implicitly when filling.
+        for (let k = 0; k < count; k++) {
+            const next = (k + 1) % count;
+            const x0 = points[k * 2];
+            const y0 = points[k * 2 + 1];
+            const x1 = points[next * 2];
+            const y1 = points[next * 2 + 1];
+            if (getPointKey(x0, y0) !== getPointKey(x1, y1)) {
+                out.push({ x0, y0, x1, y1, owner, splits: [] });
+            }
+        }
+    }
+}
+
+function addSplitPoint(edge: Edge, x: number, y: number) {
+    const dx = edge.x1 - edge.x0;
+    const dy = edge.y1 - edge.y0;
+    const lenSqr = dx * dx + dy * dy;
+    const t = ((x - edge.x0) * dx + (y - edge.y0) * dy) / lenSqr;
+    const tEps = EPSILON / Math.sqrt(lenSqr);
+    if (t > tEps && t < 1 - tEps) {
+        edge.splits.push({ t, x, y });
+    }
+}
+
+function intersectEdges(e1: Edge, e2: Edge) {
+    if (Math.max(e1.x0, e1.x1) < Math.min(e2.x0, e2.x1) - EPSILON
+        || Math.min(e1.x0, e1.x1) > Math.max(e2.x0, e2.x1) + EPSILON
+        || Math.max(e1.y0, e1.y1) < Math.min(e2.y0, e2.y1) - EPSILON
+        || Math.min(e1.y0, e1.y1) > Math.max(e2.y0, e2.y1) + EPSILON
+    ) {
+        return;
+    }
+    const dx1 = e1.x1 - e1.x0;
+    const dy1 = e1.y1 - e1.y0;
+    const dx2 = e2.x1 - e2.x0;
+    const dy2 = e2.y1 - e2.y0;
+    const len1 = Math.sqrt(dx1 * dx1 + dy1 * dy1);
+    const len2 = Math.sqrt(dx2 * dx2 + dy2 * dy2);
+    const ox = e2.x0 - e1.x0;
+    const oy = e2.y0 - e1.y0;
+    const denom = dx1 * dy2 - dy1 * dx2;
+
+    if (Math.abs(denom) <= EPSILON * len1 * len2) {
+        // Parallel. Split the overlapped part if they are collinear.
+        if (Math.abs(dx1 * oy - dy1 * ox) / len1 <= EPSILON) {
+            addSplitPoint(e1, e2.x0, e2.y0);
+            addSplitPoint(e1, e2.x1, e2.y1);
+            addSplitPoint(e2, e1.x0, e1.y0);
+            addSplitPoint(e2, e1.x1, e1.y1);
+        }
+        return;
+    }
+
+    const t = (ox * dy2 - oy * dx2) / denom;
+    const u = (ox * dy1 - oy * dx1) / denom;
+    const tEps = EPSILON / len1;
+    const uEps = EPSILON / len2;
+    if (t < -tEps || t > 1 + tEps || u < -uEps || u > 1 + uEps) {
+        return;
+    }
+    // Use the end point if intersection is close to it, so that the point is exactly the same.
+    let x;
+    let y;
+    if (t <= tEps || t >= 1 - tEps) {
+        x = t <= tEps ? e1.x0 : e1.x1;
+        y = t <= tEps ? e1.y0 : e1.y1;
+    }
+    else if (u <= uEps || u >= 1 - uEps) {
+        x = u <= uEps ? e2.x0 : e2.x1;
+        y = u <= uEps ? e2.y0 : e2.y1;
+    }
+    else {
+        x = e1.x0 + dx1 * t;
+        y = e1.y0 + dy1 * t;
+    }
+    addSplitPoint(e1, x, y);
+    addSplitPoint(e2, x, y);
+}
+
+function splitEdges(edges: Edge[], groups: SegmentGroup[]): Segment[] {
+    const groupsMap: Record<string, SegmentGroup> = {};
+    const segments: Segment[] = [];
+    for (let i = 0; i < edges.length; i++) {
+        const edge = edges[i];
+        const points = edge.splits.sort(function (a, b) {
+            return a.t - b.t;
+        });
+        let x0 = edge.x0;
+        let y0 = edge.y0;
+        let key0 = getPointKey(x0, y0);
+        for (let k = 0; k <= points.length; k++) {
+            const x1 = k < points.length ? points[k].x : edge.x1;
+            const y1 = k < points.length ? points[k].y : edge.y1;
+            const key1 = getPointKey(x1, y1);
+            if (key0 === key1) {
+                continue;
+            }
+            const isReversed = key0 > key1;
+            const groupKey = isReversed ? key1 + '|' + key0 : key0 + '|' + key1;
+            let group = groupsMap[groupKey];
+            if (!group) {
+                group = groupsMap[groupKey] = isReversed
+                    ? { x0: x1, y0: y1, x1: x0, y1: y0, dirSum: [0, 0] }
+                    : { x0, y0, x1, y1, dirSum: [0, 0] };
+                groups.push(group);
+            }
+            group.dirSum[edge.owner] += isReversed ? -1 : 1;
+            segments.push({ x0, y0, x1, y1, owner: edge.owner, group });
+
+            x0 = x1;
+            y0 = y1;
+            key0 = key1;
+        }
+    }
+    return segments;
+}
+
+/**
+ * Uniform grid of lines, to find the lines nearby without testing all of them.
+ */
+class LineGrid<T extends Line> {
+
+    private _lines: T[]
+
+    private _x = 0
+    private _y = 0
+    private _cellSize = 1
+    private _cols = 1
+    private _rows = 1
+
+    // [col0, row0, col1, row1] of each line. Null if it is a large line.
+    private _ranges: number[][] = []
+    // Indices of lines in each cell.
+    private _cells: number[][] = []
+    private _large: number[] = []
+
+    // Id of the last query visiting each line, so a line in several cells is visited once.
+    private _visited: number[] = []
+    private _queryId = 0
+
+    constructor(lines: T[]) {
+        this._lines = lines;
+        if (!lines.length) {
+            return;
+        }
+        let xMin = Infinity;
+        let yMin = Infinity;
+        let xMax = -Infinity;
+        let yMax = -Infinity;
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            xMin = Math.min(xMin, line.x0, line.x1);
+            yMin = Math.min(yMin, line.y0, line.y1);
+            xMax = Math.max(xMax, line.x0, line.x1);
+            yMax = Math.max(yMax, line.y0, line.y1);
+        }
+        const width = xMax - xMin;
+        const height = yMax - yMin;
+        // About one line in each cell. Cells are larger if lines are in a narrow area,
+        // so there are no more cells than lines on each side.
+        const cellSize = Math.max(
+            Math.sqrt(width * height / lines.length), Math.max(width, height) / lines.length
+        ) || 1;
+        this._x = xMin;
+        this._y = yMin;
+        this._cellSize = cellSize;
+        this._cols = Math.floor(width / cellSize) + 1;
+        this._rows = Math.floor(height / cellSize) + 1;
+
+        const cells = this._cells;
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            // Same tolerance with intersecting.
+            const col0 = this._getCol(Math.min(line.x0, line.x1) - EPSILON);
+            const row0 = this._getRow(Math.min(line.y0, line.y1) - EPSILON);
+            const col1 = this._getCol(Math.max(line.x0, line.x1) + EPSILON);
+            const row1 = this._getRow(Math.max(line.y0, line.y1) + EPSILON);
+            this._visited.push(0);
+            if ((col1 - col0 + 1) * (row1 - row0 + 1) > MAX_CELLS_PER_LINE) {
+                this._ranges.push(null);
+                this._large.push(i);
+                continue;
+            }
+            this._ranges.push([col0, row0, col1, row1]);
+            for (let row = row0; row <= row1; row++) {
+                for (let col = col0; col <= col1; col++) {
+                    const idx = row * this._cols + col;
+                    (cells[idx] = cells[idx] || []).push(i);
+                }
+            }
+        }
+    }
+
+    private _getCol(x: number) {
+        return Math.min(Math.max(Math.floor((x - this._x) / this._cellSize), 0), this._cols - 1);
+    }
+
+    private _getRow(y: number) {
+        return Math.min(Math.max(Math.floor((y - this._y) / this._cellSize), 0), this._rows - 1);
+    }
+
+    /**
+     * Call cb on each pair of lines which may overlap, in the order of their indices.
+     */
+    eachPair(cb: (a: T, b: T) => void) {
+        const lines = this._lines;
+        const ranges = this._ranges;
+        const cells = this._cells;
+        for (let idx = 0; idx < cells.length; idx++) {
+            const cell = cells[idx];
+            if (!cell) {
+                continue;
+            }
+            const col = idx % this._cols;
+            const row = Math.floor(idx / this._cols);
+            for (let i = 0; i < cell.length; i++) {
+                const rangeA = ranges[cell[i]];
+                for (let k = i + 1; k < cell.length; k++) {
+                    const rangeB = ranges[cell[k]];
+                    // Only in the first cell they share.
+                    if (Math.max(rangeA[0], rangeB[0]) === col && Math.max(rangeA[1], rangeB[1]) === row) {
+                        cb(lines[cell[i]], lines[cell[k]]);
+                    }
+                }
+            }
+        }
+        const large = this._large;
+        for (let i = 0; i < large.length; i++) {
+            const a = large[i];
+            for (let b = 0; b < lines.length; b++) {
+                // Pair of large lines is only visited by the one with smaller index.
+                if (b !== a && (ranges[b] || b > a)) {
+                    cb(lines[Math.min(a, b)], lines[Math.max(a, b)]);
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the direction of ray from the point which goes through the fewest cells.
+     * Returns the index in RAY_DIRECTIONS.
+     */
+    getShortestRay(x: number, y: number) {
+        const col = this._getCol(x);
+        const row = this._getRow(y);
+        const counts = [this._cols - 1 - col, col, this._rows - 1 - row, row];
+        let dir = 0;
+        for (let i = 1; i < 4; i++) {
+            counts[i] < counts[dir] && (dir = i);
+        }
+        return dir;
+    }
+
+    /**
+     * Get the lines in the cells the ray goes through, and the large lines.
+     */
+    queryRay(x: number, y: number, rayDir: number, out: T[]) {
+        const lines = this._lines;
+        const visited = this._visited;
+        const queryId = ++this._queryId;
+        const dx = RAY_DIRECTIONS[rayDir][0];
+        const dy = RAY_DIRECTIONS[rayDir][1];
+        out.length = 0;
+        for (
+            let col = this._getCol(x), row = this._getRow(y);
+            col >= 0 && col < this._cols && row >= 0 && row < this._rows;
+            col += dx, row += dy
+        ) {
+            const cell = this._cells[row * this._cols + col];
+            for (let i = 0; cell && i < cell.length; i++) {
+                if (visited[cell[i]] !== queryId) {
+                    visited[cell[i]] = queryId;
+                    out.push(lines[cell[i]]);
+                }
+            }
+        }
+        for (let i = 0; i < this._large.length; i++) {
+            out.push(lines[this._large[i]]);
+        }
+        return out;
+    }
+}
+
+/**
+ * Winding number of the point excluding the segments in the given group.
+ * The ray along RAY_DIRECTIONS[rayDir] is used. It equals to the winding number on the side of
+ * the group the ray goes to. If the group is parallel with the ray, it's the side with larger y
+ * for a horizontal ray, or the side with larger x for a vertical ray.
+ */
+function getWinding(x: number, y: number, rayDir: number, segments: Segment[], owner: number, group: SegmentGroup) {
+    const isHorizontal = rayDir < 2;
+    // Coordinate across the ray, and along the ray.
+    const a = isHorizontal ? y : x;
+    const b = isHorizontal ? x : y;
+    let winding = 0;
+    for (let i = 0; i < segments.length; i++) {
+        const seg = segments[i];
+        if (seg.owner !== owner || seg.group === group) {
+            continue;
+        }
+        const a0 = isHorizontal ? seg.y0 : seg.x0;
+        const a1 = isHorizontal ? seg.y1 : seg.x1;
+        const b0 = isHorizontal ? seg.x0 : seg.y0;
+        const b1 = isHorizontal ? seg.x1 : seg.y1;
+        const dir = (a0 <= a && a < a1) ? 1 : (a1 <= a && a < a0) ? -1 : 0;
+        if (!dir) {
+            continue;
+        }
+        const bi = b0 + (a - a0) * (b1 - b0) / (a1 - a0);
+        // Ray to the left or up goes to the negative direction.
+        if ((rayDir & 1) ? bi < b : bi > b) {
+            winding += dir;
+        }
+    }
+    // Crossings are counterclockwise with the ray to the right or up, clockwise with the others.
+    return (rayDir === 0 || rayDir === 3) ? winding : -winding;
+}
+
+function isInside(winding: number, fillRule: CanvasFillRule) {
+    return fillRule === 'evenodd' ? (winding & 1) === 1 : winding !== 0;
+}
+
+function operate(op: BooleanPathOperation, inA: boolean, inB: boolean) {
+    switch (op) {
+        case 'union':
+            return inA || inB;
+        case 'intersection':
+            return inA && inB;
+        case 'difference':
+            return inA && !inB;
+        case 'xor':
+            return inA !== inB;
+    }
+}
+
+function isCollinear(x0: number, y0: number, x1: number, y1: number, x2: number, y2: number) {
+    const dx1 = x1 - x0;
+    const dy1 = y1 - y0;
+    const dx2 = x2 - x1;
+    const dy2 = y2 - y1;
+    return Math.abs(dx1 * dy2 - dy1 * dx2) <= EPSILON * Math.sqrt((dx1 * dx1 + dy1 * dy1) * (dx2 * dx2 + dy2 * dy2))
+        && dx1 * dx2 + dy1 * dy2 > 0;
+}
+
+function addRing(out: PathProxy, ring: number[]) {
+    // Remove the points in the middle of straight lines, which are created by splitting.
+    const points: number[] = [];
+    const count = ring.length / 2;
+    for (let i = 0; i < count; i++) {
+        const prev = (i + count - 1) % count;
+        const next = (i + 1) % count;
+        if (!isCollinear(
+            ring[prev * 2], ring[prev * 2 + 1], ring[i * 2], ring[i * 2 + 1], ring[next * 2], ring[next * 2 + 1]
+        )) {
+            points.push(ring[i * 2], ring[i * 2 + 1]);
+        }
+    }
+    if (points.length < 6) {
+        return;
+    }
+    out.moveTo(points[0], points[1]);
+    for (let i = 2; i < points.length; i += 2) {
+        out.lineTo(points[i], points[i + 1]);
+    }
+    out.closePath();
+}
+
+function buildResult(edges: ResultEdge[]) {
+    const out = new PathProxy();
+    const outgoing: Record<string, ResultEdge[]> = {};
+    for (let i = 0; i < edges.length; i++) {
+        const edge = edges[i];
+        (outgoing[edge.startKey] = outgoing[edge.startKey] || []).push(edge);
+    }
+
+    for (let i = 0; i < edges.length; i++) {
+        let edge = edges[i];
+        if (edge.used) {
+            continue;
+        }
+        const ring: number[] = [];
+        while (edge && !edge.used) {
+            edge.used = true;
+            ring.push(edge.x0, edge.y0);
+            const candidates = outgoing[edge.endKey];
+            edge = null;
+            for (let k = 0; k < candidates.length; k++) {
+                if (!candidates[k].used) {
+                    edge = candidates[k];
+                    break;
+                }
+            }
+        }
+        addRing(out, ring);
+    }
+    return out;
+}
+
+/**
+ * Do boolean operation on the areas filled by two paths. Returns a new path
+ * which only has straight lines.
+ */
+export function booleanPath(
+    a: Path | PathProxy,
+    b: Path | PathProxy,
+    op: BooleanPathOperation,
+    opts?: BooleanPathOption
+): PathProxy {
+    opts = opts || {};
+    const fillRule = opts.fillRule || 'nonzero';
+    const scale = opts.scale || 1;
+
+    const edges: Edge[] = [];
+    createEdges(toPolygons(a, scale), 0, edges);
+    createEdges(toPolygons(b, scale), 1, edges);
+
+    // Self intersections are also split.
+    new LineGrid(edges).eachPair(intersectEdges);
+
+    const groups: SegmentGroup[] = [];
+    const segments = splitEdges(edges, groups);
+    const grid = new LineGrid(segments);
+    const candidates: Segment[] = [];
+
+    const resultEdges: ResultEdge[] = [];
+    for (let i = 0; i < groups.length; i++) {
+        const group = groups[i];
+        const dx = group.x1 - group.x0;
+        const dy = group.y1 - group.y0;
+        const mx = (group.x0 + group.x1) / 2;
+        const my = (group.y0 + group.y1) / 2;
+        const rayDir = grid.getShortestRay(mx, my);
+        const cross = dx * RAY_DIRECTIONS[rayDir][1] - dy * RAY_DIRECTIONS[rayDir][0];
+        // If the side where winding is calculated is on the left of group direction.
+        // Left is the side that is inside of a counterclockwise polygon in the y-up coordinates.
+        const isWindingOnLeft = cross !== 0 ? cross > 0 : rayDir < 2 ? dx > 0 : dy < 0;
+        grid.queryRay(mx, my, rayDir, candidates);
+        const inside: boolean[] = [];
+        for (let owner = 0; owner < 2; owner++) {
+            const winding = getWinding(mx, my, rayDir, candidates, owner, group);
+            // Difference of winding number on left and right side is the sum of directions.
+            const dirSum = group.dirSum[owner];
+            inside.push(
+                isInside(isWindingOnLeft ? winding : winding + dirSum, fillRule),
+                isInside(isWindingOnLeft ? winding - dirSum : winding, fillRule)
+            );
+        }
+        const insideLeft = operate(op, inside[0], inside[2]);
+        const insideRight = operate(op, inside[1], inside[3]);
+        if (insideLeft === insideRight) {
+            continue;
+        }
+        const x0 = insideLeft ? group.x0 : group.x1;
+        const y0 = insideLeft ? group.y0 : group.y1;
+        const x1 = insideLeft ? group.x1 : group.x0;
+        const y1 = insideLeft ? group.y1 : group.y0;
+        resultEdges.push({
+            x0, y0, x1, y1,
+            startKey: getPointKey(x0, y0),
+            endKey: getPointKey(x1, y1),
+            used: false
+        });
+    }
+
+    return buildResult(resultEdges);
+}
+
+export function union(a: Path | PathProxy, b: Path | PathProxy, opts?: BooleanPathOption) {
+    return booleanPath(a, b, 'union', opts);
+}
+
+export function intersection(a: Path | PathProxy, b: Path | PathProxy, opts?: BooleanPathOption) {
+    return booleanPath(a, b, 'intersection', opts);
+}
+
+export function difference(a: Path | PathProxy, b: Path | PathProxy, opts?: BooleanPathOption) {
+    return booleanPath(a, b, 'difference', opts);
+}
+
+export function xor(a: Path | PathProxy, b: Path | PathProxy, opts?: BooleanPathOption) {
+    return booleanPath(a, b, 'xor', opts);
+}
@@ -7,13 +7,17 @@ function aroundEqual(a: number, b: number) {
     return Math.abs(a - b) < 1e-5;
 }
 
-export function pathToBezierCurves(path: PathProxy) {
+/**
+ * @param closedSubpaths Output if each subpath is closed by closePath or rect.
+ */
+export function pathToBezierCurves(path: PathProxy, closedSubpaths?: boolean[]) {
 
     const data = path.data;
     const len = path.len();
 
     const bezierArrayGroups: number[][] = [];
     let currentSubpath: number[];
+    let currentClosed = false;
 
     let xi = 0;
     let yi = 0;
@@ -24,8 +28,10 @@ export function pathToBezierCurves(path: PathProxy) {
         // More than one M command
         if (currentSubpath && currentSubpath.length > 2) {
             bezierArrayGroups.push(currentSubpath);
+            closedSubpaths && closedSubpaths.push(currentClosed);
         }
         currentSubpath = [x, y];
+        currentClosed = false;
     }
 
     function addLine(x0: number, y0: number, x1: number, y1: number) {
@@ -172,9 +178,11 @@ export function pathToBezierCurves(path: PathProxy) {
                 addLine(x1, y1, x0, y1);
                 addLine(x0, y1, x0, y0);
                 addLine(x0, y0, x1, y0);
+                currentClosed = true;
                 break;
             case CMD.Z:
                 currentSubpath && addLine(xi, yi, x0, y0);
+                currentClosed = true;
                 xi = x0;
                 yi = y0;
                 break;
@@ -183,6 +191,7 @@ export function pathToBezierCurves(path: PathProxy) {
 
     if (currentSubpath && currentSubpath.length > 2) {
         bezierArrayGroups.push(currentSubpath);
+        closedSubpaths && closedSubpaths.push(currentClosed);
     }
 
     return bezierArrayGroups;
@@ -258,9 +267,12 @@ function adpativeBezier(
     );
 }
 
-export function pathToPolygons(path: PathProxy, scale?: number) {
+/**
+ * @param closedSubpaths Output if each polygon is closed in path.
+ */
+export function pathToPolygons(path: PathProxy, scale?: number, closedSubpaths?: boolean[]) {
     // TODO Optimize simple case like path is polygon and rect?
-    const bezierArrayGroups = pathToBezierCurves(path);
+    const bezierArrayGroups = pathToBezierCurves(path, closedSubpaths);
 
     const polygons: number[][] = [];
 
@@ -0,0 +1,199 @@
+/**
+ * Extract glyph advances from TrueType / OpenType / WOFF font files,
+ * which can be registered by `registerFontMetrics`.
+ *
+ * Only `head`, `hhea`, `hmtx` and `cmap` tables are read.
+ */
+
+import { FontMetricsOption } from '../core/fontMetrics';
+
+interface FontTable {
+    data: DataView
+}
+
+interface ParseFontMetricsOption {
+    /**
+     * Decompress zlib data. Required for WOFF files with compressed tables.
+     */
+    inflate?: (data: Uint8Array) => Uint8Array
+}
+
+function readTag(view: DataView, offset: number) {
+    return String.fromCharCode(
+        view.getUint8(offset), view.getUint8(offset + 1),
+        view.getUint8(offset + 2), view.getUint8(offset + 3)
+    );
+}
+
+function toDataView(bytes: Uint8Array) {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readTables(bytes: Uint8Array, opts: ParseFontMetricsOption): Record<string, FontTable> {
+    const view = toDataView(bytes);
+    const tables: Record<string, FontTable> = {};
+    const signature = readTag(view, 0);
+    if (signature === 'wOF2') {
+        throw new Error('WOFF2 is not supported.');
+    }
+    if (signature === 'wOFF') {
+        const numTables = view.getUint16(12);
+        for (let i = 0; i < numTables; i++) {
+            const entry = 44 + i * 20;
+            const tag = readTag(view, entry);
+            const offset = view.getUint32(entry + 4);
+            const compLength = view.getUint32(entry + 8);
+            const origLength = view.getUint32(entry + 12);
+            let tableBytes = bytes.subarray(offset, offset + compLength);
+            if (compLength < origLength) {
+                if (!opts.inflate) {
+                    throw new Error('Compressed WOFF table ' + tag + ' needs the inflate option.');
+                }
+                tableBytes = opts.inflate(tableBytes);
+            }
+            tables[tag] = { data: toDataView(tableBytes) };
+        }
+    }
+    else {
+        const numTables = view.getUint16(4);
+        for (let i = 0; i < numTables; i++) {
+            const entry = 12 + i * 16;
+            const tag = readTag(view, entry);
+            const offset = view.getUint32(entry + 8);
+            const length = view.getUint32(entry + 12);
+            tables[tag] = { data: toDataView(bytes.subarray(offset, offset + length)) };
+        }
+    }
+    return tables;
+}
+
+/**
+ * Read cmap and call `cb` with each code point and its glyph index.
+ */
+function eachCodePoint(cmap: DataView, cb: (codePoint: number, glyphId: number) => void) {
+    const numTables = cmap.getUint16(2);
+    let bestOffset = -1;
+    let bestScore = -1;
+    for (let i = 0; i < numTables; i++) {
+        const platformId = cmap.getUint16(4 + i * 8);
+        const encodingId = cmap.getUint16(6 + i * 8);
+        const offset = cmap.getUint32(8 + i * 8);
+        const format = cmap.getUint16(offset);
+        // Prefer full unicode tables.
+        let score = -1;
+        if (format === 12 && (platformId === 0 || (platformId === 3 && encodingId === 10))) {
+            score = 2;
+        }
+        else if (format === 4 && (platformId === 0 || (platformId === 3 && encodingId === 1))) {
+            score = 1;
+        }
+        if (score > bestScore) {
+            bestScore = score;
+            bestOffset = offset;
+        }
+    }
+    if (bestOffset < 0) {
+        throw new Error('No unicode cmap found.');
+    }
+
+    const format = cmap.getUint16(bestOffset);
+    if (format === 12) {
+        const numGroups = cmap.getUint32(bestOffset + 12);
+        for (let i = 0; i < numGroups; i++) {
+            const group = bestOffset + 16 + i * 12;
+            const start = cmap.getUint32(group);
+            const end = cmap.getUint32(group + 4);
+            const startGlyph = cmap.getUint32(group + 8);
+            for (let c = start; c <= end; c++) {
+                cb(c, startGlyph + c - start);
+            }
+        }
+    }
+    else {
+        const segCount = cmap.getUint16(bestOffset + 6) / 2;
+        const endCodes = bestOffset + 14;
+        const startCodes = endCodes + segCount * 2 + 2;
+        const idDeltas = startCodes + segCount * 2;
+        const idRangeOffsets = idDeltas + segCount * 2;
+        for (let i = 0; i < segCount; i++) {
+            const end = cmap.getUint16(endCodes + i * 2);
+            const start = cmap.getUint16(startCodes + i * 2);
+            const idDelta = cmap.getInt16(idDeltas + i * 2);
+            const idRangeOffsetPos = idRangeOffsets + i * 2;
+            const idRangeOffset = cmap.getUint16(idRangeOffsetPos);
+            for (let c = start; c <= end && c !== 0xffff; c++) {
+                let glyphId;
+                if (idRangeOffset === 0) {
+                    glyphId = (c + idDelta) & 0xffff;
+                }
+                else {
+                    glyphId = cmap.getUint16(idRangeOffsetPos + idRangeOffset + (c - start) * 2);
+                    if (glyphId !== 0) {
+                        glyphId = (glyphId + idDelta) & 0xffff;
+                    }
+                }
+                if (glyphId !== 0) {
+                    cb(c, glyphId);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Parse glyph advances of a font file.
+ * Consecutive code points with the same advance are merged into ranges.
+ */
+export function parseFontMetrics(
+    buffer: ArrayBuffer | Uint8Array,
+    opts?: ParseFontMetricsOption
+): FontMetricsOption {
+    opts = opts || {};
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    const tables = readTables(bytes, opts);
+    if (!tables.head || !tables.hhea || !tables.hmtx || !tables.cmap) {
+        throw new Error('Font has no head, hhea, hmtx or cmap table.');
+    }
+
+    const unitsPerEm = tables.head.data.getUint16(18);
+    const numberOfHMetrics = tables.hhea.data.getUint16(34);
+    const hmtx = tables.hmtx.data;
+
+    function getAdvance(glyphId: number) {
+        // Glyphs after numberOfHMetrics share the last advance.
+        return hmtx.getUint16(Math.min(glyphId, numberOfHMetrics - 1) * 4);
+    }
+
+    const codePoints: number[] = [];
+    const advanceOfCodePoint: Record<number, number> = {};
+    eachCodePoint(tables.cmap.data, function (codePoint, glyphId) {
+        if (advanceOfCodePoint[codePoint] == null) {
+            codePoints.push(codePoint);
+        }
+        advanceOfCodePoint[codePoint] = getAdvance(glyphId);
+    });
+    codePoints.sort(function (a, b) {
+        return a - b;
+    });
+
+    const ranges: number[][] = [];
+    let current: number[];
+    for (let i = 0; i < codePoints.length; i++) {
+        const codePoint = codePoints[i];
+        const advance = advanceOfCodePoint[codePoint];
+        if (current && current[1] === codePoint - 1 && current[2] === advance) {
+            current[1] = codePoint;
+        }
+        else {
+            current = [codePoint, codePoint, advance];
+            ranges.push(current);
+        }
+    }
+
+    return {
+        unitsPerEm,
+        ranges,
+        // Use advance of .notdef glyph for the missing chars.
+        defaultAdvance: getAdvance(0)
+    };
+}
@@ -0,0 +1,805 @@
+/**
+ * Import Lottie (Bodymovin) JSON as zrender elements and animators.
+ *
+ * Shape layers, solid layers, null layers (as parents), groups, transforms, fills, strokes,
+ * gradients and trim paths are supported. Features that can't be represented are reported
+ * in the `unsupported` of the result, and the content is rendered without them.
+ */
+
+import Group from '../graphic/Group';
+import Path from '../graphic/Path';
+import Rect from '../graphic/shape/Rect';
+import LinearGradient from '../graphic/LinearGradient';
+import RadialGradient from '../graphic/RadialGradient';
+import Element from '../Element';
+import Animator from '../animation/Animator';
+import PathProxy from '../core/PathProxy';
+import { GradientColorStop } from '../graphic/Gradient';
+import { AnimationEasing } from '../animation/easing';
+import { createCubicEasingFunc } from '../animation/cubicEasing';
+import { createPathSampler } from './pathSampler';
+import { buildPath as buildRoundRectPath } from '../graphic/helper/roundRect';
+import { Dictionary } from '../core/types';
+import { each, map, isArray, isObject, isString, extend, keys } from '../core/util';
+
+export interface LottieParserOption {
+    // If loop the animation. Default to be true.
+    loop?: boolean
+}
+
+export interface LottieParserResult {
+    // The root of the result tree of zrender elements.
+    root: Group
+    // Size of the composition.
+    width: number
+    height: number
+    frameRate: number
+    // Duration of the composition in milliseconds.
+    duration: number
+    // Animators of the elements, which have been started with the same duration.
+    animators: Animator<any>[]
+    // Features used in the animation but ignored by the parser.
+    unsupported: LottieParserResultUnsupportedItem[]
+}
+
+export interface LottieParserResultUnsupportedItem {
+    feature: 'layer' | 'shape' | 'expression' | 'effect' | 'mask' | 'matte' | 'skew'
+    // Name of the layer or shape item which uses the feature.
+    name: string
+}
+
+interface LottieBezierShape {
+    // Vertices, in tangents and out tangents.
+    v: number[][]
+    i: number[][]
+    o: number[][]
+    // If closed.
+    c?: boolean
+}
+
+type LottieValue = number | LottieBezierShape | LottieValue[];
+
+interface LottieKeyframe {
+    t: number
+    s?: LottieValue
+    // End value in the legacy format.
+    e?: LottieValue
+    // Hold keyframe
+    h?: number
+    o?: { x: number | number[], y: number | number[] }
+    i?: { x: number | number[], y: number | number[] }
+}
+
+interface LottieProperty {
+    a?: number
+    // Keyframes if animated.
+    k: LottieValue | LottieKeyframe[]
+    // Expression
+    x?: string
+}
+
+interface LottieTransform {
+    a?: LottieProperty
+    p?: LottieProperty & {
+        // If position is split into x and y.
+        s?: boolean
+        x?: LottieProperty | string
+        y?: LottieProperty
+    }
+    s?: LottieProperty
+    r?: LottieProperty
+    rz?: LottieProperty
+    o?: LottieProperty
+    sk?: LottieProperty
+}
+
+interface LottieShape extends LottieTransform {
+    ty: string
+    nm?: string
+    hd?: boolean
+    // Items of group.
+    it?: LottieShape[]
+    ks?: LottieProperty
+    c?: LottieProperty
+    w?: LottieProperty
+    e?: LottieProperty
+    g?: { p: number, k: LottieProperty }
+    // Gradient type. 1 is linear, 2 is radial.
+    t?: number
+    lc?: number
+    lj?: number
+    ml?: number
+    d?: { n: string, v: LottieProperty }[]
+}
+
+interface LottieLayer {
+    ty: number
+    nm?: string
+    ind?: number
+    parent?: number
+    hd?: boolean
+    ip: number
+    op: number
+    st?: number
+    ks: LottieTransform
+    shapes?: LottieShape[]
+    ef?: unknown[]
+    hasMask?: boolean
+    masksProperties?: unknown[]
+    tt?: number
+    td?: number
+    // Solid layer
+    sc?: string
+    sw?: number
+    sh?: number
+}
+
+interface LottieAnimation {
+    fr: number
+    ip: number
+    op: number
+    w: number
+    h: number
+    layers: LottieLayer[]
+}
+
+interface ParsedKeyframe {
+    frame: number
+    value: LottieValue
+    // Easing of the segment ending at this keyframe.
+    easing: (p: number) => number
+}
+
+interface TrackKeyframe {
+    time: number
+    value: unknown
+    easing: AnimationEasing
+}
+
+interface AnimationRecord {
+    el: Element
+    key: string
+    tracks: Dictionary<TrackKeyframe[]>
+}
+
+interface ParseContext {
+    // Start time of the layer in frames.
+    startTime: number
+    // Name of the layer or shape item being parsed.
+    name: string
+    // Opacity of the layer and the groups, which is multiplied to the paths.
+    opacities: LottieProperty[]
+}
+
+interface Geometry {
+    ty: string
+    key: string
+    closed?: boolean
+}
+
+const LINE_CAPS: CanvasLineCap[] = ['butt', 'round', 'square'];
+const LINE_JOINS: CanvasLineJoin[] = ['miter', 'round', 'bevel'];
+const ELLIPSE_K = 0.5522848;
+
+function holdEasing(p: number) {
+    return p < 1 ? 0 : 1;
+}
+
+function num(value: LottieValue): number {
+    return (isArray(value) ? value[0] : value) as number;
+}
+
+function vec(value: LottieValue): number[] {
+    return value as number[];
+}
+
+function isAnimated(prop: LottieProperty) {
+    const k = prop.k;
+    return isArray(k) && k.length > 0 && isObject(k[0]) && (k[0] as LottieKeyframe).t != null;
+}
+
+function getEasing(kf: LottieKeyframe) {
+    if (kf.h === 1) {
+        return holdEasing;
+    }
+    const o = kf.o;
+    const i = kf.i;
+    if (o && i) {
+        return createCubicEasingFunc(
+            'cubic-bezier(' + [num(o.x), num(o.y), num(i.x), num(i.y)].join(',') + ')'
+        );
+    }
+}
+
+function parseKeyframes(prop: LottieProperty): ParsedKeyframe[] {
+    const kfs = prop.k as LottieKeyframe[];
+    const parsed: ParsedKeyframe[] = [];
+    for (let i = 0; i < kfs.length; i++) {
+        const prevKf = kfs[i - 1];
+        const value = kfs[i].s != null ? kfs[i].s : prevKf && prevKf.e;
+        if (value != null) {
+            parsed.push({
+                frame: kfs[i].t,
+                value,
+                easing: prevKf && getEasing(prevKf)
+            });
+        }
+    }
+    return parsed;
+}
+
+function lerp(a: LottieValue, b: LottieValue, t: number): LottieValue {
+    if (isArray(a)) {
+        return map(a, (val, idx) => lerp(val, (b as LottieValue[])[idx], t));
+    }
+    if (isObject(a)) {
+        const shape = b as LottieBezierShape;
+        return {
+            v: lerp(a.v, shape.v, t) as number[][],
+            i: lerp(a.i, shape.i, t) as number[][],
+            o: lerp(a.o, shape.o, t) as number[][],
+            c: a.c
+        };
+    }
+    return a + (b as number - a) * t;
+}
+
+function evaluateKeyframes(kfs: ParsedKeyframe[], frame: number) {
+    const last = kfs.length - 1;
+    if (frame <= kfs[0].frame) {
+        return kfs[0].value;
+    }
+    if (frame >= kfs[last].frame) {
+        return kfs[last].value;
+    }
+    let i = 0;
+    while (kfs[i + 1].frame < frame) {
+        i++;
+    }
+    const nextKf = kfs[i + 1];
+    const w = (frame - kfs[i].frame) / (nextKf.frame - kfs[i].frame);
+    return lerp(kfs[i].value, nextKf.value, nextKf.easing ? nextKf.easing(w) : w);
+}
+
+/**
+ * Add each frame between the keyframes if the segment is eased in any property,
+ * so the merged keyframes can be linearly interpolated.
+ */
+function sampleEasedFrames(frames: number[], keyframesList: ParsedKeyframe[][]) {
+    const out: number[] = [];
+    for (let i = 0; i < frames.length; i++) {
+        const frame = frames[i];
+        if (i > 0 && frame !== frames[i - 1] && isEased(keyframesList, (frames[i - 1] + frame) / 2)) {
+            for (let f = Math.floor(frames[i - 1]) + 1; f < frame; f++) {
+                out.push(f);
+            }
+        }
+        out.push(frame);
+    }
+    return out;
+}
+
+function isEased(keyframesList: ParsedKeyframe[][], frame: number) {
+    for (let i = 0; i < keyframesList.length; i++) {
+        const kfs = keyframesList[i];
+        for (let k = 1; kfs && k < kfs.length; k++) {
+            if (kfs[k - 1].frame < frame && frame < kfs[k].frame && kfs[k].easing) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+function getFirstValue(prop: LottieProperty): LottieValue {
+    return isAnimated(prop) ? parseKeyframes(prop)[0].value : prop.k as LottieValue;
+}
+
+function toColor(value: number[]) {
+    return 'rgba(' + Math.round(value[0] * 255) + ','
+        + Math.round(value[1] * 255) + ','
+        + Math.round(value[2] * 255) + ','
+        + (value[3] == null ? 1 : value[3]) + ')';
+}
+
+/**
+ * Opacity stops are pairs of offset and opacity after the color stops.
+ */
+function getStopOpacity(stops: number[], start: number, offset: number): number {
+    if (start >= stops.length - 1) {
+        return 1;
+    }
+    let k = start;
+    while (k + 3 < stops.length && stops[k + 2] <= offset) {
+        k += 2;
+    }
+    const next = k + 2;
+    if (next + 1 < stops.length && stops[k] < offset) {
+        return lerp(stops[k + 1], stops[next + 1], (offset - stops[k]) / (stops[next] - stops[k])) as number;
+    }
+    return stops[k + 1];
+}
+
+function toGradient(type: number, start: number[], end: number[], stops: number[], count: number) {
+    const colorStops: GradientColorStop[] = [];
+    for (let i = 0; i < count; i++) {
+        const offset = stops[i * 4];
+        colorStops.push({
+            offset,
+            color: toColor([
+                stops[i * 4 + 1], stops[i * 4 + 2], stops[i * 4 + 3], getStopOpacity(stops, count * 4, offset)
+            ])
+        });
+    }
+    return type === 2
+        ? new RadialGradient(
+            start[0], start[1],
+            Math.sqrt((end[0] - start[0]) * (end[0] - start[0]) + (end[1] - start[1]) * (end[1] - start[1])),
+            colorStops, true
+        )
+        : new LinearGradient(start[0], start[1], end[0], end[1], colorStops, true);
+}
+
+/**
+ * Convert bezier shape to rows of [vx, vy, ix, iy, ox, oy], which can be interpolated.
+ */
+function toBezierArray(value: LottieValue): number[][] {
+    const shape = (isArray(value) ? value[0] : value) as LottieBezierShape;
+    return map(shape.v, (vertex, idx) => [
+        vertex[0], vertex[1],
+        shape.i[idx][0], shape.i[idx][1],
+        shape.o[idx][0], shape.o[idx][1]
+    ]);
+}
+
+function buildBezierPath(ctx: CanvasRenderingContext2D | PathProxy, points: number[][], closed: boolean) {
+    const len = points.length;
+    if (!len) {
+        return;
+    }
+    ctx.moveTo(points[0][0], points[0][1]);
+    for (let i = 1; i <= (closed ? len : len - 1); i++) {
+        const prev = points[i - 1];
+        const cur = points[i % len];
+        ctx.bezierCurveTo(
+            prev[0] + prev[4], prev[1] + prev[5],
+            cur[0] + cur[2], cur[1] + cur[3],
+            cur[0], cur[1]
+        );
+    }
+    closed && ctx.closePath();
+}
+
+function buildEllipsePath(ctx: CanvasRenderingContext2D | PathProxy, value: number[]) {
+    const x = value[0];
+    const y = value[1];
+    const a = value[2] / 2;
+    const b = value[3] / 2;
+    const ox = a * ELLIPSE_K;
+    const oy = b * ELLIPSE_K;
+    ctx.moveTo(x, y - b);
+    ctx.bezierCurveTo(x + ox, y - b, x + a, y - oy, x + a, y);
+    ctx.bezierCurveTo(x + a, y + oy, x + ox, y + b, x, y + b);
+    ctx.bezierCurveTo(x - ox, y + b, x - a, y + oy, x - a, y);
+    ctx.bezierCurveTo(x - a, y - oy, x - ox, y - b, x, y - b);
+    ctx.closePath();
+}
+
+function buildGeometries(
+    ctx: CanvasRenderingContext2D | PathProxy, geometries: Geometry[], shape: Dictionary<number[] | number[][]>
+) {
+    for (let i = 0; i < geometries.length; i++) {
+        const geometry = geometries[i];
+        if (geometry.ty === 'sh') {
+            buildBezierPath(ctx, shape[geometry.key] as number[][], geometry.closed);
+            continue;
+        }
+        const value = shape[geometry.key] as number[];
+        if (geometry.ty === 'rc') {
+            buildRoundRectPath(ctx, {
+                x: value[0] - value[2] / 2,
+                y: value[1] - value[3] / 2,
+                width: value[2],
+                height: value[3],
+                r: value[4]
+            });
+        }
+        else {
+            buildEllipsePath(ctx, value);
+        }
+    }
+}
+
+class LottieParser {
+
+    private _loop: boolean
+    private _frameRate: number
+    private _inPoint: number
+    private _outPoint: number
+    private _records: Dictionary<AnimationRecord>
+    private _unsupported: LottieParserResultUnsupportedItem[]
+
+    parse(json: string | object, opt?: LottieParserOption): LottieParserResult {
+        opt = opt || {};
+        const data = (isString(json) ? JSON.parse(json) : json) as LottieAnimation;
+
+        this._loop = opt.loop == null ? true : opt.loop;
+        this._frameRate = data.fr;
+        this._inPoint = data.ip;
+        this._outPoint = data.op;
+        this._records = {};
+        this._unsupported = [];
+
+        const root = new Group();
+        const layers = data.layers || [];
+        const layersByIndex: Dictionary<LottieLayer> = {};
+        each(layers, layer => {
+            layer.ind != null && (layersByIndex[layer.ind] = layer);
+        });
+        // The first layer is on the top.
+        for (let i = layers.length - 1; i >= 0; i--) {
+            const el = this._parseLayer(layers[i], layersByIndex);
+            el && root.add(el);
+        }
+
+        const duration = this._getTime(this._outPoint, 0);
+        const animators: Animator<any>[] = [];
+        each(this._records, record => {
+            // Discrete animation is for the layer visibility.
+            const animator = record.el.animate(record.key, this._loop, true);
+            each(keys(record.tracks), propName => {
+                each(record.tracks[propName], kf => {
+                    const props: Dictionary<unknown> = {};
+                    props[propName] = kf.value;
+                    animator.whenWithKeys(kf.time, props, [propName], kf.easing);
+                });
+            });
+            animator.duration(duration).start();
+            animators.push(animator);
+        });
+        this._records = null;
+
+        return {
+            root,
+            width: data.w,
+            height: data.h,
+            frameRate: data.fr,
+            duration,
+            animators,
+            unsupported: this._unsupported
+        };
+    }
+
+    private _parseLayer(layer: LottieLayer, layersByIndex: Dictionary<LottieLayer>): Element {
+        const name = layer.nm || '';
+        // Null layer is only used as parent. Layer used as track matte is not rendered.
+        if (layer.hd || layer.ty === 3 || layer.td) {
+            return;
+        }
+        const ctx: ParseContext = {
+            startTime: layer.st || 0,
+            name,
+            opacities: []
+        };
+        const group = new Group();
+        group.name = name;
+
+        if (layer.ty === 4) {
+            this._parseShapes(layer.shapes || [], group, ctx, layer.ks);
+        }
+        else if (layer.ty === 1) {
+            const opacity = this._parseTransform(group, layer.ks, ctx);
+            const rect = new Rect({
+                shape: { width: layer.sw, height: layer.sh },
+                style: { fill: layer.sc }
+            });
+            this._setOpacity(rect, opacity ? [opacity] : [], ctx);
+            group.add(rect);
+        }
+        else {
+            this._report('layer', name);
+            return;
+        }
+
+        layer.ef && layer.ef.length && this._report('effect', name);
+        (layer.hasMask || (layer.masksProperties && layer.masksProperties.length)) && this._report('mask', name);
+        layer.tt && this._report('matte', name);
+
+        // Visible between in and out point.
+        if (layer.ip > this._inPoint || layer.op < this._outPoint) {
+            group.ignore = layer.ip > this._inPoint;
+            const track = this._getTrack(group, '', 'ignore');
+            track.push(
+                { time: 0, value: group.ignore, easing: null },
+                { time: this._getTime(layer.ip, 0), value: false, easing: null },
+                { time: this._getTime(layer.op, 0), value: true, easing: null }
+            );
+        }
+
+        // Opacity of parent is not applied.
+        let el: Element = group;
+        let parent = layersByIndex[layer.parent];
+        while (parent && parent !== layer) {
+            const parentGroup = new Group();
+            this._parseTransform(parentGroup, parent.ks, {
+                startTime: parent.st || 0,
+                name: parent.nm || '',
+                opacities: []
+            });
+            parentGroup.add(el);
+            el = parentGroup;
+            parent = layersByIndex[parent.parent];
+        }
+        return el;
+    }
+
+    /**
+     * Styles are applied to the geometries before them in the same group,
+     * and are painted from the bottom to the top.
+     */
+    private _parseShapes(items: LottieShape[], group: Group, ctx: ParseContext, transform?: LottieTransform) {
+        for (let i = 0; i < items.length && !transform; i++) {
+            if (items[i].ty === 'tr' && !items[i].hd) {
+                transform = items[i];
+            }
+        }
+        const opacity = transform && this._parseTransform(group, transform, ctx);
+        const opacities = opacity ? ctx.opacities.concat(opacity) : ctx.opacities;
+
+        for (let i = items.length - 1; i >= 0; i--) {
+            const item = items[i];
+            if (item.hd) {
+                continue;
+            }
+            const itemCtx = extend(extend({}, ctx), {
+                name: item.nm || ctx.name,
+                opacities
+            });
+            switch (item.ty) {
+                case 'gr':
+                    const childGroup = new Group();
+                    childGroup.name = item.nm;
+                    this._parseShapes(item.it || [], childGroup, itemCtx);
+                    group.add(childGroup);
+                    break;
+                case 'fl':
+                case 'st':
+                case 'gf':
+                case 'gs':
+                    const path = this._createPath(items, i, itemCtx);
+                    path && group.add(path);
+                    break;
+                case 'sh':
+                case 'rc':
+                case 'el':
+                case 'tm':
+                case 'tr':
+                    break;
+                default:
+                    this._report('shape', item.nm || item.ty);
+            }
+        }
+    }
+
+    /**
+     * Apply transform on element. Opacity is returned, which should be applied on the descendant paths.
+     */
+    private _parseTransform(el: Element, transform: LottieTransform, ctx: ParseContext): LottieProperty {
+        const position = transform.p;
+        if (position && position.s) {
+            this._setProperty(el, '', 'x', [position.x as LottieProperty], values => num(values[0]), ctx);
+            this._setProperty(el, '', 'y', [position.y], values => num(values[0]), ctx);
+        }
+        else if (position) {
+            this._setProperty(el, '', 'x', [position], values => vec(values[0])[0], ctx);
+            this._setProperty(el, '', 'y', [position], values => vec(values[0])[1], ctx);
+        }
+        // Anchor is applied before scale and rotation, which is the same as zrender.
+        if (transform.a) {
+            this._setProperty(el, '', 'anchorX', [transform.a], values => vec(values[0])[0], ctx);
+            this._setProperty(el, '', 'anchorY', [transform.a], values => vec(values[0])[1], ctx);
+        }
+        if (transform.s) {
+            this._setProperty(el, '', 'scaleX', [transform.s], values => vec(values[0])[0] / 100, ctx);
+            this._setProperty(el, '', 'scaleY', [transform.s], values => vec(values[0])[1] / 100, ctx);
+        }
+        const rotation = transform.r || transform.rz;
+        if (rotation) {
+            // Rotation in zrender is counter-clockwise.
+            this._setProperty(el, '', 'rotation', [rotation], values => -num(values[0]) * Math.PI / 180, ctx);
+        }
+        if (transform.sk && (isAnimated(transform.sk) || num(getFirstValue(transform.sk)))) {
+            this._report('skew', ctx.name);
+        }
+        return transform.o;
+    }
+
+    private _createPath(items: LottieShape[], styleIndex: number, ctx: ParseContext): Path {
+        const item = items[styleIndex];
+        const geometries: Geometry[] = [];
+        const geometryItems: LottieShape[] = [];
+        let trim: LottieShape;
+        for (let i = 0; i < styleIndex; i++) {
+            const ty = items[i].ty;
+            if (items[i].hd) {
+                continue;
+            }
+            if (ty === 'sh' || ty === 'rc' || ty === 'el') {
+                geometries.push({ ty, key: 'g' + i });
+                geometryItems.push(items[i]);
+            }
+            else if (ty === 'tm') {
+                trim = items[i];
+            }
+        }
+        if (!geometries.length) {
+            return;
+        }
+
+        const path: Path = new Path({
+            shape: {},
+            buildPath(pathCtx, shape) {
+                buildGeometries(pathCtx, geometries, shape);
+            }
+        });
+        path.name = item.nm;
+        for (let i = 0; i < geometries.length; i++) {
+            const geometry = geometries[i];
+            const geometryItem = geometryItems[i];
+            if (geometry.ty === 'sh') {
+                const firstValue = getFirstValue(geometryItem.ks);
+                geometry.closed = !!((isArray(firstValue) ? firstValue[0] : firstValue) as LottieBezierShape).c;
+                this._setProperty(
+                    path, 'shape', geometry.key, [geometryItem.ks], values => toBezierArray(values[0]), ctx
+                );
+            }
+            else {
+                const props = [geometryItem.p, geometryItem.s];
+                geometry.ty === 'rc' && props.push(geometryItem.r || { k: 0 });
+                this._setProperty(path, 'shape', geometry.key, props, values => [
+                    vec(values[0])[0], vec(values[0])[1], vec(values[1])[0], vec(values[1])[1], num(values[2]) || 0
+                ], ctx);
+            }
+        }
+
+        const isStroke = item.ty === 'st' || item.ty === 'gs';
+        const colorKey = isStroke ? 'stroke' : 'fill';
+        if (item.ty === 'fl' || item.ty === 'st') {
+            this._setProperty(path, 'style', colorKey, [item.c], values => toColor(vec(values[0])), ctx);
+        }
+        else {
+            const gradientType = item.t;
+            const count = item.g.p;
+            this._setProperty(path, 'style', colorKey, [item.s, item.e, item.g.k], values => toGradient(
+                gradientType, vec(values[0]), vec(values[1]), vec(values[2]), count
+            ), ctx);
+        }
+        item.o && this._setProperty(path, 'style', colorKey + 'Opacity', [item.o], values => num(values[0]) / 100, ctx);
+        this._setOpacity(path, ctx.opacities, ctx);
+
+        if (isStroke) {
+            const style = path.style;
+            style.fill = null;
+            item.w && this._setProperty(path, 'style', 'lineWidth', [item.w], values => num(values[0]), ctx);
+            style.lineCap = LINE_CAPS[item.lc - 1] || 'butt';
+            style.lineJoin = LINE_JOINS[item.lj - 1] || 'miter';
+            item.ml != null && (style.miterLimit = item.ml);
+            if (item.d) {
+                const lineDash: number[] = [];
+                each(item.d, dash => {
+                    const value = num(getFirstValue(dash.v));
+                    dash.n === 'o' ? (style.lineDashOffset = value) : lineDash.push(value);
+                });
+                lineDash.length && (style.lineDash = lineDash);
+            }
+            // Trim is only applied on the stroke, with the initial length of path.
+            trim && this._trimStroke(path, trim, ctx);
+        }
+        return path;
+    }
+
+    private _trimStroke(path: Path, trim: LottieShape, ctx: ParseContext) {
+        const length = createPathSampler(path.getUpdatedPathProxy()).length;
+        if (!length) {
+            return;
+        }
+        const props = [trim.s, trim.e, trim.o || { k: 0 }];
+        this._setProperty(path, 'style', 'lineDash', props, values => [
+            Math.abs(num(values[1]) - num(values[0])) / 100 * length, length
+        ], ctx);
+        this._setProperty(path, 'style', 'lineDashOffset', props, values => -(
+            Math.min(num(values[0]), num(values[1])) / 100 + num(values[2]) / 360
+        ) * length, ctx);
+    }
+
+    private _setOpacity(el: Path, opacities: LottieProperty[], ctx: ParseContext) {
+        opacities.length && this._setProperty(el, 'style', 'opacity', opacities, values => {
+            let opacity = 1;
+            for (let i = 0; i < values.length; i++) {
+                opacity *= num(values[i]) / 100;
+            }
+            return opacity;
+        }, ctx);
+    }
+
+    /**
+     * Set the value of Lottie properties on the element and add the keyframes if animated.
+     * Keyframes of each property are merged if more than one are animated. The eased segments
+     * are sampled at each frame so they can be linearly interpolated.
+     */
+    private _setProperty(
+        el: Element,
+        key: '' | 'style' | 'shape',
+        propName: string,
+        props: LottieProperty[],
+        convert: (values: LottieValue[]) => unknown,
+        ctx: ParseContext
+    ) {
+        const keyframesList: ParsedKeyframe[][] = [];
+        let animatedKeyframes: ParsedKeyframe[];
+        let animatedCount = 0;
+        let frames: number[] = [];
+        for (let i = 0; i < props.length; i++) {
+            const prop = props[i];
+            if (isString(prop.x)) {
+                this._report('expression', ctx.name);
+            }
+            const kfs = isAnimated(prop) ? parseKeyframes(prop) : null;
+            if (kfs && kfs.length) {
+                keyframesList[i] = kfs;
+                animatedKeyframes = kfs;
+                animatedCount++;
+                frames = frames.concat(map(kfs, kf => kf.frame));
+            }
+        }
+
+        const target = key ? (el as any)[key] : el;
+        const getValue = (frame: number) => convert(map(props, (prop, idx) => (
+            keyframesList[idx] ? evaluateKeyframes(keyframesList[idx], frame) : prop.k as LottieValue
+        )));
+        if (!frames.length) {
+            target[propName] = getValue(0);
+            return;
+        }
+
+        frames.sort((a, b) => a - b);
+        if (animatedCount > 1) {
+            frames = sampleEasedFrames(frames, keyframesList);
+        }
+        const track = this._getTrack(el, key, propName);
+        for (let i = 0; i < frames.length; i++) {
+            const frame = frames[i];
+            if (frame !== frames[i - 1]) {
+                track.push({
+                    time: this._getTime(frame, ctx.startTime),
+                    value: getValue(frame),
+                    easing: animatedCount === 1 ? animatedKeyframes[i].easing : null
+                });
+            }
+        }
+        target[propName] = track[0].value;
+    }
+
+    private _getTrack(el: Element, key: string, propName: string) {
+        const recordKey = el.id + '_' + key;
+        const record = this._records[recordKey] || (this._records[recordKey] = {
+            el,
+            key,
+            tracks: {}
+        });
+        return record.tracks[propName] || (record.tracks[propName] = []);
+    }
+
+    private _getTime(frame: number, startTime: number) {
+        return (frame + startTime - this._inPoint) / this._frameRate * 1000;
+    }
+
+    private _report(feature: LottieParserResultUnsupportedItem['feature'], name: string) {
+        this._unsupported.push({ feature, name });
+    }
+}
+
+export function parseLottie(json: string | object, opt?: LottieParserOption): LottieParserResult {
+    const parser = new LottieParser();
+    return parser.parse(json, opt);
+}
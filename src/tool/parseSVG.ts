@@ -6,9 +6,13 @@ import Ellipse from '../graphic/shape/Ellipse';
 import Line from '../graphic/shape/Line';
 import Polygon from '../graphic/shape/Polygon';
 import Polyline from '../graphic/shape/Polyline';
+import Path from '../graphic/Path';
+import CompoundPath from '../graphic/CompoundPath';
+import PathProxy from '../core/PathProxy';
+import SVGPathRebuilder from '../svg/SVGPathRebuilder';
 import * as matrix from '../core/matrix';
 import { createFromString } from './path';
-import { defaults, trim, each, map, keys, hasOwn } from '../core/util';
+import { defaults, trim, each, map, keys, hasOwn, isFunction } from '../core/util';
 import Displayable from '../graphic/Displayable';
 import Element from '../Element';
 import { RectLike } from '../core/BoundingRect';
@@ -19,6 +23,7 @@ import RadialGradient, { RadialGradientObject } from '../graphic/RadialGradient'
 import Gradient, { GradientObject } from '../graphic/Gradient';
 import TSpan, { TSpanStyleProps } from '../graphic/TSpan';
 import { parseXML } from './parseXML';
+import { parseStyleSheet, getMatchedRules, StyleSheetRule } from './parseStyleSheet';
 
 
 interface SVGParserOption {
@@ -46,6 +51,8 @@ export interface SVGParserResult {
         scale: number;
     };
     named: SVGParserResultNamedItem[];
+    // Features used in the SVG but ignored by the parser.
+    unsupported: SVGParserResultUnsupportedItem[];
 }
 export interface SVGParserResultNamedItem {
     name: string;
@@ -56,15 +63,25 @@ export interface SVGParserResultNamedItem {
     svgNodeTagLower: SVGNodeTagLower;
     el: Element;
 };
+export interface SVGParserResultUnsupportedItem {
+    // Only 'mask' currently.
+    feature: 'mask';
+    // The element that the feature is applied on, which is rendered without it.
+    el: Element;
+}
 
 export type SVGNodeTagLower =
     'g' | 'rect' | 'circle' | 'line' | 'ellipse' | 'polygon'
-    | 'polyline' | 'image' | 'text' | 'tspan' | 'path' | 'defs' | 'switch';
+    | 'polyline' | 'image' | 'text' | 'tspan' | 'path' | 'defs' | 'switch'
+    | 'use' | 'symbol' | 'clippath' | 'mask';
 
 
 type DefsId = string;
-type DefsMap = { [id in DefsId]: LinearGradientObject | RadialGradientObject | PatternObject };
+// Pattern is created for each element if it depends on the bounding rect of element.
+type PatternCreator = (el: Displayable) => PatternObject;
+type DefsMap = { [id in DefsId]: LinearGradientObject | RadialGradientObject | PatternObject | PatternCreator };
 type DefsUsePending = [Displayable, 'fill' | 'stroke', DefsId][];
+type ClipPathUsePending = [Element, DefsId][];
 
 type ElementExtended = Element & {
     __inheritedStyle?: InheritedStyleByZRKey;
@@ -84,6 +101,7 @@ type TextStyleOptionExtended = TSpanStyleProps & {
 let nodeParsers: {[name in SVGNodeTagLower]?: (
     this: SVGParser, xmlNode: SVGElement, parentGroup: Group
 ) => Element};
+let paintServerParsers: Dictionary<(this: SVGParser, xmlNode: SVGElement) => DefsMap[DefsId]>;
 
 type InheritedStyleByZRKey = {[name in InheritableStyleZRKey]?: string};
 type InheritableStyleZRKey =
@@ -115,7 +133,9 @@ type SelfStyleZRKey =
     typeof SELF_STYLE_ATTRIBUTES_MAP[keyof typeof SELF_STYLE_ATTRIBUTES_MAP];
 const SELF_STYLE_ATTRIBUTES_MAP = {
     'alignment-baseline': 'textBaseline',
-    'stop-color': 'stopColor'
+    'stop-color': 'stopColor',
+    'clip-path': 'clipPath',
+    'mask': 'mask'
 };
 const SELF_STYLE_ATTRIBUTES_MAP_KEYS = keys(SELF_STYLE_ATTRIBUTES_MAP);
 
@@ -126,6 +146,15 @@ class SVGParser {
     // The use of <defs> can be in front of <defs> declared.
     // So save them temporarily in `_defsUsePending`.
     private _defsUsePending: DefsUsePending;
+    // Rules of all the <style> in the svg, no matter where they are declared.
+    private _cssRules: StyleSheetRule[];
+    // Nodes with id, which can be referenced by <use> or `clip-path`.
+    private _idNodes: Dictionary<SVGElement>;
+    // Ids of the <use> being resolved, to avoid circular reference.
+    private _usingIds: Dictionary<boolean>;
+    // <clipPath> can also be declared after used.
+    private _clipPathUsePending: ClipPathUsePending;
+    private _unsupported: SVGParserResultUnsupportedItem[];
     private _root: Group = null;
 
     private _textX: number;
@@ -143,6 +172,11 @@ class SVGParser {
         }
 
         this._defsUsePending = [];
+        this._cssRules = parseStyleElements(svg);
+        this._idNodes = collectIdNodes(svg);
+        this._usingIds = {};
+        this._clipPathUsePending = [];
+        this._unsupported = [];
         let root = new Group();
         this._root = root;
         const named: SVGParserResult['named'] = [];
@@ -158,7 +192,8 @@ class SVGParser {
         isNaN(height) && (height = null);
 
         // Apply inline style on svg element.
-        parseAttributes(svg, root, null, true, false);
+        parseAttributes(svg, root, null, this._cssRules, true, false);
+        this._parseReferences(root);
 
         let child = svg.firstChild as SVGElement;
         while (child) {
@@ -166,8 +201,13 @@ class SVGParser {
             child = child.nextSibling as SVGElement;
         }
 
+        // Children of <clipPath> may also use defs.
+        this._applyClipPaths();
+
         applyDefs(this._defs, this._defsUsePending);
         this._defsUsePending = [];
+        this._cssRules = null;
+        this._idNodes = this._usingIds = null;
 
         let viewBoxRect;
         let viewBoxTransform;
@@ -219,7 +259,8 @@ class SVGParser {
             height: height,
             viewBoxRect: viewBoxRect,
             viewBoxTransform: viewBoxTransform,
-            named: named
+            named: named,
+            unsupported: this._unsupported
         };
     }
 
@@ -234,9 +275,13 @@ class SVGParser {
 
         const nodeName = xmlNode.nodeName.toLowerCase() as SVGNodeTagLower;
 
-        // TODO:
-        // support <style>...</style> in svg, where nodeName is 'style',
-        // CSS classes is defined globally wherever the style tags are declared.
+        // NOTE: <style> has been parsed in advance, because the rules are
+        // applied globally wherever the style tags are declared.
+
+        // They are only rendered when referenced.
+        if (nodeName === 'symbol' || nodeName === 'clippath' || nodeName === 'mask') {
+            return;
+        }
 
         let el;
         let namedFromForSub = namedFrom;
@@ -265,6 +310,7 @@ class SVGParser {
                 if (parser && hasOwn(nodeParsers, nodeName)) {
 
                     el = parser.call(this, xmlNode, parentGroup);
+                    this._parseReferences(el);
 
                     // Do not support empty string;
                     const nameAttr = xmlNode.getAttribute('name');
@@ -276,7 +322,7 @@ class SVGParser {
                             el: el
                         };
                         named.push(newNamed);
-                        if (nodeName === 'g') {
+                        if (nodeName === 'g' || nodeName === 'use') {
                             namedFromForSub = newNamed;
                         }
                     }
@@ -290,6 +336,10 @@ class SVGParser {
                     }
 
                     parentGroup.add(el);
+
+                    if (nodeName === 'use') {
+                        this._parseUse(xmlNode, el as Group, named, namedFromForSub);
+                    }
                 }
             }
 
@@ -323,6 +373,232 @@ class SVGParser {
 
     }
 
+    /**
+     * Parse the node referenced by <use> to a new subtree, so the referenced
+     * node can be used multiple times.
+     */
+    private _parseUse(
+        xmlNode: SVGElement,
+        useGroup: Group,
+        named: SVGParserResultNamedItem[],
+        namedFrom: SVGParserResultNamedItem['namedFrom']
+    ): void {
+        const id = getHrefId(xmlNode.getAttribute('xlink:href') || xmlNode.getAttribute('href'));
+        const refNode = id && this._idNodes[id];
+        if (!refNode || this._usingIds[id]) {
+            return;
+        }
+        this._usingIds[id] = true;
+
+        if (refNode.nodeName.toLowerCase() === 'symbol') {
+            const symbolGroup = new Group();
+            inheritStyle(useGroup, symbolGroup);
+            parseAttributes(refNode, symbolGroup, this._defsUsePending, this._cssRules, false, false);
+
+            // Size of the viewport is defined by <use> or <symbol>.
+            // TODO: Percent value not supported yet.
+            const width = parseFloat(xmlNode.getAttribute('width') || refNode.getAttribute('width'));
+            const height = parseFloat(xmlNode.getAttribute('height') || refNode.getAttribute('height'));
+            const viewBoxArr = splitNumberSequence(refNode.getAttribute('viewBox') || '');
+            if (viewBoxArr.length >= 4 && width && height) {
+                const viewBoxTransform = makeViewBoxTransform({
+                    x: parseFloat(viewBoxArr[0]),
+                    y: parseFloat(viewBoxArr[1]),
+                    width: parseFloat(viewBoxArr[2]),
+                    height: parseFloat(viewBoxArr[3])
+                }, { x: 0, y: 0, width: width, height: height });
+                symbolGroup.scaleX = symbolGroup.scaleY = viewBoxTransform.scale;
+                symbolGroup.x = viewBoxTransform.x;
+                symbolGroup.y = viewBoxTransform.y;
+            }
+
+            let child = refNode.firstChild as SVGElement;
+            while (child) {
+                if (child.nodeType === 1) {
+                    this._parseNode(child, symbolGroup, named, namedFrom, false, false);
+                }
+                child = child.nextSibling as SVGElement;
+            }
+            useGroup.add(symbolGroup);
+        }
+        else {
+            this._parseNode(refNode, useGroup, named, namedFrom, false, false);
+        }
+
+        this._usingIds[id] = false;
+    }
+
+    private _createPattern(xmlNode: SVGElement, rect: RectLike): PatternObject {
+        const id = xmlNode.getAttribute('id');
+        // Pattern used in its own content.
+        if (id && this._usingIds[id]) {
+            return null;
+        }
+
+        const tileRect = xmlNode.getAttribute('patternUnits') !== 'userSpaceOnUse' ? rect : null;
+        const width = parsePatternLength(xmlNode.getAttribute('width'), tileRect, 'width');
+        const height = parsePatternLength(xmlNode.getAttribute('height'), tileRect, 'height');
+        // Zero size disables the rendering.
+        if (!(width > 0 && height > 0)) {
+            return null;
+        }
+
+        const viewBoxArr = splitNumberSequence(xmlNode.getAttribute('viewBox') || '');
+        const isContentInRect = xmlNode.getAttribute('patternContentUnits') === 'objectBoundingBox';
+        const imageNode = getSingleImageChild(xmlNode);
+
+        let pattern: PatternObject;
+        if (imageNode && viewBoxArr.length < 4 && !isContentInRect
+            && !imageNode.getAttribute('transform')
+            && !parseFloat(imageNode.getAttribute('x')) && !parseFloat(imageNode.getAttribute('y'))
+            && parseFloat(imageNode.getAttribute('width')) === width
+            && parseFloat(imageNode.getAttribute('height')) === height
+        ) {
+            // Tile of image only.
+            pattern = {
+                image: imageNode.getAttribute('xlink:href') || imageNode.getAttribute('href'),
+                repeat: 'repeat',
+                imageWidth: width,
+                imageHeight: height
+            };
+        }
+        else {
+            const content = new Group();
+            parseAttributes(xmlNode, content, this._defsUsePending, this._cssRules, false, false);
+            if (viewBoxArr.length >= 4) {
+                const viewBoxTransform = makeViewBoxTransform({
+                    x: parseFloat(viewBoxArr[0]),
+                    y: parseFloat(viewBoxArr[1]),
+                    width: parseFloat(viewBoxArr[2]),
+                    height: parseFloat(viewBoxArr[3])
+                }, { x: 0, y: 0, width: width, height: height });
+                content.scaleX = content.scaleY = viewBoxTransform.scale;
+                content.x = viewBoxTransform.x;
+                content.y = viewBoxTransform.y;
+            }
+            else if (isContentInRect && rect) {
+                content.scaleX = rect.width;
+                content.scaleY = rect.height;
+            }
+
+            // Clip paths and paint servers used in the content should be applied before rendered.
+            const defsUsePending = this._defsUsePending;
+            const clipPathUsePending = this._clipPathUsePending;
+            this._defsUsePending = [];
+            this._clipPathUsePending = [];
+            id && (this._usingIds[id] = true);
+
+            let child = xmlNode.firstChild as SVGElement;
+            while (child) {
+                if (child.nodeType === 1) {
+                    this._parseNode(child, content, [], null, false, false);
+                }
+                child = child.nextSibling as SVGElement;
+            }
+            this._applyClipPaths();
+            applyDefs(this._defs, this._defsUsePending);
+
+            id && (this._usingIds[id] = false);
+            this._defsUsePending = defsUsePending;
+            this._clipPathUsePending = clipPathUsePending;
+
+            pattern = {
+                element: content,
+                elementWidth: width,
+                elementHeight: height
+            };
+        }
+
+        // Tile is placed at (x, y) and then transformed by `patternTransform`.
+        const m = matrix.create();
+        m[4] = parsePatternLength(xmlNode.getAttribute('x'), tileRect, 'x');
+        m[5] = parsePatternLength(xmlNode.getAttribute('y'), tileRect, 'y');
+        const patternTransform = parseTransform(xmlNode.getAttribute('patternTransform'));
+        patternTransform && matrix.mul(m, patternTransform, m);
+        // Skew is not supported in pattern.
+        const scaleX = Math.sqrt(m[0] * m[0] + m[1] * m[1]);
+        pattern.x = m[4];
+        pattern.y = m[5];
+        pattern.rotation = Math.atan2(m[1], m[0]);
+        pattern.scaleX = scaleX;
+        pattern.scaleY = (m[0] * m[3] - m[1] * m[2]) / scaleX;
+
+        return pattern;
+    }
+
+    /**
+     * Collect `clip-path` and `mask` used by the element.
+     */
+    private _parseReferences(el: Element): void {
+        const selfStyle = (el as ElementExtended).__selfStyle;
+        if (!selfStyle) {
+            return;
+        }
+        const clipPathMatch = selfStyle.clipPath && selfStyle.clipPath.match(urlRegex);
+        if (clipPathMatch) {
+            this._clipPathUsePending.push([el, trim(clipPathMatch[1])]);
+        }
+        if (selfStyle.mask && selfStyle.mask !== 'none') {
+            this._unsupported.push({
+                feature: 'mask',
+                el: el
+            });
+        }
+    }
+
+    private _applyClipPaths(): void {
+        const clipPathUsePending = this._clipPathUsePending;
+        // `clip-path` on the children of <clipPath> is ignored.
+        this._clipPathUsePending = [];
+        for (let i = 0; i < clipPathUsePending.length; i++) {
+            const el = clipPathUsePending[i][0];
+            const clipNode = this._idNodes[clipPathUsePending[i][1]];
+            if (clipNode && clipNode.nodeName.toLowerCase() === 'clippath') {
+                el.setClipPath(this._parseClipPath(clipNode, el));
+            }
+        }
+    }
+
+    private _parseClipPath(clipNode: SVGElement, el: Element): Path {
+        const clipGroup = new Group();
+        parseAttributes(clipNode, clipGroup, this._defsUsePending, this._cssRules, false, false);
+
+        let child = clipNode.firstChild as SVGElement;
+        while (child) {
+            if (child.nodeType === 1) {
+                this._parseNode(child, clipGroup, [], null, false, false);
+            }
+            child = child.nextSibling as SVGElement;
+        }
+
+        // Paths in <clipPath> are merged to one, with their transforms baked.
+        const paths: Path[] = [];
+        clipGroup.updateTransform();
+        clipGroup.traverse(function (child) {
+            if (child.ignore) {
+                return true;
+            }
+            child.updateTransform();
+            if (child instanceof Path) {
+                paths.push(bakePathTransform(child));
+            }
+        });
+        const clipPath = paths.length === 1 ? paths[0] : new CompoundPath({
+            shape: {
+                paths: paths
+            }
+        });
+
+        if (clipNode.getAttribute('clipPathUnits') === 'objectBoundingBox') {
+            const rect = el.getBoundingRect();
+            if (rect) {
+                clipPath.setLocalTransform([rect.width, 0, 0, rect.height, rect.x, rect.y]);
+            }
+        }
+
+        return clipPath;
+    }
+
     private _parseText(xmlNode: SVGElement, parentGroup: Group): TSpan {
         const text = new TSpan({
             style: {
@@ -335,7 +611,7 @@ class SVGParser {
 
         inheritStyle(parentGroup, text);
 
-        parseAttributes(xmlNode, text, this._defsUsePending, false, false);
+        parseAttributes(xmlNode, text, this._defsUsePending, this._cssRules, false, false);
 
         applyTextAlignment(text, parentGroup);
 
@@ -372,14 +648,14 @@ class SVGParser {
             'g': function (xmlNode, parentGroup) {
                 const g = new Group();
                 inheritStyle(parentGroup, g);
-                parseAttributes(xmlNode, g, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, g, this._defsUsePending, this._cssRules, false, false);
 
                 return g;
             },
             'rect': function (xmlNode, parentGroup) {
                 const rect = new Rect();
                 inheritStyle(parentGroup, rect);
-                parseAttributes(xmlNode, rect, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, rect, this._defsUsePending, this._cssRules, false, false);
 
                 rect.setShape({
                     x: parseFloat(xmlNode.getAttribute('x') || '0'),
@@ -395,7 +671,7 @@ class SVGParser {
             'circle': function (xmlNode, parentGroup) {
                 const circle = new Circle();
                 inheritStyle(parentGroup, circle);
-                parseAttributes(xmlNode, circle, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, circle, this._defsUsePending, this._cssRules, false, false);
 
                 circle.setShape({
                     cx: parseFloat(xmlNode.getAttribute('cx') || '0'),
@@ -410,7 +686,7 @@ class SVGParser {
             'line': function (xmlNode, parentGroup) {
                 const line = new Line();
                 inheritStyle(parentGroup, line);
-                parseAttributes(xmlNode, line, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, line, this._defsUsePending, this._cssRules, false, false);
 
                 line.setShape({
                     x1: parseFloat(xmlNode.getAttribute('x1') || '0'),
@@ -426,7 +702,7 @@ class SVGParser {
             'ellipse': function (xmlNode, parentGroup) {
                 const ellipse = new Ellipse();
                 inheritStyle(parentGroup, ellipse);
-                parseAttributes(xmlNode, ellipse, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, ellipse, this._defsUsePending, this._cssRules, false, false);
 
                 ellipse.setShape({
                     cx: parseFloat(xmlNode.getAttribute('cx') || '0'),
@@ -453,7 +729,7 @@ class SVGParser {
                 });
 
                 inheritStyle(parentGroup, polygon);
-                parseAttributes(xmlNode, polygon, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, polygon, this._defsUsePending, this._cssRules, false, false);
 
                 return polygon;
             },
@@ -471,14 +747,14 @@ class SVGParser {
                 });
 
                 inheritStyle(parentGroup, polyline);
-                parseAttributes(xmlNode, polyline, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, polyline, this._defsUsePending, this._cssRules, false, false);
 
                 return polyline;
             },
             'image': function (xmlNode, parentGroup) {
                 const img = new ZRImage();
                 inheritStyle(parentGroup, img);
-                parseAttributes(xmlNode, img, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, img, this._defsUsePending, this._cssRules, false, false);
 
                 img.setStyle({
                     image: xmlNode.getAttribute('xlink:href') || xmlNode.getAttribute('href'),
@@ -491,6 +767,23 @@ class SVGParser {
 
                 return img;
             },
+            'use': function (xmlNode, parentGroup) {
+                const g = new Group();
+                inheritStyle(parentGroup, g);
+                parseAttributes(xmlNode, g, this._defsUsePending, this._cssRules, false, false);
+
+                // x, y is an additional translation after the transform.
+                const x = parseFloat(xmlNode.getAttribute('x') || '0');
+                const y = parseFloat(xmlNode.getAttribute('y') || '0');
+                if (x || y) {
+                    const m = g.getLocalTransform();
+                    m[4] += m[0] * x + m[2] * y;
+                    m[5] += m[1] * x + m[3] * y;
+                    g.setLocalTransform(m);
+                }
+
+                return g;
+            },
             'text': function (xmlNode, parentGroup) {
                 const x = xmlNode.getAttribute('x') || '0';
                 const y = xmlNode.getAttribute('y') || '0';
@@ -502,7 +795,7 @@ class SVGParser {
 
                 const g = new Group();
                 inheritStyle(parentGroup, g);
-                parseAttributes(xmlNode, g, this._defsUsePending, false, true);
+                parseAttributes(xmlNode, g, this._defsUsePending, this._cssRules, false, true);
 
                 return g;
             },
@@ -523,7 +816,7 @@ class SVGParser {
                 const g = new Group();
 
                 inheritStyle(parentGroup, g);
-                parseAttributes(xmlNode, g, this._defsUsePending, false, true);
+                parseAttributes(xmlNode, g, this._defsUsePending, this._cssRules, false, true);
 
                 this._textX += parseFloat(dx);
                 this._textY += parseFloat(dy);
@@ -541,7 +834,7 @@ class SVGParser {
                 const path = createFromString(d);
 
                 inheritStyle(parentGroup, path);
-                parseAttributes(xmlNode, path, this._defsUsePending, false, false);
+                parseAttributes(xmlNode, path, this._defsUsePending, this._cssRules, false, false);
 
                 path.silent = true;
 
@@ -549,51 +842,61 @@ class SVGParser {
             }
         };
 
+        paintServerParsers = {
 
-    })();
-}
-
-const paintServerParsers: Dictionary<(xmlNode: SVGElement) => any> = {
+            'lineargradient': function (xmlNode) {
+                // TODO:
+                // Support that x1,y1,x2,y2 are not declared lineargradient but in node.
+                const x1 = parseInt(xmlNode.getAttribute('x1') || '0', 10);
+                const y1 = parseInt(xmlNode.getAttribute('y1') || '0', 10);
+                const x2 = parseInt(xmlNode.getAttribute('x2') || '10', 10);
+                const y2 = parseInt(xmlNode.getAttribute('y2') || '0', 10);
 
-    'lineargradient': function (xmlNode: SVGElement) {
-        // TODO:
-        // Support that x1,y1,x2,y2 are not declared lineargradient but in node.
-        const x1 = parseInt(xmlNode.getAttribute('x1') || '0', 10);
-        const y1 = parseInt(xmlNode.getAttribute('y1') || '0', 10);
-        const x2 = parseInt(xmlNode.getAttribute('x2') || '10', 10);
-        const y2 = parseInt(xmlNode.getAttribute('y2') || '0', 10);
+                const gradient = new LinearGradient(x1, y1, x2, y2);
 
-        const gradient = new LinearGradient(x1, y1, x2, y2);
+                parsePaintServerUnit(xmlNode, gradient);
 
-        parsePaintServerUnit(xmlNode, gradient);
+                parseGradientColorStops(xmlNode, gradient, this._cssRules);
 
-        parseGradientColorStops(xmlNode, gradient);
+                return gradient;
+            },
 
-        return gradient;
-    },
+            'radialgradient': function (xmlNode) {
+                // TODO:
+                // Support that x1,y1,x2,y2 are not declared radialgradient but in node.
+                // TODO:
+                // Support fx, fy, fr.
+                const cx = parseInt(xmlNode.getAttribute('cx') || '0', 10);
+                const cy = parseInt(xmlNode.getAttribute('cy') || '0', 10);
+                const r = parseInt(xmlNode.getAttribute('r') || '0', 10);
 
-    'radialgradient': function (xmlNode) {
-        // TODO:
-        // Support that x1,y1,x2,y2 are not declared radialgradient but in node.
-        // TODO:
-        // Support fx, fy, fr.
-        const cx = parseInt(xmlNode.getAttribute('cx') || '0', 10);
-        const cy = parseInt(xmlNode.getAttribute('cy') || '0', 10);
-        const r = parseInt(xmlNode.getAttribute('r') || '0', 10);
+                const gradient = new RadialGradient(cx, cy, r);
 
-        const gradient = new RadialGradient(cx, cy, r);
+                parsePaintServerUnit(xmlNode, gradient);
 
-        parsePaintServerUnit(xmlNode, gradient);
+                parseGradientColorStops(xmlNode, gradient, this._cssRules);
 
-        parseGradientColorStops(xmlNode, gradient);
+                return gradient;
+            },
 
-        return gradient;
-    }
+            'pattern': function (xmlNode) {
+                // Tile and content may be defined relative to the bounding rect of element.
+                const dependsOnRect = xmlNode.getAttribute('patternUnits') !== 'userSpaceOnUse'
+                    || xmlNode.getAttribute('patternContentUnits') === 'objectBoundingBox';
+                let pattern: PatternObject;
+                let created = false;
+                return (el: Displayable) => {
+                    if (dependsOnRect || !created) {
+                        pattern = this._createPattern(xmlNode, dependsOnRect ? el.getBoundingRect() : null);
+                        created = true;
+                    }
+                    return pattern;
+                };
+            }
+        };
 
-    // TODO
-    // 'pattern': function (xmlNode: SVGElement) {
-    // }
-};
+    })();
+}
 
 function parsePaintServerUnit(xmlNode: SVGElement, gradient: Gradient) {
     const gradientUnits = xmlNode.getAttribute('gradientUnits');
@@ -602,7 +905,11 @@ function parsePaintServerUnit(xmlNode: SVGElement, gradient: Gradient) {
     }
 }
 
-function parseGradientColorStops(xmlNode: SVGElement, gradient: GradientObject): void {
+function parseGradientColorStops(
+    xmlNode: SVGElement,
+    gradient: GradientObject,
+    cssRules: StyleSheetRule[]
+): void {
 
     let stop = xmlNode.firstChild as SVGStopElement;
 
@@ -624,8 +931,9 @@ function parseGradientColorStops(xmlNode: SVGElement, gradient: GradientObject):
             }
 
             // <stop style="stop-color:red"/> has higher priority than
-            // <stop stop-color="red"/>
+            // CSS rules, and then <stop stop-color="red"/>
             const styleVals = {} as Dictionary<string>;
+            parseCSSRules(stop, cssRules, styleVals, styleVals);
             parseInlineStyle(stop, styleVals, styleVals);
             const stopColor = styleVals.stopColor
                 || stop.getAttribute('stop-color')
@@ -665,6 +973,7 @@ function parseAttributes(
     xmlNode: SVGElement,
     el: Element,
     defsUsePending: DefsUsePending,
+    cssRules: StyleSheetRule[],
     onlyInlineStyle: boolean,
     isTextGroup: boolean
 ): void {
@@ -676,11 +985,14 @@ function parseAttributes(
     if (xmlNode.nodeType === 1) {
         parseTransformAttribute(xmlNode, el);
 
-        parseInlineStyle(xmlNode, inheritedStyle, selfStyle);
-
+        // Cascade order: presentation attributes < CSS rules < inline style.
         if (!onlyInlineStyle) {
             parseAttributeStyle(xmlNode, inheritedStyle, selfStyle);
         }
+
+        parseCSSRules(xmlNode, cssRules, inheritedStyle, selfStyle);
+
+        parseInlineStyle(xmlNode, inheritedStyle, selfStyle);
     }
 
     disp.style = disp.style || {};
@@ -708,9 +1020,10 @@ function parseAttributes(
         }
     });
 
-    // Because selfStyle only support textBaseline, so only text group need it.
+    // Because selfStyle only support textBaseline, so only text group need it,
+    // except `clip-path` and `mask` that will be collected later.
     // in other cases selfStyle can be released.
-    if (isTextGroup) {
+    if (isTextGroup || selfStyle.clipPath || selfStyle.mask) {
         disp.__selfStyle = selfStyle;
     }
 
@@ -794,13 +1107,78 @@ function getFillStrokeStyle(
     return str;
 }
 
+function parsePatternLength(str: string, rect: RectLike, dim: 'x' | 'y' | 'width' | 'height'): number {
+    let val = parseFloat(str) || 0;
+    if (!rect) {
+        // TODO: Percent value of user space not supported yet.
+        return val;
+    }
+    // Fraction or percentage of the bounding rect.
+    if (str && str.indexOf('%') > 0) {
+        val /= 100;
+    }
+    return dim === 'x' ? rect.x + val * rect.width
+        : dim === 'y' ? rect.y + val * rect.height
+        : val * rect[dim];
+}
+
+function getSingleImageChild(xmlNode: SVGElement): SVGElement {
+    let imageNode: SVGElement;
+    let child = xmlNode.firstChild as SVGElement;
+    while (child) {
+        if (child.nodeType === 1) {
+            if (imageNode || child.nodeName.toLowerCase() !== 'image') {
+                return null;
+            }
+            imageNode = child;
+        }
+        child = child.nextSibling as SVGElement;
+    }
+    return imageNode;
+}
+
+function getHrefId(href: string): string {
+    href = trim(href || '');
+    // External reference is not supported.
+    return href.charAt(0) === '#' ? href.slice(1) : null;
+}
+
+function collectIdNodes(svg: SVGElement): Dictionary<SVGElement> {
+    const idNodes: Dictionary<SVGElement> = {};
+    const nodes = svg.getElementsByTagName('*');
+    for (let i = 0; i < nodes.length; i++) {
+        const id = nodes[i].getAttribute('id');
+        // The first one wins if id is duplicated.
+        if (id && !hasOwn(idNodes, id)) {
+            idNodes[id] = nodes[i] as SVGElement;
+        }
+    }
+    return idNodes;
+}
+
+function bakePathTransform(path: Path): Path {
+    const pathProxy = new PathProxy(false);
+    path.buildPath(pathProxy, path.shape);
+
+    // Rebuild to path data first, where rect is converted to lines and can be transformed.
+    const svgPathBuilder = new SVGPathRebuilder();
+    svgPathBuilder.reset();
+    pathProxy.rebuildPath(svgPathBuilder, 1);
+    svgPathBuilder.generateStr();
+
+    const bakedPath = createFromString(svgPathBuilder.getStr());
+    path.transform && bakedPath.applyTransform(path.transform);
+    return bakedPath;
+}
+
 function applyDefs(
     defs: DefsMap,
     defsUsePending: DefsUsePending
 ): void {
     for (let i = 0; i < defsUsePending.length; i++) {
         const item = defsUsePending[i];
-        item[0].style[item[1]] = defs[item[2]];
+        const def = defs[item[2]];
+        item[0].style[item[1]] = isFunction(def) ? def(item[0]) : def;
     }
 }
 
@@ -821,11 +1199,15 @@ const transformRegex = /(translate|scale|rotate|skewX|skewY|matrix)\(([\-\s0-9\.
 const DEGREE_TO_ANGLE = Math.PI / 180;
 
 function parseTransformAttribute(xmlNode: SVGElement, node: Element): void {
-    let transform = xmlNode.getAttribute('transform');
+    const mt = parseTransform(xmlNode.getAttribute('transform'));
+    mt && node.setLocalTransform(mt);
+}
+
+function parseTransform(transform: string): matrix.MatrixArray {
+    let mt = null;
     if (transform) {
         transform = transform.replace(/,/g, ' ');
         const transformOps: string[] = [];
-        let mt = null;
         transform.replace(transformRegex, function (str: string, type: string, value: string) {
             transformOps.push(type, value);
             return '';
@@ -865,19 +1247,26 @@ function parseTransformAttribute(xmlNode: SVGElement, node: Element): void {
                     break;
             }
         }
-        node.setLocalTransform(mt);
     }
+    return mt;
 }
 
 // Value may contain space.
 const styleRegex = /([^\s:;]+)\s*:\s*([^:;]+)/g;
+const importantRegex = /\s*!important\s*$/;
 function parseInlineStyle(
     xmlNode: SVGElement,
     inheritableStyleResult: Dictionary<string>,
     selfStyleResult: Dictionary<string>
 ): void {
-    const style = xmlNode.getAttribute('style');
+    parseStyleDeclarations(xmlNode.getAttribute('style'), inheritableStyleResult, selfStyleResult);
+}
 
+function parseStyleDeclarations(
+    style: string,
+    inheritableStyleResult: Dictionary<string>,
+    selfStyleResult: Dictionary<string>
+): void {
     if (!style) {
         return;
     }
@@ -886,23 +1275,50 @@ function parseInlineStyle(
     let styleRegResult;
     while ((styleRegResult = styleRegex.exec(style)) != null) {
         const svgStlAttr = styleRegResult[1];
+        // `!important` is not supported, only the declared order matters.
+        const value = trim(styleRegResult[2].replace(importantRegex, ''));
 
         const zrInheritableStlAttr = hasOwn(INHERITABLE_STYLE_ATTRIBUTES_MAP, svgStlAttr)
             ? INHERITABLE_STYLE_ATTRIBUTES_MAP[svgStlAttr as keyof typeof INHERITABLE_STYLE_ATTRIBUTES_MAP]
             : null;
         if (zrInheritableStlAttr) {
-            inheritableStyleResult[zrInheritableStlAttr] = styleRegResult[2];
+            inheritableStyleResult[zrInheritableStlAttr] = value;
         }
 
         const zrSelfStlAttr = hasOwn(SELF_STYLE_ATTRIBUTES_MAP, svgStlAttr)
             ? SELF_STYLE_ATTRIBUTES_MAP[svgStlAttr as keyof typeof SELF_STYLE_ATTRIBUTES_MAP]
             : null;
         if (zrSelfStlAttr) {
-            selfStyleResult[zrSelfStlAttr] = styleRegResult[2];
+            selfStyleResult[zrSelfStlAttr] = value;
         }
     }
 }
 
+function parseStyleElements(svg: SVGElement): StyleSheetRule[] {
+    const rules: StyleSheetRule[] = [];
+    const styleNodes = svg.getElementsByTagName('style');
+    for (let i = 0; i < styleNodes.length; i++) {
+        parseStyleSheet(styleNodes[i].textContent || '', rules);
+    }
+    return rules;
+}
+
+function parseCSSRules(
+    xmlNode: SVGElement,
+    cssRules: StyleSheetRule[],
+    inheritableStyleResult: Dictionary<string>,
+    selfStyleResult: Dictionary<string>
+): void {
+    if (!cssRules || !cssRules.length) {
+        return;
+    }
+    // In the order of specificity, so the latter one overrides.
+    const matchedRules = getMatchedRules(cssRules, xmlNode);
+    for (let i = 0; i < matchedRules.length; i++) {
+        parseStyleDeclarations(matchedRules[i].declarations, inheritableStyleResult, selfStyleResult);
+    }
+}
+
 function parseAttributeStyle(
     xmlNode: SVGElement,
     inheritableStyleResult: Dictionary<string>,
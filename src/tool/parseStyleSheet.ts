@@ -0,0 +1,190 @@
+/**
+ * A small CSS parser and selector engine for the `<style>` in SVG.
+ *
+ * Supported selectors: type (`rect`, `*`), class (`.cls-1`), id (`#a`),
+ * compound of them (`path.cls-1`), descendant (`g .cls-1`) and child (`g > path`)
+ * combinators, and selector list (`.a, .b`).
+ * Rules with other selectors like attribute or pseudo-class, and at-rules like
+ * `@media`, are ignored.
+ */
+
+import { trim } from '../core/util';
+
+interface CompoundSelector {
+    // Lower case tag name. null if universal.
+    tag: string
+    id: string
+    classes: string[]
+    // Combinator with the previous compound selector.
+    combinator: ' ' | '>'
+}
+
+export interface StyleSheetRule {
+    // From left to right.
+    selector: CompoundSelector[]
+    specificity: number
+    // Order in the style sheets, used when specificity is the same.
+    order: number
+    // Declarations text like `fill: red; stroke: #000`
+    declarations: string
+}
+
+const commentRegex = /\/\*[\s\S]*?\*\//g;
+const compoundRegex = /^(\*|[a-zA-Z][\w-]*)?((?:[.#][\w-]+)*)$/;
+const simpleRegex = /[.#][\w-]+/g;
+
+function parseSelector(selectorText: string): CompoundSelector[] {
+    const parts = trim(selectorText.replace(/>/g, ' > ')).split(/\s+/);
+    const selector: CompoundSelector[] = [];
+    let combinator: CompoundSelector['combinator'] = ' ';
+
+    for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        if (part === '>') {
+            // Combinator at the beginning or consecutive combinators.
+            if (!selector.length || combinator === '>') {
+                return;
+            }
+            combinator = '>';
+            continue;
+        }
+        const result = compoundRegex.exec(part);
+        if (!part || !result) {
+            return;
+        }
+        const compound: CompoundSelector = {
+            tag: result[1] && result[1] !== '*' ? result[1].toLowerCase() : null,
+            id: null,
+            classes: [],
+            combinator
+        };
+        const simples = result[2].match(simpleRegex) || [];
+        for (let k = 0; k < simples.length; k++) {
+            const name = simples[k].slice(1);
+            simples[k].charAt(0) === '#' ? (compound.id = name) : compound.classes.push(name);
+        }
+        selector.push(compound);
+        combinator = ' ';
+    }
+
+    // Ends with combinator.
+    return combinator === '>' ? null : selector;
+}
+
+function getSpecificity(selector: CompoundSelector[]) {
+    let ids = 0;
+    let classes = 0;
+    let tags = 0;
+    for (let i = 0; i < selector.length; i++) {
+        const compound = selector[i];
+        compound.id && ids++;
+        classes += compound.classes.length;
+        compound.tag && tags++;
+    }
+    return ids * 1e4 + classes * 1e2 + tags;
+}
+
+/**
+ * Parse the text of style sheet to rules. The invalid or unsupported rules are ignored.
+ */
+export function parseStyleSheet(css: string, rules?: StyleSheetRule[]): StyleSheetRule[] {
+    rules = rules || [];
+    css = css.replace(commentRegex, '');
+
+    const len = css.length;
+    let cursor = 0;
+    while (cursor < len) {
+        const blockStart = css.indexOf('{', cursor);
+        if (blockStart < 0) {
+            break;
+        }
+        let prelude = css.slice(cursor, blockStart);
+        // Statement at-rules like `@import url(a.css);`
+        prelude = trim(prelude.slice(prelude.lastIndexOf(';') + 1));
+
+        // Find the end of block. Block of at-rules like @media may be nested.
+        let depth = 1;
+        let blockEnd = blockStart + 1;
+        for (; blockEnd < len && depth; blockEnd++) {
+            const ch = css.charAt(blockEnd);
+            ch === '{' ? depth++ : ch === '}' && depth--;
+        }
+        const declarations = css.slice(blockStart + 1, blockEnd - 1);
+        cursor = blockEnd;
+
+        if (!prelude || prelude.charAt(0) === '@') {
+            continue;
+        }
+
+        const selectorTexts = prelude.split(',');
+        for (let i = 0; i < selectorTexts.length; i++) {
+            const selector = parseSelector(selectorTexts[i]);
+            if (selector && selector.length) {
+                rules.push({
+                    selector,
+                    specificity: getSpecificity(selector),
+                    order: rules.length,
+                    declarations
+                });
+            }
+        }
+    }
+
+    return rules;
+}
+
+function matchCompound(node: Element, compound: CompoundSelector) {
+    if (compound.tag && node.nodeName.toLowerCase() !== compound.tag) {
+        return false;
+    }
+    if (compound.id && node.getAttribute('id') !== compound.id) {
+        return false;
+    }
+    const classes = compound.classes;
+    if (classes.length) {
+        const classNames = ' ' + trim(node.getAttribute('class') || '').split(/\s+/).join(' ') + ' ';
+        for (let i = 0; i < classes.length; i++) {
+            if (classNames.indexOf(' ' + classes[i] + ' ') < 0) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+function matchSelector(node: Element, selector: CompoundSelector[], idx: number): boolean {
+    if (!matchCompound(node, selector[idx])) {
+        return false;
+    }
+    if (idx === 0) {
+        return true;
+    }
+    let parent = node.parentNode as Element;
+    if (selector[idx].combinator === '>') {
+        return !!parent && parent.nodeType === 1 && matchSelector(parent, selector, idx - 1);
+    }
+    while (parent && parent.nodeType === 1) {
+        if (matchSelector(parent, selector, idx - 1)) {
+            return true;
+        }
+        parent = parent.parentNode as Element;
+    }
+    return false;
+}
+
+/**
+ * Get rules matching the node, in the order they should be applied,
+ * which is ascending by specificity and then the order in style sheets.
+ */
+export function getMatchedRules(rules: StyleSheetRule[], node: Element): StyleSheetRule[] {
+    const matched: StyleSheetRule[] = [];
+    for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i];
+        if (matchSelector(node, rule.selector, rule.selector.length - 1)) {
+            matched.push(rule);
+        }
+    }
+    return matched.sort(function (a, b) {
+        return (a.specificity - b.specificity) || (a.order - b.order);
+    });
+}
@@ -1,5 +1,5 @@
 import Path, { PathProps } from '../graphic/Path';
-import PathProxy from '../core/PathProxy';
+import PathProxy, { PathRebuilder } from '../core/PathProxy';
 import transformPath from './transformPath';
 import { VectorArray } from '../core/vector';
 import { MatrixArray } from '../core/matrix';
@@ -387,8 +387,9 @@ function isPathProxy(path: PathProxy | CanvasRenderingContext2D): path is PathPr
 function createPathOptions(str: string, opts: SVGPathOption): InnerSVGPathOption {
     const pathProxy = createPathProxyFromString(str);
     const innerOpts: InnerSVGPathOption = extend({}, opts);
-    innerOpts.buildPath = function (path: PathProxy | CanvasRenderingContext2D) {
-        if (isPathProxy(path)) {
+    innerOpts.buildPath = function (path: PathProxy | CanvasRenderingContext2D, shape: unknown, inBatch?: boolean) {
+        // Data can't be shared when bundled with other paths, like in CompoundPath.
+        if (isPathProxy(path) && !inBatch) {
             path.setData(pathProxy.data);
             // Svg and vml renderer don't have context
             const ctx = path.getContext();
@@ -397,7 +398,8 @@ function createPathOptions(str: string, opts: SVGPathOption): InnerSVGPathOption
             }
         }
         else {
-            const ctx = path;
+            // PathProxy has no `ellipse`, which is checked in `rebuildPath`.
+            const ctx = path as PathRebuilder;
             pathProxy.rebuildPath(ctx, 1);
         }
     };
@@ -0,0 +1,102 @@
+import PathProxy from '../core/PathProxy';
+import { pathToPolygons } from './convertPath';
+
+export interface PathSamplePoint {
+    x: number
+    y: number
+    // Angle of tangent in canvas coordinates.
+    angle: number
+}
+
+export interface PathSampler {
+    length: number
+    /**
+     * Arc length of the vertices of the flattened path.
+     * The end vertex of each subpath and the start vertex of the next one are both included.
+     */
+    vertexDistances: number[]
+    /**
+     * Sample the point at the arc length, which is clamped to the path.
+     * Point at the end of a subpath is sampled on the previous subpath if `before` is true.
+     */
+    sample(distance: number, before?: boolean): PathSamplePoint
+}
+
+/**
+ * Sample points on the path by arc length.
+ * Path is flattened to polylines. Subpaths are connected as one and the gaps between them are not counted.
+ */
+export function createPathSampler(path: PathProxy, scale?: number): PathSampler {
+    // Each segment is [x0, y0, x1, y1]
+    const points: number[] = [];
+    // Arc length at the start of each segment.
+    const lengths: number[] = [];
+    // If segment is the last one of subpath.
+    const subpathEnds: boolean[] = [];
+    let totalLength = 0;
+    const polygons = pathToPolygons(path, scale);
+    for (let i = 0; i < polygons.length; i++) {
+        const polygon = polygons[i];
+        for (let k = 2; k < polygon.length; k += 2) {
+            const x0 = polygon[k - 2];
+            const y0 = polygon[k - 1];
+            const len = Math.sqrt(
+                (polygon[k] - x0) * (polygon[k] - x0) + (polygon[k + 1] - y0) * (polygon[k + 1] - y0)
+            );
+            if (len > 0) {
+                points.push(x0, y0, polygon[k], polygon[k + 1]);
+                lengths.push(totalLength);
+                subpathEnds.push(false);
+                totalLength += len;
+            }
+        }
+        if (subpathEnds.length) {
+            subpathEnds[subpathEnds.length - 1] = true;
+        }
+    }
+
+    const segCount = lengths.length;
+    const vertexDistances: number[] = [];
+    for (let i = 0; i < segCount; i++) {
+        vertexDistances.push(lengths[i]);
+        if (subpathEnds[i]) {
+            vertexDistances.push(i < segCount - 1 ? lengths[i + 1] : totalLength);
+        }
+    }
+
+    function sample(distance: number, before?: boolean): PathSamplePoint {
+        if (!segCount) {
+            return { x: 0, y: 0, angle: 0 };
+        }
+        distance = Math.max(Math.min(distance, totalLength), 0);
+        // Find the last segment starts before the distance.
+        let lo = 0;
+        let hi = segCount - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (before ? lengths[mid] < distance : lengths[mid] <= distance) {
+                lo = mid;
+            }
+            else {
+                hi = mid - 1;
+            }
+        }
+        const x0 = points[lo * 4];
+        const y0 = points[lo * 4 + 1];
+        const dx = points[lo * 4 + 2] - x0;
+        const dy = points[lo * 4 + 3] - y0;
+        const segLength = (lo < segCount - 1 ? lengths[lo + 1] : totalLength) - lengths[lo];
+        const t = Math.min((distance - lengths[lo]) / segLength, 1);
+        return {
+            x: x0 + dx * t,
+            y: y0 + dy * t,
+            angle: Math.atan2(dy, dx)
+        };
+    }
+
+    return {
+        length: totalLength,
+        vertexDistances,
+        sample
+    };
+}
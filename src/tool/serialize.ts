@@ -0,0 +1,364 @@
+/**
+ * Serialize element tree to JSON and restore it.
+ *
+ * Elements are restored by the constructors registered with their `type`.
+ * Path which is not registered, like the one created by `createFromString`
+ * or `Path.extend`, is serialized as SVG path data.
+ * Other elements which are not registered are skipped.
+ *
+ * NOTE:
+ * Functions like event handlers, `stateProxy` and animators are not serialized.
+ */
+
+import Element, { ElementProps } from '../Element';
+import Path from '../graphic/Path';
+import Group from '../graphic/Group';
+import ZRText from '../graphic/Text';
+import ZRImage from '../graphic/Image';
+import TSpan from '../graphic/TSpan';
+import TextPath from '../graphic/TextPath';
+import CompoundPath from '../graphic/CompoundPath';
+import LinearGradient, { LinearGradientObject } from '../graphic/LinearGradient';
+import RadialGradient, { RadialGradientObject } from '../graphic/RadialGradient';
+import Pattern, { ImagePatternObject } from '../graphic/Pattern';
+import Gradient, { GradientColorStop } from '../graphic/Gradient';
+import Arc from '../graphic/shape/Arc';
+import BezierCurve from '../graphic/shape/BezierCurve';
+import Circle from '../graphic/shape/Circle';
+import Droplet from '../graphic/shape/Droplet';
+import Ellipse from '../graphic/shape/Ellipse';
+import Heart from '../graphic/shape/Heart';
+import Isogon from '../graphic/shape/Isogon';
+import Line from '../graphic/shape/Line';
+import Polygon from '../graphic/shape/Polygon';
+import Polyline from '../graphic/shape/Polyline';
+import Rect from '../graphic/shape/Rect';
+import Ring from '../graphic/shape/Ring';
+import Rose from '../graphic/shape/Rose';
+import Sector from '../graphic/shape/Sector';
+import Star from '../graphic/shape/Star';
+import Trochoid from '../graphic/shape/Trochoid';
+import PathProxy from '../core/PathProxy';
+import SVGPathRebuilder from '../svg/SVGPathRebuilder';
+import { createFromString } from './path';
+import { TRANSFORMABLE_PROPS } from '../core/Transformable';
+import { Dictionary } from '../core/types';
+import {
+    each, keys, map, isArray, isArrayLike, isFunction, isObject, isDom,
+    extend, logError
+} from '../core/util';
+
+export interface SerializedElement {
+    // Marker to distinguish from the plain objects in values like `extra`.
+    __element: true
+    type: string
+    // SVG path data of the path which is not registered.
+    d?: string
+    children?: SerializedElement[]
+    textContent?: SerializedElement
+    clipPath?: SerializedElement
+    states?: Dictionary<Dictionary<unknown>>
+    currentStates?: string[]
+    [key: string]: unknown
+}
+
+// Gradient and pattern are marked like element, so other plain objects with the same keys are not restored as them.
+type SerializedGradient = (LinearGradientObject | RadialGradientObject) & {
+    __gradient: true
+};
+
+type SerializedPattern = ImagePatternObject & {
+    __pattern: true
+    // Image is serialized as url.
+    image: string
+};
+
+type ElementCtor = {
+    new(opts?: ElementProps): Element
+};
+
+type ElementWithNormalState = Element & {
+    _normalState: Dictionary<unknown>
+};
+
+const ctors: Dictionary<ElementCtor> = {};
+// Instance with the default values of each type. Only the different values will be serialized.
+const defaultInstances: Dictionary<Element> = {};
+
+// Properties of Element, Displayable and Path with primitive values.
+const PLAIN_PROPS = (TRANSFORMABLE_PROPS as readonly string[]).concat([
+    'name', 'ignore', 'silent', 'draggable', 'ignoreClip', 'globalScaleRatio', 'anid',
+    'ariaLabel', 'ariaRole', 'ariaDescription', 'focusable', 'tabIndex',
+    'invisible', 'zlevel', 'z', 'z2', 'culling', 'cursor', 'rectHover', 'progressive', 'incremental', 'batch',
+    'strokeContainThreshold', 'segmentIgnoreThreshold', 'subPixelOptimize', 'autoBatch'
+]);
+
+// Properties with structured values.
+const STRUCTURED_PROPS = ['style', 'shape', 'textConfig', 'extra'];
+
+// Keys not passed to the constructor when deserializing.
+const SPECIAL_KEYS: Dictionary<boolean> = {
+    __element: true,
+    type: true,
+    d: true,
+    children: true,
+    states: true,
+    currentStates: true
+};
+
+/**
+ * Register constructor of element type, so that it can be deserialized.
+ */
+export function registerSerializable(type: string, ctor: ElementCtor) {
+    ctors[type] = ctor;
+    defaultInstances[type] = null;
+}
+
+each([
+    ['group', Group],
+    ['text', ZRText],
+    ['image', ZRImage],
+    ['tspan', TSpan],
+    ['text-path', TextPath],
+    ['compound', CompoundPath],
+    ['arc', Arc],
+    ['bezier-curve', BezierCurve],
+    ['circle', Circle],
+    ['droplet', Droplet],
+    ['ellipse', Ellipse],
+    ['heart', Heart],
+    ['isogon', Isogon],
+    ['line', Line],
+    ['polygon', Polygon],
+    ['polyline', Polyline],
+    ['rect', Rect],
+    ['ring', Ring],
+    ['rose', Rose],
+    ['sector', Sector],
+    ['star', Star],
+    ['trochoid', Trochoid]
+] as [string, ElementCtor][], function (item) {
+    registerSerializable(item[0], item[1]);
+});
+
+/**
+ * Get the value of props listed in `PLAIN_PROPS` and `STRUCTURED_PROPS`.
+ */
+function getProp(el: Element, key: string): unknown {
+    return (el as unknown as Dictionary<unknown>)[key];
+}
+
+function getDefaultInstance(type: string) {
+    let instance = defaultInstances[type];
+    if (!instance) {
+        instance = defaultInstances[type] = type === 'path' ? new Path() : new ctors[type]();
+    }
+    return instance;
+}
+
+function getPathData(el: Path, shape: Path['shape']) {
+    const path = new PathProxy(false);
+    el.buildPath(path, shape);
+    const svgPathBuilder = new SVGPathRebuilder();
+    svgPathBuilder.reset();
+    path.rebuildPath(svgPathBuilder, 1);
+    svgPathBuilder.generateStr();
+    return svgPathBuilder.getStr();
+}
+
+function serializeObject(obj: Dictionary<unknown>, excludeKey?: string) {
+    const out: Dictionary<unknown> = {};
+    const keysArr = keys(obj);
+    for (let i = 0; i < keysArr.length; i++) {
+        const key = keysArr[i];
+        // Ignore the inner properties like `__canvasGradient`.
+        if (key === excludeKey || key.indexOf('__') === 0) {
+            continue;
+        }
+        const val = serializeValue(obj[key]);
+        if (val !== undefined) {
+            out[key] = val;
+        }
+    }
+    return out;
+}
+
+function serializeValue(val: unknown): unknown {
+    if (isFunction(val)) {
+        return;
+    }
+    if (!isObject(val)) {
+        return val;
+    }
+    if (val instanceof Element) {
+        return serialize(val);
+    }
+    if (isArrayLike(val)) {
+        // Typed array is also converted to array.
+        const arr = val as ArrayLike<unknown>;
+        const out = [];
+        for (let i = 0; i < arr.length; i++) {
+            out.push(serializeValue(arr[i]));
+        }
+        return out;
+    }
+    if (isDom(val)) {
+        // Image or canvas.
+        return isFunction((val as HTMLCanvasElement).toDataURL)
+            ? (val as HTMLCanvasElement).toDataURL()
+            : (val as HTMLImageElement).src;
+    }
+    // Id is generated by painter. Plain objects are kept as plain objects.
+    if (val instanceof Gradient) {
+        return extend({ __gradient: true }, serializeObject(val as unknown as Dictionary<unknown>, 'id'));
+    }
+    if (val instanceof Pattern) {
+        return extend({ __pattern: true }, serializeObject(val as unknown as Dictionary<unknown>, 'id'));
+    }
+    return serializeObject(val as Dictionary<unknown>);
+}
+
+function deserializeValue(val: unknown): unknown {
+    if (!isObject(val)) {
+        return val;
+    }
+    if (isArray(val)) {
+        return map(val, deserializeValue);
+    }
+    const obj = val as Dictionary<unknown>;
+    if (obj.__gradient) {
+        const gradient = obj as unknown as SerializedGradient;
+        const colorStops = deserializeValue(gradient.colorStops) as GradientColorStop[];
+        return gradient.type === 'linear'
+            ? new LinearGradient(gradient.x, gradient.y, gradient.x2, gradient.y2, colorStops, gradient.global)
+            : new RadialGradient(gradient.x, gradient.y, gradient.r, colorStops, gradient.global);
+    }
+    else if (obj.__pattern) {
+        const patternObj = obj as unknown as SerializedPattern;
+        const pattern = new Pattern(patternObj.image, patternObj.repeat);
+        each(keys(obj), function (key) {
+            key !== '__pattern' && ((pattern as unknown as Dictionary<unknown>)[key] = obj[key]);
+        });
+        return pattern;
+    }
+    else if (obj.__element) {
+        return deserialize(obj as SerializedElement);
+    }
+
+    const out: Dictionary<unknown> = {};
+    each(keys(obj), function (key) {
+        out[key] = deserializeValue(obj[key]);
+    });
+    return out;
+}
+
+/**
+ * Serialize element and its descendants to an object that can be stringified to JSON.
+ * Element in states is serialized with the values of normal state.
+ * Returns null if the type of element is not registered.
+ */
+export function serialize(el: Element): SerializedElement | null {
+    let type = el.type;
+    const isPathData = !ctors[type] && el instanceof Path;
+    if (isPathData) {
+        type = 'path';
+    }
+    else if (!ctors[type]) {
+        if (process.env.NODE_ENV !== 'production') {
+            logError(`Type '${type}' is not serializable. Use registerSerializable first.`);
+        }
+        return null;
+    }
+
+    const normalState = (el as ElementWithNormalState)._normalState || {};
+    function getNormalValue(key: string) {
+        return key in normalState ? normalState[key] : getProp(el, key);
+    }
+
+    const json: SerializedElement = {
+        __element: true,
+        type
+    };
+    const defaultEl = getDefaultInstance(type);
+    for (let i = 0; i < PLAIN_PROPS.length; i++) {
+        const key = PLAIN_PROPS[i];
+        const val = getNormalValue(key);
+        if (val != null && val !== getProp(defaultEl, key) && !isFunction(val)) {
+            json[key] = val;
+        }
+    }
+
+    for (let i = 0; i < STRUCTURED_PROPS.length; i++) {
+        const key = STRUCTURED_PROPS[i];
+        const val = getNormalValue(key);
+        if (key === 'shape' && isPathData) {
+            json.d = getPathData(el as Path, val as Path['shape']);
+        }
+        else if (val && keys(val as object).length) {
+            json[key] = serializeValue(val);
+        }
+    }
+
+    const textContent = el.getTextContent();
+    const clipPath = el.getClipPath();
+    const textPath = el instanceof TextPath && el.path;
+    const textContentJSON = textContent && serialize(textContent);
+    const clipPathJSON = clipPath && serialize(clipPath);
+    const textPathJSON = textPath && serialize(textPath);
+    textContentJSON && (json.textContent = textContentJSON);
+    clipPathJSON && (json.clipPath = clipPathJSON);
+    textPathJSON && (json.path = textPathJSON);
+
+    if (el.isGroup) {
+        const children: SerializedElement[] = [];
+        each((el as Group).childrenRef(), function (child) {
+            const childJSON = serialize(child);
+            // Skip the children not serializable.
+            childJSON && children.push(childJSON);
+        });
+        children.length && (json.children = children);
+    }
+
+    if (el.states && keys(el.states).length) {
+        json.states = serializeValue(el.states) as SerializedElement['states'];
+    }
+    if (el.currentStates && el.currentStates.length) {
+        json.currentStates = el.currentStates.slice();
+    }
+
+    return json;
+}
+
+/**
+ * Create element tree from the result of `serialize`.
+ */
+export function deserialize(json: SerializedElement): Element {
+    const type = json.type;
+    const Ctor = ctors[type];
+    if (!Ctor && type !== 'path') {
+        throw new Error(`Unknown element type '${type}'.`);
+    }
+
+    const props: Dictionary<unknown> = {};
+    each(keys(json), function (key) {
+        if (!SPECIAL_KEYS[key]) {
+            props[key] = deserializeValue(json[key]);
+        }
+    });
+
+    const el = Ctor ? new Ctor(props as ElementProps) : createFromString(json.d || '', props);
+
+    if (json.children) {
+        for (let i = 0; i < json.children.length; i++) {
+            (el as Group).add(deserialize(json.children[i]));
+        }
+    }
+    if (json.states) {
+        el.states = deserializeValue(json.states) as Element['states'];
+    }
+    if (json.currentStates) {
+        el.useStates(json.currentStates, true);
+    }
+
+    return el;
+}
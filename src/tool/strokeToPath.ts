@@ -0,0 +1,313 @@
+/**
+ * Convert the stroke of path to an outline which can be filled.
+ *
+ * Path is flattened and dashed first. Then the outline is the union of the
+ * quads of segments, the joins and the caps, which are merged by `booleanPath`.
+ * It honors lineWidth, lineJoin, lineCap, miterLimit, lineDash, lineDashOffset
+ * and strokeNoScale.
+ *
+ * NOTE:
+ * Transform of Path is not applied. The result is in the local coordinates of the path.
+ */
+
+import PathProxy from '../core/PathProxy';
+import Path from '../graphic/Path';
+import { getLineDash } from '../canvas/dashStyle';
+import { pathToPolygons } from './convertPath';
+import { booleanPath } from './booleanPath';
+
+export interface StrokeToPathOption {
+    /**
+     * Scale of the path when displayed, used for the tolerance of flattening curves and round joins.
+     * @default 1
+     */
+    scale?: number
+}
+
+const mathSqrt = Math.sqrt;
+const mathCos = Math.cos;
+const mathSin = Math.sin;
+const mathAtan2 = Math.atan2;
+const mathAcos = Math.acos;
+const PI = Math.PI;
+
+// Max distance in pixel between the round join or cap and its polygon.
+const ROUND_TOLERANCE = 0.25;
+
+function removeDuplicatePoints(points: number[], closed: boolean) {
+    const out: number[] = [];
+    for (let i = 0; i < points.length; i += 2) {
+        const len = out.length;
+        if (!len || !isSamePoint(out[len - 2], out[len - 1], points[i], points[i + 1])) {
+            out.push(points[i], points[i + 1]);
+        }
+    }
+    // Closing point is the same with the first point.
+    if (closed && out.length > 2 && isSamePoint(out[0], out[1], out[out.length - 2], out[out.length - 1])) {
+        out.length -= 2;
+    }
+    return out;
+}
+
+function isSamePoint(x0: number, y0: number, x1: number, y1: number) {
+    return Math.abs(x0 - x1) < 1e-8 && Math.abs(y0 - y1) < 1e-8;
+}
+
+/**
+ * Split polyline by the dash pattern. Closed polygon is dashed along its closing segment.
+ */
+function dashPolyline(points: number[], closed: boolean, lineDash: number[], dashOffset: number, out: number[][]) {
+    if (closed) {
+        points = points.concat(points[0], points[1]);
+    }
+    if (lineDash.length % 2) {
+        // Same as setLineDash.
+        lineDash = lineDash.concat(lineDash);
+    }
+    let total = 0;
+    for (let i = 0; i < lineDash.length; i++) {
+        total += lineDash[i];
+    }
+
+    let dashIdx = 0;
+    let offset = (dashOffset % total + total) % total;
+    while (offset >= lineDash[dashIdx]) {
+        offset -= lineDash[dashIdx];
+        dashIdx = (dashIdx + 1) % lineDash.length;
+    }
+    // Remaining length of current dash or gap.
+    let remain = lineDash[dashIdx] - offset;
+    let current: number[] = dashIdx % 2 ? null : [points[0], points[1]];
+
+    for (let i = 2; i < points.length; i += 2) {
+        const x0 = points[i - 2];
+        const y0 = points[i - 1];
+        const dx = points[i] - x0;
+        const dy = points[i + 1] - y0;
+        const len = mathSqrt(dx * dx + dy * dy);
+        let pos = 0;
+        while (len - pos > remain) {
+            pos += remain;
+            const x = x0 + dx * pos / len;
+            const y = y0 + dy * pos / len;
+            if (current) {
+                current.push(x, y);
+                out.push(current);
+                current = null;
+            }
+            else {
+                current = [x, y];
+            }
+            dashIdx = (dashIdx + 1) % lineDash.length;
+            remain = lineDash[dashIdx];
+        }
+        remain -= len - pos;
+        current && current.push(points[i], points[i + 1]);
+    }
+    current && out.push(current);
+}
+
+function addPolygon(out: PathProxy, points: number[]) {
+    if (points.length < 6) {
+        return;
+    }
+    let area = 0;
+    const count = points.length / 2;
+    for (let i = 0; i < count; i++) {
+        const next = (i + 1) % count;
+        area += points[i * 2] * points[next * 2 + 1] - points[next * 2] * points[i * 2 + 1];
+    }
+    // All polygons are in the same direction so they are merged when filled with nonzero rule.
+    const reverse = area < 0;
+    for (let i = 0; i < count; i++) {
+        const idx = reverse ? count - 1 - i : i;
+        i ? out.lineTo(points[idx * 2], points[idx * 2 + 1]) : out.moveTo(points[idx * 2], points[idx * 2 + 1]);
+    }
+    out.closePath();
+}
+
+/**
+ * Add points of arc from startAngle, whose sweep is angle, exclude the start point.
+ */
+function addArcPoints(
+    cx: number, cy: number, r: number, startAngle: number, angle: number, scale: number, out: number[]
+) {
+    const tolerance = ROUND_TOLERANCE / scale;
+    const maxStep = tolerance < r ? 2 * mathAcos(1 - tolerance / r) : PI / 2;
+    const count = Math.max(Math.ceil(Math.abs(angle) / maxStep), 1);
+    for (let i = 1; i <= count; i++) {
+        const a = startAngle + angle * i / count;
+        out.push(cx + mathCos(a) * r, cy + mathSin(a) * r);
+    }
+}
+
+function addJoin(
+    out: PathProxy, points: number[], prev: number, cur: number, next: number,
+    halfWidth: number, join: CanvasLineJoin, miterLimit: number, scale: number
+) {
+    const x = points[cur];
+    const y = points[cur + 1];
+    let dx0 = x - points[prev];
+    let dy0 = y - points[prev + 1];
+    let dx1 = points[next] - x;
+    let dy1 = points[next + 1] - y;
+    const len0 = mathSqrt(dx0 * dx0 + dy0 * dy0);
+    const len1 = mathSqrt(dx1 * dx1 + dy1 * dy1);
+    dx0 /= len0;
+    dy0 /= len0;
+    dx1 /= len1;
+    dy1 /= len1;
+    const cross = dx0 * dy1 - dy0 * dx1;
+    const dot = dx0 * dx1 + dy0 * dy1;
+    if (Math.abs(cross) < 1e-8 && dot > 0) {
+        // Straight. Quads of the segments are connected.
+        return;
+    }
+    // Join is on the outer side of the turn.
+    const side = cross > 0 ? -1 : 1;
+    const nx0 = -dy0 * halfWidth * side;
+    const ny0 = dx0 * halfWidth * side;
+    const nx1 = -dy1 * halfWidth * side;
+    const ny1 = dx1 * halfWidth * side;
+
+    const polygon = [x, y, x + nx0, y + ny0];
+    if (join === 'round') {
+        const startAngle = mathAtan2(ny0, nx0);
+        let angle = mathAtan2(ny1, nx1) - startAngle;
+        // Sweep of the outer side is not larger than PI.
+        angle > PI ? (angle -= PI * 2) : angle < -PI && (angle += PI * 2);
+        if (Math.abs(angle) > PI - 1e-6) {
+            // Turn back. Sweep through the direction of the incoming segment.
+            angle = nx0 * dy0 - ny0 * dx0 > 0 ? PI : -PI;
+        }
+        addArcPoints(x, y, halfWidth, startAngle, angle, scale, polygon);
+    }
+    else {
+        // Half of the angle between the normals.
+        const cosHalf = mathSqrt(Math.max((1 + dot) / 2, 0));
+        if (join !== 'bevel' && cosHalf > 1e-8 && 1 / cosHalf <= miterLimit) {
+            const mx = nx0 + nx1;
+            const my = ny0 + ny1;
+            const mLen = mathSqrt(mx * mx + my * my);
+            const miterLen = halfWidth / cosHalf;
+            polygon.push(x + mx / mLen * miterLen, y + my / mLen * miterLen);
+        }
+        polygon.push(x + nx1, y + ny1);
+    }
+    addPolygon(out, polygon);
+}
+
+function addCap(
+    out: PathProxy, x: number, y: number, dx: number, dy: number,
+    halfWidth: number, cap: CanvasLineCap, scale: number
+) {
+    // (dx, dy) is the unit direction pointing outside from the end.
+    const nx = -dy * halfWidth;
+    const ny = dx * halfWidth;
+    if (cap === 'square') {
+        addPolygon(out, [
+            x + nx, y + ny,
+            x + nx + dx * halfWidth, y + ny + dy * halfWidth,
+            x - nx + dx * halfWidth, y - ny + dy * halfWidth,
+            x - nx, y - ny
+        ]);
+    }
+    else if (cap === 'round') {
+        const polygon = [x + nx, y + ny];
+        addArcPoints(x, y, halfWidth, mathAtan2(ny, nx), -PI, scale, polygon);
+        addPolygon(out, polygon);
+    }
+}
+
+function strokePolyline(
+    out: PathProxy, points: number[], closed: boolean, halfWidth: number,
+    style: Path['style'], scale: number
+) {
+    const count = points.length / 2;
+    if (count < 2) {
+        return;
+    }
+    for (let i = 0; i < count; i++) {
+        const next = (i + 1) % count;
+        if (!closed && next === 0) {
+            break;
+        }
+        const x0 = points[i * 2];
+        const y0 = points[i * 2 + 1];
+        const x1 = points[next * 2];
+        const y1 = points[next * 2 + 1];
+        const dx = x1 - x0;
+        const dy = y1 - y0;
+        const len = mathSqrt(dx * dx + dy * dy);
+        const nx = -dy / len * halfWidth;
+        const ny = dx / len * halfWidth;
+        addPolygon(out, [x0 + nx, y0 + ny, x1 + nx, y1 + ny, x1 - nx, y1 - ny, x0 - nx, y0 - ny]);
+    }
+
+    const join = style.lineJoin || 'miter';
+    const miterLimit = style.miterLimit == null ? 10 : style.miterLimit;
+    for (let i = closed ? 0 : 1; i < (closed ? count : count - 1); i++) {
+        addJoin(
+            out, points, ((i + count - 1) % count) * 2, i * 2, ((i + 1) % count) * 2,
+            halfWidth, join, miterLimit, scale
+        );
+    }
+
+    if (!closed) {
+        const cap = style.lineCap || 'butt';
+        const last = (count - 1) * 2;
+        let dx = points[0] - points[2];
+        let dy = points[1] - points[3];
+        let len = mathSqrt(dx * dx + dy * dy);
+        addCap(out, points[0], points[1], dx / len, dy / len, halfWidth, cap, scale);
+        dx = points[last] - points[last - 2];
+        dy = points[last + 1] - points[last - 1];
+        len = mathSqrt(dx * dx + dy * dy);
+        addCap(out, points[last], points[last + 1], dx / len, dy / len, halfWidth, cap, scale);
+    }
+}
+
+/**
+ * Get the filled outline of the stroke of path.
+ * Returns an empty path if the path has no stroke.
+ */
+export function strokeToPath(path: Path, opts?: StrokeToPathOption): PathProxy {
+    const scale = opts && opts.scale || 1;
+    const style = path.style;
+    const pieces = new PathProxy();
+    if (!path.hasStroke()) {
+        return pieces;
+    }
+
+    const lineScale = style.strokeNoScale ? path.getLineScale() : 1;
+    const halfWidth = style.lineWidth / (lineScale || 1) / 2;
+    const closedSubpaths: boolean[] = [];
+    // Polylines should be more precise with wider line.
+    const polylines = pathToPolygons(path.getUpdatedPathProxy(), scale * Math.max(halfWidth, 1), closedSubpaths);
+
+    const [lineDash, lineDashOffset] = getLineDash(path);
+    let dashTotal = 0;
+    if (lineDash) {
+        for (let i = 0; i < lineDash.length; i++) {
+            // Dash is ignored with invalid values, same as setLineDash.
+            dashTotal = lineDash[i] >= 0 ? dashTotal + lineDash[i] : NaN;
+        }
+    }
+
+    for (let i = 0; i < polylines.length; i++) {
+        const closed = closedSubpaths[i];
+        const points = removeDuplicatePoints(polylines[i], closed);
+        if (dashTotal > 0) {
+            const dashes: number[][] = [];
+            dashPolyline(points, closed, lineDash as number[], lineDashOffset || 0, dashes);
+            for (let k = 0; k < dashes.length; k++) {
+                strokePolyline(pieces, removeDuplicatePoints(dashes[k], false), false, halfWidth, style, scale);
+            }
+        }
+        else {
+            strokePolyline(pieces, points, closed, halfWidth, style, scale);
+        }
+    }
+
+    return booleanPath(pieces, new PathProxy(), 'union', { scale });
+}
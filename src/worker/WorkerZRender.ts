@@ -0,0 +1,213 @@
+/**
+ * Facade of the zrender instance running in a worker, used in the main thread.
+ *
+ * The canvas is transferred to the worker as an `OffscreenCanvas`, where the
+ * storage and painter are created by `initInWorker`. Pointer and keyboard
+ * events are still listened by `HandlerProxy` in the main thread and forwarded
+ * to the worker. Keyboard events are only received if the canvas is focusable,
+ * see `WorkerZRenderInitOpt.tabIndex`.
+ *
+ * NOTE:
+ * Events are handled asynchronously in the worker, so `event.stop()` can't
+ * prevent the default behavior of the browser. For example, the browser still
+ * moves the focus out of the canvas when Tab moves the focus between elements
+ * in the worker. Pinch gesture is not supported.
+ */
+
+import Eventful from '../core/Eventful';
+import HandlerDomProxy from '../dom/HandlerProxy';
+import { devicePixelRatio } from '../config';
+import { getSize } from '../canvas/helper';
+import { each, extend } from '../core/util';
+import { ZRRawEvent } from '../core/types';
+import {
+    MainThreadMessage, WorkerMessage, HoverMessage, POINTER_EVENT_NAMES, KEYBOARD_EVENT_NAMES,
+    serializeEvent, serializeKeyboardEvent
+} from './message';
+
+// Not in the DOM lib of TypeScript yet. OffscreenCanvas is used as canvas in the worker.
+type CanvasWithOffscreen = HTMLCanvasElement & {
+    transferControlToOffscreen(): HTMLCanvasElement & Transferable
+};
+
+export interface WorkerZRenderInitOpt {
+    devicePixelRatio?: number
+    width?: number | string
+    height?: number | string
+    /**
+     * Tab index of the canvas. Canvas is focusable to receive the keyboard events if given.
+     */
+    tabIndex?: number
+}
+
+type WorkerZRenderEventDefinition = {
+    // Hovered target in the worker changed.
+    hover: (target: HoverMessage['target']) => void
+    // Cursor style set by the worker.
+    cursor: (cursor: string) => void
+}
+
+class WorkerZRender extends Eventful<WorkerZRenderEventDefinition> {
+
+    dom: HTMLElement
+
+    worker: Worker
+
+    dpr: number
+
+    private _opts: WorkerZRenderInitOpt
+
+    private _canvas: HTMLCanvasElement
+
+    private _proxy: HandlerDomProxy
+
+    private _width: number
+    private _height: number
+
+    private _onMessage: (e: MessageEvent) => void
+
+    constructor(dom: HTMLElement, worker: Worker, opts?: WorkerZRenderInitOpt) {
+        super();
+
+        this.dom = dom;
+        this.worker = worker;
+        this._opts = opts = extend({}, opts);
+
+        const dpr = this.dpr = opts.devicePixelRatio || devicePixelRatio;
+        const width = this._width = getSize(dom, 0, opts);
+        const height = this._height = getSize(dom, 1, opts);
+
+        const canvas = this._canvas = document.createElement('canvas');
+        canvas.style.cssText = 'display:block;padding:0;margin:0;border-width:0;';
+        opts.tabIndex != null && (canvas.tabIndex = opts.tabIndex);
+        this._setCanvasStyleSize(width, height);
+        // Size can't be changed in main thread after transferred.
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+        dom.innerHTML = '';
+        dom.appendChild(canvas);
+
+        const offscreenCanvas = (canvas as CanvasWithOffscreen).transferControlToOffscreen();
+        this._post({
+            __zr: 'init',
+            canvas: offscreenCanvas,
+            width,
+            height,
+            devicePixelRatio: dpr
+        }, [offscreenCanvas]);
+
+        // No handler is set, gesture needs the raw touches, which is not forwarded.
+        const proxy = this._proxy = new HandlerDomProxy(canvas, dom);
+        each(POINTER_EVENT_NAMES, (name) => {
+            proxy.on(name, (event: ZRRawEvent) => {
+                this._post({
+                    __zr: 'event',
+                    name,
+                    event: serializeEvent(event)
+                });
+            });
+        });
+        each(KEYBOARD_EVENT_NAMES, (name) => {
+            proxy.on(name, (event: ZRRawEvent) => {
+                this._post({
+                    __zr: 'key',
+                    name,
+                    event: serializeKeyboardEvent(event)
+                });
+            });
+        });
+
+        this._onMessage = (e: MessageEvent) => {
+            const data = e.data as WorkerMessage;
+            if (!data) {
+                return;
+            }
+            if (data.__zr === 'cursor') {
+                proxy.setCursor(data.cursor);
+                this.trigger('cursor', data.cursor);
+            }
+            else if (data.__zr === 'hover') {
+                this.trigger('hover', data.target);
+            }
+        };
+        worker.addEventListener('message', this._onMessage);
+    }
+
+    private _post(message: MainThreadMessage, transfer?: Transferable[]) {
+        if (this.worker) {
+            transfer ? this.worker.postMessage(message, transfer) : this.worker.postMessage(message);
+        }
+    }
+
+    private _setCanvasStyleSize(width: number, height: number) {
+        const style = this._canvas.style;
+        style.width = width + 'px';
+        style.height = height + 'px';
+    }
+
+    getDom() {
+        return this.dom;
+    }
+
+    getWidth() {
+        return this._width;
+    }
+
+    getHeight() {
+        return this._height;
+    }
+
+    /**
+     * Resize the canvas in worker.
+     * Should be invoked when container size is changed
+     */
+    resize(opts?: {
+        width?: number | string
+        height?: number | string
+    }) {
+        opts = opts || {};
+        const sizeOpts = this._opts;
+        opts.width != null && (sizeOpts.width = opts.width);
+        opts.height != null && (sizeOpts.height = opts.height);
+
+        const width = getSize(this.dom, 0, sizeOpts);
+        const height = getSize(this.dom, 1, sizeOpts);
+        if (width !== this._width || height !== this._height) {
+            this._width = width;
+            this._height = height;
+            this._setCanvasStyleSize(width, height);
+            this._post({
+                __zr: 'resize',
+                width,
+                height
+            });
+        }
+    }
+
+    dispose() {
+        if (!this.worker) {
+            return;
+        }
+        this._post({
+            __zr: 'dispose'
+        });
+        this.worker.removeEventListener('message', this._onMessage);
+        this._proxy.dispose();
+        this.dom.innerHTML = '';
+
+        this.worker =
+        this.dom =
+        this._canvas =
+        this._proxy = null;
+    }
+}
+
+/**
+ * Create a canvas in the dom and render it in the worker.
+ * `initInWorker` should be called in the worker script.
+ */
+export function initWithWorker(dom: HTMLElement, worker: Worker, opts?: WorkerZRenderInitOpt) {
+    return new WorkerZRender(dom, worker, opts);
+}
+
+export default WorkerZRender;
@@ -0,0 +1,142 @@
+/**
+ * Create zrender instance in the worker for the canvas transferred by `initWithWorker`.
+ */
+
+import Eventful from '../core/Eventful';
+import Handler from '../Handler';
+import { HandlerProxyInterface } from '../dom/HandlerProxy';
+import { init, ZRenderInitOpt, ZRenderType } from '../zrender';
+import { extend, noop } from '../core/util';
+import { ZRRawEvent } from '../core/types';
+import Element, { ElementEvent } from '../Element';
+import { MainThreadMessage, WorkerMessage, SerializedEvent, SerializedKeyboardEvent } from './message';
+
+interface WorkerScope {
+    postMessage(message: WorkerMessage): void
+    addEventListener(type: 'message', listener: (e: MessageEvent) => void): void
+    removeEventListener(type: 'message', listener: (e: MessageEvent) => void): void
+}
+
+/**
+ * Drive the handler with the pointer and keyboard events forwarded from the main thread.
+ */
+class WorkerHandlerProxy extends Eventful implements HandlerProxyInterface {
+
+    handler: Handler
+
+    private _scope: WorkerScope
+
+    private _cursor: string
+
+    constructor(scope: WorkerScope) {
+        super();
+        this._scope = scope;
+    }
+
+    setCursor(cursorStyle?: string) {
+        cursorStyle = cursorStyle || 'default';
+        if (cursorStyle !== this._cursor) {
+            this._cursor = cursorStyle;
+            post(this._scope, {
+                __zr: 'cursor',
+                cursor: cursorStyle
+            });
+        }
+    }
+
+    dispose() {}
+}
+
+function post(scope: WorkerScope, message: WorkerMessage) {
+    scope.postMessage(message);
+}
+
+function createEvent(event: SerializedEvent | SerializedKeyboardEvent): ZRRawEvent {
+    // Default behavior can't be prevented in worker.
+    return extend({
+        preventDefault: noop,
+        stopPropagation: noop
+    }, event) as unknown as ZRRawEvent;
+}
+
+/**
+ * Wait for the canvas from the main thread and create the zrender instance.
+ *
+ * @param onInit Called with the created instance.
+ * @param opts Init options except the size and devicePixelRatio, which are given by the main thread.
+ * @param scope Default to be the global scope of worker.
+ */
+export function initInWorker(
+    onInit: (zr: ZRenderType) => void,
+    opts?: ZRenderInitOpt,
+    scope?: WorkerScope
+) {
+    scope = scope || (self as unknown as WorkerScope);
+
+    let zr: ZRenderType;
+    let proxy: WorkerHandlerProxy;
+    let hovered: Element;
+    let lastHovered: Element;
+
+    function onMessage(e: MessageEvent) {
+        const data = e.data as MainThreadMessage;
+        if (!data || !data.__zr) {
+            return;
+        }
+        if (data.__zr === 'init') {
+            if (zr) {
+                return;
+            }
+            zr = init(data.canvas, extend(extend({}, opts), {
+                width: data.width,
+                height: data.height,
+                devicePixelRatio: data.devicePixelRatio
+            }));
+            proxy = new WorkerHandlerProxy(scope);
+            zr.handler.setHandlerProxy(proxy);
+            zr.on('mouseover', function (e: ElementEvent) {
+                hovered = e.target;
+            });
+            zr.on('mouseout', function (e: ElementEvent) {
+                if (e.target === hovered) {
+                    hovered = null;
+                }
+            });
+            onInit(zr);
+        }
+        else if (!zr) {
+            return;
+        }
+        else if (data.__zr === 'event') {
+            proxy.trigger(data.name, createEvent(data.event));
+            if (hovered !== lastHovered) {
+                lastHovered = hovered;
+                post(scope, {
+                    __zr: 'hover',
+                    target: hovered ? {
+                        id: hovered.id,
+                        name: hovered.name
+                    } : null
+                });
+            }
+        }
+        else if (data.__zr === 'key') {
+            // Dispatched to the focused element.
+            proxy.trigger(data.name, createEvent(data.event));
+        }
+        else if (data.__zr === 'resize') {
+            zr.resize({
+                width: data.width,
+                height: data.height
+            });
+            zr.refresh();
+        }
+        else if (data.__zr === 'dispose') {
+            zr.dispose();
+            zr = proxy = hovered = lastHovered = null;
+            scope.removeEventListener('message', onMessage);
+        }
+    }
+
+    scope.addEventListener('message', onMessage);
+}
@@ -0,0 +1,136 @@
+/**
+ * Messages between the main thread and the worker in worker rendering mode.
+ * All messages have a `__zr` field of the message type, so they can share
+ * the worker with the messages of application.
+ */
+
+import { ZRRawEvent, ZRRawKeyboardEvent } from '../core/types';
+
+// Handlers of `Handler` driven by the proxy.
+export type PointerEventName = 'click' | 'dblclick' | 'mousewheel' | 'mouseout'
+    | 'mouseup' | 'mousedown' | 'mousemove' | 'contextmenu';
+
+export const POINTER_EVENT_NAMES: PointerEventName[] = [
+    'click', 'dblclick', 'mousewheel', 'mouseout',
+    'mouseup', 'mousedown', 'mousemove', 'contextmenu'
+];
+
+export type KeyboardEventName = 'keydown' | 'keyup';
+
+export const KEYBOARD_EVENT_NAMES: KeyboardEventName[] = ['keydown', 'keyup'];
+
+/**
+ * Fields of the normalized event that can be cloned.
+ */
+export interface SerializedEvent {
+    type: string
+    zrX: number
+    zrY: number
+    zrDelta: number
+    zrByTouch: boolean
+    zrEventControl: 'no_globalout' | 'only_globalout'
+    which: number
+    ctrlKey: boolean
+    shiftKey: boolean
+    altKey: boolean
+    metaKey: boolean
+}
+
+/**
+ * Fields of the keyboard event that can be cloned.
+ */
+export interface SerializedKeyboardEvent {
+    type: string
+    key: string
+    code: string
+    keyCode: number
+    which: number
+    repeat: boolean
+    ctrlKey: boolean
+    shiftKey: boolean
+    altKey: boolean
+    metaKey: boolean
+}
+
+// Main thread to worker.
+export interface InitMessage {
+    __zr: 'init'
+    // OffscreenCanvas transferred from the main thread.
+    canvas: HTMLCanvasElement
+    width: number
+    height: number
+    devicePixelRatio: number
+}
+
+export interface PointerMessage {
+    __zr: 'event'
+    name: PointerEventName
+    event: SerializedEvent
+}
+
+export interface KeyboardMessage {
+    __zr: 'key'
+    name: KeyboardEventName
+    event: SerializedKeyboardEvent
+}
+
+export interface ResizeMessage {
+    __zr: 'resize'
+    width: number
+    height: number
+}
+
+export interface DisposeMessage {
+    __zr: 'dispose'
+}
+
+// Worker to main thread.
+export interface CursorMessage {
+    __zr: 'cursor'
+    cursor: string
+}
+
+export interface HoverMessage {
+    __zr: 'hover'
+    // Hovered target, null if hover nothing.
+    target: {
+        id: number
+        name: string
+    }
+}
+
+export type MainThreadMessage = InitMessage | PointerMessage | KeyboardMessage | ResizeMessage | DisposeMessage;
+export type WorkerMessage = CursorMessage | HoverMessage;
+
+export function serializeEvent(event: ZRRawEvent): SerializedEvent {
+    const e = event as ZRRawEvent & MouseEvent;
+    return {
+        type: e.type,
+        zrX: e.zrX,
+        zrY: e.zrY,
+        zrDelta: e.zrDelta,
+        zrByTouch: e.zrByTouch,
+        zrEventControl: e.zrEventControl,
+        which: e.which,
+        ctrlKey: !!e.ctrlKey,
+        shiftKey: !!e.shiftKey,
+        altKey: !!e.altKey,
+        metaKey: !!e.metaKey
+    };
+}
+
+export function serializeKeyboardEvent(event: ZRRawEvent): SerializedKeyboardEvent {
+    const e = event as ZRRawKeyboardEvent;
+    return {
+        type: e.type,
+        key: e.key,
+        code: e.code,
+        keyCode: e.keyCode,
+        which: e.which,
+        repeat: !!e.repeat,
+        ctrlKey: !!e.ctrlKey,
+        shiftKey: !!e.shiftKey,
+        altKey: !!e.altKey,
+        metaKey: !!e.metaKey
+    };
+}
@@ -10,10 +10,10 @@
 
 import env from './core/env';
 import * as zrUtil from './core/util';
-import Handler from './Handler';
+import Handler, { RegionQueryOption } from './Handler';
 import Storage from './Storage';
 import {PainterBase} from './PainterBase';
-import Animation, {getTime} from './animation/Animation';
+import Animation, {AnimationOption, getTime} from './animation/Animation';
 import HandlerProxy from './dom/HandlerProxy';
 import Element, { ElementEventCallback } from './Element';
 import { Dictionary, ElementEventName, RenderedEvent, WithThisType } from './core/types';
@@ -25,6 +25,10 @@ import Displayable from './graphic/Displayable';
 import { lum } from './tool/color';
 import { DARK_MODE_THRESHOLD } from './config';
 import Group from './graphic/Group';
+import { RectLike } from './core/BoundingRect';
+import { VectorArray } from './core/vector';
+import type CanvasPainter from './canvas/Painter';
+import type SVGPainter from './svg/Painter';
 
 
 type PainterBaseCtor = {
@@ -100,6 +104,9 @@ class ZRender {
         this.id = id;
 
         const storage = new Storage();
+        if (opts.useSpatialIndex) {
+            storage.enableSpatialIndex(true);
+        }
 
         let rendererType = opts.renderer || 'canvas';
 
@@ -128,10 +135,13 @@ class ZRender {
             : null;
         this.handler = new Handler(storage, painter, handerProxy, painter.root);
 
+        const animationOpts = opts.animation || {};
         this.animation = new Animation({
             stage: {
                 update: ssrMode ? null : () => this._flush(true)
-            }
+            },
+            getTime: animationOpts.getTime,
+            scheduler: animationOpts.scheduler
         });
 
         if (!ssrMode) {
@@ -319,6 +329,31 @@ class ZRender {
         this.animation.clear();
     }
 
+    /**
+     * Step the animation with fixed interval and collect the snapshot of each frame.
+     * Snapshot is SVG string in SVG renderer, or data URL of the image in other renderers.
+     */
+    captureFrames(opts: CaptureFramesOpt): string[] {
+        const interval = 1000 / (opts.fps || 30);
+        const count = Math.max(Math.round(opts.duration / interval), 1);
+        const painter = this.painter;
+        const frames: string[] = [];
+        for (let i = 0; i < count; i++) {
+            // Clips are started at the first frame.
+            this.animation.advance(i ? interval : 0);
+            // Not use flush, which updates the animation by the time source.
+            this._flush(true);
+
+            const type = painter.getType();
+            frames.push(
+                type === 'svg' ? (painter as SVGPainter).renderToString({ cssAnimation: false })
+                    : type === 'canvas' ? (painter as CanvasPainter).getRenderedCanvas().toDataURL()
+                    : painter.toDataURL ? painter.toDataURL() : ''
+            );
+        }
+        return frames;
+    }
+
     /**
      * Get container width
      */
@@ -354,6 +389,34 @@ class ZRender {
         return this.handler.findHover(x, y);
     }
 
+    /**
+     * Find elements intersecting with or contained by the rect.
+     */
+    findInRect(rect: RectLike, opts?: RegionQueryOption): Displayable[] {
+        return this.handler.findInRect(rect, opts);
+    }
+
+    /**
+     * Find elements intersecting with or contained by the polygon.
+     */
+    findInPolygon(points: VectorArray[], opts?: RegionQueryOption): Displayable[] {
+        return this.handler.findInPolygon(points, opts);
+    }
+
+    /**
+     * Move keyboard focus to the element. Clear the focus if element is null.
+     */
+    focus(el: Element) {
+        this.handler.focus(el);
+    }
+
+    /**
+     * Get the element focused by keyboard.
+     */
+    getFocused(): Element {
+        return this.handler.getFocused();
+    }
+
     on<Ctx>(eventName: ElementEventName, eventHandler: ElementEventCallback<Ctx, ZRenderType>, context?: Ctx): this
     // eslint-disable-next-line max-len
     on<Ctx>(eventName: string, eventHandler: WithThisType<EventCallback<any[]>, unknown extends Ctx ? ZRenderType : Ctx>, context?: Ctx): this
@@ -425,7 +488,32 @@ export interface ZRenderInitOpt {
     width?: number | string // 10, 10px, 'auto'
     height?: number | string
     useDirtyRect?: boolean
+    /**
+     * Index elements with a uniform grid to speed up hit testing
+     * when there are lots of elements.
+     */
+    useSpatialIndex?: boolean
+    /**
+     * Mirror the elements with aria props or `focusable` to a hidden DOM tree in canvas renderer,
+     * so that they can be read by screen readers and focused by keyboard.
+     * Default to be false.
+     */
+    accessibility?: boolean
     ssr?: boolean   // If enable ssr mode.
+    /**
+     * Time source and frame scheduler of the animation.
+     * Can be replaced in tests or video export.
+     */
+    animation?: Pick<AnimationOption, 'getTime' | 'scheduler'>
+}
+
+export interface CaptureFramesOpt {
+    /**
+     * @default 30
+     */
+    fps?: number
+    // Duration in ms.
+    duration: number
 }
 
 /**
@@ -0,0 +1,91 @@
+import { Rect, Group, ElementEvent } from './zrender';
+import Storage from '../../../src/Storage';
+import Handler from '../../../src/Handler';
+
+function createKeyEvent(key: string, shiftKey?: boolean) {
+    return {
+        key,
+        shiftKey: !!shiftKey,
+        defaultPrevented: false,
+        preventDefault() {
+            this.defaultPrevented = true;
+        },
+        stopPropagation() {}
+    } as any;
+}
+
+describe('Handler keyboard', function () {
+
+    function createScene() {
+        const storage = new Storage();
+        const handler = new Handler(storage, null, null, null);
+        const group = new Group({ focusable: true });
+        const a = new Rect({ z: 2, focusable: true });
+        const b = new Rect({ z: 1, focusable: true });
+        const c = new Rect({ z: 3, focusable: true, tabIndex: 1 });
+        const skipped = new Rect({ focusable: true, tabIndex: -1 });
+        const notFocusable = new Rect();
+        group.add(a);
+        group.add(b);
+        storage.addRoot(group);
+        storage.addRoot(c);
+        storage.addRoot(skipped);
+        storage.addRoot(notFocusable);
+        storage.getDisplayList(true);
+        return { handler, group, a, b, c };
+    }
+
+    it('Should navigate by Tab in tab index and z-order', function () {
+        const { handler, group, a, b, c } = createScene();
+
+        const tab = createKeyEvent('Tab');
+        handler.keydown(tab);
+        expect(handler.getFocused()).toBe(c);
+        expect(tab.defaultPrevented).toBe(true);
+
+        handler.keydown(createKeyEvent('Tab'));
+        expect(handler.getFocused()).toBe(group);
+        handler.keydown(createKeyEvent('Tab'));
+        expect(handler.getFocused()).toBe(b);
+        handler.keydown(createKeyEvent('Tab'));
+        expect(handler.getFocused()).toBe(a);
+
+        // Leave zrender at the end.
+        const lastTab = createKeyEvent('Tab');
+        handler.keydown(lastTab);
+        expect(handler.getFocused()).toBe(null);
+        expect(lastTab.defaultPrevented).toBe(false);
+
+        handler.keydown(createKeyEvent('Tab', true));
+        expect(handler.getFocused()).toBe(a);
+        handler.keydown(createKeyEvent('Tab', true));
+        expect(handler.getFocused()).toBe(b);
+    });
+
+    it('Should dispatch key events to the focused element with bubbling', function () {
+        const { handler, group, a } = createScene();
+        const log: string[] = [];
+        a.on('keydown', function (e: ElementEvent) {
+            log.push('a ' + (e.event as KeyboardEvent).key);
+        });
+        group.on('keydown', function (e: ElementEvent) {
+            log.push('group ' + (e.event as KeyboardEvent).key);
+        });
+        handler.on('keyup', function (e: ElementEvent) {
+            log.push('handler keyup ' + (e.target === a));
+        });
+
+        handler.focus(a);
+        handler.keydown(createKeyEvent('Enter'));
+        handler.keyup(createKeyEvent('Enter'));
+        expect(log).toEqual(['a Enter', 'group Enter', 'handler keyup true']);
+
+        // Navigation can be prevented.
+        a.on('keydown', function (e: ElementEvent) {
+            e.event.preventDefault();
+        });
+        handler.keydown(createKeyEvent('Tab'));
+        expect(handler.getFocused()).toBe(a);
+    });
+
+});
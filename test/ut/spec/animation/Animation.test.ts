@@ -0,0 +1,59 @@
+import { init, registerPainter, Rect } from '../zrender';
+import Animation from '../../../../src/animation/Animation';
+import SVGPainter from '../../../../src/svg/Painter';
+
+registerPainter('svg', SVGPainter);
+
+describe('Animation', function () {
+
+    it('Should use the injected time source and scheduler', function () {
+        let now = 1000;
+        const frames: (() => void)[] = [];
+        const animation = new Animation({
+            getTime: () => now,
+            scheduler: cb => frames.push(cb)
+        });
+        const obj = { x: 0 };
+        animation.animate(obj, {}).when(100, { x: 100 }).start();
+        expect(frames.length).toEqual(1);
+
+        frames.shift()();
+        now += 40;
+        frames.shift()();
+        expect(obj.x).toEqual(40);
+
+        animation.advance(30);
+        expect(obj.x).toEqual(70);
+        // Continue from the advanced time.
+        now += 10;
+        frames.shift()();
+        expect(obj.x).toEqual(80);
+
+        animation.stop();
+    });
+
+    it('Should capture frames', function () {
+        const zr = init(null, {
+            renderer: 'svg',
+            ssr: true,
+            width: 100,
+            height: 100,
+            animation: {
+                getTime: () => 0,
+                scheduler: () => {}
+            }
+        });
+        const rect = new Rect({ shape: { width: 10, height: 10 } });
+        zr.add(rect);
+        rect.animateTo({ x: 90 }, { duration: 1000, easing: 'linear' });
+
+        const frames = zr.captureFrames({ fps: 4, duration: 1000 });
+        expect(frames.length).toEqual(4);
+        expect(frames[0]).toContain('<svg');
+        expect(frames[0]).not.toContain('transform');
+        expect(frames[1]).toContain('translate(22.5 0)');
+        expect(frames[3]).toContain('translate(67.5 0)');
+
+        zr.dispose();
+    });
+});
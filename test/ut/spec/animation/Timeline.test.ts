@@ -0,0 +1,79 @@
+import { Rect, Timeline } from '../zrender';
+import Animation from '../../../../src/animation/Animation';
+
+function createTimeline(opts?: ConstructorParameters<typeof Timeline>[0]) {
+    const rect = new Rect();
+    const timeline = new Timeline(opts);
+    timeline.add(rect.animate('shape').when(0, { x: 0 }).when(100, { x: 100 }))
+        .addLabel('fade')
+        .add(rect.animate('style').when(0, { opacity: 1 }).when(100, { opacity: 0 }), 'fade');
+    return { rect, timeline };
+}
+
+describe('Timeline', function () {
+
+    it('Should seek to time and label', function () {
+        const { rect, timeline } = createTimeline();
+        expect(timeline.getDuration()).toEqual(200);
+        expect(timeline.getLabelTime('fade')).toEqual(100);
+
+        timeline.seek(50);
+        expect(rect.shape.x).toEqual(50);
+        expect(rect.style.opacity).toEqual(1);
+
+        timeline.seek('fade');
+        timeline.seek(150);
+        expect(rect.shape.x).toEqual(100);
+        expect(rect.style.opacity).toEqual(0.5);
+
+        // Scrub backward.
+        timeline.seek(20);
+        expect(rect.shape.x).toEqual(20);
+        expect(rect.style.opacity).toEqual(1);
+    });
+
+    it('Should play with playback rate and reverse', function () {
+        const { rect, timeline } = createTimeline();
+        const labels: string[] = [];
+        let ended = 0;
+        timeline.on('label', name => labels.push(name));
+        timeline.on('end', () => ended++);
+
+        timeline.setPlaybackRate(2);
+        timeline.step(30);
+        expect(rect.shape.x).toEqual(60);
+        timeline.step(30);
+        expect(labels).toEqual(['fade']);
+
+        timeline.step(100);
+        expect(timeline.getTime()).toEqual(200);
+        expect(timeline.isPaused()).toEqual(true);
+        expect(ended).toEqual(1);
+
+        timeline.reverse().setPlaybackRate(1).play();
+        timeline.step(150);
+        expect(rect.shape.x).toEqual(50);
+        expect(labels).toEqual(['fade', 'fade']);
+    });
+
+    it('Should alternate when looping', function () {
+        const { rect, timeline } = createTimeline({ loop: true, alternate: true });
+        let loops = 0;
+        timeline.on('loop', () => loops++);
+        timeline.step(250);
+        expect(loops).toEqual(1);
+        expect(timeline.isReversed()).toEqual(true);
+        expect(timeline.getTime()).toEqual(150);
+        expect(rect.style.opacity).toEqual(0.5);
+    });
+
+    it('Should be driven by animation', function () {
+        const { timeline } = createTimeline();
+        const animation = new Animation();
+        animation.addTimeline(timeline);
+        expect(timeline.animation).toBe(animation);
+
+        animation.removeTimeline(timeline);
+        expect(timeline.animation).toEqual(null);
+    });
+});
@@ -0,0 +1,44 @@
+import { Polyline, Rect } from '../zrender';
+import { sampleMotionPath } from '../../../../src/animation/motionPath';
+
+function createRoute() {
+    return new Polyline({
+        shape: { points: [[0, 0], [100, 0], [100, 100]] }
+    });
+}
+
+describe('motionPath', function () {
+
+    it('Should sample keyframes by arc length', function () {
+        const keyframes = sampleMotionPath({ path: createRoute() });
+        expect(keyframes.map(kf => kf.percent)).toEqual([0, 0.5, 1]);
+        expect(keyframes.map(kf => [kf.x, kf.y])).toEqual([[0, 0], [100, 0], [100, 100]]);
+        expect(keyframes[2].rotation).toBeCloseTo(-Math.PI / 2);
+
+        const reversed = sampleMotionPath({ path: createRoute(), start: 0.75, end: 0.25 });
+        expect(reversed.map(kf => kf.percent)).toEqual([0, 0.5, 1]);
+        expect(reversed.map(kf => [kf.x, kf.y])).toEqual([[100, 50], [100, 0], [50, 0]]);
+        // Keep continuous when turning.
+        expect(reversed[0].rotation).toBeCloseTo(-Math.PI / 2 - Math.PI);
+        expect(reversed[2].rotation).toBeCloseTo(-Math.PI);
+    });
+
+    it('Should move element along path', function () {
+        const rect = new Rect();
+        rect.x = 30;
+        rect.animateTo({}, {
+            duration: 1000,
+            motionPath: { path: createRoute(), autoRotate: true }
+        });
+        expect(rect.animators.length).toEqual(1);
+
+        const clip = rect.animators[0].getClip();
+        clip.setTime(250);
+        expect(rect.x).toBeCloseTo(50);
+        expect(rect.y).toBeCloseTo(0);
+        clip.setTime(750);
+        expect(rect.x).toBeCloseTo(100);
+        expect(rect.y).toBeCloseTo(50);
+        expect(rect.rotation).toBeCloseTo(-Math.PI / 2);
+    });
+});
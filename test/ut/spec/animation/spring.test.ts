@@ -0,0 +1,54 @@
+import { Rect } from '../zrender';
+import Animator from '../../../../src/animation/Animator';
+import { createSpring } from '../../../../src/animation/spring';
+
+describe('spring', function () {
+
+    it('Should settle at the target', function () {
+        [
+            { stiffness: 100, damping: 10 },
+            { stiffness: 100, damping: 20 },
+            { stiffness: 100, damping: 40 }
+        ].forEach(function (opts) {
+            const spring = createSpring(opts, 2);
+            expect(spring.position(0)).toBeCloseTo(0, 6);
+            expect(spring.velocity(0)).toBeCloseTo(2, 6);
+            expect(spring.position(spring.duration / 1000)).toBeCloseTo(1, 2);
+        });
+    });
+
+    it('Should drive animator tracks', function () {
+        const obj = { x: 0 };
+        const animator = new Animator(obj, false)
+            .when(500, { x: 100 })
+            .spring({ stiffness: 200, damping: 10 });
+        animator.start('cubicOut');
+
+        const duration = createSpring({ stiffness: 200, damping: 10 }, 0).duration;
+        expect(animator.getMaxTime()).toEqual(duration);
+
+        animator.getClip().setTime(duration / 4);
+        expect(obj.x).toBeGreaterThan(100);
+        animator.getClip().setTime(duration);
+        expect(obj.x).toEqual(100);
+    });
+
+    it('Should keep velocity when retargeted', function () {
+        const rect = new Rect();
+        rect.animateTo({ x: 100 }, { spring: {} });
+        const animator = rect.animators[0];
+        animator.getClip().setTime(100);
+        const velocity = animator.getVelocity('x');
+        expect(velocity).toBeGreaterThan(0);
+
+        const x = rect.x;
+        rect.animateTo({ x: -100 }, { spring: {} });
+        const newAnimator = rect.animators[rect.animators.length - 1];
+        expect(newAnimator).not.toBe(animator);
+        expect(newAnimator.getVelocity('x')).toBeCloseTo(velocity, 6);
+
+        newAnimator.getClip().setTime(10);
+        // Keep moving forward for a while.
+        expect(rect.x).toBeGreaterThan(x);
+    });
+});
@@ -0,0 +1,137 @@
+import { Circle, Rect, Line, Polyline, Polygon, LinearGradient } from '../zrender';
+import WebGLBatcher, { canBatch } from '../../../../src/canvas/WebGLBatcher';
+import { platformApi, setPlatformAPI } from '../../../../src/core/platform';
+
+type Call = [string, any[]];
+
+/**
+ * Context which records all the calls.
+ */
+function createMockContext(calls: Call[], props?: object): any {
+    const ctx: any = new Proxy(props || {}, {
+        get(target: any, key: string) {
+            if (key in target) {
+                return target[key];
+            }
+            return function () {
+                calls.push([key, Array.prototype.slice.call(arguments)]);
+                return ctx;
+            };
+        }
+    });
+    return ctx;
+}
+
+function getCalls(calls: Call[], name: string) {
+    return calls.filter(call => call[0] === name).map(call => call[1]);
+}
+
+describe('WebGLBatcher', function () {
+
+    it('Should only batch simple shapes with plain color', function () {
+        expect(canBatch(new Circle({ shape: { r: 10 }, style: { fill: 'red' } }))).toBe(true);
+        expect(canBatch(new Rect({ shape: { width: 10, height: 10 } }))).toBe(true);
+        expect(canBatch(new Line({ shape: { x2: 10 } }))).toBe(true);
+        expect(canBatch(new Polyline({
+            shape: { points: [[0, 0], [10, 10]] },
+            style: { lineWidth: 1 }
+        }))).toBe(true);
+
+        expect(canBatch(new Polygon({ shape: { points: [[0, 0], [10, 10], [0, 10]] } }))).toBe(false);
+        expect(canBatch(new Rect({ shape: { width: 10, height: 10, r: 2 } }))).toBe(false);
+        expect(canBatch(new Circle({ style: { fill: new LinearGradient(0, 0, 1, 0, []) } }))).toBe(false);
+        expect(canBatch(new Circle({ style: { shadowBlur: 10, shadowColor: '#000' } }))).toBe(false);
+        expect(canBatch(new Line({ style: { lineDash: [2, 2] } }))).toBe(false);
+        expect(canBatch(new Polyline({
+            shape: { points: [[0, 0], [10, 10]] },
+            style: { lineWidth: 10 }
+        }))).toBe(false);
+        expect(canBatch(new Polyline({
+            shape: { points: [[0, 0], [10, 10]], smooth: 0.5 }
+        }))).toBe(false);
+    });
+
+    it('Should not batch rect with stroke joins not drawn by shader', function () {
+        const shape = { width: 10, height: 10 };
+        expect(canBatch(new Rect({ shape, style: { stroke: 'red', lineWidth: 4 } }))).toBe(true);
+        expect(canBatch(new Rect({ shape, style: { stroke: 'red', lineJoin: 'round' } }))).toBe(true);
+        expect(canBatch(new Rect({ shape, style: { fill: 'red', lineJoin: 'bevel' } }))).toBe(true);
+        expect(canBatch(new Rect({ shape, style: { stroke: 'red', lineJoin: 'bevel' } }))).toBe(false);
+        expect(canBatch(new Rect({ shape, style: { stroke: 'red', miterLimit: 1 } }))).toBe(false);
+    });
+
+    it('Should not batch polyline with translucent joins', function () {
+        const points = [[0, 0], [10, 10], [20, 0]];
+        expect(canBatch(new Polyline({ shape: { points }, style: { stroke: 'red' } }))).toBe(true);
+        expect(canBatch(new Polyline({ shape: { points }, style: { stroke: 'rgba(0,0,0,0.5)' } }))).toBe(false);
+        expect(canBatch(new Polyline({ shape: { points }, style: { stroke: 'red', opacity: 0.5 } }))).toBe(false);
+        expect(canBatch(new Polyline({ shape: { points }, style: { stroke: 'red', strokeOpacity: 0.5 } }))).toBe(false);
+        // No joins.
+        expect(canBatch(new Polyline({
+            shape: { points: points.slice(0, 2) },
+            style: { stroke: 'red', opacity: 0.5 }
+        }))).toBe(true);
+    });
+
+    it('Should not be initialized without WebGL', function () {
+        expect(new WebGLBatcher().init()).toBe(false);
+    });
+
+    it('Should upload instances and composite the covered area', function () {
+        const oldCreateCanvas = platformApi.createCanvas;
+        const glCalls: Call[] = [];
+        setPlatformAPI({
+            createCanvas() {
+                return {
+                    width: 0,
+                    height: 0,
+                    getContext() {
+                        return createMockContext(glCalls);
+                    }
+                } as unknown as HTMLCanvasElement;
+            }
+        });
+        const batcher = new WebGLBatcher();
+        expect(batcher.init()).toBe(true);
+        setPlatformAPI({ createCanvas: oldCreateCanvas });
+
+        const scope = { inHover: false, viewWidth: 200, viewHeight: 100 } as any;
+        const ctxCalls: Call[] = [];
+        const ctx = createMockContext(ctxCalls, { canvas: { width: 400, height: 200 } });
+        batcher.add(new Rect({
+            shape: { x: 10, y: 20, width: 30, height: 40 },
+            style: { fill: 'red', stroke: 'blue', lineWidth: 4 }
+        }), scope, 2);
+        batcher.add(new Rect({
+            shape: { x: 10, y: 20, width: 30, height: 40 },
+            style: { stroke: 'blue', lineJoin: 'round', opacity: 0.5 }
+        }), scope, 2);
+        batcher.flush(ctx, scope);
+
+        const data = Array.prototype.slice.call(getCalls(glCalls, 'bufferData').pop()[1]);
+        expect(data).toEqual([
+            // type, transform, shape
+            1, 2, 0, 0, 0, 2, 0, 10, 20, 30, 40,
+            // fill, stroke, lineWidth, miter join
+            1, 0, 0, 1, 0, 0, 1, 1, 4, 0,
+            1, 2, 0, 0, 0, 2, 0, 10, 20, 30, 40,
+            // Default black fill, round join
+            0, 0, 0, 0.5, 0, 0, 1, 0.5, 1, 1
+        ]);
+        expect(getCalls(glCalls, 'drawArraysInstancedANGLE').pop()[3]).toEqual(2);
+
+        // Rect expanded by line width and one pixel: [11, 31] to [89, 129]
+        expect(getCalls(glCalls, 'scissor')).toEqual([[11, 200 - 129, 78, 98]]);
+        const drawImageArgs = getCalls(ctxCalls, 'drawImage')[0];
+        expect(drawImageArgs.slice(1)).toEqual([11, 31, 78, 98, 11, 31, 78, 98]);
+
+        // Nothing is composited for the instances out of the canvas.
+        batcher.add(new Rect({
+            shape: { x: -100, y: -100, width: 10, height: 10 },
+            style: { fill: 'red' }
+        }), scope, 2);
+        batcher.flush(ctx, scope);
+        expect(getCalls(ctxCalls, 'drawImage').length).toEqual(1);
+    });
+
+});
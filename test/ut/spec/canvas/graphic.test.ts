@@ -0,0 +1,40 @@
+import { init, registerPainter, Rect } from '../zrender';
+import RasterPainter from '../../../../src/raster/Painter';
+import RasterContext from '../../../../src/raster/RasterContext';
+import { brush, BrushScope } from '../../../../src/canvas/graphic';
+
+registerPainter('raster', RasterPainter);
+
+function getAlpha(imageData: { width: number, data: ArrayLike<number> }, x: number, y: number) {
+    return imageData.data[(y * imageData.width + x) * 4 + 3];
+}
+
+function createFilteredRect() {
+    return new Rect({
+        shape: { x: 5, y: 5, width: 10, height: 10 },
+        style: { fill: '#f00', filter: 'blur(2px)' }
+    });
+}
+
+describe('canvas/graphic', function () {
+
+    it('Should brush without filter if context has no canvas', function () {
+        const zr = init(null, { renderer: 'raster', width: 20, height: 20 });
+        zr.add(createFilteredRect());
+        const imageData = (zr.painter as RasterPainter).renderToImageData();
+        expect(getAlpha(imageData, 10, 10)).toBe(255);
+        expect(getAlpha(imageData, 2, 2)).toBe(0);
+        zr.dispose();
+    });
+
+    it('Should brush without filter if offscreen canvas is not supported', function () {
+        const ctx = new RasterContext(20, 20);
+        (ctx as any).canvas = { width: 20, height: 20 };
+        const rect = createFilteredRect();
+        rect.updateTransform();
+        const scope: BrushScope = { inHover: false, viewWidth: 20, viewHeight: 20 };
+        brush(ctx as unknown as CanvasRenderingContext2D, rect, scope, true);
+        expect(getAlpha(ctx, 10, 10)).toBe(255);
+        expect(rect.__isRendered).toBe(true);
+    });
+});
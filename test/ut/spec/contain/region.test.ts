@@ -0,0 +1,78 @@
+import { Rect, Circle, Polyline, Group } from '../zrender';
+import Storage from '../../../../src/Storage';
+import Handler from '../../../../src/Handler';
+
+function createHandler(elements: Group) {
+    const storage = new Storage();
+    storage.addRoot(elements);
+    storage.getDisplayList(true);
+    return new Handler(storage, null, null, null);
+}
+
+describe('contain/region', function () {
+
+    it('Should find elements intersecting with or contained by the rect', function () {
+        const group = new Group();
+        const a = new Rect({ shape: { x: 0, y: 0, width: 10, height: 10 }, style: { fill: '#000' } });
+        const b = new Rect({ shape: { x: 20, y: 0, width: 10, height: 10 }, style: { fill: '#000' } });
+        const c = new Rect({
+            shape: { x: 0, y: 0, width: 10, height: 10 },
+            style: { fill: '#000' },
+            x: 100,
+            silent: true
+        });
+        group.add(a);
+        group.add(b);
+        group.add(c);
+        const handler = createHandler(group);
+
+        const rect = { x: 5, y: 5, width: 20, height: 20 };
+        expect(handler.findInRect(rect)).toEqual([a, b]);
+        expect(handler.findInRect(rect, { mode: 'contain' })).toEqual([]);
+        expect(handler.findInRect({ x: -1, y: -1, width: 12, height: 12 }, { mode: 'contain' })).toEqual([a]);
+        expect(handler.findInRect({ x: 95, y: 0, width: 10, height: 10 })).toEqual([]);
+        expect(handler.findInRect({ x: 95, y: 0, width: 10, height: 10 }, { includeSilent: true })).toEqual([c]);
+    });
+
+    it('Should use the exact geometry in polygon', function () {
+        const group = new Group();
+        const circle = new Circle({ shape: { cx: 50, cy: 50, r: 50 }, style: { fill: '#000' } });
+        const line = new Polyline({
+            shape: { points: [[200, 0], [300, 100], [400, 0]] },
+            style: { stroke: '#000' }
+        });
+        group.add(circle);
+        group.add(line);
+        const handler = createHandler(group);
+
+        // Corner of the bounding rect, outside the circle.
+        const corner = [[0, 0], [10, 0], [0, 10]];
+        expect(handler.findInPolygon(corner)).toEqual([circle]);
+        expect(handler.findInPolygon(corner, { exact: true })).toEqual([]);
+
+        // Inside the polyline bounding rect, but not touching the segments.
+        const between = [[280, 5], [320, 5], [300, 30]];
+        expect(handler.findInPolygon(between)).toEqual([line]);
+        expect(handler.findInPolygon(between, { exact: true })).toEqual([]);
+        expect(handler.findInPolygon([[280, 70], [320, 70], [300, 120]], { exact: true })).toEqual([line]);
+
+        // Region inside the circle.
+        expect(handler.findInPolygon([[40, 40], [60, 40], [50, 60]], { exact: true })).toEqual([circle]);
+    });
+
+    it('Should respect transforms and clip paths', function () {
+        const group = new Group({ x: 100, y: 100 });
+        const rect = new Rect({ shape: { x: 0, y: 0, width: 100, height: 100 }, style: { fill: '#000' } });
+        rect.setClipPath(new Rect({ shape: { x: 0, y: 0, width: 20, height: 20 } }));
+        group.add(rect);
+        const handler = createHandler(group);
+
+        expect(handler.findInRect({ x: 0, y: 0, width: 50, height: 50 })).toEqual([]);
+        expect(handler.findInRect({ x: 110, y: 110, width: 5, height: 5 })).toEqual([rect]);
+        // Clipped out.
+        expect(handler.findInRect({ x: 150, y: 150, width: 10, height: 10 })).toEqual([]);
+        // Visible part is contained.
+        expect(handler.findInRect({ x: 90, y: 90, width: 40, height: 40 }, { mode: 'contain' })).toEqual([rect]);
+    });
+
+});
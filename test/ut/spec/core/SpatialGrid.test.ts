@@ -0,0 +1,90 @@
+import { Rect, Circle, Group } from '../zrender';
+import Storage from '../../../../src/Storage';
+import Handler from '../../../../src/Handler';
+import Displayable from '../../../../src/graphic/Displayable';
+
+function createScene(storage: Storage) {
+    const group = new Group();
+    for (let i = 0; i < 20; i++) {
+        for (let k = 0; k < 20; k++) {
+            group.add(new Circle({
+                shape: { cx: i * 30, cy: k * 30, r: 20 },
+                style: { fill: '#000' },
+                z: (i + k) % 3,
+                silent: (i * k) % 7 === 1
+            }));
+        }
+    }
+    const clipped = new Rect({
+        shape: { x: 100, y: 100, width: 200, height: 200 },
+        style: { fill: '#f00' },
+        z: 10
+    });
+    clipped.setClipPath(new Circle({
+        shape: { cx: 200, cy: 200, r: 50 }
+    }));
+    group.add(clipped);
+    // Large element covers many cells.
+    group.add(new Rect({
+        shape: { x: -100, y: -100, width: 2000, height: 2000 },
+        style: { fill: '#eee' },
+        z: -1
+    }));
+    storage.addRoot(group);
+    return group;
+}
+
+function findAll(handler: Handler) {
+    const res: Displayable[] = [];
+    for (let x = -10; x < 620; x += 7) {
+        for (let y = -10; y < 620; y += 7) {
+            const hovered = handler.findHover(x, y);
+            res.push(hovered.target, hovered.topTarget);
+        }
+    }
+    return res;
+}
+
+describe('SpatialGrid', function () {
+
+    it('Should find the same hover targets as scanning the display list', function () {
+        const storage = new Storage();
+        createScene(storage);
+        const handler = new Handler(storage, null, null, null);
+
+        storage.getDisplayList(true);
+        const expected = findAll(handler);
+
+        storage.enableSpatialIndex(true, 50);
+        storage.getDisplayList(true);
+        expect(findAll(handler)).toEqual(expected);
+    });
+
+    it('Should update the index of dirty and removed elements', function () {
+        const storage = new Storage();
+        storage.enableSpatialIndex(true);
+        const handler = new Handler(storage, null, null, null);
+        const rect = new Rect({
+            shape: { x: 0, y: 0, width: 10, height: 10 }
+        });
+        const circle = new Circle({
+            shape: { cx: 500, cy: 500, r: 10 }
+        });
+        const group = new Group();
+        group.add(rect);
+        group.add(circle);
+        storage.addRoot(group);
+
+        storage.getDisplayList(true);
+        expect(handler.findHover(5, 5).target).toBe(rect);
+        expect(handler.findHover(505, 505).target).toBe(circle);
+
+        rect.attr('x', 300);
+        group.remove(circle);
+        storage.getDisplayList(true);
+        expect(handler.findHover(5, 5).target).toBeUndefined();
+        expect(handler.findHover(305, 5).target).toBe(rect);
+        expect(handler.findHover(505, 505).target).toBeUndefined();
+    });
+
+});
@@ -0,0 +1,57 @@
+import {
+    registerFontMetrics,
+    unregisterFontMetrics,
+    parseFont
+} from '../../../../src/core/fontMetrics';
+import { platformApi } from '../../../../src/core/platform';
+import { getWidth } from '../../../../src/contain/text';
+
+describe('fontMetrics', function () {
+
+    afterEach(function () {
+        unregisterFontMetrics('Test Font');
+    });
+
+    it('Should parse css font shorthand', function () {
+        const font = parseFont('italic bold 14px/1.5 "Test Font", sans-serif', 12);
+        expect(font.style).toBe('italic');
+        expect(font.weight).toBe(700);
+        expect(font.size).toBe(14);
+        expect(font.families).toEqual(['test font', 'sans-serif']);
+
+        expect(parseFont('9pt serif', 12).size).toBe(12);
+        expect(parseFont('', 12).size).toBe(12);
+    });
+
+    it('Should use font size in the default width table', function () {
+        expect(platformApi.measureText('a', '24px sans-serif').width)
+            .toBe(platformApi.measureText('a', '12px sans-serif').width * 2);
+    });
+
+    it('Should measure with registered metrics', function () {
+        registerFontMetrics('Test Font', {
+            unitsPerEm: 1000,
+            advances: { a: 500 },
+            ranges: [[0x4e00, 0x9fff, 1000]],
+            defaultAdvance: 600
+        });
+        expect(platformApi.measureText('a', '10px "Test Font", sans-serif').width).toBe(5);
+        expect(platformApi.measureText('国', '10px "Test Font"').width).toBe(10);
+        expect(platformApi.measureText('b', '10px "Test Font"').width).toBe(6);
+    });
+
+    it('Should pick the closest weight', function () {
+        registerFontMetrics('Test Font', { advances: { a: 0.5 } });
+        registerFontMetrics('Test Font', { advances: { a: 0.6 } }, { weight: 'bold' });
+        expect(platformApi.measureText('a', '10px "Test Font"').width).toBe(5);
+        expect(platformApi.measureText('a', 'bold 10px "Test Font"').width).toBe(6);
+        expect(platformApi.measureText('a', '600 10px "Test Font"').width).toBe(6);
+    });
+
+    it('Should invalidate cached text width after registering', function () {
+        registerFontMetrics('Test Font', { advances: { a: 0.5 } });
+        expect(getWidth('aa', '10px "Test Font"')).toBe(10);
+        registerFontMetrics('Test Font', { advances: { a: 1 } });
+        expect(getWidth('aa', '10px "Test Font"')).toBe(20);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment jsdom
+ */
+import { init, registerPainter, Rect, ZRenderType } from '../zrender';
+import CanvasPainter from '../../../../src/canvas/Painter';
+import SVGPainter from '../../../../src/svg/Painter';
+
+registerPainter('canvas', CanvasPainter);
+registerPainter('svg', SVGPainter);
+
+function createMockContext(): any {
+    return new Proxy({}, {
+        get(target: any, key) {
+            return key in target ? target[key] : function () {};
+        },
+        set(target: any, key, value) {
+            target[key] = value;
+            return true;
+        }
+    });
+}
+
+function keydown(dom: Element, key: string) {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+    dom.dispatchEvent(event);
+    return event;
+}
+
+describe('HandlerProxy keyboard', function () {
+
+    const canvasProto = HTMLCanvasElement.prototype as any;
+    const oldGetContext = canvasProto.getContext;
+    let dom: HTMLElement;
+    let zr: ZRenderType;
+
+    beforeAll(function () {
+        canvasProto.getContext = createMockContext;
+    });
+
+    afterAll(function () {
+        canvasProto.getContext = oldGetContext;
+    });
+
+    beforeEach(function () {
+        dom = document.createElement('div');
+        document.body.appendChild(dom);
+    });
+
+    afterEach(function () {
+        zr && zr.dispose();
+        zr = null;
+        document.body.removeChild(dom);
+    });
+
+    function createRects() {
+        const a = new Rect({ focusable: true, shape: { width: 10, height: 10 } });
+        const b = new Rect({ focusable: true, shape: { x: 20, width: 10, height: 10 } });
+        zr.add(a);
+        zr.add(b);
+        zr.refreshImmediately();
+        return { a, b };
+    }
+
+    it('Should make canvas root focusable to receive key events', function () {
+        zr = init(dom, { renderer: 'canvas', width: 100, height: 100 });
+        const root = zr.painter.getViewportRoot();
+        zr.refreshImmediately();
+        expect(root.hasAttribute('tabindex')).toBe(false);
+
+        const { a, b } = createRects();
+        expect(root.getAttribute('tabindex')).toBe('0');
+
+        const keys: string[] = [];
+        b.on('keydown', function (e) {
+            keys.push((e.event as unknown as KeyboardEvent).key);
+        });
+
+        root.focus();
+        expect(keydown(root, 'Tab').defaultPrevented).toBe(true);
+        expect(zr.getFocused()).toBe(a);
+        keydown(root, 'Tab');
+        expect(zr.getFocused()).toBe(b);
+        keydown(root, 'Enter');
+        expect(keys).toEqual(['Enter']);
+
+        // Blur if DOM focus leaves.
+        const input = document.createElement('input');
+        document.body.appendChild(input);
+        input.focus();
+        expect(zr.getFocused()).toBe(null);
+        document.body.removeChild(input);
+
+        zr.remove(a);
+        zr.remove(b);
+        zr.refreshImmediately();
+        expect(root.hasAttribute('tabindex')).toBe(false);
+    });
+
+    it('Should only redraw focus ring when it moves', function () {
+        zr = init(dom, { renderer: 'canvas', width: 100, height: 100 });
+        const { a } = createRects();
+        zr.focus(a);
+        const painter = zr.painter as CanvasPainter;
+        const spy = jest.spyOn(painter, 'refreshHover');
+        zr.refreshImmediately();
+        expect(spy).not.toHaveBeenCalled();
+        a.attr('x', 5);
+        zr.refreshImmediately();
+        expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('Should keep focus in single canvas mode', function () {
+        const canvas = document.createElement('canvas');
+        zr = init(canvas, { renderer: 'canvas', width: 100, height: 100 });
+        const { a } = createRects();
+        zr.focus(a);
+        expect((zr.painter as any)._focusedEl).toBe(a);
+    });
+
+    it('Should sync focus with the svg nodes', function () {
+        zr = init(dom, { renderer: 'svg', width: 100, height: 100 });
+        const { a, b } = createRects();
+        const nodes = dom.querySelectorAll('[tabindex]');
+        expect(nodes.length).toBe(2);
+        expect(zr.painter.getViewportRoot().hasAttribute('tabindex')).toBe(false);
+
+        (nodes[0] as SVGElement).focus();
+        expect(zr.getFocused()).toBe(a);
+
+        expect(keydown(nodes[0], 'Tab').defaultPrevented).toBe(true);
+        expect(zr.getFocused()).toBe(b);
+        expect(document.activeElement).toBe(nodes[1]);
+
+        // Leave zrender at the end.
+        expect(keydown(nodes[1], 'Tab').defaultPrevented).toBe(false);
+        expect(zr.getFocused()).toBe(null);
+    });
+});
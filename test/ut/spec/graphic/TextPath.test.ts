@@ -0,0 +1,62 @@
+import { TextPath, Line } from '../zrender';
+import { getWidth } from '../../../../src/contain/text';
+import { DEFAULT_FONT } from '../../../../src/core/platform';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+import { TextPathStyleProps } from '../../../../src/graphic/TextPath';
+
+function createTextPath(style: TextPathStyleProps) {
+    return new TextPath({
+        style: Object.assign({ text: 'ab', fill: '#000' }, style),
+        path: new Line({ shape: { x1: 0, y1: 0, x2: 100, y2: 0 } })
+    });
+}
+
+describe('TextPath', function () {
+    const widthA = getWidth('a', DEFAULT_FONT);
+    const widthB = getWidth('b', DEFAULT_FONT);
+
+    it('Should lay glyphs along path', function () {
+        const glyphs = createTextPath({ startOffset: 10 }).getGlyphs();
+        expect(glyphs.length).toEqual(2);
+        expect(glyphs[0].text).toEqual('a');
+        expect(glyphs[0].x).toBeCloseTo(10 + widthA / 2, 5);
+        expect(glyphs[1].x).toBeCloseTo(10 + widthA + widthB / 2, 5);
+        expect(glyphs[1].y).toBeCloseTo(0, 5);
+        expect(glyphs[1].rotation).toBeCloseTo(0, 5);
+
+        const centered = createTextPath({ startOffset: '50%', textAlign: 'center' }).getGlyphs();
+        expect(centered[0].x).toBeCloseTo(50 - (widthA + widthB) / 2 + widthA / 2, 5);
+        const ended = createTextPath({ startOffset: '100%', textAlign: 'right' }).getGlyphs();
+        expect(ended[1].x).toBeCloseTo(100 - widthB / 2, 5);
+
+        // Glyph out of the path is not laid.
+        const clipped = createTextPath({ startOffset: 101 - widthA / 2 }).getGlyphs();
+        expect(clipped.length).toEqual(0);
+    });
+
+    it('Should lay glyphs on the right side', function () {
+        const glyphs = createTextPath({ side: 'right' }).getGlyphs();
+        expect(glyphs[0].x).toBeCloseTo(100 - widthA / 2, 5);
+        expect(Math.abs(glyphs[0].rotation)).toBeCloseTo(Math.PI, 5);
+
+        const rect = createTextPath({ side: 'right' }).getBoundingRect();
+        expect(rect.x).toBeCloseTo(100 - widthA - widthB, 5);
+        expect(rect.width).toBeCloseTo(widthA + widthB, 5);
+    });
+
+    it('Should render textPath in SVG', function () {
+        const scope = createBrushScope('zr0');
+        const textPath = createTextPath({ startOffset: '50%', textAlign: 'center' });
+        const str = vNodeToString(brush(textPath, scope));
+        expect(str).toContain('<textPath href="#zr0-tp0" text-anchor="middle" startOffset="50%">ab</textPath>');
+        expect(vNodeToString(scope.defs['zr0-tp0'])).toEqual('<path id="zr0-tp0" d="M0 0L100 0"></path>');
+
+        // Path with the same data is reused.
+        brush(createTextPath({}), scope);
+        expect(scope.textPathIdx).toEqual(1);
+
+        brush(createTextPath({ side: 'right' }), scope);
+        expect(vNodeToString(scope.defs['zr0-tp1'])).toMatch(/^<path id="zr0-tp1" d="M100 0C/);
+    });
+});
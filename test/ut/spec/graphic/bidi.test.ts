@@ -0,0 +1,66 @@
+import { TSpan } from '../zrender';
+import { getBidiLevels, getVisualOrder, getTextDirection } from '../../../../src/graphic/helper/bidi';
+import { parseRichText, parsePlainText } from '../../../../src/graphic/helper/parseText';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+
+const HEBREW = 'שלום';
+
+describe('bidi', function () {
+
+    it('Should resolve levels and visual order', function () {
+        expect(getTextDirection('12 ' + HEBREW + ' ab')).toEqual('rtl');
+        expect(getTextDirection('12 ab')).toEqual('ltr');
+        expect(getTextDirection('12 ')).toEqual(null);
+
+        const levels = getBidiLevels('ab אב 12', false);
+        expect(levels).toEqual([0, 0, 0, 1, 1, 1, 2, 2]);
+        expect(getVisualOrder(levels)).toEqual([0, 1, 2, 6, 7, 5, 4, 3]);
+
+        // Trailing whitespace is at base level.
+        expect(getBidiLevels('ab ', true)).toEqual([2, 2, 1]);
+    });
+
+    it('Should reorder rich text tokens', function () {
+        const block = parseRichText('{a|' + HEBREW + '} {b|world}', {
+            rich: { a: {}, b: {} },
+            font: '12px sans-serif',
+            direction: 'auto',
+            align: 'start'
+        });
+        expect(block.direction).toEqual('rtl');
+        const tokens = block.lines[0].tokens;
+        expect(tokens.map(token => token.text)).toEqual(['world', ' ', HEBREW]);
+        expect(tokens.map(token => token.direction)).toEqual(['ltr', 'rtl', 'rtl']);
+        expect(tokens[0].align).toEqual('right');
+
+        // Keep logical order if direction is not specified.
+        const ltrBlock = parseRichText('{a|' + HEBREW + '} {b|world}', {
+            rich: { a: {}, b: {} },
+            font: '12px sans-serif'
+        });
+        expect(ltrBlock.lines[0].tokens[0].text).toEqual(HEBREW);
+        expect(ltrBlock.lines[0].tokens[0].direction).toEqual(undefined);
+    });
+
+    it('Should put ellipsis on the logical end', function () {
+        const block = parsePlainText(HEBREW + ' ' + HEBREW + ' ' + HEBREW, {
+            font: '12px sans-serif',
+            direction: 'rtl',
+            overflow: 'truncate',
+            width: 80
+        });
+        expect(block.direction).toEqual('rtl');
+        expect(block.lines[0].indexOf(HEBREW)).toEqual(0);
+        expect(block.lines[0]).toMatch(/\.\.\.$/);
+    });
+
+    it('Should render direction in SVG', function () {
+        const tspan = new TSpan({
+            style: { text: HEBREW, direction: 'rtl', textAlign: 'left' }
+        });
+        const str = vNodeToString(brush(tspan, createBrushScope('zr0')));
+        expect(str).toContain('text-anchor="end"');
+        expect(str).toContain('direction="rtl"');
+    });
+});
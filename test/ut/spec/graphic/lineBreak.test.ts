@@ -0,0 +1,54 @@
+import {
+    splitGraphemes, sliceGraphemes, splitLineBreakUnits
+} from '../../../../src/graphic/helper/lineBreak';
+import { parsePlainText, truncateText } from '../../../../src/graphic/helper/parseText';
+
+const FAMILY = '👨‍👩‍👧';
+const FLAG = '🇨🇳';
+
+describe('lineBreak', function () {
+
+    it('Should split graphemes', function () {
+        expect(splitGraphemes('éa' + FAMILY + FLAG + FLAG)).toEqual(['é', 'a', FAMILY, FLAG, FLAG]);
+        // Thai vowel mark.
+        expect(splitGraphemes('กิน')).toEqual(['กิ', 'น']);
+        expect(splitGraphemes('a\r\nb')).toEqual(['a', '\r\n', 'b']);
+        expect(sliceGraphemes('a' + FAMILY, 3)).toEqual('a');
+        expect(sliceGraphemes('a' + FAMILY, 10)).toEqual('a' + FAMILY);
+    });
+
+    it('Should find line break opportunities', function () {
+        expect(splitLineBreakUnits('Hello world, (foo) bar')).toEqual(['Hello ', 'world, ', '(foo) ', 'bar']);
+        expect(splitLineBreakUnits('1.5 -2 a/b')).toEqual(['1.5 ', '-2 ', 'a/', 'b']);
+        // Kinsoku
+        expect(splitLineBreakUnits('中文，「测试」。')).toEqual(['中', '文，', '「测', '试」。']);
+        expect(splitLineBreakUnits('データ')).toEqual(['デー', 'タ']);
+        expect(splitLineBreakUnits('ab' + FAMILY)).toEqual(['ab', FAMILY]);
+        expect(splitLineBreakUnits('ab (c)', true)).toEqual(['a', 'b ', '(c)']);
+    });
+
+    it('Should wrap text without bad breaks', function () {
+        const font = '12px sans-serif';
+        expect(parsePlainText('中文，测试', {
+            font, overflow: 'break', width: 24
+        }).lines).toEqual(['中', '文，', '测试']);
+
+        // Closing bracket is kept at the end of line even if the word is force broken.
+        expect(parsePlainText('ab)', {
+            font, overflow: 'break', width: 10
+        }).lines).toEqual(['a', 'b)']);
+
+        // Emoji sequence is not split.
+        const lines = parsePlainText(FAMILY + FAMILY, {
+            font, overflow: 'break', width: 1
+        }).lines;
+        expect(lines).toEqual([FAMILY, FAMILY]);
+    });
+
+    it('Should not split graphemes when truncating', function () {
+        const text = truncateText('ab' + FAMILY + FAMILY + FAMILY, 40, '12px sans-serif', '', {});
+        expect(splitGraphemes(text).every(
+            grapheme => grapheme.length === 1 || grapheme === FAMILY
+        )).toEqual(true);
+    });
+});
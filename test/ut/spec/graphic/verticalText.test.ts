@@ -0,0 +1,80 @@
+import { Text, TSpan } from '../zrender';
+import { getVerticalTextRuns } from '../../../../src/graphic/helper/verticalText';
+import { getWidth } from '../../../../src/contain/text';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+
+const FONT = '12px sans-serif';
+
+function getColumns(text: Text) {
+    text.update();
+    return text.childrenRef().filter(child => child instanceof TSpan) as TSpan[];
+}
+
+describe('verticalText', function () {
+
+    it('Should keep CJK upright and rotate Latin runs', function () {
+        const runs = getVerticalTextRuns('中文ab「c」', FONT);
+        expect(runs.map(run => run.text)).toEqual(['中', '文', 'ab「c」']);
+        expect(runs.map(run => run.upright)).toEqual([true, true, false]);
+        expect(runs[0].advance).toEqual(getWidth('国', FONT));
+        expect(runs[2].advance).toEqual(getWidth('ab「c」', FONT));
+    });
+
+    it('Should order columns from right to left', function () {
+        const columns = getColumns(new Text({
+            style: {
+                text: '中文\n测试',
+                font: FONT,
+                lineHeight: 20,
+                writingMode: 'vertical',
+                padding: [1, 2, 3, 4]
+            }
+        }));
+        expect(columns.length).toEqual(2);
+        expect(columns[0].style.text).toEqual('中文');
+        expect(columns[0].style.writingMode).toEqual('vertical');
+        expect(columns[0].style.x).toEqual(4 + 30);
+        expect(columns[1].style.x).toEqual(4 + 10);
+        expect(columns[0].style.y).toEqual(1);
+        expect(columns[0].style.textAlign).toEqual('left');
+
+        const rect = columns[0].getBoundingRect();
+        expect(rect.x).toEqual(34 - 6);
+        expect(rect.y).toEqual(1);
+        expect(rect.height).toEqual(24);
+    });
+
+    it('Should break columns by height', function () {
+        const columns = getColumns(new Text({
+            style: {
+                text: '中文测试',
+                font: FONT,
+                writingMode: 'vertical',
+                overflow: 'break',
+                height: 24
+            }
+        }));
+        expect(columns.map(column => column.style.text)).toEqual(['中文', '测试']);
+
+        const truncated = getColumns(new Text({
+            style: {
+                text: '中文测试',
+                font: FONT,
+                writingMode: 'vertical',
+                overflow: 'truncate',
+                height: 40
+            }
+        }));
+        expect(truncated[0].style.text).toEqual('中文...');
+    });
+
+    it('Should render writing-mode in SVG', function () {
+        const tspan = new TSpan({
+            style: { text: '中文', writingMode: 'vertical', x: 10, y: 20 }
+        });
+        const str = vNodeToString(brush(tspan, createBrushScope('zr0')));
+        expect(str).toContain('writing-mode="vertical-rl"');
+        expect(str).toContain('x="10" y="20"');
+    });
+});
@@ -0,0 +1,93 @@
+import { init, Rect, Circle, LinearGradient } from '../zrender';
+// Painter is registered by the entry.
+import '../../../../src/raster/raster';
+import type { RasterPainter } from '../../../../src/raster/raster';
+
+function getPixel(imageData: { width: number, data: ArrayLike<number> }, x: number, y: number) {
+    const idx = (y * imageData.width + x) * 4;
+    const data = imageData.data;
+    return [data[idx], data[idx + 1], data[idx + 2], data[idx + 3]];
+}
+
+describe('RasterPainter', function () {
+
+    it('Should fill paths into the pixel buffer', function () {
+        const zr = init(null, { renderer: 'raster', width: 20, height: 20 });
+        zr.add(new Rect({
+            shape: { x: 5, y: 5, width: 10, height: 10 },
+            style: { fill: '#f00' }
+        }));
+        const painter = zr.painter as RasterPainter;
+        const imageData = painter.renderToImageData();
+
+        expect(imageData.width).toBe(20);
+        expect(getPixel(imageData, 10, 10)).toEqual([255, 0, 0, 255]);
+        expect(getPixel(imageData, 2, 2)[3]).toBe(0);
+
+        zr.dispose();
+    });
+
+    it('Should anti-alias the edges', function () {
+        const zr = init(null, { renderer: 'raster', width: 20, height: 20 });
+        zr.add(new Rect({
+            shape: { x: 5.5, y: 5, width: 10, height: 10 },
+            style: { fill: '#000' }
+        }));
+        const imageData = (zr.painter as RasterPainter).renderToImageData();
+        const alpha = getPixel(imageData, 5, 10)[3];
+        expect(alpha).toBeGreaterThan(100);
+        expect(alpha).toBeLessThan(155);
+
+        zr.dispose();
+    });
+
+    it('Should stroke, respect transform and draw background', function () {
+        const zr = init(null, { renderer: 'raster', width: 40, height: 40 });
+        zr.setBackgroundColor('#fff');
+        zr.add(new Circle({
+            x: 20,
+            y: 20,
+            scaleX: 2,
+            scaleY: 2,
+            shape: { cx: 0, cy: 0, r: 5 },
+            style: { fill: 'none', stroke: '#00f', lineWidth: 1 }
+        }));
+        const imageData = (zr.painter as RasterPainter).renderToImageData();
+        // Stroke is scaled to 2px wide on radius 10.
+        const strokePixel = getPixel(imageData, 29, 20);
+        expect(strokePixel[0]).toBeLessThan(10);
+        expect(strokePixel[2]).toBe(255);
+        expect(getPixel(imageData, 20, 20)).toEqual([255, 255, 255, 255]);
+        expect(getPixel(imageData, 0, 0)).toEqual([255, 255, 255, 255]);
+
+        zr.dispose();
+    });
+
+    it('Should fill gradient', function () {
+        const zr = init(null, { renderer: 'raster', width: 100, height: 10 });
+        zr.add(new Rect({
+            shape: { x: 0, y: 0, width: 100, height: 10 },
+            style: {
+                fill: new LinearGradient(0, 0, 1, 0, [
+                    { offset: 0, color: '#000' },
+                    { offset: 1, color: '#fff' }
+                ])
+            }
+        }));
+        const imageData = (zr.painter as RasterPainter).renderToImageData();
+        expect(getPixel(imageData, 0, 5)[0]).toBeLessThan(10);
+        expect(getPixel(imageData, 99, 5)[0]).toBeGreaterThan(245);
+        expect(Math.abs(getPixel(imageData, 50, 5)[0] - 128)).toBeLessThan(5);
+
+        zr.dispose();
+    });
+
+    it('Should encode PNG', function () {
+        const zr = init(null, { renderer: 'raster', width: 4, height: 4 });
+        const png = (zr.painter as RasterPainter).renderToPNG();
+        expect(Array.prototype.slice.call(png, 0, 8)).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        expect((zr.painter as RasterPainter).toDataURL().indexOf('data:image/png;base64,')).toBe(0);
+
+        zr.dispose();
+    });
+});
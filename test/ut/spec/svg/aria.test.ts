@@ -0,0 +1,96 @@
+import { Rect, Text, Group } from '../zrender';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+import Storage from '../../../../src/Storage';
+import Handler from '../../../../src/Handler';
+
+describe('aria', function () {
+
+    it('Should emit role, aria-label, title and desc in svg', function () {
+        const rect = new Rect({
+            shape: { width: 10, height: 10 },
+            ariaLabel: 'Bar',
+            ariaDescription: 'Value 10'
+        });
+        rect.updateTransform();
+        const str = vNodeToString(brush(rect, createBrushScope('zr0')));
+        expect(str).toContain('role="img"');
+        expect(str).toContain('aria-label="Bar"');
+        expect(str).toContain('aria-description="Value 10"');
+        expect(str).toContain('<title >Bar</title>');
+        expect(str).toContain('<desc >Value 10</desc>');
+
+        const plain = new Rect({ shape: { width: 10, height: 10 } });
+        plain.updateTransform();
+        expect(vNodeToString(brush(plain, createBrushScope('zr0')))).not.toContain('role');
+    });
+
+    it('Should emit tabindex of focusable element in svg', function () {
+        const rect = new Rect({ shape: { width: 10, height: 10 }, focusable: true, tabIndex: 2 });
+        rect.updateTransform();
+        expect(vNodeToString(brush(rect, createBrushScope('zr0')))).toContain('tabindex="2"');
+
+        const text = new Text({ style: { text: 'a' }, focusable: true });
+        text.update();
+        const tspan = text.childrenRef()[0];
+        tspan.updateTransform();
+        expect(vNodeToString(brush(tspan, createBrushScope('zr0')))).toContain('tabindex="0"');
+    });
+
+    it('Should take the aria props of text on the first tspan', function () {
+        const text = new Text({
+            style: { text: 'a\nb' },
+            ariaRole: 'heading',
+            ariaLabel: 'Title'
+        });
+        text.update();
+        const tspans = text.childrenRef();
+        expect(tspans.length).toBe(2);
+        tspans[0].updateTransform();
+        tspans[1].updateTransform();
+        const first = vNodeToString(brush(tspans[0], createBrushScope('zr0')));
+        expect(first).toContain('role="heading"');
+        expect(first).toContain('aria-label="Title"');
+        expect(vNodeToString(brush(tspans[1], createBrushScope('zr0')))).not.toContain('aria-label');
+    });
+
+    it('Should dispatch focus and blur through handler', function () {
+        const storage = new Storage();
+        const handler = new Handler(storage, null, null, null);
+        const group = new Group();
+        const a = new Rect({ ariaLabel: 'a' });
+        const b = new Rect({ ariaLabel: 'b' });
+        group.add(a);
+        group.add(b);
+
+        const log: string[] = [];
+        a.on('focus', function () {
+            log.push('focus a');
+        });
+        a.on('blur', function () {
+            log.push('blur a');
+        });
+        b.on('focus', function () {
+            log.push('focus b');
+        });
+        group.on('focus', function () {
+            log.push('focus group');
+        });
+        handler.on('blur', function () {
+            log.push('blur handler');
+        });
+
+        handler.focus(a);
+        expect(handler.getFocused()).toBe(a);
+        handler.focus(b);
+        handler.focus(b);
+        handler.blur();
+        expect(handler.getFocused()).toBe(null);
+        expect(log).toEqual([
+            'focus a', 'focus group',
+            'blur a', 'blur handler', 'focus b', 'focus group',
+            'blur handler'
+        ]);
+    });
+
+});
@@ -0,0 +1,87 @@
+import { Rect, LinearGradient, Polyline } from '../zrender';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope, getCssString } from '../../../../src/svg/core';
+
+function renderAnimated(rect: Rect) {
+    rect.updateTransform();
+    const scope = createBrushScope('zr0');
+    scope.animation = true;
+    const str = vNodeToString(brush(rect, scope));
+    return {
+        scope,
+        str,
+        css: getCssString(scope.cssNodes, scope.cssAnims)
+    };
+}
+
+describe('cssAnimation', function () {
+
+    it('Should sample easing which is not cubic-bezier to linear()', function () {
+        const rect = new Rect({ shape: { width: 10, height: 10 } });
+        rect.animateTo({ x: 100 }, { duration: 1000, easing: 'bounceOut' });
+        const css = renderAnimated(rect).css;
+        const easing = css.match(/linear\(([^)]*)\)/)[1].split(',');
+        expect(easing[0]).toEqual('0');
+        expect(easing[easing.length - 1]).toEqual('1');
+        // Around the first bounce.
+        expect(easing).toContain('0.98 36%');
+        expect(easing).toContain('0.75 55%');
+        expect(easing.length).toBeLessThan(60);
+
+        const customRect = new Rect({ shape: { width: 10, height: 10 } });
+        customRect.animateTo({ x: 100 }, {
+            duration: 1000,
+            easing(p) {
+                return p * p;
+            }
+        });
+        expect(renderAnimated(customRect).css).toMatch(/animation:zr0-ani-0 1s linear\(0,[^)]+,1\) both/);
+
+        const linearRect = new Rect({ shape: { width: 10, height: 10 } });
+        linearRect.animateTo({ x: 100 }, { duration: 1000, easing: 'linear' });
+        expect(renderAnimated(linearRect).css).toContain('animation:zr0-ani-0 1s linear both');
+    });
+
+    it('Should animate color stops of gradient', function () {
+        const createGradient = function (color: string) {
+            return new LinearGradient(0, 0, 1, 0, [
+                { offset: 0, color: 'red' },
+                { offset: 1, color }
+            ]);
+        };
+        const rect = new Rect({
+            shape: { width: 10, height: 10 },
+            style: { fill: createGradient('blue') }
+        });
+        rect.animateTo({ style: { fill: createGradient('rgba(0,255,0,0.5)') } }, { duration: 1000 });
+        const { scope, str, css } = renderAnimated(rect);
+
+        expect(str).toContain('fill="url(#zr0-g1)"');
+        const gradientStr = vNodeToString(scope.defs['zr0-g1']);
+        expect(gradientStr).toContain('<stop class="zr0-cls-0" offset="0%" stop-color="red"');
+        expect(gradientStr).toContain('<stop class="zr0-cls-1" offset="100%" stop-color="blue"');
+        expect(css).toContain('.zr0-cls-1 {animation:zr0-ani-1 1s linear both;}');
+        expect(css).toMatch(
+            /@keyframes zr0-ani-1 {0% {stop-color:blue;stop-opacity:1;}100% {stop-color:rgba?\(0,255,0[^;]*;stop-opacity:0.5;}}/
+        );
+    });
+
+    it('Should use offset-path for motion path', function () {
+        const rect = new Rect({ shape: { width: 10, height: 10 }, scaleX: 2 });
+        rect.animateTo({}, {
+            duration: 1000,
+            motionPath: {
+                path: new Polyline({ shape: { points: [[0, 0], [100, 0], [100, 100]] } }),
+                autoRotate: true
+            }
+        });
+        const css = renderAnimated(rect).css;
+        expect(css).toContain('offset-path:path("M0 0L100 0L100 100")');
+        expect(css).toContain('offset-rotate:auto');
+        expect(css).toMatch(/\{0% \{[^}]*offset-distance:0%;/);
+        expect(css).toMatch(/\}100% \{[^}]*offset-distance:100%;/);
+        expect(css).toContain('transform:scale(2,1)');
+        // Vertices are not output as keyframes.
+        expect(css).not.toContain('50% {');
+    });
+});
@@ -0,0 +1,88 @@
+import { Rect } from '../zrender';
+import { brush } from '../../../../src/svg/graphic';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+import { parseFilter, getCanvasFilter } from '../../../../src/graphic/helper/filter';
+import { applyFilterToImageData } from '../../../../src/canvas/filter';
+
+describe('filter', function () {
+
+    it('Should parse filter functions', function () {
+        const items = parseFilter('blur(2px) brightness(150%) hue-rotate(0.5turn) '
+            + 'drop-shadow(1px 2px 3px rgba(0, 0, 0, 0.5)) url(#a) grayscale()');
+        expect(items).toEqual([
+            { type: 'blur', value: 2 },
+            { type: 'brightness', value: 1.5 },
+            { type: 'hue-rotate', value: 180 },
+            { type: 'drop-shadow', value: 3, offsetX: 1, offsetY: 2, color: 'rgba(0, 0, 0, 0.5)' },
+            { type: 'grayscale', value: 1 }
+        ]);
+        expect(parseFilter('none')).toEqual([]);
+        expect(getCanvasFilter(items, 2)).toEqual(
+            'blur(4px) brightness(1.5) hue-rotate(180deg) drop-shadow(2px 4px 6px rgba(0, 0, 0, 0.5)) grayscale(1)'
+        );
+    });
+
+    it('Should expand paint rect by filter', function () {
+        const rect = new Rect({
+            shape: { width: 10, height: 10 },
+            style: { filter: 'blur(1px) drop-shadow(5px 0 0 red)' }
+        });
+        rect.updateTransform();
+        const paintRect = rect.getPaintRect();
+        expect(paintRect.x).toBeLessThanOrEqual(-3);
+        expect(paintRect.x + paintRect.width).toBeGreaterThanOrEqual(18);
+    });
+
+    it('Should create filter in svg and reuse the same one', function () {
+        const scope = createBrushScope('zr0');
+        const createRect = function () {
+            const rect = new Rect({
+                shape: { width: 10, height: 10 },
+                scaleX: 2,
+                style: { filter: 'blur(4px) contrast(2) drop-shadow(2px 2px 4px red)', shadowBlur: 2 }
+            });
+            rect.updateTransform();
+            return rect;
+        };
+        const str = vNodeToString(brush(createRect(), scope));
+        expect(str).toContain('filter="url(#zr0-f0)"');
+        vNodeToString(brush(createRect(), scope));
+        expect(scope.filterIdx).toEqual(1);
+
+        const defStr = vNodeToString(scope.defs['zr0-f0']);
+        expect(defStr).toContain('<feGaussianBlur stdDeviation="2 4"');
+        expect(defStr).toContain('<feFuncR type="linear" slope="2" intercept="-0.5"');
+        expect(defStr).toContain('<feDropShadow dx="1" dy="2" stdDeviation="1 2" flood-color="red"');
+        // Shadow of element is the last one.
+        expect(defStr.match(/<feDropShadow/g).length).toEqual(2);
+    });
+
+    it('Should apply filters on pixels', function () {
+        const data = new Uint8ClampedArray([
+            255, 0, 0, 255,
+            100, 100, 100, 128,
+            0, 0, 0, 0
+        ]);
+        const imageData = { data, width: 3, height: 1 } as unknown as ImageData;
+        applyFilterToImageData(imageData, parseFilter('grayscale(100%) brightness(50%)'), 1);
+        expect(Array.prototype.slice.call(data)).toEqual([
+            27, 27, 27, 255,
+            50, 50, 50, 128,
+            0, 0, 0, 0
+        ]);
+
+        const shadowData = new Uint8ClampedArray([
+            0, 0, 255, 255,
+            0, 0, 0, 0
+        ]);
+        applyFilterToImageData(
+            { data: shadowData, width: 2, height: 1 } as unknown as ImageData,
+            parseFilter('drop-shadow(1px 0 red)'),
+            1
+        );
+        expect(Array.prototype.slice.call(shadowData)).toEqual([
+            0, 0, 255, 255,
+            255, 0, 0, 255
+        ]);
+    });
+});
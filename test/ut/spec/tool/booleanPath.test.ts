@@ -0,0 +1,137 @@
+import PathProxy from '../../../../src/core/PathProxy';
+import Circle from '../../../../src/graphic/shape/Circle';
+import { booleanPath, union, intersection, difference, xor } from '../../../../src/tool/booleanPath';
+
+function rect(x: number, y: number, width: number, height: number, path?: PathProxy) {
+    path = path || new PathProxy();
+    path.rect(x, y, width, height);
+    return path;
+}
+
+// Result only has move to, line to and close path.
+function getRings(path: PathProxy) {
+    const CMD = PathProxy.CMD;
+    const data = path.data;
+    const rings: number[][] = [];
+    for (let i = 0; i < path.len();) {
+        const cmd = data[i++];
+        if (cmd === CMD.M) {
+            rings.push([]);
+        }
+        if (cmd === CMD.M || cmd === CMD.L) {
+            rings[rings.length - 1].push(data[i++], data[i++]);
+        }
+    }
+    return rings;
+}
+
+function expectAreaCloseTo(path: PathProxy, expected: number) {
+    // Error of flattening.
+    expect(Math.abs(getArea(path) - expected) / expected).toBeLessThan(0.01);
+}
+
+// Signed area sum of all rings. Holes are negative.
+function getArea(path: PathProxy) {
+    const rings = getRings(path);
+    let area = 0;
+    for (let i = 0; i < rings.length; i++) {
+        const ring = rings[i];
+        const count = ring.length / 2;
+        for (let k = 0; k < count; k++) {
+            const next = (k + 1) % count;
+            area += ring[k * 2] * ring[next * 2 + 1] - ring[next * 2] * ring[k * 2 + 1];
+        }
+    }
+    return area / 2;
+}
+
+describe('booleanPath', function () {
+
+    it('Should operate on overlapping rects', function () {
+        const a = rect(0, 0, 10, 10);
+        const b = rect(5, 5, 10, 10);
+        expect(getArea(union(a, b))).toBeCloseTo(175, 5);
+        expect(getArea(intersection(a, b))).toBeCloseTo(25, 5);
+        expect(getArea(difference(a, b))).toBeCloseTo(75, 5);
+        expect(getArea(xor(a, b))).toBeCloseTo(150, 5);
+
+        const unionRings = getRings(union(a, b));
+        expect(unionRings.length).toEqual(1);
+        // Only corners are kept.
+        expect(unionRings[0].length).toEqual(16);
+    });
+
+    it('Should handle identical and edge sharing inputs', function () {
+        const a = rect(0, 0, 10, 10);
+        expect(getArea(union(a, rect(0, 0, 10, 10)))).toBeCloseTo(100, 5);
+        expect(getArea(intersection(a, rect(0, 0, 10, 10)))).toBeCloseTo(100, 5);
+        expect(difference(a, rect(0, 0, 10, 10)).len()).toEqual(0);
+        expect(xor(a, rect(0, 0, 10, 10)).len()).toEqual(0);
+
+        // Shared edge is removed.
+        const merged = getRings(union(a, rect(10, 0, 10, 10)));
+        expect(merged.length).toEqual(1);
+        expect(merged[0].length).toEqual(8);
+        expect(getArea(union(a, rect(10, 0, 10, 10)))).toBeCloseTo(200, 5);
+        // Touch at corner.
+        expect(intersection(a, rect(10, 10, 5, 5)).len()).toEqual(0);
+        expect(getArea(union(a, rect(10, 10, 5, 5)))).toBeCloseTo(125, 5);
+    });
+
+    it('Should handle degenerate inputs', function () {
+        const a = rect(0, 0, 10, 10);
+        const line = new PathProxy();
+        line.moveTo(-5, 5);
+        line.lineTo(15, 5);
+        expect(getArea(union(a, line))).toBeCloseTo(100, 5);
+        expect(getArea(difference(a, line))).toBeCloseTo(100, 5);
+        expect(intersection(a, new PathProxy()).len()).toEqual(0);
+        expect(getArea(union(new PathProxy(), a))).toBeCloseTo(100, 5);
+        expect(intersection(a, rect(20, 20, 5, 5)).len()).toEqual(0);
+    });
+
+    it('Should honor fill rule', function () {
+        // Two rects in the same direction.
+        const a = rect(0, 0, 10, 10);
+        rect(2, 2, 6, 6, a);
+        const b = rect(4, -5, 2, 20);
+        expect(getArea(intersection(a, b))).toBeCloseTo(20, 5);
+        expect(getArea(intersection(a, b, { fillRule: 'evenodd' }))).toBeCloseTo(8, 5);
+        // Hole is kept.
+        expect(getArea(booleanPath(a, rect(20, 0, 1, 1), 'union', { fillRule: 'evenodd' }))).toBeCloseTo(65, 5);
+    });
+
+    it('Should operate on many edges', function () {
+        // Overlapped rects in a row and in a column.
+        const row = new PathProxy();
+        const column = new PathProxy();
+        for (let i = 0; i < 200; i++) {
+            rect(i * 2, 0, 3, 3, row);
+            rect(0, i * 2, 3, 3, column);
+        }
+        expect(getArea(union(row, new PathProxy()))).toBeCloseTo(401 * 3, 5);
+        expect(getArea(union(row, column))).toBeCloseTo(401 * 3 * 2 - 9, 5);
+        // Edges of the large rect go through many cells.
+        expect(getArea(intersection(row, rect(100, -100, 1000, 101)))).toBeCloseTo(301, 5);
+
+        // Holes in the middle, winding numbers are calculated in all directions.
+        const cells = new PathProxy();
+        for (let i = 0; i < 20; i++) {
+            for (let k = 0; k < 20; k++) {
+                rect(i * 4, k * 4, 3, 3, cells);
+            }
+        }
+        const holes = difference(rect(-1, -1, 81, 81), cells);
+        expect(getArea(holes)).toBeCloseTo(81 * 81 - 400 * 9, 5);
+        expect(getRings(holes).length).toEqual(401);
+    });
+
+    it('Should flatten curves', function () {
+        const circle = new Circle({ shape: { cx: 0, cy: 0, r: 10 } });
+        const half = intersection(circle, rect(0, -20, 20, 40), { scale: 10 });
+        expectAreaCloseTo(half, Math.PI * 50);
+        const ring = difference(circle, new Circle({ shape: { cx: 0, cy: 0, r: 5 } }), { scale: 10 });
+        expectAreaCloseTo(ring, Math.PI * 75);
+        expect(getRings(ring).length).toEqual(2);
+    });
+});
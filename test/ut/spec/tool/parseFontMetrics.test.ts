@@ -0,0 +1,167 @@
+import { deflateSync, inflateSync } from 'zlib';
+import { parseFontMetrics } from '../../../../src/tool/parseFontMetrics';
+
+type Tables = Record<string, number[]>;
+
+function u16(val: number) {
+    return [(val >> 8) & 0xff, val & 0xff];
+}
+
+function u32(val: number) {
+    return u16((val >>> 16) & 0xffff).concat(u16(val & 0xffff));
+}
+
+function tag(str: string) {
+    return [0, 1, 2, 3].map(function (i) {
+        return str.charCodeAt(i);
+    });
+}
+
+function pad4(bytes: number[]) {
+    while (bytes.length % 4) {
+        bytes.push(0);
+    }
+    return bytes;
+}
+
+function zeros(len: number) {
+    const bytes = [];
+    for (let i = 0; i < len; i++) {
+        bytes.push(0);
+    }
+    return bytes;
+}
+
+/**
+ * 4 glyphs, but only 3 advances in hmtx. Glyph 3 shares the advance of glyph 2.
+ * Format 4 cmap:
+ * 'A' -> glyph 1, 'B'..'C' -> glyph 2..3 by idDelta,
+ * 'a' -> glyph 3 and 'b' -> glyph 0 by glyphIdArray.
+ */
+function createTables(): Tables {
+    const head = zeros(54);
+    head.splice(18, 2, ...u16(1000));
+
+    const hhea = zeros(36);
+    hhea.splice(34, 2, ...u16(3));
+
+    const hmtx = [
+        // longHorMetric: advanceWidth, lsb
+        ...u16(500), ...u16(0),
+        ...u16(600), ...u16(0),
+        ...u16(700), ...u16(0),
+        // leftSideBearing of glyph 3. Should not be read as advance.
+        ...u16(77)
+    ];
+
+    const segCount = 3;
+    const subtable = [
+        ...u16(4), ...u16(0), ...u16(0),
+        ...u16(segCount * 2), ...u16(4), ...u16(1), ...u16(2),
+        // endCode
+        ...u16(67), ...u16(98), ...u16(0xffff),
+        // reservedPad
+        ...u16(0),
+        // startCode
+        ...u16(65), ...u16(97), ...u16(0xffff),
+        // idDelta
+        ...u16(1 - 65), ...u16(0), ...u16(1),
+        // idRangeOffset, the second one points to glyphIdArray.
+        ...u16(0), ...u16(4), ...u16(0),
+        // glyphIdArray
+        ...u16(3), ...u16(0)
+    ];
+    subtable.splice(2, 2, ...u16(subtable.length));
+    const cmap = [
+        ...u16(0), ...u16(1),
+        // Windows unicode BMP
+        ...u16(3), ...u16(1), ...u32(12),
+        ...subtable
+    ];
+
+    return { cmap, head, hhea, hmtx };
+}
+
+function createTTF(tables: Tables) {
+    const tags = Object.keys(tables).sort();
+    const header = [...u32(0x00010000), ...u16(tags.length), ...u16(0), ...u16(0), ...u16(0)];
+    let offset = 12 + tags.length * 16;
+    const records: number[] = [];
+    let data: number[] = [];
+    tags.forEach(function (name) {
+        const table = tables[name];
+        records.push(...tag(name), ...u32(0), ...u32(offset), ...u32(table.length));
+        data = data.concat(pad4(table.slice()));
+        offset = 12 + tags.length * 16 + data.length;
+    });
+    return new Uint8Array(header.concat(records, data));
+}
+
+function createWOFF(tables: Tables, compress?: boolean) {
+    const tags = Object.keys(tables).sort();
+    let offset = 44 + tags.length * 20;
+    const entries: number[] = [];
+    let data: number[] = [];
+    tags.forEach(function (name) {
+        const table = tables[name];
+        const compressed: number[] = Array.prototype.slice.call(deflateSync(Buffer.from(table)));
+        // Tables are stored uncompressed if compression doesn't make them smaller.
+        const stored = compress && compressed.length < table.length ? compressed : table;
+        entries.push(...tag(name), ...u32(offset), ...u32(stored.length), ...u32(table.length), ...u32(0));
+        data = data.concat(pad4(stored.slice()));
+        offset = 44 + tags.length * 20 + data.length;
+    });
+    const header = [
+        ...tag('wOFF'), ...u32(0x00010000), ...u32(offset),
+        ...u16(tags.length), ...u16(0),
+        ...zeros(28)
+    ];
+    return new Uint8Array(header.concat(entries, data));
+}
+
+const expectedMetrics = {
+    unitsPerEm: 1000,
+    ranges: [
+        [65, 65, 600],
+        [66, 67, 700],
+        [97, 97, 700]
+    ],
+    defaultAdvance: 500
+};
+
+describe('parseFontMetrics', function () {
+
+    it('Should read format 4 cmap and shared advances in hmtx', function () {
+        const ttf = createTTF(createTables());
+        expect(parseFontMetrics(ttf)).toEqual(expectedMetrics);
+        // ArrayBuffer and subarray with byteOffset.
+        expect(parseFontMetrics(ttf.buffer)).toEqual(expectedMetrics);
+        const shifted = new Uint8Array(ttf.length + 8);
+        shifted.set(ttf, 8);
+        expect(parseFontMetrics(shifted.subarray(8))).toEqual(expectedMetrics);
+    });
+
+    it('Should read WOFF tables', function () {
+        expect(parseFontMetrics(createWOFF(createTables()))).toEqual(expectedMetrics);
+    });
+
+    it('Should inflate compressed WOFF tables', function () {
+        const woff = createWOFF(createTables(), true);
+        expect(function () {
+            parseFontMetrics(woff);
+        }).toThrow(/inflate/);
+        expect(parseFontMetrics(woff, {
+            inflate(data) {
+                return new Uint8Array(inflateSync(data));
+            }
+        })).toEqual(expectedMetrics);
+    });
+
+    it('Should throw if required table is missing', function () {
+        const tables = createTables();
+        delete tables.hmtx;
+        expect(function () {
+            parseFontMetrics(createTTF(tables));
+        }).toThrow(/hmtx/);
+    });
+});
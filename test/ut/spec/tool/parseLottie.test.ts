@@ -0,0 +1,156 @@
+import { Group, Path } from '../zrender';
+import { parseLottie } from '../../../../src/tool/parseLottie';
+
+function createAnimation() {
+    return {
+        v: '5.7.0', fr: 10, ip: 0, op: 20, w: 200, h: 100,
+        layers: [{
+            ty: 4, nm: 'ball', ind: 1, ip: 0, op: 20, st: 0,
+            ks: {
+                o: { a: 0, k: 50 },
+                r: { a: 0, k: 90 },
+                p: {
+                    a: 1,
+                    k: [
+                        { t: 0, s: [0, 0], o: { x: [0.5], y: [-0.5] }, i: { x: [0.5], y: [1.5] } },
+                        { t: 10, s: [100, 50] }
+                    ]
+                },
+                a: { a: 0, k: [10, 10] },
+                s: { a: 0, k: [200, 100] }
+            },
+            ef: [{ ty: 5 }],
+            shapes: [{
+                ty: 'gr', nm: 'circle',
+                it: [
+                    { ty: 'el', p: { a: 0, k: [10, 10] }, s: { a: 0, k: [20, 20] } },
+                    { ty: 'st', nm: 'outline', c: { a: 0, k: [0, 0, 1, 1] }, o: { a: 0, k: 100 },
+                        w: { a: 0, k: 2, x: 'wiggle(1, 2)' }, lc: 2, lj: 2 },
+                    { ty: 'fl', nm: 'body', c: { a: 0, k: [1, 0, 0, 1] }, o: { a: 0, k: 80 } },
+                    { ty: 'tr', p: { a: 0, k: [5, 0] }, a: { a: 0, k: [0, 0] },
+                        s: { a: 0, k: [100, 100] }, r: { a: 0, k: 0 }, o: { a: 0, k: 50 } }
+                ]
+            }, {
+                ty: 'rp', nm: 'repeater'
+            }]
+        }, {
+            ty: 0, nm: 'precomp', ip: 0, op: 20, ks: {}
+        }]
+    };
+}
+
+describe('parseLottie', function () {
+
+    it('Should build group and path tree', function () {
+        const result = parseLottie(JSON.stringify(createAnimation()));
+        expect(result.width).toEqual(200);
+        expect(result.duration).toEqual(2000);
+
+        const layer = result.root.childAt(0) as Group;
+        expect(layer.name).toEqual('ball');
+        expect(layer.anchorX).toEqual(10);
+        expect(layer.scaleX).toEqual(2);
+        expect(layer.rotation).toBeCloseTo(-Math.PI / 2);
+
+        const group = layer.childAt(0) as Group;
+        expect(group.x).toEqual(5);
+        // Styles later in the list are painted first.
+        const fill = group.childAt(0) as Path;
+        const stroke = group.childAt(1) as Path;
+        expect(fill.name).toEqual('body');
+        expect(fill.style.fill).toEqual('rgba(255,0,0,1)');
+        expect(fill.style.fillOpacity).toEqual(0.8);
+        expect(fill.style.opacity).toEqual(0.25);
+        expect(stroke.style.fill).toBe(null);
+        expect(stroke.style.stroke).toEqual('rgba(0,0,255,1)');
+        expect(stroke.style.lineCap).toEqual('round');
+        expect(fill.getBoundingRect().width).toBeCloseTo(20);
+    });
+
+    it('Should create animators with bezier easing', function () {
+        const result = parseLottie(createAnimation());
+        const layer = result.root.childAt(0) as Group;
+        expect(result.animators.length).toEqual(1);
+
+        const clip = result.animators[0].getClip();
+        expect(clip.loop).toEqual(true);
+        clip.setTime(0);
+        expect(layer.x).toEqual(0);
+        clip.setTime(500);
+        // Overshoot of cubic-bezier(0.5,-0.5,0.5,1.5) at the middle.
+        expect(layer.x).toBeCloseTo(50);
+        clip.setTime(250);
+        expect(layer.x).toBeLessThan(0);
+        clip.setTime(1500);
+        expect(layer.y).toEqual(50);
+    });
+
+    it('Should keep easing when more than one property is animated', function () {
+        const data = createAnimation();
+        data.layers[0].ks.p = { a: 0, k: [0, 0] } as any;
+        data.layers[0].shapes[0].it.splice(0, 1, {
+            ty: 'rc', r: { a: 0, k: 0 },
+            p: { a: 1, k: [
+                { t: 0, s: [0, 0], o: { x: [0.5], y: [-0.5] }, i: { x: [0.5], y: [1.5] } },
+                { t: 10, s: [100, 0] }
+            ] },
+            s: { a: 1, k: [{ t: 0, s: [10, 10] }, { t: 20, s: [30, 30] }] }
+        } as any);
+        const result = parseLottie(data);
+        const fill = ((result.root.childAt(0) as Group).childAt(0) as Group).childAt(0) as Path;
+        const setTime = (time: number) => result.animators.forEach(animator => animator.getClip().setTime(time));
+
+        setTime(250);
+        expect(fill.shape.g0[0]).toBeLessThan(0);
+        setTime(500);
+        expect(fill.shape.g0[0]).toBeCloseTo(50);
+        setTime(1500);
+        expect(fill.shape.g0[0]).toEqual(100);
+        expect(fill.shape.g0[2]).toBeCloseTo(25);
+    });
+
+    it('Should interpolate bezier shapes', function () {
+        const square = (size: number) => [{
+            v: [[0, 0], [size, 0], [size, size], [0, size]],
+            i: [[0, 0], [0, 0], [0, 0], [0, 0]],
+            o: [[0, 0], [0, 0], [0, 0], [0, 0]],
+            c: true
+        }];
+        const data = createAnimation();
+        data.layers[0].shapes[0].it.splice(0, 1, {
+            ty: 'sh',
+            ks: { a: 1, k: [{ t: 0, s: square(10) }, { t: 5, s: square(20) }, { t: 10, s: square(40) }] }
+        } as any);
+        const result = parseLottie(data);
+        const fill = ((result.root.childAt(0) as Group).childAt(0) as Group).childAt(0) as Path;
+        const setTime = (time: number) => result.animators.forEach(animator => animator.getClip().setTime(time));
+
+        setTime(500);
+        expect(fill.shape.g0[2]).toEqual([20, 20, 0, 0, 0, 0]);
+        setTime(750);
+        expect(fill.shape.g0[2]).toEqual([30, 30, 0, 0, 0, 0]);
+    });
+
+    it('Should trim stroke', function () {
+        const data = createAnimation();
+        data.layers[0].shapes[0].it.splice(1, 0, {
+            ty: 'tm', s: { a: 0, k: 0 }, e: { a: 0, k: 50 }, o: { a: 0, k: 0 }
+        } as any);
+        const result = parseLottie(data);
+        const group = (result.root.childAt(0) as Group).childAt(0) as Group;
+        const stroke = group.childAt(1) as Path;
+        const lineDash = stroke.style.lineDash as number[];
+        expect(lineDash[0] / lineDash[1]).toBeCloseTo(0.5);
+        expect((group.childAt(0) as Path).style.lineDash).toBeFalsy();
+    });
+
+    it('Should report unsupported features', function () {
+        const result = parseLottie(createAnimation());
+        expect(result.unsupported).toEqual([
+            { feature: 'layer', name: 'precomp' },
+            { feature: 'shape', name: 'repeater' },
+            { feature: 'expression', name: 'outline' },
+            { feature: 'effect', name: 'ball' }
+        ]);
+    });
+});
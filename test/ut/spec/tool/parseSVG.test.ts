@@ -0,0 +1,265 @@
+/**
+ * @jest-environment jsdom
+ */
+import { parseSVG } from '../../../../src/tool/parseSVG';
+import { parseStyleSheet, getMatchedRules } from '../../../../src/tool/parseStyleSheet';
+import Path from '../../../../src/graphic/Path';
+import Group from '../../../../src/graphic/Group';
+import CompoundPath from '../../../../src/graphic/CompoundPath';
+import { LinearGradientObject } from '../../../../src/graphic/LinearGradient';
+import { ImagePatternObject, ElementPatternObject } from '../../../../src/graphic/Pattern';
+import { vNodeToString, createBrushScope } from '../../../../src/svg/core';
+import { brush as brushSVG } from '../../../../src/svg/graphic';
+import { createCanvasPattern } from '../../../../src/canvas/graphic';
+import { platformApi, setPlatformAPI } from '../../../../src/core/platform';
+import { keys } from '../../../../src/core/util';
+
+const VECTOR_PATTERN_SVG = `<svg xmlns="http://www.w3.org/2000/svg">
+    <linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient>
+    <pattern id="p" x="0.1" width="0.5" height="50%">
+        <circle cx="2" cy="2" r="2" fill="url(#g)"/>
+    </pattern>
+    <rect name="a" width="100" height="100" fill="url(#p)"/>
+    <rect name="b" x="10" width="40" height="20" fill="url(#p)"/>
+</svg>`;
+
+// Context which counts the fill calls and ignores the others.
+function createMockContext(onFill: () => void): any {
+    return new Proxy({}, {
+        get(target: any, key) {
+            if (key in target) {
+                return target[key];
+            }
+            return key === 'fill' ? onFill : function () {
+                // Gradient or pattern created by the context.
+                return {
+                    addColorStop() {}
+                };
+            };
+        }
+    });
+}
+
+function getNamed(svg: string) {
+    const result = parseSVG(svg, { ignoreRootClip: true });
+    const named: Record<string, Path> = {};
+    for (let i = 0; i < result.named.length; i++) {
+        named[result.named[i].name] = result.named[i].el as Path;
+    }
+    return named;
+}
+
+describe('parseSVG', function () {
+
+    it('Should match selectors by specificity and order', function () {
+        const rules = parseStyleSheet(`
+            /* comment { fill: red } */
+            @media print { rect { fill: red } }
+            g rect { fill: a }
+            .b { fill: b }
+            rect.b { fill: c }
+            #d, g > .b { fill: d }
+            a[href] { fill: e }
+        `);
+        expect(rules.length).toEqual(5);
+
+        const doc = new DOMParser().parseFromString(
+            '<svg><g><rect id="d" class="a b"/></g><g><a><rect class="b"/></a></g></svg>',
+            'text/xml'
+        );
+        const rects = doc.getElementsByTagName('rect');
+        const fills = function (node: Element) {
+            return getMatchedRules(rules, node).map(function (rule) {
+                return rule.declarations.trim();
+            });
+        };
+        expect(fills(rects[0])).toEqual(['fill: a', 'fill: b', 'fill: c', 'fill: d', 'fill: d']);
+        // `g > .b` doesn't match because the parent is <a>.
+        expect(fills(rects[1])).toEqual(['fill: a', 'fill: b', 'fill: c']);
+    });
+
+    it('Should apply style sheets between attributes and inline style', function () {
+        const named = getNamed(`<svg xmlns="http://www.w3.org/2000/svg">
+            <style>
+                .cls { fill: red; stroke: blue !important }
+                g .cls { stroke-width: 3 }
+                #grad stop { stop-color: green }
+            </style>
+            <defs>
+                <linearGradient id="grad"><stop offset="0" stop-color="black"/></linearGradient>
+            </defs>
+            <g>
+                <rect name="a" class="cls" fill="black" stroke="black" stroke-width="1"/>
+                <rect name="b" class="cls" style="fill: yellow"/>
+                <rect name="c" fill="url(#grad)"/>
+            </g>
+        </svg>`);
+
+        expect(named.a.style.fill).toEqual('red');
+        expect(named.a.style.stroke).toEqual('blue');
+        expect(named.a.style.lineWidth).toEqual(3);
+        expect(named.b.style.fill).toEqual('yellow');
+        expect((named.c.style.fill as LinearGradientObject).colorStops).toEqual([{
+            offset: 0,
+            color: 'green'
+        }]);
+    });
+
+    it('Should clone the subtree referenced by use', function () {
+        const result = parseSVG(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+            <defs>
+                <circle id="dot" r="2"/>
+                <symbol id="icon" viewBox="0 0 10 10"><rect width="10" height="10"/></symbol>
+                <g id="loop"><use href="#loop"/></g>
+            </defs>
+            <use name="a" xlink:href="#dot" x="10" y="20" fill="red"/>
+            <use name="b" href="#dot" transform="scale(2)" x="5"/>
+            <use name="c" href="#icon" width="20" height="20"/>
+            <use name="d" href="#loop"/>
+        </svg>`, { ignoreRootClip: true });
+        const named: Record<string, Group> = {};
+        result.named.forEach(function (item) {
+            if (item.svgNodeTagLower === 'use' && !item.namedFrom) {
+                named[item.name] = item.el as Group;
+            }
+        });
+
+        const dotA = named.a.childAt(0) as Path;
+        expect([named.a.x, named.a.y]).toEqual([10, 20]);
+        expect(dotA.shape.r).toEqual(2);
+        expect(dotA.style.fill).toEqual('red');
+        const dotB = named.b.childAt(0) as Path;
+        expect(dotB).not.toBe(dotA);
+        expect([named.b.x, named.b.scaleX]).toEqual([10, 2]);
+
+        const symbolGroup = named.c.childAt(0) as Group;
+        expect(symbolGroup.scaleX).toEqual(2);
+        expect((symbolGroup.childAt(0) as Path).shape.width).toEqual(10);
+
+        // Circular reference is stopped.
+        expect((named.d.childAt(0) as Group).childAt(0).isGroup).toEqual(true);
+        expect(((named.d.childAt(0) as Group).childAt(0) as Group).childCount()).toEqual(0);
+    });
+
+    it('Should apply clipPath and report mask', function () {
+        const result = parseSVG(`<svg xmlns="http://www.w3.org/2000/svg">
+            <rect name="a" clip-path="url(#one)" width="100" height="100"/>
+            <rect name="b" style="clip-path: url(#two)" width="100" height="100"/>
+            <rect name="c" x="10" width="50" height="100" clip-path="url(#box)"/>
+            <rect name="d" mask="url(#m)" width="100" height="100"/>
+            <clipPath id="one"><circle cx="50" cy="50" r="10"/></clipPath>
+            <clipPath id="two" transform="translate(10, 0)">
+                <rect width="10" height="10"/>
+                <rect x="20" width="10" height="10"/>
+            </clipPath>
+            <clipPath id="box" clipPathUnits="objectBoundingBox"><rect width="0.5" height="0.5"/></clipPath>
+            <mask id="m"><rect width="100" height="100" fill="white"/></mask>
+        </svg>`, { ignoreRootClip: true });
+        const named = getNamed(`<svg></svg>`);
+        result.named.forEach(function (item) {
+            named[item.name] = item.el as Path;
+        });
+
+        const clipRectA = named.a.getClipPath().getBoundingRect();
+        expect(clipRectA.x).toBeCloseTo(40, 2);
+        expect(clipRectA.y).toBeCloseTo(40, 2);
+        expect(clipRectA.width).toBeCloseTo(20, 2);
+
+        const clipB = named.b.getClipPath() as CompoundPath;
+        expect(clipB instanceof CompoundPath).toEqual(true);
+        expect(clipB.shape.paths.length).toEqual(2);
+        expect(clipB.getBoundingRect()).toMatchObject({ x: 10, y: 0, width: 30, height: 10 });
+
+        const clipC = named.c.getClipPath();
+        expect([clipC.x, clipC.y, clipC.scaleX, clipC.scaleY]).toEqual([10, 0, 50, 100]);
+
+        // Mask and its content are not rendered.
+        expect(named.d.getClipPath()).toBeFalsy();
+        expect(result.unsupported).toEqual([{ feature: 'mask', el: named.d }]);
+        expect(result.root.childCount()).toEqual(4);
+    });
+
+    it('Should create image pattern from image only tile', function () {
+        const named = getNamed(`<svg xmlns="http://www.w3.org/2000/svg">
+            <pattern id="p" patternUnits="userSpaceOnUse" x="5" width="10" height="10" patternTransform="rotate(90)">
+                <image href="a.png" width="10" height="10"/>
+            </pattern>
+            <rect name="a" width="100" height="100" fill="url(#p)"/>
+        </svg>`);
+        const pattern = named.a.style.fill as ImagePatternObject;
+        expect(pattern).toMatchObject({
+            image: 'a.png',
+            repeat: 'repeat',
+            imageWidth: 10,
+            imageHeight: 10
+        });
+        expect(pattern.x).toBeCloseTo(0, 5);
+        expect(pattern.y).toBeCloseTo(5, 5);
+        expect(pattern.rotation).toBeCloseTo(Math.PI / 2, 5);
+        expect(pattern.scaleX).toBeCloseTo(1, 5);
+    });
+
+    it('Should create vector pattern relative to bounding rect', function () {
+        const named = getNamed(VECTOR_PATTERN_SVG);
+        const patternA = named.a.style.fill as ElementPatternObject;
+        const patternB = named.b.style.fill as ElementPatternObject;
+        expect([patternA.elementWidth, patternA.elementHeight, patternA.x]).toEqual([50, 50, 10]);
+        expect([patternB.elementWidth, patternB.elementHeight, patternB.x]).toEqual([20, 10, 14]);
+        expect((patternA.element as Group).childAt(0).type).toEqual('circle');
+    });
+
+    it('Should render vector pattern lazily in painters', function () {
+        const named = getNamed(VECTOR_PATTERN_SVG);
+        const pattern = named.a.style.fill as ElementPatternObject;
+
+        function renderSVG() {
+            const scope = createBrushScope('zr0');
+            expect(vNodeToString(brushSVG(named.a, scope))).toContain('fill="url(#zr0-p0)"');
+            // Tiles of the elements are rendered once in each scope.
+            brushSVG(named.a, scope);
+            brushSVG(named.b, scope);
+            expect(scope.elementPatternIdx).toEqual(2);
+            return keys(scope.defs).map(id => vNodeToString(scope.defs[id])).join('');
+        }
+        const defsStr = renderSVG();
+        expect(defsStr).toContain('<linearGradient');
+        expect(defsStr).toContain('fill="url(#zr0-ptn0-g0)"');
+        expect(defsStr).toContain('fill="url(#zr0-ptn1-g0)"');
+        // Rendered again with the changes of elements.
+        ((pattern.element as Group).childAt(0) as Path).setStyle('fill', 'blue');
+        const changedDefsStr = renderSVG();
+        expect(changedDefsStr).toContain('fill="blue"');
+        expect(changedDefsStr).not.toContain('zr0-ptn0-g0');
+
+        const oldCreateCanvas = platformApi.createCanvas;
+        let fillCount = 0;
+        const canvases: HTMLCanvasElement[] = [];
+        setPlatformAPI({
+            createCanvas() {
+                const canvas = {
+                    getContext() {
+                        return createMockContext(() => fillCount++);
+                    }
+                } as unknown as HTMLCanvasElement;
+                canvases.push(canvas);
+                return canvas;
+            }
+        });
+
+        const ctx = createMockContext(() => {});
+        ctx.dpr = 2;
+        expect(createCanvasPattern(ctx, pattern, { dirty() {} })).toBeTruthy();
+        expect([canvases.length, canvases[0].width, canvases[0].height]).toEqual([1, 100, 100]);
+        expect(fillCount).toEqual(1);
+        // Cached in the same dpr.
+        createCanvasPattern(ctx, pattern, { dirty() {} });
+        expect(fillCount).toEqual(1);
+        ctx.dpr = 1;
+        createCanvasPattern(ctx, pattern, { dirty() {} });
+        expect([canvases.length, canvases[0].width, fillCount]).toEqual([1, 50, 2]);
+
+        setPlatformAPI({
+            createCanvas: oldCreateCanvas
+        });
+    });
+});
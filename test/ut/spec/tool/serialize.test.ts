@@ -0,0 +1,160 @@
+import {
+    Group, Rect, Circle, Text, CompoundPath, LinearGradient, RadialGradient, Element, Path, TextPath,
+    Displayable, Pattern, serialize, deserialize, path as pathTool
+} from '../zrender';
+
+function roundTrip(el: Element) {
+    return deserialize(JSON.parse(JSON.stringify(serialize(el))));
+}
+
+describe('serialize', function () {
+
+    it('Should only write the values different from default', function () {
+        const rect = new Rect({
+            shape: { width: 10, height: 20 },
+            style: { fill: 'red' },
+            x: 5
+        });
+        expect(serialize(rect)).toEqual({
+            __element: true,
+            type: 'rect',
+            x: 5,
+            shape: { x: 0, y: 0, width: 10, height: 20 },
+            style: { fill: 'red' }
+        });
+    });
+
+    it('Should restore the element tree', function () {
+        const group = new Group({ name: 'root', rotation: 1 });
+        const rect = new Rect({
+            name: 'rect',
+            shape: { width: 10, height: 20 },
+            style: {
+                fill: new LinearGradient(0, 0, 1, 0, [{ offset: 0, color: 'red' }, { offset: 1, color: 'blue' }]),
+                stroke: new RadialGradient(0.5, 0.5, 0.5, [{ offset: 0, color: '#000' }]),
+                lineDash: [2, 2]
+            },
+            z: 2,
+            textContent: new Text({ style: { text: 'label', fill: '#fff' } }),
+            textConfig: { position: 'inside' },
+            clipPath: new Circle({ shape: { r: 5 } })
+        });
+        rect.states.emphasis = { style: { fill: 'yellow' }, z: 10 };
+        group.add(rect);
+        group.add(new CompoundPath({
+            shape: {
+                paths: [new Rect({ shape: { width: 1, height: 1 } }), new Circle({ shape: { r: 1 } })]
+            }
+        }));
+
+        const restored = roundTrip(group) as Group;
+        expect(restored).toBeInstanceOf(Group);
+        expect(restored.name).toBe('root');
+        expect(restored.rotation).toBe(1);
+
+        const restoredRect = restored.childAt(0) as Rect;
+        expect(restoredRect).toBeInstanceOf(Rect);
+        expect(restoredRect.shape.height).toBe(20);
+        expect(restoredRect.z).toBe(2);
+        expect(restoredRect.style.fill).toBeInstanceOf(LinearGradient);
+        expect((restoredRect.style.fill as LinearGradient).colorStops[1].color).toBe('blue');
+        expect(restoredRect.style.stroke).toBeInstanceOf(RadialGradient);
+        expect(restoredRect.style.lineDash).toEqual([2, 2]);
+        expect(restoredRect.getTextContent()).toBeInstanceOf(Text);
+        expect(restoredRect.getTextContent().style.text).toBe('label');
+        expect(restoredRect.textConfig).toEqual({ position: 'inside' });
+        expect(restoredRect.getClipPath()).toBeInstanceOf(Circle);
+        expect(restoredRect.states.emphasis).toEqual({ style: { fill: 'yellow' }, z: 10 });
+
+        const compound = restored.childAt(1) as CompoundPath;
+        expect(compound.shape.paths.length).toBe(2);
+        expect(compound.shape.paths[1]).toBeInstanceOf(Circle);
+
+        expect(serialize(restored)).toEqual(serialize(group));
+    });
+
+    it('Should serialize normal state and restore current states', function () {
+        const rect = new Rect({ style: { fill: 'red' } });
+        rect.states.emphasis = { style: { fill: 'yellow' } };
+        rect.useState('emphasis', false, true);
+        expect(rect.style.fill).toBe('yellow');
+
+        const json = serialize(rect);
+        expect(json.style).toEqual({ fill: 'red' });
+        expect(json.currentStates).toEqual(['emphasis']);
+
+        const restored = roundTrip(rect) as Rect;
+        expect(restored.style.fill).toBe('yellow');
+        restored.clearStates(true);
+        expect(restored.style.fill).toBe('red');
+    });
+
+    it('Should serialize unregistered path as path data', function () {
+        const path = pathTool.createFromString('M0 0L10 0L10 10Z', {
+            style: { fill: 'red' }
+        });
+        const json = serialize(path);
+        expect(json.type).toBe('path');
+        expect(json.d).toBe('M0 0L10 0L10 10Z');
+
+        const restored = roundTrip(path) as Path;
+        expect(restored.getBoundingRect().width).toBe(10);
+        expect(restored.style.fill).toBe('red');
+    });
+
+    it('Should skip the children not serializable', function () {
+        class Custom extends Displayable {}
+        Custom.prototype.type = 'custom';
+        const group = new Group();
+        group.add(new Custom());
+        group.add(new Rect());
+
+        const json = serialize(group);
+        expect(json.children.length).toBe(1);
+        expect(serialize(group.childAt(0))).toBe(null);
+        expect((roundTrip(group) as Group).childAt(0)).toBeInstanceOf(Rect);
+    });
+
+    it('Should not restore plain object in extra as element', function () {
+        const extra = { data: { type: 'rect', width: 10 } };
+        const rect = new Rect({ extra });
+        const restored = roundTrip(rect);
+        expect(restored.extra).toEqual(extra);
+        expect(restored.extra.data).not.toBeInstanceOf(Element);
+    });
+
+    it('Should only restore the marked gradients and patterns', function () {
+        const extra = {
+            gradient: { type: 'linear', x: 0, y: 0, x2: 1, y2: 0, colorStops: [{ offset: 0, color: 'red' }] },
+            pattern: { image: 'a.png', repeat: 'repeat' }
+        };
+        const rect = new Rect({
+            style: {
+                fill: new Pattern('a.png', 'repeat-x'),
+                stroke: new LinearGradient(0, 0, 1, 0, [{ offset: 0, color: 'red' }])
+            },
+            extra
+        });
+        const restored = roundTrip(rect) as Rect;
+        expect(restored.extra).toEqual(extra);
+        expect(restored.extra.gradient).not.toBeInstanceOf(LinearGradient);
+        expect(restored.extra.pattern).not.toBeInstanceOf(Pattern);
+
+        expect(restored.style.stroke).toBeInstanceOf(LinearGradient);
+        const pattern = restored.style.fill as Pattern;
+        expect(pattern).toBeInstanceOf(Pattern);
+        expect(pattern.repeat).toBe('repeat-x');
+        expect((pattern as any).__pattern).toBeUndefined();
+    });
+
+    it('Should restore text path', function () {
+        const textPath = new TextPath({
+            style: { text: 'abc' },
+            path: new Circle({ shape: { r: 10 } })
+        });
+        const restored = roundTrip(textPath) as TextPath;
+        expect(restored).toBeInstanceOf(TextPath);
+        expect(restored.style.text).toBe('abc');
+        expect(restored.path).toBeInstanceOf(Circle);
+    });
+});
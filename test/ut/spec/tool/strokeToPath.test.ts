@@ -0,0 +1,127 @@
+import PathProxy from '../../../../src/core/PathProxy';
+import Line from '../../../../src/graphic/shape/Line';
+import Polyline from '../../../../src/graphic/shape/Polyline';
+import Polygon from '../../../../src/graphic/shape/Polygon';
+import Rect from '../../../../src/graphic/shape/Rect';
+import { PathStyleProps } from '../../../../src/graphic/Path';
+import { strokeToPath } from '../../../../src/tool/strokeToPath';
+
+// Signed area of the result, which only has move to, line to and close path.
+function getArea(path: PathProxy) {
+    const CMD = PathProxy.CMD;
+    const data = path.data;
+    const rings: number[][] = [];
+    for (let i = 0; i < path.len();) {
+        const cmd = data[i++];
+        if (cmd === CMD.M) {
+            rings.push([]);
+        }
+        if (cmd === CMD.M || cmd === CMD.L) {
+            rings[rings.length - 1].push(data[i++], data[i++]);
+        }
+    }
+    let area = 0;
+    for (let i = 0; i < rings.length; i++) {
+        const ring = rings[i];
+        const count = ring.length / 2;
+        for (let k = 0; k < count; k++) {
+            const next = (k + 1) % count;
+            area += ring[k * 2] * ring[next * 2 + 1] - ring[next * 2] * ring[k * 2 + 1];
+        }
+    }
+    return area / 2;
+}
+
+// Use a large scale so that the round joins and caps are precise.
+const opts = { scale: 10 };
+
+function strokeLine(style: PathStyleProps) {
+    return getArea(strokeToPath(new Line({
+        shape: { x1: 0, y1: 0, x2: 10, y2: 0 },
+        style: Object.assign({ stroke: '#000', lineWidth: 2 }, style)
+    }), opts));
+}
+
+function strokeCorner(style: PathStyleProps) {
+    return getArea(strokeToPath(new Polyline({
+        shape: { points: [[0, 0], [10, 0], [10, 10]] },
+        style: Object.assign({ stroke: '#000', lineWidth: 2 }, style)
+    }), opts));
+}
+
+describe('strokeToPath', function () {
+
+    it('Should add line caps', function () {
+        expect(strokeLine({})).toBeCloseTo(20, 5);
+        expect(strokeLine({ lineCap: 'square' })).toBeCloseTo(24, 5);
+        expect(Math.abs(strokeLine({ lineCap: 'round' }) - (20 + Math.PI))).toBeLessThan(0.1);
+    });
+
+    it('Should add line joins', function () {
+        expect(strokeCorner({})).toBeCloseTo(40, 5);
+        expect(strokeCorner({ lineJoin: 'bevel' })).toBeCloseTo(39.5, 5);
+        // Miter length ratio of right angle is sqrt(2).
+        expect(strokeCorner({ miterLimit: 1.4 })).toBeCloseTo(39.5, 5);
+        expect(Math.abs(strokeCorner({ lineJoin: 'round' }) - (39 + Math.PI / 4))).toBeLessThan(0.1);
+    });
+
+    it('Should stroke closed path without caps', function () {
+        const rect = new Rect({
+            shape: { x: 0, y: 0, width: 10, height: 10 },
+            style: { stroke: '#000', fill: null, lineWidth: 2, lineCap: 'square' }
+        });
+        const outline = strokeToPath(rect);
+        expect(getArea(outline)).toBeCloseTo(80, 5);
+        // Outer and inner rings, each has one moveTo, three lineTo and closePath.
+        expect(outline.len()).toEqual(2 * (3 + 3 * 3 + 1));
+
+        rect.setStyle({ stroke: null });
+        expect(strokeToPath(rect).len()).toEqual(0);
+    });
+
+    it('Should join the start and end of closed path', function () {
+        function strokeRect(style: PathStyleProps) {
+            return getArea(strokeToPath(new Rect({
+                shape: { x: 0, y: 0, width: 10, height: 10 },
+                style: Object.assign({ stroke: '#000', fill: null, lineWidth: 2 }, style)
+            }), opts));
+        }
+        expect(strokeRect({})).toBeCloseTo(80, 5);
+        // Outer corners are rounded by quarter circles.
+        expect(Math.abs(strokeRect({ lineJoin: 'round' }) - (76 + Math.PI))).toBeLessThan(0.1);
+
+        const square = new Polygon({
+            shape: { points: [[0, 0], [10, 0], [10, 10], [0, 10]] },
+            style: { stroke: '#000', fill: null, lineWidth: 2, lineJoin: 'bevel' }
+        });
+        // Each outer corner is cut by a triangle of area 0.5.
+        expect(getArea(strokeToPath(square, opts))).toBeCloseTo(78, 5);
+    });
+
+    it('Should split dashes', function () {
+        expect(strokeLine({ lineDash: [2, 3] })).toBeCloseTo(8, 5);
+        expect(strokeLine({ lineDash: [2, 3], lineDashOffset: 1 })).toBeCloseTo(8, 5);
+        expect(strokeLine({ lineDash: [2, 3], lineDashOffset: 1, lineCap: 'square' })).toBeCloseTo(20, 5);
+        // Odd count is repeated.
+        expect(strokeLine({ lineDash: [3] })).toBeCloseTo(12, 5);
+    });
+
+    it('Should stroke long polyline in time', function () {
+        const points: number[][] = [];
+        let length = 0;
+        for (let i = 0; i < 3000; i++) {
+            points.push([i * 3, Math.sin(i / 20) * 10]);
+            if (i) {
+                length += Math.sqrt(9 + Math.pow(points[i][1] - points[i - 1][1], 2));
+            }
+        }
+        const start = Date.now();
+        const outline = strokeToPath(new Polyline({
+            shape: { points },
+            style: { stroke: '#000', lineWidth: 4, lineJoin: 'round', lineCap: 'round' }
+        }));
+        // Quadratic implementation takes minutes.
+        expect(Date.now() - start).toBeLessThan(3000);
+        expect(Math.abs(getArea(outline) - (length * 4 + Math.PI * 4)) / (length * 4)).toBeLessThan(0.01);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment jsdom
+ */
+import { initWithWorker } from '../../../../src/worker/WorkerZRender';
+
+function createWorker() {
+    const posted: any[] = [];
+    return {
+        posted,
+        postMessage(message: any) {
+            posted.push(message);
+        },
+        addEventListener() {},
+        removeEventListener() {}
+    } as unknown as Worker & { posted: any[] };
+}
+
+describe('WorkerZRender', function () {
+
+    const canvasProto = HTMLCanvasElement.prototype as any;
+
+    beforeAll(function () {
+        canvasProto.transferControlToOffscreen = function () {
+            return {};
+        };
+    });
+
+    afterAll(function () {
+        delete canvasProto.transferControlToOffscreen;
+    });
+
+    it('Should forward keyboard events of the focusable canvas', function () {
+        const dom = document.createElement('div');
+        const worker = createWorker();
+        const zr = initWithWorker(dom, worker, { width: 100, height: 100, tabIndex: 0 });
+        const canvas = dom.firstChild as HTMLCanvasElement;
+        expect(canvas.tabIndex).toBe(0);
+        expect(worker.posted[0].__zr).toBe('init');
+
+        canvas.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', keyCode: 9, which: 9, shiftKey: true }));
+        canvas.dispatchEvent(new KeyboardEvent('keyup', { key: 'Tab', keyCode: 9, which: 9 }));
+        expect(worker.posted.slice(1)).toEqual([{
+            __zr: 'key',
+            name: 'keydown',
+            event: {
+                type: 'keydown', key: 'Tab', code: '', keyCode: 9, which: 9, repeat: false,
+                ctrlKey: false, shiftKey: true, altKey: false, metaKey: false
+            }
+        }, {
+            __zr: 'key',
+            name: 'keyup',
+            event: {
+                type: 'keyup', key: 'Tab', code: '', keyCode: 9, which: 9, repeat: false,
+                ctrlKey: false, shiftKey: false, altKey: false, metaKey: false
+            }
+        }]);
+
+        zr.dispose();
+        expect(worker.posted.pop()).toEqual({ __zr: 'dispose' });
+    });
+
+    it('Should not be focusable by default', function () {
+        const dom = document.createElement('div');
+        const zr = initWithWorker(dom, createWorker(), { width: 100, height: 100 });
+        expect((dom.firstChild as HTMLCanvasElement).hasAttribute('tabindex')).toBe(false);
+        zr.dispose();
+    });
+});
@@ -0,0 +1,115 @@
+import { initInWorker, registerPainter, Rect, ZRenderType } from '../zrender';
+import RasterPainter from '../../../../src/raster/Painter';
+
+registerPainter('raster', RasterPainter);
+
+function createScope() {
+    const posted: any[] = [];
+    let listener: (e: any) => void;
+    return {
+        posted,
+        send(data: any) {
+            listener && listener({ data });
+        },
+        postMessage(message: any) {
+            posted.push(message);
+        },
+        addEventListener(type: 'message', cb: (e: any) => void) {
+            listener = cb;
+        },
+        removeEventListener() {
+            listener = null;
+        }
+    };
+}
+
+function pointer(name: string, x: number, y: number) {
+    return {
+        __zr: 'event',
+        name,
+        event: { type: name, zrX: x, zrY: y }
+    };
+}
+
+describe('initInWorker', function () {
+
+    it('Should drive the handler with forwarded events', function () {
+        const scope = createScope();
+        let zr: ZRenderType;
+        initInWorker(function (instance) {
+            zr = instance;
+        }, { renderer: 'raster' }, scope);
+
+        scope.send({ __zr: 'init', canvas: null, width: 100, height: 100, devicePixelRatio: 1 });
+        expect(zr.getWidth()).toBe(100);
+
+        const rect = new Rect({
+            name: 'rect',
+            shape: { x: 10, y: 10, width: 20, height: 20 },
+            style: { fill: '#000' },
+            cursor: 'pointer'
+        });
+        zr.add(rect);
+        zr.storage.getDisplayList(true);
+
+        let clicked = 0;
+        rect.on('click', function () {
+            clicked++;
+        });
+
+        scope.send(pointer('mousemove', 15, 15));
+        expect(scope.posted).toEqual([
+            { __zr: 'cursor', cursor: 'pointer' },
+            { __zr: 'hover', target: { id: rect.id, name: 'rect' } }
+        ]);
+
+        scope.send(pointer('mousedown', 15, 15));
+        scope.send(pointer('mouseup', 15, 15));
+        scope.send(pointer('click', 15, 15));
+        expect(clicked).toBe(1);
+
+        scope.posted.length = 0;
+        scope.send(pointer('mousemove', 50, 50));
+        expect(scope.posted).toEqual([
+            { __zr: 'cursor', cursor: 'default' },
+            { __zr: 'hover', target: null }
+        ]);
+
+        scope.send({ __zr: 'resize', width: 200, height: 50 });
+        expect(zr.getWidth()).toBe(200);
+
+        scope.send({ __zr: 'dispose' });
+        // Not handled after disposed.
+        scope.send(pointer('mousemove', 15, 15));
+        expect(scope.posted.length).toBe(2);
+    });
+
+    it('Should dispatch forwarded keyboard events to the focused element', function () {
+        const scope = createScope();
+        let zr: ZRenderType;
+        initInWorker(function (instance) {
+            zr = instance;
+        }, { renderer: 'raster' }, scope);
+        scope.send({ __zr: 'init', canvas: null, width: 100, height: 100, devicePixelRatio: 1 });
+
+        const rect1 = new Rect({ focusable: true, shape: { width: 10, height: 10 } });
+        const rect2 = new Rect({ focusable: true, shape: { x: 20, width: 10, height: 10 } });
+        zr.add(rect1);
+        zr.add(rect2);
+        zr.storage.getDisplayList(true);
+
+        const keys: string[] = [];
+        rect1.on('keydown', function (e) {
+            keys.push((e.event as any).key);
+        });
+        zr.handler.focus(rect1);
+        scope.send({ __zr: 'key', name: 'keydown', event: { type: 'keydown', key: 'a', keyCode: 65 } });
+        expect(keys).toEqual(['a']);
+
+        scope.send({ __zr: 'key', name: 'keydown', event: { type: 'keydown', key: 'Tab', keyCode: 9 } });
+        expect(zr.handler.getFocused()).toBe(rect2);
+
+        scope.send({ __zr: 'dispose' });
+    });
+
+});